@@ -12,8 +12,37 @@
  * 3. Add environment variable: PROXY_TOKEN (random string)
  * 4. Deploy the worker
  * 5. In the plugin UI, set the Worker URL and Proxy Token (do NOT bake into build)
+ *
+ * Error responses: { error, errorCode } — errorCode is one of the plugin's error codes
+ * (AUTH / DATABASE_NOT_SHARED / INVALID_ID / PROXY_MISCONFIGURED / PROXY_TOKEN_REJECTED / RATE_LIMITED / VALIDATION / UNKNOWN)
+ * Notion API errors are passed through with errorCode added.
+ * Retry-After of rate-limited (429) responses is passed through so the plugin can wait before retrying.
  */
 
+// Notion APIのエラーコードをプラグインのエラーコードに対応させる
+function toErrorCode(status, notionError) {
+  const message = (notionError && notionError.message) || '';
+  switch (notionError && notionError.code) {
+    case 'unauthorized':
+      return 'AUTH';
+    case 'restricted_resource':
+    case 'object_not_found':
+      return 'DATABASE_NOT_SHARED';
+    case 'rate_limited':
+      return 'RATE_LIMITED';
+    case 'validation_error':
+      return /valid uuid|path failed validation/i.test(message) ? 'INVALID_ID' : 'VALIDATION';
+    case 'invalid_json':
+    case 'invalid_request':
+      return 'VALIDATION';
+  }
+  if (status === 429) return 'RATE_LIMITED';
+  if (status === 401) return 'AUTH';
+  if (status === 404) return 'DATABASE_NOT_SHARED';
+  if (status === 400) return 'VALIDATION';
+  return 'UNKNOWN';
+}
+
 export default {
   async fetch(request, env, ctx) {
     // CORS - すべてのレスポンスに含める
@@ -22,8 +51,17 @@ export default {
       'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
       'Access-Control-Allow-Headers': 'Content-Type, Authorization, Notion-Version, Accept, X-Proxy-Token',
       'Access-Control-Max-Age': '86400',
+      // レート制限時にプラグインが待機時間を読めるようにする
+      'Access-Control-Expose-Headers': 'Retry-After',
     };
 
+    // プロキシ自身のエラー応答
+    const errorResponse = (status, error, errorCode) =>
+      new Response(JSON.stringify({ error, errorCode }), {
+        status,
+        headers: { 'Content-Type': 'application/json', ...corsHeaders }
+      });
+
     // プリフライトリクエスト（OPTIONS）を最優先で処理
     if (request.method === 'OPTIONS') {
       return new Response(null, { 
@@ -36,31 +74,19 @@ export default {
       // Require token for non-OPTIONS requests
       const providedToken = request.headers.get('X-Proxy-Token');
       if (!env || !env.PROXY_TOKEN) {
-        return new Response(JSON.stringify({ error: 'Server Misconfiguration: PROXY_TOKEN is not set' }), {
-          status: 500,
-          headers: { 'Content-Type': 'application/json', ...corsHeaders }
-        });
+        return errorResponse(500, 'Server Misconfiguration: PROXY_TOKEN is not set', 'PROXY_MISCONFIGURED');
       }
       if (!providedToken || providedToken !== env.PROXY_TOKEN) {
-        return new Response(JSON.stringify({ error: 'Unauthorized: invalid or missing X-Proxy-Token' }), {
-          status: 401,
-          headers: { 'Content-Type': 'application/json', ...corsHeaders }
-        });
+        return errorResponse(401, 'Unauthorized: invalid or missing X-Proxy-Token', 'PROXY_TOKEN_REJECTED');
       }
 
       if (request.method !== 'POST') {
-        return new Response(JSON.stringify({ error: 'Method Not Allowed' }), {
-          status: 405,
-          headers: { 'Content-Type': 'application/json', ...corsHeaders }
-        });
+        return errorResponse(405, 'Method Not Allowed', 'PROXY_MISCONFIGURED');
       }
 
       const contentType = request.headers.get('Content-Type') || '';
       if (!contentType.includes('application/json')) {
-        return new Response(JSON.stringify({ error: 'Unsupported Media Type' }), {
-          status: 415,
-          headers: { 'Content-Type': 'application/json', ...corsHeaders }
-        });
+        return errorResponse(415, 'Unsupported Media Type', 'PROXY_MISCONFIGURED');
       }
 
       const body = await request.json();
@@ -71,26 +97,17 @@ export default {
       const notionVersion = body.notionVersion || '2022-06-28';
 
       if (!apiKey) {
-        return new Response(JSON.stringify({ error: 'Missing apiKey' }), {
-          status: 400,
-          headers: { 'Content-Type': 'application/json', ...corsHeaders }
-        });
+        return errorResponse(400, 'Missing apiKey', 'VALIDATION');
       }
 
       if (!action) {
-        return new Response(JSON.stringify({ error: 'Missing action' }), {
-          status: 400,
-          headers: { 'Content-Type': 'application/json', ...corsHeaders }
-        });
+        return errorResponse(400, 'Missing action', 'VALIDATION');
       }
 
       let notionReq;
       if (action === 'query') {
         if (!databaseId) {
-          return new Response(JSON.stringify({ error: 'Missing databaseId' }), {
-            status: 400,
-            headers: { 'Content-Type': 'application/json', ...corsHeaders }
-          });
+          return errorResponse(400, 'Missing databaseId', 'VALIDATION');
         }
         const url = `https://api.notion.com/v1/databases/${databaseId}/query`;
         notionReq = new Request(url, {
@@ -104,10 +121,7 @@ export default {
         });
       } else if (action === 'retrievePage') {
         if (!pageId) {
-          return new Response(JSON.stringify({ error: 'Missing pageId' }), {
-            status: 400,
-            headers: { 'Content-Type': 'application/json', ...corsHeaders }
-          });
+          return errorResponse(400, 'Missing pageId', 'VALIDATION');
         }
         const url = `https://api.notion.com/v1/pages/${pageId}`;
         notionReq = new Request(url, {
@@ -117,24 +131,85 @@ export default {
             'Notion-Version': notionVersion
           }
         });
-      } else {
-        return new Response(JSON.stringify({ error: `Unsupported action: ${action}` }), {
-          status: 400,
-          headers: { 'Content-Type': 'application/json', ...corsHeaders }
+      } else if (action === 'retrieveDatabase') {
+        if (!databaseId) {
+          return errorResponse(400, 'Missing databaseId', 'VALIDATION');
+        }
+        const url = `https://api.notion.com/v1/databases/${databaseId}`;
+        notionReq = new Request(url, {
+          method: 'GET',
+          headers: {
+            'Authorization': `Bearer ${apiKey}`,
+            'Notion-Version': notionVersion
+          }
         });
+      } else if (action === 'createPage') {
+        if (!databaseId) {
+          return errorResponse(400, 'Missing databaseId', 'VALIDATION');
+        }
+        if (!body.properties) {
+          return errorResponse(400, 'Missing properties', 'VALIDATION');
+        }
+        const url = 'https://api.notion.com/v1/pages';
+        notionReq = new Request(url, {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${apiKey}`,
+            'Notion-Version': notionVersion,
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify({
+            parent: { database_id: databaseId },
+            properties: body.properties
+          })
+        });
+      } else if (action === 'updatePage') {
+        if (!pageId) {
+          return errorResponse(400, 'Missing pageId', 'VALIDATION');
+        }
+        if (!body.properties) {
+          return errorResponse(400, 'Missing properties', 'VALIDATION');
+        }
+        const url = `https://api.notion.com/v1/pages/${pageId}`;
+        notionReq = new Request(url, {
+          method: 'PATCH',
+          headers: {
+            'Authorization': `Bearer ${apiKey}`,
+            'Notion-Version': notionVersion,
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify({ properties: body.properties })
+        });
+      } else {
+        return errorResponse(400, `Unsupported action: ${action}`, 'VALIDATION');
       }
 
       const notionRes = await fetch(notionReq);
-      const text = await notionRes.text();
+      let text = await notionRes.text();
 
-      // 透過レスポンス
+      // エラーの場合はプラグイン側で対処方法を示せるよう errorCode を付ける
+      if (!notionRes.ok) {
+        try {
+          const notionError = JSON.parse(text);
+          text = JSON.stringify({ ...notionError, errorCode: toErrorCode(notionRes.status, notionError) });
+        } catch (e) {
+          text = JSON.stringify({ error: text, errorCode: toErrorCode(notionRes.status, null) });
+        }
+      }
+
+      // 透過レスポンス（429 の Retry-After も引き継ぐ）
+      const retryAfter = notionRes.headers.get('Retry-After');
       return new Response(text, {
         status: notionRes.status,
-        headers: { 'Content-Type': notionRes.headers.get('Content-Type') || 'application/json', ...corsHeaders }
+        headers: {
+          'Content-Type': notionRes.headers.get('Content-Type') || 'application/json',
+          ...(retryAfter ? { 'Retry-After': retryAfter } : {}),
+          ...corsHeaders
+        }
       });
     } catch (error) {
       return new Response(
-        JSON.stringify({ error: 'Proxy Error', message: error.message || 'Unknown error' }),
+        JSON.stringify({ error: 'Proxy Error', message: error.message || 'Unknown error', errorCode: 'UNKNOWN' }),
         { status: 500, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
       );
     }
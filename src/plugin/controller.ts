@@ -1,9 +1,13 @@
 // Figmaプラグインのメインコントローラー
-import { handleImportFromNotion } from './handlers/syncHandler';
-import { MessageType, ExportSettings } from '../shared/types';
+import { handleImportFromNotion, handlePreviewImport, handleRevertLastImport, requestCancelImport } from './handlers/syncHandler';
+import { MessageType, UIToPluginMessage, VariableCollectionSummary } from '../shared/types';
 import { logger } from '../shared/logger';
+import { getErrorCode } from '../shared/errors';
 import { obfuscateApiKey, deobfuscateApiKey } from '../shared/security';
-import { exportToDesignTokens } from './utils/exportUtils';
+import { exportToDesignTokens, exportToNotionVariables } from './utils/exportUtils';
+import { loadSyncHistory, recordSyncHistory } from './utils/syncHistory';
+import { getLastImportInfo } from './utils/importSnapshot';
+import { createReply, postToUI, Reply } from './utils/messaging';
 
 // UIを表示
 figma.showUI(__html__, {
@@ -208,96 +212,132 @@ async function saveAllData(data: any): Promise<void> {
   }
 }
 
+// コレクション一覧（UIのコレクション選択用）
+async function getCollectionSummaries(): Promise<VariableCollectionSummary[]> {
+  const collections = await figma.variables.getLocalVariableCollectionsAsync();
+  return collections.map(c => ({
+    id: c.id,
+    name: c.name,
+    modes: c.modes,
+    variableIds: c.variableIds
+  }));
+}
+
+// コレクション一覧をUIへ送信
+async function postCollectionsData(reply: Reply = postToUI): Promise<void> {
+  reply({
+    type: MessageType.COLLECTIONS_DATA,
+    data: { collections: await getCollectionSummaries() }
+  });
+}
+
 // 起動時の初期化
 async function initialize() {
   try {
     console.log('🚀 Plugin starting...');
     const savedData = await loadAllData();
     console.log('📦 Loaded data:', savedData);
-    const collections = await figma.variables.getLocalVariableCollectionsAsync();
-    const collectionsData = collections.map(c => ({
-      id: c.id,
-      name: c.name,
-      modes: c.modes,
-      variableIds: c.variableIds
-    }));
+    const collections = await getCollectionSummaries();
     
-    figma.ui.postMessage({
-      type: 'INIT_DATA',
-      savedData: savedData,
-      collections: collectionsData
+    postToUI({
+      type: MessageType.INIT_DATA,
+      data: { savedData, collections }
     });
     
-    figma.ui.postMessage({
+    postToUI({
       type: MessageType.COLLECTIONS_DATA,
-      data: { collections: collectionsData }
+      data: { collections }
     });
   } catch (error) {
     logger.error('❌ Initialization error:', error);
   }
 }
 
-// メッセージハンドラー
-figma.ui.onmessage = async (msg: any) => {
+// メッセージハンドラー（応答にはリクエストと同じ requestId を付ける）
+figma.ui.onmessage = async (msg: UIToPluginMessage) => {
+  const reply = createReply(msg.requestId);
   try {
     switch (msg.type) {
-      case 'SAVE_DATA':
+      case MessageType.SAVE_DATA:
         await saveAllData(msg.data);
-        figma.ui.postMessage({
-          type: 'SAVE_COMPLETE',
-          success: true
+        reply({
+          type: MessageType.SAVE_COMPLETE,
+          data: { success: true }
         });
         break;
         
-      case 'LOAD_DATA':
-        const loadedData = await loadAllData();
-        figma.ui.postMessage({
-          type: 'LOAD_DATA_RESPONSE',
-          data: loadedData
+      case MessageType.LOAD_DATA:
+        reply({
+          type: MessageType.LOAD_DATA_RESPONSE,
+          data: await loadAllData()
         });
         break;
         
       case MessageType.IMPORT_FROM_NOTION:
-        if (msg.formData) {
-          await saveAllData(msg.formData);
-        }
-        await handleImportFromNotion(msg.data);
+        await handleImportFromNotion(msg.data, reply);
+        break;
+        
+      case MessageType.CANCEL_IMPORT:
+        requestCancelImport(msg.data.runId);
+        break;
+        
+      case MessageType.PREVIEW_IMPORT:
+        await handlePreviewImport(msg.data, reply);
         break;
         
       case MessageType.GET_COLLECTIONS:
-        const collections = await figma.variables.getLocalVariableCollectionsAsync();
-        const collectionsData = collections.map(c => ({
-          id: c.id,
-          name: c.name,
-          modes: c.modes,
-          variableIds: c.variableIds
-        }));
-        figma.ui.postMessage({
-          type: MessageType.COLLECTIONS_DATA,
-          data: { collections: collectionsData }
+        await postCollectionsData(reply);
+        break;
+        
+      case MessageType.GET_LAST_IMPORT:
+        reply({
+          type: MessageType.LAST_IMPORT,
+          data: { lastImport: getLastImportInfo() }
         });
         break;
+        
+      case MessageType.REVERT_LAST_IMPORT:
+        await handleRevertLastImport(reply);
+        // 新規作成したコレクションを削除した場合があるため一覧を更新（全体への通知）
+        await postCollectionsData();
+        break;
       
       case MessageType.EXPORT_VARIABLES:
         try {
-          const exportSettings = msg.data as ExportSettings;
+          const exportSettings = msg.data;
           logger.log(`📤 Exporting variables for ${exportSettings.collectionIds.length} collections`);
           
-          const result = await exportToDesignTokens(exportSettings.collectionIds);
+          const result = await exportToDesignTokens(exportSettings.collectionIds, {
+            modeFormat: exportSettings.modeFormat,
+            includeStyles: exportSettings.includeStyles
+          });
           
-          figma.ui.postMessage({
+          reply({
             type: MessageType.EXPORT_RESULT,
             data: {
               success: true,
               json: result.json,
-              tokenCount: result.tokenCount
+              tokenCount: result.tokenCount,
+              files: result.files
             }
           });
           
           logger.log(`✅ Export completed: ${result.tokenCount} tokens`);
+          
+          const exportedCollections = (await figma.variables.getLocalVariableCollectionsAsync())
+            .filter(c => exportSettings.collectionIds.includes(c.id));
+          recordSyncHistory({
+            kind: 'export',
+            collectionName: exportedCollections.map(c => c.name).join(', '),
+            created: [],
+            updated: [],
+            deleted: [],
+            errors: [],
+            tokenCount: result.tokenCount
+          });
         } catch (exportError) {
           logger.error('❌ Export error:', exportError);
-          figma.ui.postMessage({
+          reply({
             type: MessageType.EXPORT_RESULT,
             data: {
               success: false,
@@ -307,16 +347,36 @@ figma.ui.onmessage = async (msg: any) => {
         }
         break;
         
+      case MessageType.GET_NOTION_PUSH_DATA:
+        reply({
+          type: MessageType.NOTION_PUSH_DATA,
+          data: await exportToNotionVariables(msg.data.collectionId)
+        });
+        break;
+        
+      case MessageType.GET_SYNC_HISTORY:
+        reply({
+          type: MessageType.SYNC_HISTORY,
+          data: { entries: loadSyncHistory() }
+        });
+        break;
+        
+      // UI側で実行した同期（Notionへのプッシュ）の記録
+      case MessageType.RECORD_SYNC_HISTORY:
+        recordSyncHistory(msg.data);
+        break;
+        
       case MessageType.CLOSE_PLUGIN:
         figma.closePlugin();
         break;
     }
   } catch (error) {
     logger.error('❌ Message handler error:', error);
-    figma.ui.postMessage({
+    reply({
       type: MessageType.ERROR,
       data: {
-        message: error instanceof Error ? error.message : 'エラーが発生しました'
+        message: error instanceof Error ? error.message : 'エラーが発生しました',
+        code: getErrorCode(error)
       }
     });
   }
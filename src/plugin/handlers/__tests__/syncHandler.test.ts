@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { handleImportFromNotion } from '../syncHandler';
+import { handleImportFromNotion, handlePreviewImport, requestCancelImport } from '../syncHandler';
 import { VariableType } from '../../../shared/types';
+import { createReply } from '../../utils/messaging';
 
 // Figma APIモックの拡張
 const mockVariableCollection = {
@@ -11,7 +12,7 @@ const mockVariableCollection = {
   renameMode: vi.fn(),
 };
 
-const mockVariable = (name: string, type: string = 'STRING', value: unknown = 'test') => ({
+const mockVariable = (name: string, type: string = 'STRING', value: unknown = 'test', pluginData: Record<string, string> = {}) => ({
   id: `var-${name}`,
   name,
   resolvedType: type,
@@ -19,12 +20,25 @@ const mockVariable = (name: string, type: string = 'STRING', value: unknown = 't
   valuesByMode: { 'mode-1': value },
   setValueForMode: vi.fn(),
   remove: vi.fn(),
+  getPluginData: vi.fn((key: string) => pluginData[key] ?? ''),
+  setPluginData: vi.fn((key: string, data: string) => { pluginData[key] = data; }),
   description: '',
+  hiddenFromPublishing: false,
+  scopes: ['ALL_SCOPES'],
+  codeSyntax: {},
+  setVariableCodeSyntax: vi.fn(),
+  removeVariableCodeSyntax: vi.fn(),
 });
 
 describe('syncHandler', () => {
+  // figma.root のプラグインデータをメモリ上で再現
+  let rootData: Record<string, string> = {};
+
   beforeEach(() => {
     vi.clearAllMocks();
+    rootData = {};
+    (figma.root.getPluginData as ReturnType<typeof vi.fn>).mockImplementation((key: string) => rootData[key] ?? '');
+    (figma.root.setPluginData as ReturnType<typeof vi.fn>).mockImplementation((key: string, value: string) => { rootData[key] = value; });
     
     // Figma APIモックの設定
     (figma.variables.getLocalVariableCollectionsAsync as ReturnType<typeof vi.fn>).mockResolvedValue([
@@ -58,6 +72,7 @@ describe('syncHandler', () => {
           type: 'ERROR',
           data: expect.objectContaining({
             message: 'インポートするデータが見つかりませんでした。',
+            code: 'VALIDATION',
           }),
         })
       );
@@ -180,6 +195,103 @@ describe('syncHandler', () => {
       );
     });
 
+    it('should record created, updated and deleted variables in the sync history', async () => {
+      const existingVar = mockVariable('color-blue', 'COLOR');
+      const removedVar = mockVariable('old-color', 'COLOR');
+      (figma.variables.getLocalVariablesAsync as ReturnType<typeof vi.fn>).mockResolvedValue([existingVar, removedVar]);
+
+      await handleImportFromNotion({
+        apiKey: 'test-api-key',
+        databaseId: 'test-db-id',
+        collectionName: 'Test Collection',
+        createNewCollection: false,
+        overwriteExisting: true,
+        deleteRemovedVariables: true,
+        mappings: [],
+        variables: [
+          { id: 'var-1', name: 'color-blue', value: '#0000FF', type: VariableType.COLOR },
+          { id: 'var-2', name: 'color-red', value: '#FF0000', type: VariableType.COLOR },
+        ],
+      });
+
+      const [, json] = (figma.root.setPluginData as ReturnType<typeof vi.fn>).mock.calls.find(([key]) => key === 'syncHistory')!;
+      expect(JSON.parse(json)[0]).toMatchObject({
+        kind: 'import',
+        databaseId: 'test-db-id',
+        collectionName: 'Test Collection',
+        created: ['color-red'],
+        updated: ['color-blue'],
+        deleted: ['old-color'],
+        errors: [],
+      });
+    });
+
+    it('should save a snapshot of the collection before changing it', async () => {
+      const existingVar = mockVariable('color-blue', 'COLOR', { r: 0, g: 0, b: 1, a: 1 });
+      (figma.variables.getLocalVariablesAsync as ReturnType<typeof vi.fn>).mockResolvedValue([existingVar]);
+
+      await handleImportFromNotion({
+        apiKey: 'test-api-key',
+        databaseId: 'test-db-id',
+        collectionName: 'Test Collection',
+        createNewCollection: false,
+        overwriteExisting: true,
+        mappings: [],
+        runId: 'run-1',
+        variables: [
+          { id: 'var-1', name: 'color-blue', value: '#FF0000', type: VariableType.COLOR },
+          { id: 'var-2', name: 'color-red', value: '#FF0000', type: VariableType.COLOR },
+        ],
+      });
+
+      expect(JSON.parse(rootData.lastImportSnapshot)).toEqual([
+        expect.objectContaining({
+          runId: 'run-1',
+          collectionId: 'collection-1',
+          createdCollection: false,
+          variables: [expect.objectContaining({ id: 'var-color-blue', valuesByMode: { 'mode-1': { r: 0, g: 0, b: 1, a: 1 } } })],
+          // 元に戻す場合は作成した変数のみ削除する
+          createdVariableIds: ['var-color-red'],
+        }),
+      ]);
+      expect(existingVar.setValueForMode).toHaveBeenCalledWith('mode-1', expect.objectContaining({ r: 1, g: 0, b: 0 }));
+      expect(figma.ui.postMessage).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'SUCCESS',
+          data: expect.objectContaining({ message: expect.not.stringContaining('元に戻せません') }),
+        })
+      );
+    });
+
+    it('should report that the import cannot be reverted when the snapshot cannot be saved', async () => {
+      rootData.lastImportSnapshot = JSON.stringify([{ runId: 'run-0', collectionId: 'collection-1', variables: [] }]);
+      (figma.root.setPluginData as ReturnType<typeof vi.fn>).mockImplementation((key: string, value: string) => {
+        if (key === 'lastImportSnapshot' && value.length > 0) throw new Error('Plugin data too large');
+        rootData[key] = value;
+      });
+
+      await handleImportFromNotion({
+        apiKey: 'test-api-key',
+        databaseId: 'test-db-id',
+        collectionName: 'Test Collection',
+        createNewCollection: false,
+        overwriteExisting: true,
+        mappings: [],
+        runId: 'run-1',
+        variables: [{ id: 'var-1', name: 'color-blue', value: '#FF0000', type: VariableType.COLOR }],
+      });
+
+      // 前回のインポートのスナップショットは削除し、インポートは続行する
+      expect(rootData.lastImportSnapshot).toBe('');
+      expect(figma.variables.createVariable).toHaveBeenCalled();
+      expect(figma.ui.postMessage).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'SUCCESS',
+          data: expect.objectContaining({ message: expect.stringContaining('このインポートは元に戻せません') }),
+        })
+      );
+    });
+
     it('should not delete variables when deleteRemovedVariables is false', async () => {
       const existingVarNotInNotion = mockVariable('old-color', 'COLOR');
       existingVarNotInNotion.variableCollectionId = 'collection-1';
@@ -311,6 +423,517 @@ describe('syncHandler', () => {
       );
     });
 
+    it('should add missing modes and set values for each mapped mode', async () => {
+      const modes = [{ modeId: 'mode-1', name: 'Default' }];
+      const multiModeCollection = {
+        ...mockVariableCollection,
+        modes,
+        addMode: vi.fn((name: string) => {
+          const modeId = `mode-${name}`;
+          modes.push({ modeId, name });
+          return modeId;
+        }),
+      };
+      (figma.variables.getLocalVariableCollectionsAsync as ReturnType<typeof vi.fn>).mockResolvedValue([
+        multiModeCollection,
+      ]);
+      const created: ReturnType<typeof mockVariable>[] = [];
+      (figma.variables.createVariable as ReturnType<typeof vi.fn>).mockImplementation((name, _collection, type) => {
+        const v = mockVariable(name, type);
+        created.push(v);
+        return v;
+      });
+
+      const settings = {
+        apiKey: 'test-api-key',
+        databaseId: 'test-db-id',
+        collectionName: 'Test Collection',
+        createNewCollection: false,
+        overwriteExisting: true,
+        mappings: [],
+        variables: [
+          {
+            id: 'var-1',
+            name: 'background',
+            value: '#FFFFFF',
+            valuesByMode: { Light: '#FFFFFF', Dark: '#000000' },
+            type: VariableType.COLOR,
+          },
+        ],
+      };
+
+      await handleImportFromNotion(settings);
+
+      expect(multiModeCollection.addMode).toHaveBeenCalledWith('Light');
+      expect(multiModeCollection.addMode).toHaveBeenCalledWith('Dark');
+      expect(created).toHaveLength(1);
+      expect(created[0].setValueForMode).toHaveBeenCalledWith('mode-1', { r: 1, g: 1, b: 1, a: 1 });
+      expect(created[0].setValueForMode).toHaveBeenCalledWith('mode-Light', { r: 1, g: 1, b: 1, a: 1 });
+      expect(created[0].setValueForMode).toHaveBeenCalledWith('mode-Dark', { r: 0, g: 0, b: 0, a: 1 });
+    });
+
+    it('should report modes that cannot be added and import the other modes', async () => {
+      const modes = [{ modeId: 'mode-1', name: 'Default' }];
+      const limitedCollection = {
+        ...mockVariableCollection,
+        modes,
+        addMode: vi.fn((name: string) => {
+          if (name === 'Dark') throw new Error('Limited to 2 modes only');
+          const modeId = `mode-${name}`;
+          modes.push({ modeId, name });
+          return modeId;
+        }),
+      };
+      (figma.variables.getLocalVariableCollectionsAsync as ReturnType<typeof vi.fn>).mockResolvedValue([
+        limitedCollection,
+      ]);
+      const created: ReturnType<typeof mockVariable>[] = [];
+      (figma.variables.createVariable as ReturnType<typeof vi.fn>).mockImplementation((name, _collection, type) => {
+        const v = mockVariable(name, type);
+        created.push(v);
+        return v;
+      });
+
+      await handleImportFromNotion({
+        apiKey: 'test-api-key',
+        databaseId: 'test-db-id',
+        collectionName: 'Test Collection',
+        createNewCollection: false,
+        overwriteExisting: true,
+        mappings: [],
+        variables: [
+          {
+            id: 'var-1',
+            name: 'background',
+            value: '#FFFFFF',
+            valuesByMode: { Light: '#FFFFFF', Dark: '#000000' },
+            type: VariableType.COLOR,
+          },
+        ],
+      });
+
+      expect(created).toHaveLength(1);
+      expect(created[0].setValueForMode).toHaveBeenCalledWith('mode-Light', { r: 1, g: 1, b: 1, a: 1 });
+      expect(created[0].setValueForMode).not.toHaveBeenCalledWith('mode-Dark', expect.anything());
+      expect(figma.ui.postMessage).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'SUCCESS',
+          data: expect.objectContaining({
+            details: expect.objectContaining({
+              imported: 1,
+              errors: 1,
+              importErrors: [{ name: 'モード "Dark"', reason: expect.stringContaining('Limited to 2 modes only') }],
+            }),
+          }),
+        })
+      );
+    });
+
+    it('should skip variables and deletions excluded in the preview', async () => {
+      const keepVar = mockVariable('old-keep', 'COLOR');
+      const dropVar = mockVariable('old-drop', 'COLOR');
+      (figma.variables.getLocalVariablesAsync as ReturnType<typeof vi.fn>).mockResolvedValue([keepVar, dropVar]);
+
+      const settings = {
+        apiKey: 'test-api-key',
+        databaseId: 'test-db-id',
+        collectionName: 'Test Collection',
+        createNewCollection: false,
+        overwriteExisting: true,
+        deleteRemovedVariables: true,
+        mappings: [],
+        excludedChangeKeys: ['notion-skip', keepVar.id],
+        variables: [
+          { id: 'notion-skip', name: 'skipped', value: '#FF0000', type: VariableType.COLOR },
+          { id: 'notion-new', name: 'created', value: '#00FF00', type: VariableType.COLOR },
+        ],
+      };
+
+      await handleImportFromNotion(settings);
+
+      expect(figma.variables.createVariable).toHaveBeenCalledTimes(1);
+      expect(figma.variables.createVariable).toHaveBeenCalledWith('created', expect.anything(), 'COLOR');
+      expect(keepVar.remove).not.toHaveBeenCalled();
+      expect(dropVar.remove).toHaveBeenCalled();
+      expect(figma.ui.postMessage).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'SUCCESS',
+          data: expect.objectContaining({
+            details: expect.objectContaining({ imported: 1, skipped: 1, deleted: 1 }),
+          }),
+        })
+      );
+    });
+
+    it('should rename the variable linked by Notion page ID instead of recreating it', async () => {
+      const linkedVar = mockVariable('Color/Brand', 'COLOR', { r: 0, g: 0, b: 0, a: 1 }, { notionPageId: 'notion-primary' });
+      (figma.variables.getLocalVariablesAsync as ReturnType<typeof vi.fn>).mockResolvedValue([linkedVar]);
+
+      await handleImportFromNotion({
+        apiKey: 'test-api-key',
+        databaseId: 'test-db-id',
+        collectionName: 'Test Collection',
+        createNewCollection: false,
+        overwriteExisting: true,
+        deleteRemovedVariables: true,
+        mappings: [],
+        variables: [
+          { id: 'notion-primary', name: 'Primary', group: 'Color', value: '#FFFFFF', type: VariableType.COLOR },
+        ],
+      });
+
+      expect(figma.variables.createVariable).not.toHaveBeenCalled();
+      expect(linkedVar.name).toBe('Color/Primary');
+      expect(linkedVar.remove).not.toHaveBeenCalled();
+      expect(linkedVar.setValueForMode).toHaveBeenCalledWith('mode-1', { r: 1, g: 1, b: 1, a: 1 });
+      expect(linkedVar.setPluginData).toHaveBeenCalledWith('notionPageId', 'notion-primary');
+    });
+
+    it('should not match by name a variable linked to another imported page', async () => {
+      // notion-old は "A" から "B" に改名され、同時に新しいページ "A" が追加されたケース
+      const linkedVar = mockVariable('A', 'STRING', 'old', { notionPageId: 'notion-old' });
+      (figma.variables.getLocalVariablesAsync as ReturnType<typeof vi.fn>).mockResolvedValue([linkedVar]);
+
+      await handleImportFromNotion({
+        apiKey: 'test-api-key',
+        databaseId: 'test-db-id',
+        collectionName: 'Test Collection',
+        createNewCollection: false,
+        overwriteExisting: true,
+        mappings: [],
+        variables: [
+          { id: 'notion-old', name: 'B', value: 'renamed', type: VariableType.STRING },
+          { id: 'notion-new', name: 'A', value: 'new', type: VariableType.STRING },
+        ],
+      });
+
+      expect(linkedVar.name).toBe('B');
+      expect(figma.variables.createVariable).toHaveBeenCalledTimes(1);
+      expect(figma.variables.createVariable).toHaveBeenCalledWith('A', expect.anything(), 'STRING');
+    });
+
+    it('should skip circular aliases and import targets before the aliases that use them', async () => {
+      await handleImportFromNotion({
+        apiKey: 'test-api-key',
+        databaseId: 'test-db-id',
+        collectionName: 'Test Collection',
+        createNewCollection: false,
+        overwriteExisting: true,
+        mappings: [],
+        variables: [
+          { id: 'notion-a', name: 'A', value: '{B}', type: '' as VariableType },
+          { id: 'notion-b', name: 'B', value: '{A}', type: '' as VariableType },
+          { id: 'notion-brand', name: 'brand', value: '{base}', type: '' as VariableType },
+          { id: 'notion-base', name: 'base', value: '#0066FF', type: VariableType.COLOR },
+        ],
+      });
+
+      const createdNames = (figma.variables.createVariable as ReturnType<typeof vi.fn>).mock.calls.map(call => call[0]);
+      expect(createdNames).toEqual(['base', 'brand']);
+      expect(figma.ui.postMessage).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'SUCCESS',
+          data: expect.objectContaining({
+            details: expect.objectContaining({
+              imported: 2,
+              errors: 2,
+              importErrors: [
+                { name: 'A', reason: '循環参照しています（A → B → A）' },
+                { name: 'B', reason: '循環参照しています（A → B → A）' },
+              ],
+            }),
+          }),
+        })
+      );
+    });
+
+    it('should resolve only exact or collection-qualified aliases in strict mode', async () => {
+      const primitives = { ...mockVariableCollection, id: 'collection-2', name: 'Primitives' };
+      const brand = { ...mockVariableCollection, id: 'collection-3', name: 'Brand' };
+      const primitiveWhite = { ...mockVariable('Color/White', 'COLOR', { r: 1, g: 1, b: 1, a: 1 }), id: 'prim-white', variableCollectionId: 'collection-2' };
+      const brandWhite = { ...mockVariable('Color/White', 'COLOR', { r: 1, g: 1, b: 1, a: 1 }), id: 'brand-white', variableCollectionId: 'collection-3' };
+      (figma.variables.getLocalVariableCollectionsAsync as ReturnType<typeof vi.fn>).mockResolvedValue([
+        mockVariableCollection, primitives, brand,
+      ]);
+      (figma.variables.getLocalVariablesAsync as ReturnType<typeof vi.fn>).mockResolvedValue([primitiveWhite, brandWhite]);
+      const created: ReturnType<typeof mockVariable>[] = [];
+      (figma.variables.createVariable as ReturnType<typeof vi.fn>).mockImplementation((name, _collection, type) => {
+        const variable = mockVariable(name, type);
+        created.push(variable);
+        return variable;
+      });
+
+      await handleImportFromNotion({
+        apiKey: 'test-api-key',
+        databaseId: 'test-db-id',
+        collectionName: 'Test Collection',
+        createNewCollection: false,
+        overwriteExisting: true,
+        strictAliasResolution: true,
+        mappings: [],
+        variables: [
+          { id: 'notion-bg', name: 'Background', value: '{Brand:Color/White}', type: '' as VariableType },
+          { id: 'notion-surface', name: 'Surface', value: '{White}||#eeeeee', type: '' as VariableType },
+        ],
+      });
+
+      const [background, surface] = created;
+      expect(background.setValueForMode).toHaveBeenCalledWith('mode-1', { type: 'VARIABLE_ALIAS', id: 'brand-white' });
+      // 末尾一致では解決せず、フォールバック値で作成する
+      expect(surface.setValueForMode).not.toHaveBeenCalledWith('mode-1', expect.objectContaining({ type: 'VARIABLE_ALIAS' }));
+      expect(figma.ui.postMessage).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'SUCCESS',
+          data: expect.objectContaining({
+            details: expect.objectContaining({
+              importErrors: [
+                {
+                  name: 'Surface',
+                  reason: '参照先 "White" が見つかりません（候補: Primitives:Color/White, Brand:Color/White）（フォールバック値を使用します）',
+                },
+              ],
+            }),
+          }),
+        })
+      );
+    });
+
+    it('should import typography tokens as text styles bound to the imported variables', async () => {
+      const textStyle = { name: '', setBoundVariable: vi.fn(), setPluginData: vi.fn(), getPluginData: vi.fn().mockReturnValue('') };
+      (figma.createTextStyle as ReturnType<typeof vi.fn>).mockReturnValue(textStyle);
+      (figma.getLocalTextStylesAsync as ReturnType<typeof vi.fn>).mockResolvedValue([]);
+      (figma.listAvailableFontsAsync as ReturnType<typeof vi.fn>).mockResolvedValue([
+        { fontName: { family: 'Inter', style: 'Regular' } },
+      ]);
+      const created: ReturnType<typeof mockVariable>[] = [];
+      (figma.variables.createVariable as ReturnType<typeof vi.fn>).mockImplementation((name, _collection, type) => {
+        const variable = mockVariable(name, type, 16);
+        created.push(variable);
+        return variable;
+      });
+
+      await handleImportFromNotion({
+        apiKey: 'test-api-key',
+        databaseId: 'test-db-id',
+        collectionName: 'Test Collection',
+        createNewCollection: false,
+        overwriteExisting: true,
+        mappings: [],
+        variables: [
+          {
+            id: 'notion-body',
+            name: 'Body',
+            value: '',
+            type: '' as VariableType,
+            composite: { type: 'TYPOGRAPHY', value: { fontFamily: 'Inter', fontSize: '{Size/Base}' } },
+          },
+          { id: 'notion-size', name: 'Base', group: 'Size', value: 16, type: VariableType.NUMBER },
+        ],
+      });
+
+      // 複合トークンはVariableとして作成しない
+      expect(created.map(v => v.name)).toEqual(['Size/Base']);
+      expect(textStyle).toMatchObject({ name: 'Body', fontSize: 16 });
+      expect(textStyle.setBoundVariable).toHaveBeenCalledWith('fontSize', created[0]);
+      expect(figma.ui.postMessage).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'SUCCESS',
+          data: expect.objectContaining({
+            details: expect.objectContaining({ imported: 2, errors: 0, total: 2 }),
+          }),
+        })
+      );
+    });
+
+    it('should convert numbers with units to px and keep the original value in plugin data', async () => {
+      await handleImportFromNotion({
+        apiKey: 'test-api-key',
+        databaseId: 'test-db-id',
+        collectionName: 'Test Collection',
+        createNewCollection: false,
+        overwriteExisting: true,
+        mappings: [],
+        unitConversion: { rootFontSize: 10, ptToPx: 4 / 3, percentage: 'ratio' },
+        variables: [
+          { id: 'n-rem', name: 'Large', group: 'Spacing', value: '1.5rem', type: VariableType.NUMBER },
+          { id: 'n-pt', name: 'Body', group: 'Size', value: '12pt', type: VariableType.NUMBER },
+          { id: 'n-percent', name: 'Half', group: 'Opacity', value: '50%', type: VariableType.NUMBER },
+          { id: 'n-vh', name: 'Screen', group: 'Size', value: '100vh', type: VariableType.NUMBER },
+        ],
+      });
+
+      const created = (figma.variables.createVariable as ReturnType<typeof vi.fn>).mock.results.map(r => r.value);
+      const byName = (name: string) => created.find(v => v.name === name);
+      expect(byName('Spacing/Large').setValueForMode).toHaveBeenCalledWith('mode-1', 15);
+      expect(byName('Spacing/Large').setPluginData).toHaveBeenCalledWith(
+        'notionOriginalValue',
+        JSON.stringify({ 'mode-1': { original: '1.5rem', value: 15 } })
+      );
+      expect(byName('Size/Body').setValueForMode).toHaveBeenCalledWith('mode-1', 16);
+      expect(byName('Opacity/Half').setValueForMode).toHaveBeenCalledWith('mode-1', 0.5);
+      // 換算できない単位はエラーとして報告する（変数は作成しない）
+      expect(byName('Size/Screen')).toBeUndefined();
+      expect(figma.ui.postMessage).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'SUCCESS',
+          data: expect.objectContaining({
+            details: expect.objectContaining({ imported: 3, errors: 1 }),
+          }),
+        })
+      );
+    });
+
+    it('should report colors that cannot be parsed instead of writing black', async () => {
+      await handleImportFromNotion({
+        apiKey: 'test-api-key',
+        databaseId: 'test-db-id',
+        collectionName: 'Test Collection',
+        createNewCollection: false,
+        overwriteExisting: true,
+        mappings: [],
+        variables: [
+          { id: 'n-wide', name: 'Wide', group: 'Color', value: 'oklch(62.8% 0.2577 29.23)', type: VariableType.COLOR },
+          { id: 'n-broken', name: 'Broken', group: 'Color', value: 'reddish', type: VariableType.COLOR },
+        ],
+      });
+
+      const created = (figma.variables.createVariable as ReturnType<typeof vi.fn>).mock.results.map(r => r.value);
+      const [wide] = (created.find(v => v.name === 'Color/Wide').setValueForMode as ReturnType<typeof vi.fn>).mock.calls[0].slice(1);
+      expect(wide.r).toBeCloseTo(1, 3);
+      expect(wide.g).toBeCloseTo(0, 3);
+      // 値を読み取れない行は変数を作成しない
+      expect(created.find(v => v.name === 'Color/Broken')).toBeUndefined();
+      expect(figma.ui.postMessage).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'SUCCESS',
+          data: expect.objectContaining({
+            details: expect.objectContaining({ imported: 1, errors: 1 }),
+          }),
+        })
+      );
+    });
+
+    it('should set scopes and code syntax and reject scopes that do not match the type', async () => {
+      await handleImportFromNotion({
+        apiKey: 'test-api-key',
+        databaseId: 'test-db-id',
+        collectionName: 'Test Collection',
+        createNewCollection: false,
+        overwriteExisting: true,
+        mappings: [],
+        variables: [
+          { id: 'n-radius', name: 'Small', group: 'Radius', value: 4, type: VariableType.NUMBER, scopes: ['CORNER_RADIUS'], codeSyntax: { WEB: 'var(--radius-small)' } },
+          { id: 'n-primary', name: 'Primary', group: 'Color', value: '#0000FF', type: VariableType.COLOR, scopes: ['GAP'] },
+        ],
+      });
+
+      const created = (figma.variables.createVariable as ReturnType<typeof vi.fn>).mock.results.map(r => r.value);
+      const radius = created.find(v => v.name === 'Radius/Small');
+      expect(radius.scopes).toEqual(['CORNER_RADIUS']);
+      expect(radius.setVariableCodeSyntax).toHaveBeenCalledWith('WEB', 'var(--radius-small)');
+      // 不正なスコープの行は変数を作成しない
+      expect(created.find(v => v.name === 'Color/Primary')).toBeUndefined();
+      expect(figma.ui.postMessage).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'SUCCESS',
+          data: expect.objectContaining({
+            details: expect.objectContaining({ imported: 1, errors: 1 }),
+          }),
+        })
+      );
+    });
+
+    it('should keep the existing variable when a type-changing row has an invalid scope', async () => {
+      const existing = mockVariable('Color/Primary', 'STRING', 'blue', { notionPageId: 'n-primary' });
+      (figma.variables.getLocalVariablesAsync as ReturnType<typeof vi.fn>).mockResolvedValue([existing]);
+
+      await handleImportFromNotion({
+        apiKey: 'test-api-key',
+        databaseId: 'test-db-id',
+        collectionName: 'Test Collection',
+        createNewCollection: false,
+        overwriteExisting: true,
+        mappings: [],
+        variables: [
+          { id: 'n-primary', name: 'Brand', group: 'Color', value: '#0000FF', type: VariableType.COLOR, scopes: ['GAP'] },
+        ],
+      });
+
+      // 型変更による削除・再作成・リネームを行わない
+      expect(existing.remove).not.toHaveBeenCalled();
+      expect(existing.name).toBe('Color/Primary');
+      expect(figma.variables.createVariable).not.toHaveBeenCalled();
+      expect(figma.ui.postMessage).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'SUCCESS',
+          data: expect.objectContaining({
+            details: expect.objectContaining({ imported: 0, errors: 1 }),
+          }),
+        })
+      );
+    });
+
+    it('should keep the existing variable when a mode value of a type-changing row is invalid', async () => {
+      const existing = mockVariable('Color/Primary', 'STRING', 'blue', { notionPageId: 'n-primary' });
+      (figma.variables.getLocalVariablesAsync as ReturnType<typeof vi.fn>).mockResolvedValue([existing]);
+
+      await handleImportFromNotion({
+        apiKey: 'test-api-key',
+        databaseId: 'test-db-id',
+        collectionName: 'Test Collection',
+        createNewCollection: false,
+        overwriteExisting: true,
+        mappings: [],
+        variables: [
+          { id: 'n-primary', name: 'Brand', group: 'Color', value: '#0000FF', valuesByMode: { Default: 'not-a-color' }, type: VariableType.COLOR },
+        ],
+      });
+
+      expect(existing.remove).not.toHaveBeenCalled();
+      expect(existing.name).toBe('Color/Primary');
+      expect(figma.variables.createVariable).not.toHaveBeenCalled();
+      expect(figma.ui.postMessage).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'SUCCESS',
+          data: expect.objectContaining({
+            details: expect.objectContaining({ imported: 0, errors: 1 }),
+          }),
+        })
+      );
+    });
+
+    it('should mark deprecated tokens and list them in the summary', async () => {
+      await handleImportFromNotion({
+        apiKey: 'test-api-key',
+        databaseId: 'test-db-id',
+        collectionName: 'Test Collection',
+        createNewCollection: false,
+        overwriteExisting: true,
+        mappings: [],
+        variables: [
+          { id: 'n-old', name: 'Old', group: 'Color', value: '#0000FF', type: VariableType.COLOR, description: 'Use Primary', deprecated: true, hiddenFromPublishing: true },
+          { id: 'n-primary', name: 'Primary', group: 'Color', value: '#FF0000', type: VariableType.COLOR, deprecated: false },
+          // 参照先がなくフォールバック値で作成する行も集計する
+          { id: 'n-legacy', name: 'Legacy', group: 'Color', value: '{Color/Missing}||#00FF00', type: VariableType.COLOR, deprecated: true },
+        ],
+      });
+
+      const created = (figma.variables.createVariable as ReturnType<typeof vi.fn>).mock.results.map(r => r.value);
+      const old = created.find(v => v.name === 'Color/Old');
+      expect(old.description).toBe('[Deprecated] Use Primary');
+      expect(old.hiddenFromPublishing).toBe(true);
+      expect(created.find(v => v.name === 'Color/Primary').hiddenFromPublishing).toBe(false);
+      expect(figma.ui.postMessage).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'SUCCESS',
+          data: expect.objectContaining({
+            message: expect.stringContaining('非推奨 2 件'),
+            details: expect.objectContaining({ deprecated: ['Color/Old', 'Color/Legacy'] }),
+          }),
+        })
+      );
+    });
+
     it('should post progress messages during import', async () => {
       const variables = Array.from({ length: 15 }, (_, i) => ({
         id: `var-${i}`,
@@ -337,5 +960,178 @@ describe('syncHandler', () => {
       );
       expect(progressCalls.length).toBeGreaterThan(0);
     });
+
+    it('should attach the request ID to progress and result messages when replying to a request', async () => {
+      const reply = createReply('request-1');
+
+      await handleImportFromNotion({
+        apiKey: 'test-api-key',
+        databaseId: 'test-db-id',
+        collectionName: 'Test Collection',
+        createNewCollection: false,
+        overwriteExisting: true,
+        mappings: [],
+        variables: [{ id: 'n-1', name: 'Name', value: 'value', type: VariableType.STRING }],
+      }, reply);
+
+      const messages = (figma.ui.postMessage as ReturnType<typeof vi.fn>).mock.calls.map(call => call[0]);
+      expect(messages.map(m => m.type)).toEqual(expect.arrayContaining(['LOADING', 'PROGRESS', 'SUCCESS']));
+      expect(messages.every(m => m.requestId === 'request-1')).toBe(true);
+    });
+
+    it('should stop between variables when cancelled and report what was applied', async () => {
+      const variables = Array.from({ length: 15 }, (_, i) => ({
+        id: `var-${i}`,
+        name: `variable-${i}`,
+        value: `value-${i}`,
+        type: VariableType.STRING,
+      }));
+      // 11件目の進捗通知の時点で中止を要求する
+      (figma.ui.postMessage as ReturnType<typeof vi.fn>).mockImplementation((msg: { type: string; data: { message?: string } }) => {
+        if (msg.type === 'PROGRESS' && msg.data.message?.includes('11/15')) {
+          requestCancelImport('run-cancel');
+        }
+      });
+
+      await handleImportFromNotion({
+        apiKey: 'test-api-key',
+        databaseId: 'test-db-id',
+        collectionName: 'Test Collection',
+        createNewCollection: false,
+        overwriteExisting: true,
+        deleteRemovedVariables: true,
+        mappings: [],
+        runId: 'run-cancel',
+        variables,
+      });
+
+      expect(figma.variables.createVariable).toHaveBeenCalledTimes(10);
+      expect(figma.ui.postMessage).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'SUCCESS',
+          data: expect.objectContaining({
+            message: expect.stringContaining('作成 10 件 / 更新 0 件を反映'),
+            details: expect.objectContaining({ cancelled: true, created: expect.arrayContaining(['variable-0', 'variable-9']) }),
+          }),
+        })
+      );
+      const calls = (figma.ui.postMessage as ReturnType<typeof vi.fn>).mock.calls;
+      expect(calls[calls.length - 1][0].data.message).toContain('未処理 5 件');
+    });
+
+    it('should apply a cancel request before the next variable', async () => {
+      const variables = Array.from({ length: 15 }, (_, i) => ({
+        id: `var-${i}`,
+        name: `variable-${i}`,
+        value: `value-${i}`,
+        type: VariableType.STRING,
+      }));
+      // 4件目の処理中にUIから中止のメッセージが届く（進捗通知の間隔を待たずに中止する）
+      (figma.variables.createVariable as ReturnType<typeof vi.fn>).mockImplementation((name, _collection, type) => {
+        if (name === 'variable-3') setTimeout(() => requestCancelImport('run-cancel-early'), 0);
+        return mockVariable(name, type);
+      });
+
+      await handleImportFromNotion({
+        apiKey: 'test-api-key',
+        databaseId: 'test-db-id',
+        collectionName: 'Test Collection',
+        createNewCollection: false,
+        overwriteExisting: true,
+        mappings: [],
+        runId: 'run-cancel-early',
+        variables,
+      });
+
+      expect(figma.variables.createVariable).toHaveBeenCalledTimes(4);
+      const calls = (figma.ui.postMessage as ReturnType<typeof vi.fn>).mock.calls;
+      expect(calls[calls.length - 1][0].data.message).toContain('未処理 11 件');
+    });
+
+    it('should stop deleting variables when cancelled', async () => {
+      const staleVars = Array.from({ length: 5 }, (_, i) => mockVariable(`stale-${i}`, 'STRING'));
+      (figma.variables.getLocalVariablesAsync as ReturnType<typeof vi.fn>).mockResolvedValue(staleVars);
+      staleVars[1].remove.mockImplementation(() => { setTimeout(() => requestCancelImport('run-cancel-delete'), 0); });
+
+      await handleImportFromNotion({
+        apiKey: 'test-api-key',
+        databaseId: 'test-db-id',
+        collectionName: 'Test Collection',
+        createNewCollection: false,
+        overwriteExisting: true,
+        deleteRemovedVariables: true,
+        mappings: [],
+        runId: 'run-cancel-delete',
+        variables: [{ id: 'n-1', name: 'Name', value: 'value', type: VariableType.STRING }],
+      });
+
+      expect(staleVars[1].remove).toHaveBeenCalled();
+      expect(staleVars[2].remove).not.toHaveBeenCalled();
+      expect(figma.ui.postMessage).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'SUCCESS',
+          data: expect.objectContaining({
+            message: expect.stringContaining('作成 1 件 / 更新 0 件 / 削除 2 件を反映'),
+            details: expect.objectContaining({ cancelled: true, deleted: 2 }),
+          }),
+        })
+      );
+    });
+
+    it('should not stop imports of other runs', async () => {
+      requestCancelImport('another-run');
+
+      await handleImportFromNotion({
+        apiKey: 'test-api-key',
+        databaseId: 'test-db-id',
+        collectionName: 'Test Collection',
+        createNewCollection: false,
+        overwriteExisting: true,
+        mappings: [],
+        runId: 'current-run',
+        variables: [{ id: 'n-1', name: 'Name', value: 'value', type: VariableType.STRING }],
+      });
+
+      expect(figma.variables.createVariable).toHaveBeenCalledTimes(1);
+      expect(figma.ui.postMessage).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ details: expect.objectContaining({ cancelled: false }) }),
+        })
+      );
+    });
+  });
+
+  describe('handlePreviewImport', () => {
+    it('should post the change set without modifying Figma', async () => {
+      const existingVar = mockVariable('old-color', 'COLOR', { r: 0, g: 0, b: 0, a: 1 });
+      (figma.variables.getLocalVariablesAsync as ReturnType<typeof vi.fn>).mockResolvedValue([existingVar]);
+
+      await handlePreviewImport({
+        apiKey: 'test-api-key',
+        databaseId: 'test-db-id',
+        collectionName: 'Test Collection',
+        createNewCollection: false,
+        overwriteExisting: true,
+        deleteRemovedVariables: true,
+        mappings: [],
+        variables: [
+          { id: 'notion-1', name: 'color-blue', value: '#0000FF', type: VariableType.COLOR },
+        ],
+      });
+
+      expect(figma.variables.createVariable).not.toHaveBeenCalled();
+      expect(existingVar.remove).not.toHaveBeenCalled();
+      expect(figma.ui.postMessage).toHaveBeenCalledWith({
+        type: 'IMPORT_PREVIEW',
+        data: {
+          collectionName: 'Test Collection',
+          collectionExists: true,
+          changes: [
+            expect.objectContaining({ key: 'notion-1', action: 'create' }),
+            expect.objectContaining({ key: existingVar.id, action: 'delete' }),
+          ],
+        },
+      });
+    });
   });
 });
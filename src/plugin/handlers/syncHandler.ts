@@ -5,36 +5,72 @@ import {
   MessageType
 } from '../../shared/types';
 import { logger } from '../../shared/logger';
+import { generateUUID } from '../../shared/uuid';
 import { 
   createVariableCollection, 
   updateVariable, 
   getExistingVariables,
   detectVariableType,
-  findVariableByName
+  findVariableByName,
+  findLinkedVariable,
+  getLinkedNotionId,
+  ensureCollectionModes,
+  collectModeNames,
+  findCollectionByName
 } from '../utils/variableUtils';
+import { buildImportPlan } from '../utils/importPlan';
+import { buildAliasGraph } from '../utils/aliasGraph';
+import { buildCompositeTokenPlan, importCompositeTokens } from '../utils/styleUtils';
+import { recordSyncHistory } from '../utils/syncHistory';
+import { captureImportSnapshot, recordCreatedVariables, revertLastImport, saveImportSnapshot } from '../utils/importSnapshot';
+import { postToUI, Reply } from '../utils/messaging';
+import { ErrorCode, getErrorCode, SyncError } from '../../shared/errors';
+
+// UIから中止が要求されたインポートの実行ID（インポートのループ内で確認する）
+let cancelledRunId: string | null = null;
+
+// 実行中のインポートの中止を要求する
+export function requestCancelImport(runId: string) {
+  logger.log(`🛑 Cancel requested for import run ${runId}`);
+  cancelledRunId = runId;
+}
+
+// UIからのメッセージ（中止の要求）を受け取れるようイベントループに処理を戻す
+const yieldToEventLoop = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+// 複合トークン（スタイルとしてインポート）とVariableに分ける
+function partitionCompositeTokens(tokens: NotionVariable[]): { variables: NotionVariable[]; compositeTokens: NotionVariable[] } {
+  return {
+    variables: tokens.filter(v => !v.composite),
+    compositeTokens: tokens.filter(v => v.composite)
+  };
+}
 
 // Notionからインポート
-export async function handleImportFromNotion(settings: ImportSettings & { variables?: NotionVariable[] }) {
+export async function handleImportFromNotion(settings: ImportSettings & { variables?: NotionVariable[] }, reply: Reply = postToUI) {
   try {
-    // UIスレッドから送られてきたパース済みデータを使用
-    const variables = settings.variables;
-    
-    if (!variables || variables.length === 0) {
-      throw new Error('インポートするデータが見つかりませんでした。');
+    if (!settings.variables || settings.variables.length === 0) {
+      throw new SyncError(ErrorCode.VALIDATION, 'インポートするデータが見つかりませんでした。');
     }
     
+    // UIスレッドから送られてきたパース済みデータを使用
+    const { variables, compositeTokens } = partitionCompositeTokens(settings.variables);
+    
     // ローディング状態を通知
-    figma.ui.postMessage({
+    reply({
       type: MessageType.LOADING,
       data: { message: 'Figma Variablesを作成中...' }
     });
     
     logger.log('\n📋 Import settings:');
     logger.log('  - Variables count:', variables.length);
+    logger.log('  - Composite tokens count:', compositeTokens.length);
     logger.log('  - Collection name:', settings.collectionName);
     logger.log('  - Create new collection:', settings.createNewCollection);
     logger.log('  - Overwrite existing:', settings.overwriteExisting);
     logger.log('  - Delete removed variables:', settings.deleteRemovedVariables || false);
+    logger.log('  - Strict alias resolution:', settings.strictAliasResolution || false);
+    logger.log('  - Unit conversion:', settings.unitConversion ?? 'default');
     logger.log('  - Mappings:', settings.mappings?.length || 0);
     
     // コレクションを作成または取得
@@ -43,11 +79,30 @@ export async function handleImportFromNotion(settings: ImportSettings & { variab
     logger.log(`  - Name: "${collectionName}"`);
     logger.log(`  - Create new: ${settings.createNewCollection}`);
     
+    // マルチモード: 新規コレクションのデフォルトモードは先頭のモード名にする
+    const modeNames = collectModeNames(variables);
+    const collectionIdsBefore = new Set((await figma.variables.getLocalVariableCollectionsAsync()).map(c => c.id));
     const collection = await createVariableCollection(
       collectionName,
-      settings.createNewCollection
+      settings.createNewCollection,
+      modeNames[0] || 'Default'
     );
     
+    // 変更前の状態を保存（直前のインポートを元に戻すため。保存できない場合は結果に表示する）
+    const runId = settings.runId ?? generateUUID();
+    let revertAvailable = saveImportSnapshot(await captureImportSnapshot(collection, {
+      runId,
+      createdCollection: !collectionIdsBefore.has(collection.id),
+      compositeTokens
+    }));
+    
+    // 不足しているモードをコレクションに追加（追加できなかったモードの値はスキップし、エラーとして表示）
+    let modeErrors: { name: string; reason: string }[] = [];
+    if (modeNames.length > 0) {
+      modeErrors = ensureCollectionModes(collection, modeNames).errors;
+      logger.log(`  - Modes: ${collection.modes.map(m => m.name).join(', ')}`);
+    }
+    
     logger.log(`  - Using collection: "${collection.name}" (ID: ${collection.id})`);
     logger.log(`  - Collection has ${collection.variableIds.length} variables`);
     
@@ -60,30 +115,89 @@ export async function handleImportFromNotion(settings: ImportSettings & { variab
     const allFigmaVariables = await figma.variables.getLocalVariablesAsync();
     logger.log(`Total Figma variables loaded: ${allFigmaVariables.length}`);
     
-    const existingVariableMap = new Map(
-      existingVariables.map(v => {
-        const key = v.group ? `${v.group}/${v.name}` : v.name;
-        logger.log(`  - Existing: "${key}" (type: ${v.type}, value: ${JSON.stringify(v.value)})`);
-        return [key, v];
-      })
+    existingVariables.forEach(v => {
+      const key = v.group ? `${v.group}/${v.name}` : v.name;
+      logger.log(`  - Existing: "${key}" (type: ${v.type}, value: ${JSON.stringify(v.value)})`);
+    });
+    
+    // 既存変数との照合はNotionページID → 名前の順で行う
+    const collectionFigmaVariables = allFigmaVariables.filter(v => v.variableCollectionId === collection.id);
+    const incomingIds = new Set(variables.map(v => v.id).filter(Boolean));
+    
+    // 参照の解決方法（厳密モードではコレクション名で修飾された参照を解決するため名前の対応表を作成）
+    const collectionNames = new Map(
+      (await figma.variables.getLocalVariableCollectionsAsync()).map(c => [c.id, c.name] as [string, string])
     );
+    collectionNames.set(collection.id, collection.name);
+    const referenceOptions = { strict: settings.strictAliasResolution ?? false, collectionNames };
+    
+    // 作成・再作成した変数をリストに反映（後続の参照解決・照合で使用可能にする）
+    // 型変更で再作成された場合、削除済みの変数は同じNotionページIDを持つため置き換える
+    const trackVariable = (previous: Variable | undefined, next: Variable) => {
+      for (const list of [allFigmaVariables, collectionFigmaVariables]) {
+        const index = list.findIndex(v => v.id === next.id || (previous && v.id === previous.id));
+        if (index === -1) {
+          list.push(next);
+        } else {
+          list[index] = next;
+        }
+      }
+    };
     
     logger.log(`\nStarting import with overwriteExisting: ${settings.overwriteExisting}`);
     
     let importedCount = 0;
     let skippedCount = 0;
-    let errorCount = 0;
+    let errorCount = modeErrors.length;
+    
+    const importErrors: { name: string; reason: string }[] = [...modeErrors];
+    // インポートした非推奨のトークン（結果のサマリーに表示）
+    const deprecatedNames: string[] = [];
+    // 作成・更新・削除した変数名（同期履歴に記録）
+    const createdNames: string[] = [];
+    const updatedNames: string[] = [];
+    const deletedNames: string[] = [];
+    // 作成した変数のID（元に戻す場合に削除する変数としてスナップショットに記録）
+    const createdVariableIds: string[] = [];
     
-    const importErrors: { name: string; reason: string }[] = [];
-    const ordered = variables; // 受け取った順（DB順）を保持
+    // インポートした変数を集計に反映（フォールバック値で作成した場合も同じく記録する）
+    const recordImported = (variable: NotionVariable, fullName: string, previous: Variable | undefined, next: Variable) => {
+      trackVariable(previous, next);
+      if (previous?.id !== next.id) createdVariableIds.push(next.id);
+      importedCount++;
+      (previous ? updatedNames : createdNames).push(fullName);
+      if (variable.deprecated) deprecatedNames.push(fullName);
+    };
+    
+    // 参照グラフを検証し、参照先が先に作成されるよう並べ替える（それ以外はDB順を保持）
+    const aliasGraph = buildAliasGraph(variables, allFigmaVariables, {
+      ...referenceOptions,
+      collectionId: collection.id,
+      collectionName: collection.name
+    });
+    for (const issue of aliasGraph.issues) {
+      logger.warn(`  ⚠️  Alias ${issue.kind}: ${issue.name} - ${issue.reason}`);
+      importErrors.push({ name: issue.name, reason: issue.reason });
+    }
+    // 循環参照の変数はインポートしない
+    errorCount += aliasGraph.cyclic.size;
+    const ordered = aliasGraph.ordered;
+    
+    // プレビューで選択解除された変更（作成/更新はNotion ID、削除はFigma Variable ID）
+    const excludedKeys = new Set(settings.excludedChangeKeys ?? []);
+    
+    // 中止された場合は、それまでに反映した変更のみで終了する（以降の複合トークン・削除は行わない）
+    const isCancelled = () => !!settings.runId && cancelledRunId === settings.runId;
+    let cancelled = false;
+    let remainingCount = 0;
 
-    // 1パス目: 値を設定（参照が未解決ならフォールバック）
+    // 1パス目: 値を設定（参照先が先に作成されるため、参照が未解決の場合のみフォールバック）
     for (let i = 0; i < ordered.length; i++) {
       const variable = ordered[i];
       
       // 10件ごとに進捗を通知（タイムアウト防止）
       if (i % 10 === 0) {
-        figma.ui.postMessage({
+        reply({
           type: MessageType.PROGRESS,
           data: {
             current: i,
@@ -94,21 +208,35 @@ export async function handleImportFromNotion(settings: ImportSettings & { variab
         });
       }
       
+      // 1件ごとに中止の要求を受け付ける
+      await yieldToEventLoop();
+      if (isCancelled()) {
+        logger.log(`\n🛑 Import cancelled at ${i}/${ordered.length}`);
+        cancelled = true;
+        remainingCount = ordered.length - i + compositeTokens.length;
+        break;
+      }
+      
       try {
         const fullName = variable.group 
           ? `${variable.group}/${variable.name}`
           : variable.name;
         
+        if (excludedKeys.has(variable.id)) {
+          logger.log(`  ⏭️  Skipping ${fullName} (deselected in preview)`);
+          skippedCount++;
+          continue;
+        }
+        
         logger.log(`\n[Processing] ${fullName}`);
         logger.log(`  - Notion value: ${JSON.stringify(variable.value)}`);
         logger.log(`  - Notion type: ${variable.type || 'undefined (will auto-detect)'}`);
         
         // 既存のVariableがある場合
-        const existingVar = existingVariableMap.get(fullName);
+        const existingVar = findLinkedVariable(collectionFigmaVariables, variable, incomingIds);
         if (existingVar) {
-          logger.log(`  - Found in existingVariableMap`);
-          logger.log(`    - Existing value: ${JSON.stringify(existingVar.value)}`);
-          logger.log(`    - Existing type: ${existingVar.type}`);
+          logger.log(`  - Found existing variable: "${existingVar.name}" (ID: ${existingVar.id})`);
+          logger.log(`    - Existing type: ${existingVar.resolvedType}`);
           
           if (!settings.overwriteExisting) {
             logger.log(`  ⏭️  Skipping (overwrite disabled)`);
@@ -117,7 +245,7 @@ export async function handleImportFromNotion(settings: ImportSettings & { variab
           }
           logger.log(`  ✏️  Will overwrite`);
         } else {
-          logger.log(`  - Not found in existingVariableMap, will create new`);
+          logger.log(`  - No existing variable found, will create new`);
         }
         
         // 型の自動判定（必要な場合）
@@ -132,20 +260,13 @@ export async function handleImportFromNotion(settings: ImportSettings & { variab
         if (isAliasWithFallback) {
           const [ref, fb] = String(variable.value).split('||');
           const targetName = ref.replace(/^\{|\}$/g, '');
-          const refVar = await findVariableByName(targetName, allFigmaVariables);
+          const refVar = await findVariableByName(targetName, allFigmaVariables, referenceOptions);
           if (!refVar && fb) {
             // まずフォールバックで作成
             logger.log(`  - Using fallback value: ${fb}`);
             const backup = { ...variable, value: fb };
-            const newVar = await updateVariable(collection, backup, allFigmaVariables);
-            // 新規作成した変数をリストに追加（重複チェック付き）
-            const existingIndex = allFigmaVariables.findIndex(v => v.id === newVar.id);
-            if (existingIndex === -1) {
-              allFigmaVariables.push(newVar);
-            } else {
-              allFigmaVariables[existingIndex] = newVar;
-            }
-            importedCount++;
+            const newVar = await updateVariable(collection, backup, allFigmaVariables, { ...referenceOptions, incomingIds, unitConversion: settings.unitConversion });
+            recordImported(variable, fullName, existingVar, newVar);
             continue;
           }
         }
@@ -157,13 +278,9 @@ export async function handleImportFromNotion(settings: ImportSettings & { variab
           value: variable.value
         });
         
-        const newVar = await updateVariable(collection, variable, allFigmaVariables);
-        // 新規作成した変数をリストに追加（後続の参照解決で使用可能にする）
-        if (!allFigmaVariables.some(v => v.id === newVar.id)) {
-          allFigmaVariables.push(newVar);
-        }
+        const newVar = await updateVariable(collection, variable, allFigmaVariables, { ...referenceOptions, incomingIds, unitConversion: settings.unitConversion });
         logger.log(`  ✅ updateVariable completed for ${fullName}`);
-        importedCount++;
+        recordImported(variable, fullName, existingVar, newVar);
         
       } catch (error) {
         logger.error(`Error importing variable ${variable.name}:`, error);
@@ -172,20 +289,29 @@ export async function handleImportFromNotion(settings: ImportSettings & { variab
       }
     }
 
-    // 2パス目: 参照を再解決（フォールバックで入ったものも再設定）
-    for (const variable of ordered) {
-      try {
-        const isAlias = typeof variable.value === 'string' && String(variable.value).startsWith('{');
-        if (!isAlias) continue;
-        await updateVariable(collection, variable, allFigmaVariables);
-      } catch (error) {
-        logger.warn(`Alias re-resolve failed for ${variable.name}:`, error);
-      }
+    if (revertAvailable) {
+      revertAvailable = recordCreatedVariables(runId, collection.id, createdVariableIds);
     }
-    
-    // 3パス目: Notionから削除された変数をFigmaからも削除（オプション）
+
+    // 複合トークンをスタイルとしてインポート（参照先のVariableが作成された後に行う）
+    if (compositeTokens.length > 0 && !cancelled) {
+      logger.log(`\n🔤 Importing ${compositeTokens.length} composite tokens as styles`);
+      const styleResult = await importCompositeTokens(compositeTokens, allFigmaVariables, {
+        ...referenceOptions,
+        overwriteExisting: settings.overwriteExisting,
+        excludedKeys
+      });
+      importedCount += styleResult.imported;
+      skippedCount += styleResult.skipped;
+      errorCount += styleResult.errors.length;
+      importErrors.push(...styleResult.errors);
+      createdNames.push(...styleResult.created);
+      updatedNames.push(...styleResult.updated);
+    }
+
+    // 2パス目: Notionから削除された変数をFigmaからも削除（オプション）
     let deletedCount = 0;
-    if (settings.deleteRemovedVariables) {
+    if (settings.deleteRemovedVariables && !cancelled) {
       logger.log(`\n🗑️  Checking for variables to delete (deleteRemovedVariables: ${settings.deleteRemovedVariables})`);
       
       // Notionから取得した変数のフルネームセットを作成
@@ -204,8 +330,12 @@ export async function handleImportFromNotion(settings: ImportSettings & { variab
       const collectionVars = allFigmaVariables.filter(v => v.variableCollectionId === collection.id);
       logger.log(`  - Total Figma variables in this collection: ${collectionVars.length}`);
       
-      // 既存変数の中で、Notionに存在しないものを削除
-      const varsToDelete = collectionVars.filter(v => !notionVariableNames.has(v.name));
+      // 既存変数の中で、Notionに存在しないもの（名前もNotionページIDも一致しない）を削除
+      const varsToDelete = collectionVars.filter(v =>
+        !notionVariableNames.has(v.name) &&
+        !incomingIds.has(getLinkedNotionId(v)) &&
+        !excludedKeys.has(v.id)
+      );
       
       for (let i = 0; i < varsToDelete.length; i++) {
         const figmaVar = varsToDelete[i];
@@ -213,7 +343,7 @@ export async function handleImportFromNotion(settings: ImportSettings & { variab
         
         // 10件ごとに進捗を通知（タイムアウト防止）
         if (i % 10 === 0) {
-          figma.ui.postMessage({
+          reply({
             type: MessageType.PROGRESS,
             data: {
               current: i,
@@ -224,12 +354,21 @@ export async function handleImportFromNotion(settings: ImportSettings & { variab
           });
         }
         
+        await yieldToEventLoop();
+        if (isCancelled()) {
+          logger.log(`\n🛑 Deletion cancelled at ${i}/${varsToDelete.length}`);
+          cancelled = true;
+          remainingCount = varsToDelete.length - i;
+          break;
+        }
+        
         try {
           logger.log(`  🗑️  Variable not in Notion: "${varName}"`);
           logger.warn(`    ⚠️  Warning: Deleting this variable will break any references to it in your design`);
           
           figmaVar.remove();
           deletedCount++;
+          deletedNames.push(varName);
           logger.log(`    ✅ Deleted: "${varName}"`);
         } catch (error) {
           logger.error(`    ❌ Failed to delete "${varName}":`, error);
@@ -246,11 +385,31 @@ export async function handleImportFromNotion(settings: ImportSettings & { variab
     }
     
     // 結果を通知（日本語・詳細）
-    const resultMessage = settings.deleteRemovedVariables
-      ? `インポート完了: 取り込み ${importedCount} 件 / スキップ ${skippedCount} 件 / 削除 ${deletedCount} 件 / エラー ${errorCount} 件 (合計 ${variables.length} 件)`
-      : `インポート完了: 取り込み ${importedCount} 件 / スキップ ${skippedCount} 件 / エラー ${errorCount} 件 (合計 ${variables.length} 件)`;
+    let resultMessage = cancelled
+      ? `インポートを中止しました: 中止までに作成 ${createdNames.length} 件 / 更新 ${updatedNames.length} 件${deletedCount > 0 ? ` / 削除 ${deletedCount} 件` : ''}を反映しました（スキップ ${skippedCount} 件 / エラー ${errorCount} 件 / 未処理 ${remainingCount} 件）`
+      : settings.deleteRemovedVariables
+      ? `インポート完了: 取り込み ${importedCount} 件 / スキップ ${skippedCount} 件 / 削除 ${deletedCount} 件 / エラー ${errorCount} 件 (合計 ${settings.variables.length} 件)`
+      : `インポート完了: 取り込み ${importedCount} 件 / スキップ ${skippedCount} 件 / エラー ${errorCount} 件 (合計 ${settings.variables.length} 件)`;
+    if (deprecatedNames.length > 0) {
+      logger.warn(`  ⚠️  Deprecated tokens: ${deprecatedNames.join(', ')}`);
+      resultMessage += ` / 非推奨 ${deprecatedNames.length} 件`;
+    }
+    if (!revertAvailable) {
+      logger.warn('  ⚠️  Import snapshot is not available');
+      resultMessage += ' / 変更前の状態を保存できなかったため、このインポートは元に戻せません';
+    }
+    
+    recordSyncHistory({
+      kind: 'import',
+      databaseId: settings.databaseId,
+      collectionName: collection.name,
+      created: createdNames,
+      updated: updatedNames,
+      deleted: deletedNames,
+      errors: importErrors.map(e => `${e.name}: ${e.reason}`)
+    });
     
-    figma.ui.postMessage({
+    reply({
       type: MessageType.SUCCESS,
       data: {
         message: resultMessage,
@@ -259,44 +418,99 @@ export async function handleImportFromNotion(settings: ImportSettings & { variab
           skipped: skippedCount,
           deleted: deletedCount,
           errors: errorCount,
-          total: variables.length,
-          importErrors
+          total: settings.variables.length,
+          importErrors,
+          deprecated: deprecatedNames,
+          cancelled,
+          created: createdNames,
+          updated: updatedNames
         }
       }
     });
     
   } catch (error) {
     logger.error('Import error:', error);
+    replyError(reply, error, 'インポートに失敗しました。');
+  }
+}
+
+// インポートのプレビュー（Figmaは変更せず、変更内容のみをUIへ返す）
+export async function handlePreviewImport(settings: ImportSettings & { variables?: NotionVariable[] }, reply: Reply = postToUI) {
+  try {
+    if (!settings.variables || settings.variables.length === 0) {
+      throw new SyncError(ErrorCode.VALIDATION, 'インポートするデータが見つかりませんでした。');
+    }
+    
+    const { variables, compositeTokens } = partitionCompositeTokens(settings.variables);
+    const collectionName = settings.collectionName || 'Design Tokens';
+    const collections = await figma.variables.getLocalVariableCollectionsAsync();
+    const collection = findCollectionByName(collections, collectionName);
     
-    let errorMessage = 'インポートに失敗しました。';
-    if (error instanceof Error) {
-      errorMessage = error.message;
+    if (!collection && !settings.createNewCollection) {
+      throw new SyncError(ErrorCode.VALIDATION, `Collection "${collectionName}" not found. Please select an existing collection or create a new one.`);
     }
     
-    // より詳細なエラー情報を提供
-    figma.ui.postMessage({
-      type: MessageType.ERROR,
+    const allFigmaVariables = await figma.variables.getLocalVariablesAsync();
+    const collectionNames = new Map(collections.map(c => [c.id, c.name] as [string, string]));
+    const changes = [
+      ...await buildImportPlan(variables, collection, allFigmaVariables, settings, collectionNames),
+      ...await buildCompositeTokenPlan(compositeTokens, settings)
+    ];
+    
+    logger.log(`[handlePreviewImport] ${collectionName}: ${changes.length} rows`);
+    
+    reply({
+      type: MessageType.IMPORT_PREVIEW,
       data: {
-        message: errorMessage,
-        details: {
-          error: error instanceof Error ? error.toString() : String(error),
-          suggestion: getErrorSuggestion(errorMessage)
-        }
+        collectionName,
+        collectionExists: !!collection,
+        changes
       }
     });
+  } catch (error) {
+    logger.error('Preview error:', error);
+    replyError(reply, error, 'プレビューの作成に失敗しました。');
   }
 }
 
-// エラーに基づく提案を生成
-function getErrorSuggestion(errorMessage: string): string {
-  if (errorMessage.includes('認証エラー')) {
-    return 'Notion Integrationページで新しいAPIキーを生成してください。';
-  } else if (errorMessage.includes('データベースが見つかりません')) {
-    return 'データベースにIntegrationを追加しましたか？データベースページの「...」メニューから「Connections」を確認してください。';
-  } else if (errorMessage.includes('データベースIDの形式')) {
-    return 'NotionのデータベースURLから正しいIDをコピーしてください。例: https://notion.so/xxxxx の xxxxx 部分';
-  } else if (errorMessage.includes('ネットワークエラー')) {
-    return 'インターネット接続とFigmaのネットワーク設定を確認してください。';
+// 直前のインポートを元に戻す
+export async function handleRevertLastImport(reply: Reply = postToUI) {
+  try {
+    const result = await revertLastImport();
+    
+    recordSyncHistory({
+      kind: 'revert',
+      collectionName: result.collectionNames.join(', '),
+      created: result.recreated,
+      updated: result.restored,
+      deleted: result.removed,
+      errors: result.errors
+    });
+    
+    const message = `直前のインポートを元に戻しました: 復元 ${result.restored.length + result.recreated.length} 件（再作成 ${result.recreated.length} 件）/ 削除 ${result.removed.length} 件 / エラー ${result.errors.length} 件`;
+    logger.log(`⏪ ${message}`);
+    result.errors.forEach(e => logger.warn(`  ⚠️  ${e}`));
+    
+    reply({
+      type: MessageType.SUCCESS,
+      data: { message }
+    });
+  } catch (error) {
+    logger.error('Revert error:', error);
+    replyError(reply, error, '元に戻せませんでした。');
   }
-  return '';
+}
+
+// エラーをUIへ通知（UIでコードに応じた対処方法を表示する）
+function replyError(reply: Reply, error: unknown, fallbackMessage: string) {
+  reply({
+    type: MessageType.ERROR,
+    data: {
+      message: error instanceof Error ? error.message : fallbackMessage,
+      code: getErrorCode(error),
+      details: {
+        error: error instanceof Error ? error.toString() : String(error)
+      }
+    }
+  });
 }
@@ -0,0 +1,178 @@
+import { describe, it, expect } from 'vitest';
+import { buildAliasGraph, parseAliasValue } from '../aliasGraph';
+import { NotionVariable, VariableType } from '../../../shared/types';
+
+const variable = (name: string, value: NotionVariable['value'], type: VariableType | '' = '', valuesByMode?: NotionVariable['valuesByMode']): NotionVariable => ({
+  id: `n-${name}`,
+  name,
+  group: 'Color',
+  value,
+  type: type as VariableType,
+  ...(valuesByMode ? { valuesByMode } : {})
+});
+
+const figmaVariable = (id: string, name: string, resolvedType: string, variableCollectionId = 'col-1') =>
+  ({ id, name, resolvedType, variableCollectionId }) as unknown as Variable;
+
+describe('parseAliasValue', () => {
+  it('参照とフォールバックを分解する', () => {
+    expect(parseAliasValue('{Color/Primary}')).toEqual({ target: 'Color/Primary' });
+    expect(parseAliasValue('{Color/Primary} || #ffffff')).toEqual({ target: 'Color/Primary', fallback: '#ffffff' });
+    expect(parseAliasValue('#ffffff')).toBeNull();
+    expect(parseAliasValue(16)).toBeNull();
+  });
+});
+
+describe('buildAliasGraph', () => {
+  it('参照先が先に来るよう並べ替え、それ以外はDB順を保つ', () => {
+    const variables = [
+      variable('Brand', '{Color/Primary}'),
+      variable('Muted', '#999999', VariableType.COLOR),
+      variable('Primary', '{Color/Base}'),
+      variable('Base', '#0066ff', VariableType.COLOR)
+    ];
+
+    const { ordered, issues } = buildAliasGraph(variables, []);
+
+    expect(ordered.map(v => v.name)).toEqual(['Base', 'Primary', 'Brand', 'Muted']);
+    expect(issues).toEqual([]);
+  });
+
+  it('循環参照と自己参照を検出し、対象の変数を除外する', () => {
+    const variables = [
+      variable('A', '{Color/B}'),
+      variable('B', '{Color/A}'),
+      variable('Self', '{Color/Self}'),
+      variable('Ok', '#ffffff', VariableType.COLOR)
+    ];
+
+    const { ordered, cyclic, issues } = buildAliasGraph(variables, []);
+
+    expect(ordered.map(v => v.name)).toEqual(['Ok']);
+    expect(cyclic.size).toBe(3);
+    expect(issues).toEqual([
+      { name: 'Color/A', kind: 'cycle', reason: '循環参照しています（Color/A → Color/B → Color/A）' },
+      { name: 'Color/B', kind: 'cycle', reason: '循環参照しています（Color/A → Color/B → Color/A）' },
+      { name: 'Color/Self', kind: 'cycle', reason: '自分自身を参照しています' }
+    ]);
+  });
+
+  it('参照先が見つからない行を報告する', () => {
+    const variables = [
+      variable('Brand', '{Color/Missing}||#ff0000'),
+      variable('Text', '#000000', VariableType.COLOR, { Dark: '{Color/Nowhere}' })
+    ];
+
+    const { ordered, issues } = buildAliasGraph(variables, []);
+
+    expect(ordered).toHaveLength(2);
+    expect(issues).toEqual([
+      { name: 'Color/Brand', kind: 'dangling', reason: '参照先 "Color/Missing" が見つかりません（フォールバック値を使用します）' },
+      { name: 'Color/Text', kind: 'dangling', reason: 'モード "Dark" の参照先 "Color/Nowhere" が見つかりません' }
+    ]);
+  });
+
+  it('Figmaの既存変数を参照先として解決し、型の不一致を報告する', () => {
+    const existing = [
+      figmaVariable('fig-white', 'Primitives/White', 'COLOR'),
+      figmaVariable('fig-space', 'Spacing/Base', 'FLOAT')
+    ];
+    const variables = [
+      variable('Background', '{Primitives/White}', '', { Dark: '{Spacing/Base}' }),
+      variable('Label', '{Primitives/White}', VariableType.STRING)
+    ];
+
+    const { issues } = buildAliasGraph(variables, existing);
+
+    expect(issues).toEqual([
+      {
+        name: 'Color/Background',
+        kind: 'typeMismatch',
+        reason: 'モード "Dark" の参照先 "Spacing/Base" の型 (NUMBER) が変数の型 (COLOR) と異なります'
+      },
+      {
+        name: 'Color/Label',
+        kind: 'typeMismatch',
+        reason: '参照先 "Primitives/White" の型 (COLOR) が指定された型 (STRING) と異なります（参照先の型で作成されます）'
+      }
+    ]);
+  });
+
+  it('参照の連鎖をたどって型を決定する', () => {
+    const variables = [
+      variable('Surface', '#ffffff', VariableType.COLOR, { Dark: '{Color/Brand}' }),
+      variable('Brand', '{Color/Primary}'),
+      variable('Primary', '16', VariableType.NUMBER)
+    ];
+
+    const { issues } = buildAliasGraph(variables, []);
+
+    expect(issues).toEqual([
+      {
+        name: 'Color/Surface',
+        kind: 'typeMismatch',
+        reason: 'モード "Dark" の参照先 "Color/Brand" の型 (NUMBER) が変数の型 (COLOR) と異なります'
+      }
+    ]);
+  });
+
+  it('コレクション修飾した参照を指定したコレクション内で解決する', () => {
+    const existing = [
+      figmaVariable('fig-prim', 'Color/White', 'COLOR', 'col-prim'),
+      figmaVariable('fig-theme', 'Color/White', 'STRING', 'col-theme'),
+      figmaVariable('fig-black', 'Color/Black', 'COLOR', 'col-theme')
+    ];
+
+    const { issues } = buildAliasGraph(
+      [variable('Background', '{Primitives:Color/White}', VariableType.COLOR), variable('Text', '{Primitives:Color/Black}')],
+      existing,
+      { collectionNames: new Map([['col-prim', 'Primitives'], ['col-theme', 'Theme']]), collectionId: 'col-theme', collectionName: 'Theme' }
+    );
+
+    expect(issues).toEqual([
+      { name: 'Color/Text', kind: 'dangling', reason: '参照先 "Primitives:Color/Black" が見つかりません' }
+    ]);
+  });
+
+  describe('厳密な参照解決', () => {
+    const collectionNames = new Map([['col-prim', 'Primitives'], ['col-brand', 'Brand'], ['col-theme', 'Theme']]);
+    const existing = [
+      figmaVariable('fig-prim', 'Color/White', 'COLOR', 'col-prim'),
+      figmaVariable('fig-brand', 'Color/White', 'COLOR', 'col-brand'),
+      figmaVariable('fig-blue', 'Color/Blue/500', 'COLOR', 'col-prim')
+    ];
+    const options = { strict: true, collectionNames, collectionId: 'col-theme', collectionName: 'Theme' };
+
+    it('複数のコレクションに一致する参照を全候補付きで報告する', () => {
+      const { issues } = buildAliasGraph([variable('Background', '{Color/White}||#ffffff')], existing, options);
+
+      expect(issues).toEqual([
+        {
+          name: 'Color/Background',
+          kind: 'ambiguous',
+          reason: '参照先 "Color/White" が複数あります（候補: Primitives:Color/White, Brand:Color/White）（フォールバック値を使用します）'
+        }
+      ]);
+    });
+
+    it('コレクション修飾した参照を解決する', () => {
+      const { issues } = buildAliasGraph(
+        [variable('Background', '{Brand:Color/White}', VariableType.COLOR)],
+        existing,
+        options
+      );
+
+      expect(issues).toEqual([]);
+    });
+
+    it('末尾一致では解決せず、候補として報告する', () => {
+      const { issues } = buildAliasGraph([variable('Accent', '{500}')], existing, options);
+
+      expect(issues).toEqual([
+        { name: 'Color/Accent', kind: 'dangling', reason: '参照先 "500" が見つかりません（候補: Primitives:Color/Blue/500）' }
+      ]);
+      // 通常モードでは末尾一致で解決する
+      expect(buildAliasGraph([variable('Accent', '{500}')], existing).issues).toEqual([]);
+    });
+  });
+});
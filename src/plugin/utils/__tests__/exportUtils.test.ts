@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { exportToDesignTokens } from '../exportUtils';
+import { exportToDesignTokens, exportToNotionVariables } from '../exportUtils';
 
 // Figma APIのモック
 const mockCollections = [
@@ -41,7 +41,8 @@ const mockVariables = [
     variableCollectionId: 'collection-1',
     resolvedType: 'FLOAT',
     valuesByMode: { 'mode-1': 16 },
-    description: 'Base spacing unit'
+    description: 'Base spacing unit',
+    getPluginData: () => ''
   },
   {
     id: 'var-4',
@@ -75,9 +76,9 @@ describe('exportToDesignTokens', () => {
     vi.clearAllMocks();
     
     // Figma APIのモックを設定
-    (globalThis.figma.variables.getLocalVariableCollectionsAsync as ReturnType<typeof vi.fn>)
+    (figma.variables.getLocalVariableCollectionsAsync as ReturnType<typeof vi.fn>)
       .mockResolvedValue(mockCollections);
-    (globalThis.figma.variables.getLocalVariablesAsync as ReturnType<typeof vi.fn>)
+    (figma.variables.getLocalVariablesAsync as ReturnType<typeof vi.fn>)
       .mockResolvedValue(mockVariables);
   });
 
@@ -201,9 +202,9 @@ describe('パス変換', () => {
       }
     ];
     
-    (globalThis.figma.variables.getLocalVariableCollectionsAsync as ReturnType<typeof vi.fn>)
+    (figma.variables.getLocalVariableCollectionsAsync as ReturnType<typeof vi.fn>)
       .mockResolvedValue(collectionsWithSpaces);
-    (globalThis.figma.variables.getLocalVariablesAsync as ReturnType<typeof vi.fn>)
+    (figma.variables.getLocalVariablesAsync as ReturnType<typeof vi.fn>)
       .mockResolvedValue(variablesWithSpaces);
   });
 
@@ -251,9 +252,9 @@ describe('アルファチャンネル付き色', () => {
       }
     ];
     
-    (globalThis.figma.variables.getLocalVariableCollectionsAsync as ReturnType<typeof vi.fn>)
+    (figma.variables.getLocalVariableCollectionsAsync as ReturnType<typeof vi.fn>)
       .mockResolvedValue(collectionsWithAlpha);
-    (globalThis.figma.variables.getLocalVariablesAsync as ReturnType<typeof vi.fn>)
+    (figma.variables.getLocalVariablesAsync as ReturnType<typeof vi.fn>)
       .mockResolvedValue(variablesWithAlpha);
   });
 
@@ -269,3 +270,368 @@ describe('アルファチャンネル付き色', () => {
     expect(json.Colors.Solid.Black.$value).toBe('#000000');
   });
 });
+
+describe('マルチモード', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    
+    const collectionsWithModes = [
+      {
+        id: 'collection-p',
+        name: 'Primitives',
+        modes: [{ modeId: 'p-default', name: 'Default' }],
+        variableIds: ['var-white', 'var-black']
+      },
+      {
+        id: 'collection-t',
+        name: 'Theme',
+        modes: [
+          { modeId: 't-light', name: 'Light' },
+          { modeId: 't-dark', name: 'Dark' }
+        ],
+        variableIds: ['var-bg']
+      }
+    ];
+    
+    const variablesWithModes = [
+      {
+        id: 'var-white',
+        name: 'White',
+        variableCollectionId: 'collection-p',
+        resolvedType: 'COLOR',
+        valuesByMode: { 'p-default': { r: 1, g: 1, b: 1, a: 1 } },
+        description: ''
+      },
+      {
+        id: 'var-black',
+        name: 'Black',
+        variableCollectionId: 'collection-p',
+        resolvedType: 'COLOR',
+        valuesByMode: { 'p-default': { r: 0, g: 0, b: 0, a: 1 } },
+        description: ''
+      },
+      {
+        id: 'var-bg',
+        name: 'Background',
+        variableCollectionId: 'collection-t',
+        resolvedType: 'COLOR',
+        valuesByMode: {
+          't-light': { type: 'VARIABLE_ALIAS', id: 'var-white' },
+          't-dark': { type: 'VARIABLE_ALIAS', id: 'var-black' }
+        },
+        description: ''
+      }
+    ];
+    
+    (figma.variables.getLocalVariableCollectionsAsync as ReturnType<typeof vi.fn>)
+      .mockResolvedValue(collectionsWithModes);
+    (figma.variables.getLocalVariablesAsync as ReturnType<typeof vi.fn>)
+      .mockResolvedValue(variablesWithModes);
+  });
+
+  it('デフォルトではデフォルトモードのみを出力する', async () => {
+    const result = await exportToDesignTokens(['collection-p', 'collection-t']);
+    
+    const json = JSON.parse(result.json);
+    
+    expect(json.Theme.Background.$value).toBe('{Primitives.White}');
+    expect(json.Theme.Background).not.toHaveProperty('$extensions');
+    expect(result.files).toBeUndefined();
+  });
+
+  it('perModeではモードごとのドキュメントを生成し、エイリアスをモード別に解決する', async () => {
+    const result = await exportToDesignTokens(['collection-p', 'collection-t'], { modeFormat: 'perMode' });
+    
+    expect(result.files?.map(f => f.modeName)).toEqual(['Default', 'Light', 'Dark']);
+    
+    const light = JSON.parse(result.files![1].json);
+    const dark = JSON.parse(result.files![2].json);
+    
+    expect(light.Theme.Background.$value).toBe('{Primitives.White}');
+    expect(dark.Theme.Background.$value).toBe('{Primitives.Black}');
+    // 該当モードがないコレクションはデフォルトモードの値を出力
+    expect(dark.Primitives.White.$value).toBe('#ffffff');
+  });
+
+  it('単位付きの値からインポートした数値は元の単位のdimensionとして出力する', async () => {
+    // Light は 1.5rem からインポート、Dark はインポート後にFigma側で変更
+    const originals = { 't-light': { original: '1.5rem', value: 24 }, 't-dark': { original: '2rem', value: 32 } };
+    (figma.variables.getLocalVariablesAsync as ReturnType<typeof vi.fn>).mockResolvedValue([{
+      id: 'var-gap',
+      name: 'Gap',
+      variableCollectionId: 'collection-t',
+      resolvedType: 'FLOAT',
+      valuesByMode: { 't-light': 24, 't-dark': 20 },
+      description: '',
+      getPluginData: (key: string) => (key === 'notionOriginalValue' ? JSON.stringify(originals) : '')
+    }]);
+
+    const result = await exportToDesignTokens(['collection-t'], { modeFormat: 'extensions' });
+    
+    const json = JSON.parse(result.json);
+    expect(json.Theme.Gap).toEqual({
+      $type: 'dimension',
+      $value: { value: 1.5, unit: 'rem' },
+      $extensions: {
+        'com.figma.modes': {
+          Light: { value: 1.5, unit: 'rem' },
+          Dark: { value: 20, unit: 'px' }
+        }
+      }
+    });
+  });
+
+  it('extensionsではモード別の値を$extensionsに格納する', async () => {
+    const result = await exportToDesignTokens(['collection-p', 'collection-t'], { modeFormat: 'extensions' });
+    
+    const json = JSON.parse(result.json);
+    
+    expect(json.Theme.Background.$value).toBe('{Primitives.White}');
+    expect(json.Theme.Background.$extensions).toEqual({
+      'com.figma.modes': {
+        Light: '{Primitives.White}',
+        Dark: '{Primitives.Black}'
+      }
+    });
+    // 単一モードのコレクションには付与しない
+    expect(json.Primitives.White).not.toHaveProperty('$extensions');
+  });
+});
+
+describe('テキストスタイル', () => {
+  const textStyle = (overrides: Record<string, unknown> = {}) => ({
+    id: 'style-1',
+    name: 'Heading/H1',
+    description: 'Page title',
+    fontName: { family: 'Inter', style: 'Bold' },
+    fontSize: 32,
+    lineHeight: { value: 120, unit: 'PERCENT' },
+    letterSpacing: { value: 2, unit: 'PERCENT' },
+    boundVariables: {},
+    ...overrides
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (figma.variables.getLocalVariableCollectionsAsync as ReturnType<typeof vi.fn>)
+      .mockResolvedValue(mockCollections);
+    (figma.variables.getLocalVariablesAsync as ReturnType<typeof vi.fn>)
+      .mockResolvedValue(mockVariables);
+    (figma.getLocalTextStylesAsync as ReturnType<typeof vi.fn>)
+      .mockResolvedValue([textStyle()]);
+  });
+
+  it('includeStylesを指定しない場合はスタイルを出力しない', async () => {
+    const result = await exportToDesignTokens(['collection-1']);
+
+    expect(JSON.parse(result.json)).not.toHaveProperty('Styles');
+    expect(figma.getLocalTextStylesAsync).not.toHaveBeenCalled();
+  });
+
+  it('テキストスタイルをStyles配下にtypographyトークンとして出力する', async () => {
+    const result = await exportToDesignTokens(['collection-1'], { includeStyles: true });
+
+    expect(result.tokenCount).toBe(5);
+    expect(JSON.parse(result.json).Styles.Heading.H1).toEqual({
+      $type: 'typography',
+      $value: {
+        fontFamily: 'Inter',
+        fontSize: { value: 32, unit: 'px' },
+        fontWeight: 700,
+        lineHeight: 1.2,
+        letterSpacing: { value: 0.02, unit: 'em' }
+      },
+      $description: 'Page title'
+    });
+  });
+
+  it('バインドされたVariableは参照として出力し、AUTOの行の高さは出力しない', async () => {
+    (figma.getLocalTextStylesAsync as ReturnType<typeof vi.fn>).mockResolvedValue([
+      textStyle({
+        lineHeight: { unit: 'AUTO' },
+        letterSpacing: { value: 0, unit: 'PIXELS' },
+        boundVariables: { fontSize: { type: 'VARIABLE_ALIAS', id: 'var-3' } }
+      })
+    ]);
+
+    const result = await exportToDesignTokens(['collection-1'], { includeStyles: true });
+    const token = JSON.parse(result.json).Styles.Heading.H1;
+
+    expect(token.$value.fontSize).toBe('{Primitives.Spacing.Base}');
+    expect(token.$value).not.toHaveProperty('lineHeight');
+    expect(token.$value.letterSpacing).toEqual({ value: 0, unit: 'px' });
+  });
+
+  it('エフェクトスタイルのシャドウをshadowトークンとして出力する', async () => {
+    (figma.getLocalTextStylesAsync as ReturnType<typeof vi.fn>).mockResolvedValue([]);
+    (figma.getLocalEffectStylesAsync as ReturnType<typeof vi.fn>).mockResolvedValue([
+      {
+        name: 'Elevation/Card',
+        description: '',
+        effects: [
+          {
+            type: 'DROP_SHADOW',
+            color: { r: 0, g: 0, b: 0, a: 0.25 },
+            offset: { x: 0, y: 4 },
+            radius: 8,
+            spread: 0,
+            visible: true,
+            blendMode: 'NORMAL',
+            boundVariables: { color: { type: 'VARIABLE_ALIAS', id: 'var-1' } }
+          },
+          { type: 'INNER_SHADOW', color: { r: 1, g: 1, b: 1, a: 1 }, offset: { x: 0, y: 1 }, radius: 0, visible: true, blendMode: 'NORMAL' }
+        ]
+      },
+      // シャドウを含まないエフェクトスタイルは出力しない
+      { name: 'Blur', description: '', effects: [{ type: 'LAYER_BLUR', radius: 4, visible: true }] }
+    ]);
+
+    const result = await exportToDesignTokens(['collection-1'], { includeStyles: true });
+    const json = JSON.parse(result.json);
+
+    expect(result.tokenCount).toBe(5);
+    expect(json.Styles).not.toHaveProperty('Blur');
+    expect(json.Styles.Elevation.Card).toEqual({
+      $type: 'shadow',
+      $value: [
+        {
+          color: '{Primitives.Color.Primary.500}',
+          offsetX: { value: 0, unit: 'px' },
+          offsetY: { value: 4, unit: 'px' },
+          blur: { value: 8, unit: 'px' },
+          spread: { value: 0, unit: 'px' }
+        },
+        {
+          color: '#ffffff',
+          offsetX: { value: 0, unit: 'px' },
+          offsetY: { value: 1, unit: 'px' },
+          blur: { value: 0, unit: 'px' },
+          spread: { value: 0, unit: 'px' },
+          inset: true
+        }
+      ]
+    });
+  });
+
+  it('グラデーションのペイントスタイルをgradientトークンとして出力する', async () => {
+    (figma.getLocalTextStylesAsync as ReturnType<typeof vi.fn>).mockResolvedValue([]);
+    (figma.getLocalEffectStylesAsync as ReturnType<typeof vi.fn>).mockResolvedValue([]);
+    (figma.getLocalPaintStylesAsync as ReturnType<typeof vi.fn>).mockResolvedValue([
+      {
+        name: 'Gradient/Hero',
+        description: '',
+        paints: [{
+          type: 'GRADIENT_LINEAR',
+          gradientTransform: [[0, 1, 0], [-1, 0, 1]],
+          gradientStops: [
+            { position: 0, color: { r: 1, g: 1, b: 1, a: 1 } },
+            { position: 1, color: { r: 0, g: 0, b: 0, a: 1 }, boundVariables: { color: { type: 'VARIABLE_ALIAS', id: 'var-1' } } }
+          ]
+        }]
+      },
+      // 単色のペイントスタイルは出力しない
+      { name: 'Solid', description: '', paints: [{ type: 'SOLID', color: { r: 0, g: 0, b: 0 } }] }
+    ]);
+
+    const result = await exportToDesignTokens(['collection-1'], { includeStyles: true });
+    const json = JSON.parse(result.json);
+
+    expect(result.tokenCount).toBe(5);
+    expect(json.Styles).not.toHaveProperty('Solid');
+    expect(json.Styles.Gradient.Hero).toEqual({
+      $type: 'gradient',
+      $value: [
+        { color: '#ffffff', position: 0 },
+        { color: '{Primitives.Color.Primary.500}', position: 1 }
+      ],
+      $extensions: { 'com.figma.gradient': { type: 'linear', angle: 180 } }
+    });
+  });
+});
+
+describe('exportToNotionVariables', () => {
+  // 変数ID → プラグインデータ
+  let pluginData: Record<string, Record<string, string>> = {};
+  
+  beforeEach(() => {
+    pluginData = {
+      'var-7': { notionPageId: 'page-half' },
+      'var-8': { notionOriginalValue: JSON.stringify({ 'mode-2': { original: '1.5rem', value: 24 } }) }
+    };
+    vi.clearAllMocks();
+    
+    (figma.variables.getVariableCollectionByIdAsync as ReturnType<typeof vi.fn>)
+      .mockImplementation(async (id: string) => mockCollections.find(c => c.id === id) ?? null);
+    (figma.variables.getLocalVariablesAsync as ReturnType<typeof vi.fn>)
+      .mockResolvedValue([
+        ...mockVariables,
+        {
+          id: 'var-7',
+          name: 'Opacity/Half',
+          variableCollectionId: 'collection-2',
+          resolvedType: 'FLOAT',
+          valuesByMode: { 'mode-2': 0.10000000149011612 },
+          description: ''
+        },
+        {
+          id: 'var-8',
+          name: 'Spacing/Large',
+          variableCollectionId: 'collection-2',
+          resolvedType: 'FLOAT',
+          valuesByMode: { 'mode-2': 24 },
+          description: ''
+        }
+      ].map(v => ({ ...v, getPluginData: vi.fn((key: string) => pluginData[v.id]?.[key] ?? '') })));
+  });
+
+  it('グループと名前を分割し、色はHEX・参照は{Group/Name}に変換する', async () => {
+    const result = await exportToNotionVariables('collection-2');
+    
+    expect(result.collectionName).toBe('Semantic');
+    expect(result.modeNames).toEqual(['Default']);
+    expect(result.variables).toHaveLength(4);
+    expect(result.variables[0]).toEqual({
+      id: 'var-5',
+      name: 'Brand',
+      group: 'Color',
+      value: '{Color/Primary/500}',
+      valuesByMode: { Default: '{Color/Primary/500}' },
+      type: 'COLOR',
+      description: 'Brand color (alias)'
+    });
+  });
+
+  it('数値の浮動小数点誤差を丸める', async () => {
+    const result = await exportToNotionVariables('collection-2');
+    
+    expect(result.variables.find(v => v.id === 'var-7')?.value).toBe(0.1);
+  });
+
+  it('インポート元のNotionページIDを含める', async () => {
+    const result = await exportToNotionVariables('collection-2');
+    
+    expect(result.variables.find(v => v.id === 'var-7')?.notionPageId).toBe('page-half');
+    expect(result.variables.find(v => v.id === 'var-5')).not.toHaveProperty('notionPageId');
+  });
+
+  it('単位付きの値からインポートした数値は、Figma側で変更されていなければ元の値を使う', async () => {
+    const kept = await exportToNotionVariables('collection-2');
+    expect(kept.variables.find(v => v.id === 'var-8')).toMatchObject({ value: '1.5rem', valuesByMode: { Default: '1.5rem' } });
+    
+    // 換算結果と一致しない場合はpxの数値
+    pluginData['var-8'].notionOriginalValue = JSON.stringify({ 'mode-2': { original: '1rem', value: 16 } });
+    const changed = await exportToNotionVariables('collection-2');
+    expect(changed.variables.find(v => v.id === 'var-8')?.value).toBe(24);
+  });
+
+  it('色の値をHEXに変換する', async () => {
+    const result = await exportToNotionVariables('collection-1');
+    
+    expect(result.variables.find(v => v.id === 'var-2')?.value).toBe('#e6f2ff');
+    expect(result.variables.find(v => v.id === 'var-4')).toMatchObject({ value: true, type: 'BOOLEAN' });
+  });
+
+  it('コレクションが存在しない場合はエラー', async () => {
+    await expect(exportToNotionVariables('missing')).rejects.toThrow('コレクションが見つかりません');
+  });
+});
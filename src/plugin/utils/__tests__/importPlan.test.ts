@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import { buildImportPlan } from '../importPlan';
+import { NotionVariable, VariableType } from '../../../shared/types';
+
+const collection = {
+  id: 'collection-1',
+  name: 'Tokens',
+  modes: [
+    { modeId: 'mode-1', name: 'Light' },
+    { modeId: 'mode-2', name: 'Dark' }
+  ],
+  variableIds: []
+} as unknown as VariableCollection;
+
+const figmaVariable = (id: string, name: string, resolvedType: string, valuesByMode: Record<string, unknown>, description = '', notionPageId = '') => ({
+  id,
+  name,
+  resolvedType,
+  variableCollectionId: 'collection-1',
+  valuesByMode,
+  description,
+  getPluginData: () => notionPageId
+}) as unknown as Variable;
+
+const white = { r: 1, g: 1, b: 1, a: 1 };
+const black = { r: 0, g: 0, b: 0, a: 1 };
+
+describe('buildImportPlan', () => {
+  const existing = [
+    figmaVariable('fig-bg', 'Color/Background', 'COLOR', { 'mode-1': white, 'mode-2': black }),
+    figmaVariable('fig-space', 'Spacing/Base', 'FLOAT', { 'mode-1': 16, 'mode-2': 16 }),
+    figmaVariable('fig-flag', 'Flag/Beta', 'STRING', { 'mode-1': 'true', 'mode-2': 'true' }),
+    figmaVariable('fig-old', 'Color/Old', 'COLOR', { 'mode-1': black, 'mode-2': black })
+  ];
+
+  const incoming: NotionVariable[] = [
+    { id: 'n-bg', name: 'Background', group: 'Color', value: '#ffffff', valuesByMode: { Dark: '#000000' }, type: VariableType.COLOR },
+    { id: 'n-space', name: 'Base', group: 'Spacing', value: '24', type: VariableType.NUMBER },
+    { id: 'n-flag', name: 'Beta', group: 'Flag', value: 'true', type: VariableType.BOOLEAN },
+    { id: 'n-new', name: 'Accent', group: 'Color', value: '#ff0000', type: VariableType.COLOR }
+  ];
+
+  it('作成・更新・再作成・変更なしを判定する', async () => {
+    const changes = await buildImportPlan(incoming, collection, existing, { overwriteExisting: true });
+
+    expect(changes.find(c => c.key === 'n-bg')).toMatchObject({ action: 'unchanged' });
+    expect(changes.find(c => c.key === 'n-space')).toMatchObject({ action: 'update', oldValue: '16', newValue: '24' });
+    expect(changes.find(c => c.key === 'n-flag')).toMatchObject({
+      action: 'recreate',
+      oldType: VariableType.STRING,
+      newType: VariableType.BOOLEAN
+    });
+    expect(changes.find(c => c.key === 'n-new')).toMatchObject({ action: 'create', newValue: '#ff0000' });
+    // 削除が無効の場合は削除行を含めない
+    expect(changes.some(c => c.action === 'delete')).toBe(false);
+  });
+
+  it('モード別の値の変更を検出する', async () => {
+    const changed = [{ ...incoming[0], valuesByMode: { Dark: '#111111' } }];
+    const changes = await buildImportPlan(changed, collection, existing, { overwriteExisting: true });
+
+    expect(changes[0]).toMatchObject({ action: 'update', reason: 'モード: Dark' });
+  });
+
+  it('上書きが無効の場合は既存変数をスキップとして扱う', async () => {
+    const changes = await buildImportPlan(incoming, collection, existing, { overwriteExisting: false });
+
+    expect(changes.find(c => c.key === 'n-space')).toMatchObject({ action: 'skip' });
+    expect(changes.find(c => c.key === 'n-new')).toMatchObject({ action: 'create' });
+  });
+
+  it('削除が有効の場合はNotionにない変数を削除として含める', async () => {
+    const changes = await buildImportPlan(incoming, collection, existing, {
+      overwriteExisting: true,
+      deleteRemovedVariables: true
+    });
+
+    const deletes = changes.filter(c => c.action === 'delete');
+    expect(deletes).toEqual([
+      expect.objectContaining({ key: 'fig-old', name: 'Color/Old', oldValue: '#000000' })
+    ]);
+  });
+
+  it('参照は参照先の変数名で比較する', async () => {
+    const withAlias = [
+      ...existing,
+      figmaVariable('fig-surface', 'Color/Surface', 'COLOR', { 'mode-1': { type: 'VARIABLE_ALIAS', id: 'fig-bg' } })
+    ];
+    const aliasIncoming: NotionVariable[] = [
+      { id: 'n-surface', name: 'Surface', group: 'Color', value: '{Color/Background}', type: '' as VariableType }
+    ];
+
+    const changes = await buildImportPlan(aliasIncoming, collection, withAlias, { overwriteExisting: true });
+
+    expect(changes[0]).toMatchObject({ action: 'unchanged', newValue: '{Color/Background}' });
+  });
+
+  it('NotionページIDで紐付いた変数の名前変更を更新として扱い、削除しない', async () => {
+    const linked = [
+      figmaVariable('fig-brand', 'Color/Brand', 'COLOR', { 'mode-1': white, 'mode-2': white }, '', 'n-primary')
+    ];
+    const renamed: NotionVariable[] = [
+      { id: 'n-primary', name: 'Primary', group: 'Color', value: '#ffffff', type: VariableType.COLOR }
+    ];
+
+    const changes = await buildImportPlan(renamed, collection, linked, {
+      overwriteExisting: true,
+      deleteRemovedVariables: true
+    });
+
+    expect(changes).toEqual([
+      expect.objectContaining({ key: 'n-primary', action: 'update', reason: '名前変更: Color/Brand → Color/Primary' })
+    ]);
+  });
+
+  it('単位付きの数値はpxに換算し、換算できない単位はスキップとして扱う', async () => {
+    const sized: NotionVariable[] = [
+      { id: 'n-space', name: 'Base', group: 'Spacing', value: '1rem', type: VariableType.NUMBER },
+      { id: 'n-screen', name: 'Screen', group: 'Size', value: '100vh', type: VariableType.NUMBER }
+    ];
+
+    const changes = await buildImportPlan(sized, collection, existing, { overwriteExisting: true });
+
+    expect(changes.find(c => c.key === 'n-space')).toMatchObject({ action: 'unchanged', newValue: '16' });
+    expect(changes.find(c => c.key === 'n-screen')).toMatchObject({ action: 'skip', reason: expect.stringContaining('vh') });
+  });
+
+  it('コレクションが未作成の場合はすべて作成として扱う', async () => {
+    const changes = await buildImportPlan(incoming, null, existing, { overwriteExisting: true });
+
+    expect(changes.every(c => c.action === 'create')).toBe(true);
+  });
+});
@@ -0,0 +1,183 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { captureImportSnapshot, getLastImportInfo, recordCreatedVariables, revertLastImport, saveImportSnapshot } from '../importSnapshot';
+import { NotionVariable } from '../../../shared/types';
+
+// figma.root のプラグインデータをメモリ上で再現
+let stored: Record<string, string> = {};
+
+const figmaVariable = (id: string, name: string, collectionId: string, valuesByMode: Record<string, VariableValue>) => {
+  const pluginData: Record<string, string> = {};
+  const variable = {
+    id,
+    name,
+    resolvedType: 'COLOR',
+    variableCollectionId: collectionId,
+    description: '',
+    valuesByMode,
+    scopes: ['ALL_SCOPES'],
+    codeSyntax: {},
+    hiddenFromPublishing: false,
+    setValueForMode: vi.fn((modeId: string, value: VariableValue) => { variable.valuesByMode[modeId] = value; }),
+    setVariableCodeSyntax: vi.fn(),
+    removeVariableCodeSyntax: vi.fn(),
+    getPluginData: vi.fn((key: string) => pluginData[key] ?? ''),
+    setPluginData: vi.fn((key: string, value: string) => { pluginData[key] = value; }),
+    remove: vi.fn()
+  };
+  return variable;
+};
+
+const collection = (id: string, name: string, modes = [{ modeId: 'm1', name: 'Light' }]) => ({
+  id,
+  name,
+  modes,
+  removeMode: vi.fn(),
+  renameMode: vi.fn(),
+  remove: vi.fn()
+});
+
+const red = { r: 1, g: 0, b: 0, a: 1 };
+const blue = { r: 0, g: 0, b: 1, a: 1 };
+
+describe('importSnapshot', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    stored = {};
+    (figma.root.getPluginData as ReturnType<typeof vi.fn>).mockImplementation((key: string) => stored[key] ?? '');
+    (figma.root.setPluginData as ReturnType<typeof vi.fn>).mockImplementation((key: string, value: string) => { stored[key] = value; });
+  });
+
+  it('should keep only the snapshots of the latest run', async () => {
+    const primitives = collection('c1', 'Primitives');
+    (figma.variables.getLocalVariablesAsync as ReturnType<typeof vi.fn>).mockResolvedValue([
+      figmaVariable('v1', 'Color/Red', 'c1', { m1: red })
+    ]);
+
+    saveImportSnapshot(await captureImportSnapshot(primitives as unknown as VariableCollection, { runId: 'run-1', createdCollection: false }));
+    saveImportSnapshot(await captureImportSnapshot(collection('c2', 'Semantic') as unknown as VariableCollection, { runId: 'run-2', createdCollection: false }));
+    saveImportSnapshot(await captureImportSnapshot(collection('c3', 'Theme') as unknown as VariableCollection, { runId: 'run-2', createdCollection: true }));
+
+    expect(getLastImportInfo()).toMatchObject({ collectionNames: ['Semantic', 'Theme'], variableCount: 0 });
+  });
+
+  it('should restore values, remove created variables and recreate deleted ones with their aliases', async () => {
+    const primitives = collection('c1', 'Primitives');
+    const red1 = figmaVariable('v-red', 'Color/Red', 'c1', { m1: red });
+    const accent = figmaVariable('v-accent', 'Color/Accent', 'c1', { m1: { type: 'VARIABLE_ALIAS', id: 'v-red' } });
+    red1.description = 'Brand red';
+    red1.setPluginData('notionPageId', 'page-red');
+    // 他のコレクションから参照されている
+    const button = figmaVariable('v-button', 'Button/Bg', 'c2', { m1: { type: 'VARIABLE_ALIAS', id: 'v-red' } });
+
+    (figma.variables.getLocalVariablesAsync as ReturnType<typeof vi.fn>).mockResolvedValue([red1, accent, button]);
+    saveImportSnapshot(await captureImportSnapshot(primitives as unknown as VariableCollection, { runId: 'run-1', createdCollection: false }));
+
+    // インポート: Accent の値を変更、Red を削除、Blue を作成、Dark モードを追加
+    accent.valuesByMode.m1 = blue;
+    const created = figmaVariable('v-blue', 'Color/Blue', 'c1', { m1: blue });
+    primitives.modes = [...primitives.modes, { modeId: 'm2', name: 'Dark' }];
+    recordCreatedVariables('run-1', 'c1', ['v-blue']);
+    // インポート後に手動で作成した変数は削除しない
+    const manual = figmaVariable('v-manual', 'Color/Manual', 'c1', { m1: red });
+    (figma.variables.getLocalVariablesAsync as ReturnType<typeof vi.fn>).mockResolvedValue([accent, created, manual, button]);
+    (figma.variables.getVariableCollectionByIdAsync as ReturnType<typeof vi.fn>).mockResolvedValue(primitives);
+    const recreated = figmaVariable('v-red-2', 'Color/Red', 'c1', {});
+    (figma.variables.createVariable as ReturnType<typeof vi.fn>).mockReturnValueOnce(recreated);
+
+    const result = await revertLastImport();
+
+    expect(result).toMatchObject({
+      collectionNames: ['Primitives'],
+      restored: ['Color/Accent'],
+      recreated: ['Color/Red'],
+      removed: ['Color/Blue'],
+      errors: []
+    });
+    expect(primitives.removeMode).toHaveBeenCalledWith('m2');
+    expect(created.remove).toHaveBeenCalled();
+    expect(manual.remove).not.toHaveBeenCalled();
+    expect(figma.variables.createVariable).toHaveBeenCalledWith('Color/Red', primitives, 'COLOR');
+    expect(recreated.setValueForMode).toHaveBeenCalledWith('m1', red);
+    expect(recreated.description).toBe('Brand red');
+    expect(recreated.setPluginData).toHaveBeenCalledWith('notionPageId', 'page-red');
+    // 参照は再作成した変数へ付け替える
+    expect(accent.setValueForMode).toHaveBeenCalledWith('m1', { type: 'VARIABLE_ALIAS', id: 'v-red-2' });
+    expect(button.setValueForMode).toHaveBeenCalledWith('m1', { type: 'VARIABLE_ALIAS', id: 'v-red-2' });
+    // 元に戻すのは1回のみ
+    expect(getLastImportInfo()).toBeNull();
+  });
+
+  it('should remove collections created by the import', async () => {
+    const theme = collection('c3', 'Theme');
+    saveImportSnapshot(await captureImportSnapshot(theme as unknown as VariableCollection, { runId: 'run-1', createdCollection: true }));
+    (figma.variables.getVariableCollectionByIdAsync as ReturnType<typeof vi.fn>).mockResolvedValue(theme);
+
+    const result = await revertLastImport();
+
+    expect(theme.remove).toHaveBeenCalled();
+    expect(result.removed).toEqual(['Theme']);
+  });
+
+  it('should restore styles updated by the import and remove the ones it created', async () => {
+    const theme = collection('c3', 'Theme');
+    const styleData: Record<string, string> = { notionPageId: 'page-body' };
+    const body = {
+      id: 's-body',
+      type: 'TEXT',
+      name: 'Text/Body',
+      description: '',
+      fontName: { family: 'Inter', style: 'Regular' },
+      fontSize: 16,
+      lineHeight: { unit: 'AUTO' },
+      letterSpacing: { value: 0, unit: 'PIXELS' },
+      boundVariables: {} as Record<string, VariableAlias>,
+      getPluginData: vi.fn((key: string) => styleData[key] ?? ''),
+      setPluginData: vi.fn(),
+      setBoundVariable: vi.fn(),
+      remove: vi.fn()
+    };
+    const shadow = { id: 's-shadow', type: 'EFFECT', name: 'Shadow/Card', getPluginData: vi.fn(() => 'page-shadow'), remove: vi.fn() };
+    (figma.getLocalTextStylesAsync as ReturnType<typeof vi.fn>).mockResolvedValue([body]);
+    const tokens = [
+      { id: 'page-body', name: 'Body', group: 'Text', composite: { type: 'TYPOGRAPHY' } },
+      { id: 'page-shadow', name: 'Card', group: 'Shadow', composite: { type: 'SHADOW' } }
+    ] as NotionVariable[];
+    saveImportSnapshot(await captureImportSnapshot(theme as unknown as VariableCollection, {
+      runId: 'run-1',
+      createdCollection: true,
+      compositeTokens: tokens
+    }));
+
+    // インポート: Body のフォントサイズを変更して変数をバインド、Card を作成
+    body.fontSize = 18;
+    body.boundVariables = { fontSize: { type: 'VARIABLE_ALIAS', id: 'v-size' } };
+    (figma.getLocalEffectStylesAsync as ReturnType<typeof vi.fn>).mockResolvedValue([shadow]);
+    (figma.getStyleByIdAsync as ReturnType<typeof vi.fn>).mockResolvedValue(body);
+
+    const result = await revertLastImport();
+
+    expect(result).toMatchObject({ restored: ['Text/Body'], removed: ['Theme', 'Shadow/Card'], errors: [] });
+    expect(shadow.remove).toHaveBeenCalled();
+    expect(figma.loadFontAsync).toHaveBeenCalledWith({ family: 'Inter', style: 'Regular' });
+    expect(body.fontSize).toBe(16);
+    expect(body.setBoundVariable).toHaveBeenCalledWith('fontSize', null);
+  });
+
+  it('should clear the previous snapshot when the new one cannot be saved', async () => {
+    saveImportSnapshot(await captureImportSnapshot(collection('c1', 'Primitives') as unknown as VariableCollection, { runId: 'run-1', createdCollection: false }));
+    (figma.root.setPluginData as ReturnType<typeof vi.fn>).mockImplementation((key: string, value: string) => {
+      if (value.length > 0) throw new Error('Plugin data too large');
+      stored[key] = value;
+    });
+
+    const saved = saveImportSnapshot(await captureImportSnapshot(collection('c2', 'Semantic') as unknown as VariableCollection, { runId: 'run-2', createdCollection: false }));
+
+    // 前回の実行の状態に戻さない
+    expect(saved).toBe(false);
+    expect(getLastImportInfo()).toBeNull();
+  });
+
+  it('should throw when there is nothing to revert', async () => {
+    await expect(revertLastImport()).rejects.toThrow('元に戻せるインポートがありません');
+  });
+});
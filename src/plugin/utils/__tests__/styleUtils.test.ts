@@ -0,0 +1,373 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  angleToGradientTransform,
+  buildCompositeTokenPlan,
+  gradientTransformToAngle,
+  importCompositeTokens,
+  parseLineHeight,
+  resolveFontName,
+  styleNameToFontWeight
+} from '../styleUtils';
+import { GradientTokenValue, NotionVariable, ShadowLayerValue, TypographyTokenValue, VariableType } from '../../../shared/types';
+
+const fonts = [
+  { fontName: { family: 'Inter', style: 'Regular' } },
+  { fontName: { family: 'Inter', style: 'Semi Bold' } },
+  { fontName: { family: 'Inter', style: 'Bold' } }
+] as Font[];
+
+const mockTextStyle = (name = '', pluginData: Record<string, string> = {}) => ({
+  id: `style-${name}`,
+  name,
+  description: '',
+  fontName: { family: 'Roboto', style: 'Regular' },
+  fontSize: 12,
+  lineHeight: { unit: 'AUTO' },
+  letterSpacing: { value: 0, unit: 'PIXELS' },
+  boundVariables: {} as Record<string, unknown>,
+  setBoundVariable: vi.fn(),
+  remove: vi.fn(),
+  getPluginData: vi.fn((key: string) => pluginData[key] ?? ''),
+  setPluginData: vi.fn((key: string, data: string) => { pluginData[key] = data; })
+});
+
+const typographyToken = (id: string, name: string, value: TypographyTokenValue): NotionVariable => ({
+  id,
+  name,
+  group: 'Text',
+  value: '',
+  type: '' as VariableType,
+  description: 'Body text',
+  composite: { type: 'TYPOGRAPHY', value }
+});
+
+const mockEffectStyle = (name = '') => ({
+  id: `effect-${name}`,
+  name,
+  description: '',
+  effects: [] as Effect[],
+  remove: vi.fn(),
+  getPluginData: vi.fn().mockReturnValue(''),
+  setPluginData: vi.fn()
+});
+
+const shadowToken = (id: string, name: string, value: ShadowLayerValue[]): NotionVariable => ({
+  id,
+  name,
+  group: 'Elevation',
+  value: '',
+  type: '' as VariableType,
+  composite: { type: 'SHADOW', value }
+});
+
+const gradientToken = (id: string, name: string, value: GradientTokenValue): NotionVariable => ({
+  id,
+  name,
+  group: 'Gradient',
+  value: '',
+  type: '' as VariableType,
+  composite: { type: 'GRADIENT', value }
+});
+
+describe('styleUtils', () => {
+  describe('parseLineHeight', () => {
+    it('should treat small unitless numbers as ratios and keep px / % / auto', () => {
+      expect(parseLineHeight(1.5)).toEqual({ value: 150, unit: 'PERCENT' });
+      expect(parseLineHeight('24')).toEqual({ value: 24, unit: 'PIXELS' });
+      expect(parseLineHeight('24px')).toEqual({ value: 24, unit: 'PIXELS' });
+      expect(parseLineHeight('120%')).toEqual({ value: 120, unit: 'PERCENT' });
+      expect(parseLineHeight('auto')).toEqual({ unit: 'AUTO' });
+      expect(parseLineHeight('normal')).toBeNull();
+    });
+  });
+
+  describe('resolveFontName', () => {
+    it('should map numeric weights and style names to available font styles', () => {
+      expect(resolveFontName('inter', 600, fonts)).toEqual({ family: 'Inter', style: 'Semi Bold' });
+      expect(resolveFontName('Inter', 'bold', fonts)).toEqual({ family: 'Inter', style: 'Bold' });
+      expect(resolveFontName('Inter', undefined, fonts)).toEqual({ family: 'Inter', style: 'Regular' });
+    });
+
+    it('should throw when the family or weight is not available', () => {
+      expect(() => resolveFontName('Unknown', 400, fonts)).toThrow('フォント "Unknown" が見つかりません');
+      expect(() => resolveFontName('Inter', 900, fonts)).toThrow('ウェイト "900"');
+    });
+  });
+
+  describe('angleToGradientTransform', () => {
+    it('should map 90deg to the identity transform and round-trip angles', () => {
+      expect(angleToGradientTransform(90)).toEqual([[1, 0, 0], [0, 1, 0]]);
+      expect(angleToGradientTransform(180)).toEqual([[0, 1, 0], [-1, 0, 1]]);
+      for (const angle of [0, 45, 135, 270, 315]) {
+        expect(gradientTransformToAngle(angleToGradientTransform(angle))).toBe(angle);
+      }
+    });
+  });
+
+  describe('styleNameToFontWeight', () => {
+    it('should convert style names to numeric weights', () => {
+      expect(styleNameToFontWeight('Semi Bold Italic')).toBe(600);
+      expect(styleNameToFontWeight('Italic')).toBe(400);
+      expect(styleNameToFontWeight('Condensed')).toBeUndefined();
+    });
+  });
+
+  describe('importCompositeTokens', () => {
+    beforeEach(() => {
+      vi.clearAllMocks();
+      (figma.listAvailableFontsAsync as ReturnType<typeof vi.fn>).mockResolvedValue(fonts);
+      (figma.getLocalTextStylesAsync as ReturnType<typeof vi.fn>).mockResolvedValue([]);
+      (figma.createTextStyle as ReturnType<typeof vi.fn>).mockImplementation(() => mockTextStyle());
+    });
+
+    it('should create a text style and bind referenced variables', async () => {
+      const sizeVariable = {
+        id: 'var-size',
+        name: 'Size/Base',
+        variableCollectionId: 'collection-1',
+        valuesByMode: { 'mode-1': 16 }
+      } as unknown as Variable;
+
+      const result = await importCompositeTokens(
+        [typographyToken('page-body', 'Body', { fontFamily: 'Inter', fontSize: '{Size/Base}', fontWeight: 700, lineHeight: 1.5 })],
+        [sizeVariable],
+        { overwriteExisting: true }
+      );
+
+      expect(result).toEqual({ imported: 1, skipped: 0, errors: [], created: ['Text/Body'], updated: [] });
+      const style = (figma.createTextStyle as ReturnType<typeof vi.fn>).mock.results[0].value;
+      expect(figma.loadFontAsync).toHaveBeenCalledWith({ family: 'Inter', style: 'Bold' });
+      expect(style).toMatchObject({
+        name: 'Text/Body',
+        description: 'Body text',
+        fontName: { family: 'Inter', style: 'Bold' },
+        fontSize: 16,
+        lineHeight: { value: 150, unit: 'PERCENT' }
+      });
+      expect(style.setBoundVariable).toHaveBeenCalledWith('fontSize', sizeVariable);
+      expect(style.setPluginData).toHaveBeenCalledWith('notionPageId', 'page-body');
+    });
+
+    it('should update the linked style, rename it and respect overwrite / excluded keys', async () => {
+      const linked = mockTextStyle('Text/Old', { notionPageId: 'page-body' });
+      linked.boundVariables = { fontSize: { type: 'VARIABLE_ALIAS', id: 'var-size' } };
+      (figma.getLocalTextStylesAsync as ReturnType<typeof vi.fn>).mockResolvedValue([linked]);
+
+      const tokens = [typographyToken('page-body', 'Body', { fontFamily: 'Inter', fontSize: '14px' })];
+
+      const skipped = await importCompositeTokens(tokens, [], { overwriteExisting: false });
+      expect(skipped).toEqual({ imported: 0, skipped: 1, errors: [], created: [], updated: [] });
+      expect(linked.name).toBe('Text/Old');
+
+      const excluded = await importCompositeTokens(tokens, [], { overwriteExisting: true, excludedKeys: new Set(['page-body']) });
+      expect(excluded.skipped).toBe(1);
+
+      const updated = await importCompositeTokens(tokens, [], { overwriteExisting: true });
+      expect(updated.imported).toBe(1);
+      expect(updated.updated).toEqual(['Text/Body']);
+      expect(figma.createTextStyle).not.toHaveBeenCalled();
+      expect(linked).toMatchObject({ name: 'Text/Body', fontSize: 14, fontName: { family: 'Inter', style: 'Regular' } });
+      // 値になった項目はバインドを解除
+      expect(linked.setBoundVariable).toHaveBeenCalledWith('fontSize', null);
+    });
+
+    it('should leave the linked style unchanged when a later field cannot be parsed', async () => {
+      const linked = mockTextStyle('Text/Body', { notionPageId: 'page-body' });
+      (figma.getLocalTextStylesAsync as ReturnType<typeof vi.fn>).mockResolvedValue([linked]);
+
+      const result = await importCompositeTokens(
+        [typographyToken('page-body', 'Body', { fontFamily: 'Inter', fontSize: 16, lineHeight: 1.5, letterSpacing: 'wide' })],
+        [],
+        { overwriteExisting: true }
+      );
+
+      expect(result.errors).toEqual([{ name: 'Text/Body', reason: '文字間隔 "wide" を解釈できません' }]);
+      expect(linked).toMatchObject({
+        fontName: { family: 'Roboto', style: 'Regular' },
+        fontSize: 12,
+        lineHeight: { unit: 'AUTO' }
+      });
+    });
+
+    it('should report unresolved references and unavailable fonts as errors', async () => {
+      const result = await importCompositeTokens(
+        [
+          typographyToken('page-a', 'A', { fontFamily: 'Inter', fontSize: '{Size/Missing}' }),
+          typographyToken('page-b', 'B', { fontFamily: 'Unknown', fontSize: 16 })
+        ],
+        [],
+        { overwriteExisting: true }
+      );
+
+      expect(result.imported).toBe(0);
+      expect(result.errors).toEqual([
+        { name: 'Text/A', reason: '参照先 "Size/Missing" が見つかりません（fontSize）' },
+        { name: 'Text/B', reason: 'フォント "Unknown" が見つかりません' }
+      ]);
+      // 値を反映できなかった新規スタイルは削除する
+      const createdStyles = (figma.createTextStyle as ReturnType<typeof vi.fn>).mock.results.map(r => r.value);
+      expect(createdStyles).toHaveLength(2);
+      createdStyles.forEach(style => expect(style.remove).toHaveBeenCalledTimes(1));
+    });
+
+    it('should create effect styles from shadow layers and bind color variables', async () => {
+      const effectStyle = mockEffectStyle();
+      (figma.getLocalEffectStylesAsync as ReturnType<typeof vi.fn>).mockResolvedValue([]);
+      (figma.createEffectStyle as ReturnType<typeof vi.fn>).mockReturnValue(effectStyle);
+      (figma.variables.setBoundVariableForEffect as ReturnType<typeof vi.fn>).mockImplementation((effect, field, variable) => ({
+        ...effect,
+        boundVariables: { [field]: { type: 'VARIABLE_ALIAS', id: variable.id } }
+      }));
+      const black = {
+        id: 'var-black',
+        name: 'Color/Black',
+        variableCollectionId: 'collection-1',
+        valuesByMode: { 'mode-1': { r: 0, g: 0, b: 0, a: 1 } }
+      } as unknown as Variable;
+
+      const result = await importCompositeTokens(
+        [shadowToken('page-card', 'Card', [
+          { color: '{Color/Black}', offsetX: 0, offsetY: '4px', blur: 8, spread: -2 },
+          { color: '#ffffff80', offsetX: 0, offsetY: 1, inset: true }
+        ])],
+        [black],
+        { overwriteExisting: true }
+      );
+
+      expect(result).toEqual({ imported: 1, skipped: 0, errors: [], created: ['Elevation/Card'], updated: [] });
+      expect(figma.getLocalTextStylesAsync).not.toHaveBeenCalled();
+      expect(effectStyle.name).toBe('Elevation/Card');
+      expect(effectStyle.effects).toEqual([
+        {
+          type: 'DROP_SHADOW',
+          color: { r: 0, g: 0, b: 0, a: 1 },
+          offset: { x: 0, y: 4 },
+          radius: 8,
+          spread: -2,
+          visible: true,
+          blendMode: 'NORMAL',
+          boundVariables: { color: { type: 'VARIABLE_ALIAS', id: 'var-black' } }
+        },
+        {
+          type: 'INNER_SHADOW',
+          color: { r: 1, g: 1, b: 1, a: 128 / 255 },
+          offset: { x: 0, y: 1 },
+          radius: 0,
+          spread: 0,
+          visible: true,
+          blendMode: 'NORMAL'
+        }
+      ]);
+    });
+
+    it('should create paint styles from gradients and bind stop colors to color variables', async () => {
+      const paintStyle = { name: '', description: '', paints: [] as Paint[], remove: vi.fn(), getPluginData: vi.fn().mockReturnValue(''), setPluginData: vi.fn() };
+      (figma.getLocalPaintStylesAsync as ReturnType<typeof vi.fn>).mockResolvedValue([]);
+      (figma.createPaintStyle as ReturnType<typeof vi.fn>).mockReturnValue(paintStyle);
+      const black = {
+        id: 'var-black',
+        name: 'Color/Black',
+        resolvedType: 'COLOR',
+        variableCollectionId: 'collection-1',
+        valuesByMode: { 'mode-1': { r: 0, g: 0, b: 0, a: 1 } }
+      } as unknown as Variable;
+
+      const result = await importCompositeTokens(
+        [gradientToken('page-hero', 'Hero', {
+          type: 'LINEAR',
+          angle: 90,
+          stops: [{ color: '#ffffff', position: 0 }, { color: '{Color/Black}', position: 1 }]
+        })],
+        [black],
+        { overwriteExisting: true }
+      );
+
+      expect(result).toEqual({ imported: 1, skipped: 0, errors: [], created: ['Gradient/Hero'], updated: [] });
+      expect(paintStyle.name).toBe('Gradient/Hero');
+      expect(paintStyle.paints).toEqual([{
+        type: 'GRADIENT_LINEAR',
+        gradientTransform: [[1, 0, 0], [0, 1, 0]],
+        gradientStops: [
+          { position: 0, color: { r: 1, g: 1, b: 1, a: 1 } },
+          { position: 1, color: { r: 0, g: 0, b: 0, a: 1 }, boundVariables: { color: { type: 'VARIABLE_ALIAS', id: 'var-black' } } }
+        ],
+        visible: true,
+        opacity: 1,
+        blendMode: 'NORMAL'
+      }]);
+    });
+
+    it('should reject gradient stops that reference non-color variables', async () => {
+      const size = { id: 'var-size', name: 'Size/Base', resolvedType: 'FLOAT', valuesByMode: { 'mode-1': 16 } } as unknown as Variable;
+
+      const result = await importCompositeTokens(
+        [gradientToken('page-hero', 'Hero', { type: 'RADIAL', stops: [{ color: '{Size/Base}', position: 0 }, { color: '#000000', position: 1 }] })],
+        [size],
+        { overwriteExisting: true }
+      );
+
+      expect(result.errors).toEqual([{ name: 'Gradient/Hero', reason: '参照先 "Size/Base" は色のVariableではありません' }]);
+      expect(figma.createPaintStyle).not.toHaveBeenCalled();
+    });
+
+    it('should not create an effect style when a shadow length cannot be parsed', async () => {
+      const result = await importCompositeTokens(
+        [shadowToken('page-card', 'Card', [{ color: '#000000', offsetX: 0, offsetY: '1rem' }])],
+        [],
+        { overwriteExisting: true }
+      );
+
+      expect(result.errors).toEqual([{ name: 'Elevation/Card', reason: 'シャドウの offsetY "1rem" を解釈できません' }]);
+      expect(figma.createEffectStyle).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('buildCompositeTokenPlan', () => {
+    it('should list created and updated text styles', async () => {
+      (figma.getLocalTextStylesAsync as ReturnType<typeof vi.fn>).mockResolvedValue([mockTextStyle('Text/Body')]);
+
+      const changes = await buildCompositeTokenPlan(
+        [
+          typographyToken('page-body', 'Body', { fontFamily: 'Inter', fontSize: 16, fontWeight: 700 }),
+          typographyToken('page-caption', 'Caption', { fontFamily: 'Inter', fontSize: 12 })
+        ],
+        { overwriteExisting: true }
+      );
+
+      expect(changes).toEqual([
+        {
+          key: 'page-body',
+          name: 'Text/Body',
+          action: 'update',
+          oldValue: 'Roboto / Regular / 12px / auto / 0px',
+          oldType: 'TYPOGRAPHY',
+          newValue: 'Inter / 700 / 16',
+          newType: 'TYPOGRAPHY'
+        },
+        { key: 'page-caption', name: 'Text/Caption', action: 'create', newValue: 'Inter / 12', newType: 'TYPOGRAPHY' }
+      ]);
+    });
+
+    it('should format shadows as box-shadow values', async () => {
+      const existing = mockEffectStyle('Elevation/Card');
+      existing.effects = [
+        { type: 'DROP_SHADOW', color: { r: 0, g: 0, b: 0, a: 1 }, offset: { x: 0, y: 2 }, radius: 4, spread: 0, visible: true, blendMode: 'NORMAL' }
+      ];
+      (figma.getLocalEffectStylesAsync as ReturnType<typeof vi.fn>).mockResolvedValue([existing]);
+
+      const changes = await buildCompositeTokenPlan(
+        [shadowToken('page-card', 'Card', [{ color: '{Color/Black}', offsetX: 0, offsetY: 4, blur: 8, inset: true }])],
+        { overwriteExisting: false }
+      );
+
+      expect(changes).toEqual([
+        expect.objectContaining({
+          action: 'skip',
+          oldValue: '0 2 4 0 #000000',
+          newValue: 'inset 0 4 8 0 {Color/Black}',
+          newType: 'SHADOW'
+        })
+      ]);
+    });
+  });
+});
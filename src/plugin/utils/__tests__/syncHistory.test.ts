@@ -0,0 +1,52 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { loadSyncHistory, MAX_SYNC_HISTORY_ENTRIES, recordSyncHistory, SYNC_HISTORY_KEY } from '../syncHistory';
+
+// figma.root のプラグインデータをメモリ上で再現
+let stored: Record<string, string> = {};
+
+const entry = (collectionName: string) => ({
+  kind: 'import' as const,
+  databaseId: 'db-1',
+  collectionName,
+  created: ['Color/Primary'],
+  updated: [],
+  deleted: [],
+  errors: []
+});
+
+describe('syncHistory', () => {
+  beforeEach(() => {
+    stored = {};
+    (figma.root.getPluginData as ReturnType<typeof vi.fn>).mockImplementation((key: string) => stored[key] ?? '');
+    (figma.root.setPluginData as ReturnType<typeof vi.fn>).mockImplementation((key: string, value: string) => { stored[key] = value; });
+    (figma as { currentUser: unknown }).currentUser = { id: 'user-1', name: 'Taro' };
+  });
+
+  it('should prepend entries with timestamp and user', () => {
+    recordSyncHistory(entry('Primitives'));
+    recordSyncHistory(entry('Semantic'));
+
+    const history = loadSyncHistory();
+    expect(history.map(e => e.collectionName)).toEqual(['Semantic', 'Primitives']);
+    expect(history[0]).toMatchObject({ kind: 'import', user: 'Taro', created: ['Color/Primary'] });
+    expect(Date.parse(history[0].timestamp)).not.toBeNaN();
+  });
+
+  it('should drop the oldest entries over the limit', () => {
+    for (let i = 0; i < MAX_SYNC_HISTORY_ENTRIES + 3; i++) {
+      recordSyncHistory(entry(`Collection ${i}`));
+    }
+
+    const history = loadSyncHistory();
+    expect(history).toHaveLength(MAX_SYNC_HISTORY_ENTRIES);
+    expect(history[0].collectionName).toBe(`Collection ${MAX_SYNC_HISTORY_ENTRIES + 2}`);
+  });
+
+  it('should ignore broken history data', () => {
+    stored[SYNC_HISTORY_KEY] = '{broken';
+
+    expect(loadSyncHistory()).toEqual([]);
+    recordSyncHistory(entry('Primitives'));
+    expect(loadSyncHistory()).toHaveLength(1);
+  });
+});
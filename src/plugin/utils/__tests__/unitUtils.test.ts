@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { convertNumberWithUnit, getOriginalUnitValue } from '../unitUtils';
+
+describe('unitUtils', () => {
+  describe('convertNumberWithUnit', () => {
+    it('should keep plain numbers and px values', () => {
+      expect(convertNumberWithUnit(8)).toEqual({ value: 8 });
+      expect(convertNumberWithUnit('16')).toEqual({ value: 16 });
+      expect(convertNumberWithUnit(' 16px ')).toEqual({ value: 16 });
+      expect(convertNumberWithUnit('-.5px')).toEqual({ value: -0.5 });
+    });
+
+    it('should accept exponent notation', () => {
+      expect(convertNumberWithUnit('1e3')).toEqual({ value: 1000 });
+      expect(convertNumberWithUnit('1.5e-1px')).toEqual({ value: 0.15 });
+      expect(convertNumberWithUnit('1E+1rem')).toEqual({ value: 160, unit: 'rem' });
+    });
+
+    it('should convert rem / em / pt with the default settings', () => {
+      expect(convertNumberWithUnit('1.5rem')).toEqual({ value: 24, unit: 'rem' });
+      expect(convertNumberWithUnit('2em')).toEqual({ value: 32, unit: 'em' });
+      expect(convertNumberWithUnit('12pt')).toEqual({ value: 16, unit: 'pt' });
+      expect(convertNumberWithUnit('50%')).toEqual({ value: 50, unit: '%' });
+    });
+
+    it('should use the configured root font size, pt ratio and percentage handling', () => {
+      const settings = { rootFontSize: 10, ptToPx: 1, percentage: 'ratio' as const };
+      expect(convertNumberWithUnit('1.5REM', settings)).toEqual({ value: 15, unit: 'rem' });
+      expect(convertNumberWithUnit('12pt', settings)).toEqual({ value: 12, unit: 'pt' });
+      expect(convertNumberWithUnit('35%', settings)).toEqual({ value: 0.35, unit: '%' });
+    });
+
+    it('should throw for unsupported units and non-numeric values', () => {
+      expect(() => convertNumberWithUnit('100vh')).toThrow('単位 "vh" はpxに換算できません');
+      expect(() => convertNumberWithUnit('large')).toThrow('"large" は数値として解釈できません');
+    });
+  });
+
+  describe('getOriginalUnitValue', () => {
+    it('should return only values with a unit other than px', () => {
+      expect(getOriginalUnitValue(' 1.5rem ')).toBe('1.5rem');
+      expect(getOriginalUnitValue('16px')).toBe('');
+      expect(getOriginalUnitValue('16')).toBe('');
+      expect(getOriginalUnitValue(16)).toBe('');
+      expect(getOriginalUnitValue('{Spacing/Base}')).toBe('');
+    });
+  });
+});
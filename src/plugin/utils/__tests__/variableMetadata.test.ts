@@ -0,0 +1,101 @@
+import { describe, it, expect, vi } from 'vitest';
+import { annotateDeprecated, applyVariableMetadata, describeMetadataChanges, resolveDescription, validateScopes } from '../variableMetadata';
+import { NotionVariable, VariableType } from '../../../shared/types';
+
+const figmaVariable = (resolvedType: VariableResolvedDataType, scopes: VariableScope[] = ['ALL_SCOPES'], codeSyntax: Record<string, string> = {}) => ({
+  resolvedType,
+  scopes,
+  codeSyntax,
+  hiddenFromPublishing: false,
+  setVariableCodeSyntax: vi.fn(),
+  removeVariableCodeSyntax: vi.fn()
+}) as unknown as Variable;
+
+const token = (overrides: Partial<NotionVariable>): NotionVariable => ({
+  id: 'page-1',
+  name: 'Small',
+  value: 4,
+  type: VariableType.NUMBER,
+  ...overrides
+});
+
+describe('variableMetadata', () => {
+  describe('validateScopes', () => {
+    it('should normalize scope names and drop duplicates', () => {
+      expect(validateScopes(['corner radius', 'GAP', 'Corner-Radius'], 'FLOAT')).toEqual(['CORNER_RADIUS', 'GAP']);
+    });
+
+    it('should reject scopes that do not match the resolved type', () => {
+      expect(() => validateScopes(['CORNER_RADIUS'], 'COLOR')).toThrow('スコープ "CORNER_RADIUS" は COLOR のVariableには設定できません');
+      expect(() => validateScopes(['UNKNOWN'], 'FLOAT')).toThrow('FLOAT のVariableには設定できません');
+      expect(() => validateScopes(['TEXT_CONTENT'], 'BOOLEAN')).toThrow('BOOLEAN のVariableにはスコープを設定できません');
+    });
+
+    it('should reject scopes that cannot be combined', () => {
+      expect(() => validateScopes(['ALL_SCOPES', 'GAP'], 'FLOAT')).toThrow('ALL_SCOPES');
+      expect(() => validateScopes(['ALL_FILLS', 'TEXT_FILL'], 'COLOR')).toThrow('ALL_FILLS');
+    });
+  });
+
+  describe('applyVariableMetadata', () => {
+    it('should set scopes and set or remove code syntax per platform', () => {
+      const variable = figmaVariable('FLOAT', ['ALL_SCOPES'], { WEB: 'old', iOS: 'radiusSmall' });
+
+      applyVariableMetadata(variable, ['CORNER_RADIUS'], { codeSyntax: { WEB: 'var(--radius-small)', iOS: '' } });
+
+      expect(variable.scopes).toEqual(['CORNER_RADIUS']);
+      expect(variable.setVariableCodeSyntax).toHaveBeenCalledWith('WEB', 'var(--radius-small)');
+      expect(variable.removeVariableCodeSyntax).toHaveBeenCalledWith('iOS');
+      // 未設定のプラットフォームは変更しない
+      expect(variable.setVariableCodeSyntax).toHaveBeenCalledTimes(1);
+    });
+
+    it('should leave the variable untouched when nothing is set', () => {
+      const variable = figmaVariable('FLOAT', ['GAP'], { WEB: 'var(--gap)' });
+
+      applyVariableMetadata(variable, undefined, {});
+
+      expect(variable.scopes).toEqual(['GAP']);
+      expect(variable.hiddenFromPublishing).toBe(false);
+      expect(variable.setVariableCodeSyntax).not.toHaveBeenCalled();
+      expect(variable.removeVariableCodeSyntax).not.toHaveBeenCalled();
+    });
+
+    it('should hide the variable from publishing', () => {
+      const variable = figmaVariable('FLOAT');
+
+      applyVariableMetadata(variable, undefined, { hiddenFromPublishing: true });
+
+      expect(variable.hiddenFromPublishing).toBe(true);
+    });
+  });
+
+  describe('resolveDescription', () => {
+    it('should add or remove the deprecated prefix', () => {
+      expect(annotateDeprecated('Old blue', true)).toBe('[Deprecated] Old blue');
+      expect(annotateDeprecated('[Deprecated] Old blue', true)).toBe('[Deprecated] Old blue');
+      expect(annotateDeprecated('[Deprecated] Old blue', false)).toBe('Old blue');
+    });
+
+    it('should keep the current description when Notion has none', () => {
+      expect(resolveDescription(token({ deprecated: true }), 'Old blue')).toBe('[Deprecated] Old blue');
+      expect(resolveDescription(token({ description: 'New', deprecated: false }), '[Deprecated] Old blue')).toBe('New');
+      // 非推奨の列がない場合は従来どおり説明がある場合のみ更新
+      expect(resolveDescription(token({}), 'Old blue')).toBeUndefined();
+      expect(resolveDescription(token({ description: 'New' }), '[Deprecated] Old blue')).toBe('New');
+    });
+  });
+
+  describe('describeMetadataChanges', () => {
+    it('should list changed scopes and code syntax', () => {
+      const variable = figmaVariable('FLOAT', ['GAP'], { WEB: 'var(--gap)' });
+
+      expect(describeMetadataChanges(variable, token({ scopes: ['GAP'], codeSyntax: { WEB: 'var(--gap)' } }))).toEqual([]);
+      expect(describeMetadataChanges(variable, token({ scopes: ['CORNER_RADIUS'], codeSyntax: { ANDROID: 'gap' } }))).toEqual([
+        'スコープ',
+        'コードシンタックス'
+      ]);
+      expect(describeMetadataChanges(variable, token({ hiddenFromPublishing: true }))).toEqual(['公開から除外']);
+    });
+  });
+});
@@ -0,0 +1,237 @@
+// インポートする変数の参照（エイリアス）グラフを検証・整列するユーティリティ
+import { NotionVariable, NotionVariableValue, VariableType } from '../../shared/types';
+import {
+  convertFromFigmaVariableType,
+  detectVariableType,
+  findByName,
+  findByQualifiedName,
+  formatQualifiedName,
+  ReferenceOptions,
+  splitCollectionQualifier
+} from './variableUtils';
+
+// 参照の問題の種類
+// - cycle: 循環参照（自己参照を含む）。対象の変数はインポートしない
+// - dangling: 参照先が見つからない。フォールバック値または値そのものでインポートする
+// - typeMismatch: 参照先の型が変数の型と異なる
+// - ambiguous: 厳密モードで参照先の候補が複数ある。参照先なしとして扱う
+export type AliasIssueKind = 'cycle' | 'dangling' | 'typeMismatch' | 'ambiguous';
+
+export interface AliasIssue {
+  name: string;    // 問題のある行の変数名（Group/Name）
+  kind: AliasIssueKind;
+  reason: string;
+}
+
+export interface AliasGraphResult {
+  ordered: NotionVariable[];          // 参照先が先に来る順（循環参照の変数は除く）
+  cyclic: Set<NotionVariable>;        // 循環参照に含まれる変数
+  issues: AliasIssue[];
+}
+
+// 参照の解析結果
+interface AliasReference {
+  modeName?: string;   // モード別の値の参照の場合のモード名
+  target: string;      // 参照先の名前
+  fallback?: string;
+}
+
+export interface AliasGraphOptions extends ReferenceOptions {
+  collectionId?: string;    // インポート先のコレクションID（未作成の場合は省略）
+  collectionName?: string;  // インポート先のコレクション名
+}
+
+// 参照先の候補（インポートする変数、またはFigmaの既存変数）
+interface Candidate {
+  name: string;
+  collectionName: string;
+  incoming?: NotionVariable;
+  figmaVariable?: Variable;
+}
+
+// group/name 形式のフルネームを取得
+function getFullName(variable: NotionVariable): string {
+  return variable.group ? `${variable.group}/${variable.name}` : variable.name;
+}
+
+/**
+ * {Group/Name} または {Group/Name}||フォールバック 形式の値を解析（参照でなければnull）
+ */
+export function parseAliasValue(value: NotionVariableValue | undefined): { target: string; fallback?: string } | null {
+  if (typeof value !== 'string' || !value.startsWith('{')) return null;
+  const [refPart, fbPart] = value.split('||', 2).map(s => s.trim());
+  const target = refPart.replace(/^\{|\}$/g, '').trim();
+  if (!target) return null;
+  return fbPart ? { target, fallback: fbPart } : { target };
+}
+
+// 変数の全ての参照（デフォルト値とモード別の値）を収集
+function collectReferences(variable: NotionVariable): AliasReference[] {
+  const references: AliasReference[] = [];
+  const primary = parseAliasValue(variable.value);
+  if (primary) references.push(primary);
+  for (const [modeName, modeValue] of Object.entries(variable.valuesByMode ?? {})) {
+    const alias = parseAliasValue(modeValue);
+    if (alias) references.push({ ...alias, modeName });
+  }
+  return references;
+}
+
+/**
+ * 参照グラフを構築し、循環参照・参照先なし・型の不一致を検出して、参照先が先になるよう並べ替える
+ * @param variables インポートする変数（DB順）
+ * @param figmaVariables Figmaの既存変数（インポート対象にない参照先の解決に使用）
+ * @param options 参照の解決方法（厳密モードでは曖昧な参照を候補付きで報告する）
+ */
+export function buildAliasGraph(
+  variables: NotionVariable[],
+  figmaVariables: Variable[],
+  options: AliasGraphOptions = {}
+): AliasGraphResult {
+  const issues: AliasIssue[] = [];
+  const collectionNameOf = (v: Variable) => options.collectionNames?.get(v.variableCollectionId) ?? v.variableCollectionId;
+
+  // インポートする変数を優先し、インポートで置き換わらないFigmaの既存変数を後ろに並べる（実際の参照解決と同じ規則で検索）
+  // インポート先のコレクションが分かる場合は、そのコレクションの同名変数のみを除く（他のコレクションの同名変数はコレクション修飾や曖昧さの判定に使用）
+  const incomingNames = new Set(variables.map(getFullName));
+  const isReplaced = (v: Variable) => incomingNames.has(v.name)
+    && (options.collectionId === undefined || v.variableCollectionId === options.collectionId);
+  const candidates: Candidate[] = [
+    ...variables.map(v => ({ name: getFullName(v), collectionName: options.collectionName ?? '', incoming: v })),
+    ...figmaVariables.filter(v => !isReplaced(v)).map(v => ({ name: v.name, collectionName: collectionNameOf(v), figmaVariable: v }))
+  ];
+  const knownCollections = new Set(candidates.map(c => c.collectionName).filter(Boolean));
+
+  // 通常モードの参照解決（コレクション修飾がある場合はそのコレクション内のみを検索）
+  const resolveLoosely = (target: string): Candidate | null => {
+    const { collectionName, path } = splitCollectionQualifier(target, knownCollections);
+    if (collectionName === null) return findByName(target, candidates);
+    return findByName(path, candidates.filter(c => c.collectionName === collectionName));
+  };
+
+  // 参照先を解決してグラフの辺を作成
+  const references = new Map<NotionVariable, { reference: AliasReference; candidate: Candidate | null }[]>();
+  for (const variable of variables) {
+    const resolved: { reference: AliasReference; candidate: Candidate | null }[] = [];
+
+    for (const reference of collectReferences(variable)) {
+      const where = reference.modeName ? `モード "${reference.modeName}" の` : '';
+      const fallbackNote = reference.fallback ? '（フォールバック値を使用します）' : '';
+
+      if (!options.strict) {
+        const candidate = resolveLoosely(reference.target);
+        resolved.push({ reference, candidate });
+        if (!candidate) {
+          issues.push({
+            name: getFullName(variable),
+            kind: 'dangling',
+            reason: `${where}参照先 "${reference.target}" が見つかりません${fallbackNote}`
+          });
+        }
+        continue;
+      }
+
+      const { match, candidates: matches, ambiguous } = findByQualifiedName(reference.target, candidates);
+      resolved.push({ reference, candidate: match });
+      if (match) continue;
+
+      const candidateList = matches.map(formatQualifiedName).join(', ');
+      issues.push(ambiguous
+        ? {
+            name: getFullName(variable),
+            kind: 'ambiguous',
+            reason: `${where}参照先 "${reference.target}" が複数あります（候補: ${candidateList}）${fallbackNote}`
+          }
+        : {
+            name: getFullName(variable),
+            kind: 'dangling',
+            reason: `${where}参照先 "${reference.target}" が見つかりません${matches.length > 0 ? `（候補: ${candidateList}）` : ''}${fallbackNote}`
+          });
+    }
+
+    references.set(variable, resolved);
+  }
+
+  // 深さ優先探索で整列（DB順を保ちつつ参照先を先に出力）
+  const state = new Map<NotionVariable, 'visiting' | 'done'>();
+  const cyclic = new Set<NotionVariable>();
+  const sorted: NotionVariable[] = [];
+  const stack: NotionVariable[] = [];
+
+  const visit = (variable: NotionVariable) => {
+    const current = state.get(variable);
+    if (current === 'done') return;
+    if (current === 'visiting') {
+      const cycle = stack.slice(stack.indexOf(variable));
+      const path = [...cycle, variable].map(getFullName).join(' → ');
+      for (const member of cycle) {
+        if (cyclic.has(member)) continue;
+        cyclic.add(member);
+        issues.push({
+          name: getFullName(member),
+          kind: 'cycle',
+          reason: cycle.length === 1 ? '自分自身を参照しています' : `循環参照しています（${path}）`
+        });
+      }
+      return;
+    }
+
+    state.set(variable, 'visiting');
+    stack.push(variable);
+    for (const { candidate } of references.get(variable) ?? []) {
+      if (candidate?.incoming) visit(candidate.incoming);
+    }
+    stack.pop();
+    state.set(variable, 'done');
+    sorted.push(variable);
+  };
+
+  variables.forEach(visit);
+  const ordered = sorted.filter(v => !cyclic.has(v));
+
+  // 参照先から順に最終的な型を決定し、型の不一致を検出
+  const resolvedTypes = new Map<NotionVariable, VariableType>();
+  const typeOf = (candidate: Candidate | null): VariableType | undefined => {
+    if (candidate?.figmaVariable) return convertFromFigmaVariableType(candidate.figmaVariable.resolvedType);
+    if (candidate?.incoming) return resolvedTypes.get(candidate.incoming);
+    return undefined;
+  };
+
+  for (const variable of ordered) {
+    const resolved = references.get(variable) ?? [];
+    const primary = resolved.find(r => !r.reference.modeName);
+    const declaredType = variable.type || undefined;
+
+    let type: VariableType;
+    if (primary) {
+      const targetType = typeOf(primary.candidate);
+      type = targetType
+        ?? declaredType
+        ?? detectVariableType(primary.reference.fallback ?? variable.value);
+      if (targetType && declaredType && targetType !== declaredType) {
+        issues.push({
+          name: getFullName(variable),
+          kind: 'typeMismatch',
+          reason: `参照先 "${primary.reference.target}" の型 (${targetType}) が指定された型 (${declaredType}) と異なります（参照先の型で作成されます）`
+        });
+      }
+    } else {
+      type = declaredType ?? detectVariableType(variable.value);
+    }
+    resolvedTypes.set(variable, type);
+
+    for (const { reference, candidate } of resolved) {
+      if (!reference.modeName) continue;
+      const targetType = typeOf(candidate);
+      if (targetType && targetType !== type) {
+        issues.push({
+          name: getFullName(variable),
+          kind: 'typeMismatch',
+          reason: `モード "${reference.modeName}" の参照先 "${reference.target}" の型 (${targetType}) が変数の型 (${type}) と異なります`
+        });
+      }
+    }
+  }
+
+  return { ordered, cyclic, issues };
+}
@@ -1,11 +1,16 @@
 // W3C Design Tokens形式へのエクスポートユーティリティ
 import { logger } from '../../shared/logger';
+import { ExportFile, ExportModeFormat, MODES_EXTENSION_KEY, NotionPushData, NotionVariable, NotionVariableValue } from '../../shared/types';
+import { convertFromFigmaVariableType, NOTION_PAGE_ID_KEY } from './variableUtils';
+import { gradientTransformToAngle, styleNameToFontWeight } from './styleUtils';
+import { findOriginalUnitValue, readOriginalUnitValues, splitUnitValue } from './unitUtils';
 
 // W3C Design Tokens形式の型定義
 interface DesignToken {
   $type?: string;
   $value: string | number | boolean | object;
   $description?: string;
+  $extensions?: Record<string, unknown>;
 }
 
 interface DesignTokenGroup {
@@ -29,7 +34,7 @@ function mapFigmaTypeToW3C(figmaType: string): string {
 }
 
 // RGBAをHEX文字列に変換
-function rgbaToHex(color: RGBA): string {
+export function rgbaToHex(color: RGBA): string {
   const toHex = (n: number) => {
     const hex = Math.round(Math.max(0, Math.min(1, n)) * 255).toString(16);
     return hex.length === 1 ? '0' + hex : hex;
@@ -138,6 +143,11 @@ function convertValueToW3C(
   return String(value);
 }
 
+// 数値を dimension の値にする（換算前の単位付きの値があれば元の単位、なければpx）
+function toDimensionValue(value: number, original: string | undefined): { value: number; unit: string } {
+  return (original && splitUnitValue(original)) || { value, unit: 'px' };
+}
+
 // パスに沿ってオブジェクトにトークンを設定
 function setTokenAtPath(
   root: DesignTokenGroup,
@@ -160,26 +170,19 @@ function setTokenAtPath(
   current[tokenName] = token;
 }
 
-/**
- * Figma VariablesをW3C Design Tokens形式のJSONに変換
- * @param collectionIds エクスポート対象のコレクションID配列
- * @returns { json: string, tokenCount: number }
- */
-export async function exportToDesignTokens(
-  collectionIds: string[]
-): Promise<{ json: string; tokenCount: number }> {
-  logger.log(`[exportToDesignTokens] Starting export for ${collectionIds.length} collections`);
-  
-  const collections = await figma.variables.getLocalVariableCollectionsAsync();
-  const variables = await figma.variables.getLocalVariablesAsync();
-  
-  // 変数ID→パスのマップを構築
-  const variablePathMap = await buildVariablePathMap(collectionIds);
-  
-  // 対象コレクションのIDセット
-  const targetCollectionIds = new Set(collectionIds);
-  
-  // ルートオブジェクト
+// エクスポート対象のモードを決定する関数の型
+// （コレクションごとに使用するモードIDを返す）
+type ModeSelector = (collection: VariableCollection) => string;
+
+// 指定したモードでトークンツリーを構築
+function buildTokenTree(
+  collections: VariableCollection[],
+  variables: Variable[],
+  targetCollectionIds: Set<string>,
+  variablePathMap: Map<string, string>,
+  selectMode: ModeSelector,
+  includeModeExtensions: boolean
+): { root: DesignTokenGroup; tokenCount: number } {
   const root: DesignTokenGroup = {};
   let tokenCount = 0;
   
@@ -194,8 +197,8 @@ export async function exportToDesignTokens(
       continue;
     }
     
-    // デフォルトモードの値を取得
-    const modeId = collection.modes[0].modeId;
+    // 対象モードの値を取得
+    const modeId = selectMode(collection);
     const value = variable.valuesByMode[modeId];
     
     if (value === undefined) {
@@ -209,9 +212,19 @@ export async function exportToDesignTokens(
     const variableSegments = variable.name.split('/').map(sanitizePathSegment);
     const pathSegments = [collectionSegment, ...variableSegments];
     
+    // 単位付きの値（1.5rem など）からインポートした数値は、Figma側で変更されていなければ元の単位の dimension で出力
+    const originals = variable.resolvedType === 'FLOAT' ? readOriginalUnitValues(variable) : {};
+    const isDimension = collection.modes.some(
+      m => findOriginalUnitValue(originals, m.modeId, variable.valuesByMode[m.modeId]) !== undefined
+    );
+    const toW3CValue = (modeId: string, modeValue: VariableValue) =>
+      isDimension && typeof modeValue === 'number'
+        ? toDimensionValue(modeValue, findOriginalUnitValue(originals, modeId, modeValue))
+        : convertValueToW3C(modeValue, variable.resolvedType, variablePathMap);
+    
     // W3C形式の値に変換
-    const w3cValue = convertValueToW3C(value, variable.resolvedType, variablePathMap);
-    const w3cType = mapFigmaTypeToW3C(variable.resolvedType);
+    const w3cValue = toW3CValue(modeId, value);
+    const w3cType = isDimension ? 'dimension' : mapFigmaTypeToW3C(variable.resolvedType);
     
     // トークンオブジェクトを作成
     const token: DesignToken = {
@@ -224,6 +237,17 @@ export async function exportToDesignTokens(
       token.$description = variable.description;
     }
     
+    // 複数モードがある場合はモード別の値を $extensions に格納
+    if (includeModeExtensions && collection.modes.length > 1) {
+      const modeValues: Record<string, string | number | boolean | object> = {};
+      for (const mode of collection.modes) {
+        const modeValue = variable.valuesByMode[mode.modeId];
+        if (modeValue === undefined) continue;
+        modeValues[mode.name] = toW3CValue(mode.modeId, modeValue);
+      }
+      token.$extensions = { [MODES_EXTENSION_KEY]: modeValues };
+    }
+    
     // ツリーに追加
     setTokenAtPath(root, pathSegments, token);
     tokenCount++;
@@ -236,6 +260,233 @@ export async function exportToDesignTokens(
     }
   }
   
+  return { root, tokenCount };
+}
+
+// スタイルを格納するトップレベルのグループ名
+const STYLES_GROUP = 'Styles';
+
+// グラデーションの種類・角度を格納する $extensions のキー（W3C gradient はストップのみのため）
+const GRADIENT_EXTENSION_KEY = 'com.figma.gradient';
+
+// テキストスタイルの項目を、バインドされたVariableの参照またはW3C形式の値に変換
+function typographyField(
+  style: TextStyle,
+  field: VariableBindableTextField,
+  value: string | number | object,
+  variablePathMap: Map<string, string>
+): string | number | object {
+  const alias = style.boundVariables?.[field];
+  const referencePath = alias && variablePathMap.get(alias.id);
+  return referencePath ? `{${referencePath}}` : value;
+}
+
+// テキストスタイルをW3C typography トークンに変換
+function convertTextStyleToW3C(style: TextStyle, variablePathMap: Map<string, string>): DesignToken {
+  const value: Record<string, string | number | object> = {
+    fontFamily: typographyField(style, 'fontFamily', style.fontName.family, variablePathMap),
+    fontSize: typographyField(style, 'fontSize', { value: style.fontSize, unit: 'px' }, variablePathMap)
+  };
+
+  const fontWeight = styleNameToFontWeight(style.fontName.style);
+  if (fontWeight !== undefined || style.boundVariables?.fontWeight) {
+    value.fontWeight = typographyField(style, 'fontWeight', fontWeight ?? style.fontName.style, variablePathMap);
+  }
+
+  // 行の高さは倍率（AUTO は出力しない）
+  const { lineHeight } = style;
+  if (lineHeight.unit !== 'AUTO') {
+    const ratio = lineHeight.unit === 'PERCENT' ? lineHeight.value / 100 : lineHeight.value / style.fontSize;
+    value.lineHeight = typographyField(style, 'lineHeight', Math.round(ratio * 1000) / 1000, variablePathMap);
+  }
+
+  // 文字間隔の % は em に変換
+  const { letterSpacing } = style;
+  value.letterSpacing = typographyField(
+    style,
+    'letterSpacing',
+    letterSpacing.unit === 'PERCENT'
+      ? { value: letterSpacing.value / 100, unit: 'em' }
+      : { value: letterSpacing.value, unit: 'px' },
+    variablePathMap
+  );
+
+  const token: DesignToken = { $type: 'typography', $value: value };
+  if (style.description) {
+    token.$description = style.description;
+  }
+  return token;
+}
+
+// エフェクトスタイルのシャドウをW3C shadow トークンに変換（シャドウがない場合はnull）
+function convertEffectStyleToW3C(style: EffectStyle, variablePathMap: Map<string, string>): DesignToken | null {
+  const layers = style.effects.flatMap(effect => {
+    if (effect.type !== 'DROP_SHADOW' && effect.type !== 'INNER_SHADOW') return [];
+    // バインドされたVariableは参照として出力
+    const field = (name: VariableBindableEffectField, value: string | object) => {
+      const alias = effect.boundVariables?.[name];
+      const referencePath = alias && variablePathMap.get(alias.id);
+      return referencePath ? `{${referencePath}}` : value;
+    };
+    return [{
+      color: field('color', rgbaToHex(effect.color)),
+      offsetX: field('offsetX', { value: effect.offset.x, unit: 'px' }),
+      offsetY: field('offsetY', { value: effect.offset.y, unit: 'px' }),
+      blur: field('radius', { value: effect.radius, unit: 'px' }),
+      spread: field('spread', { value: effect.spread ?? 0, unit: 'px' }),
+      ...(effect.type === 'INNER_SHADOW' ? { inset: true } : {})
+    }];
+  });
+  if (layers.length === 0) return null;
+
+  const token: DesignToken = { $type: 'shadow', $value: layers.length === 1 ? layers[0] : layers };
+  if (style.description) {
+    token.$description = style.description;
+  }
+  return token;
+}
+
+// ペイントスタイルのグラデーションをW3C gradient トークンに変換（先頭がlinear / radial 以外の場合はnull）
+function convertPaintStyleToW3C(style: PaintStyle, variablePathMap: Map<string, string>): DesignToken | null {
+  const paint = style.paints[0];
+  if (!paint || (paint.type !== 'GRADIENT_LINEAR' && paint.type !== 'GRADIENT_RADIAL')) return null;
+
+  const stops = paint.gradientStops.map(stop => {
+    const alias = stop.boundVariables?.color;
+    const referencePath = alias && variablePathMap.get(alias.id);
+    return {
+      color: referencePath ? `{${referencePath}}` : rgbaToHex(stop.color),
+      position: Math.round(stop.position * 1000) / 1000
+    };
+  });
+
+  const token: DesignToken = {
+    $type: 'gradient',
+    $value: stops,
+    $extensions: {
+      [GRADIENT_EXTENSION_KEY]: paint.type === 'GRADIENT_LINEAR'
+        ? { type: 'linear', angle: gradientTransformToAngle(paint.gradientTransform) }
+        : { type: 'radial' }
+    }
+  };
+  if (style.description) {
+    token.$description = style.description;
+  }
+  return token;
+}
+
+// ローカルのスタイルを Styles グループ配下に追加
+function addStyleTokens(
+  root: DesignTokenGroup,
+  styles: { textStyles: TextStyle[]; effectStyles: EffectStyle[]; paintStyles: PaintStyle[] },
+  variablePathMap: Map<string, string>
+): number {
+  const tokens: [BaseStyle, DesignToken | null][] = [
+    ...styles.textStyles.map(style => [style, convertTextStyleToW3C(style, variablePathMap)] as [BaseStyle, DesignToken]),
+    ...styles.effectStyles.map(style => [style, convertEffectStyleToW3C(style, variablePathMap)] as [BaseStyle, DesignToken | null]),
+    ...styles.paintStyles.map(style => [style, convertPaintStyleToW3C(style, variablePathMap)] as [BaseStyle, DesignToken | null])
+  ];
+  let count = 0;
+  for (const [style, token] of tokens) {
+    if (!token) continue;
+    const pathSegments = [STYLES_GROUP, ...style.name.split('/').map(sanitizePathSegment)];
+    setTokenAtPath(root, pathSegments, token);
+    count++;
+  }
+  return count;
+}
+
+// 対象コレクションのモード名を出現順に収集
+function collectExportModeNames(
+  collections: VariableCollection[],
+  targetCollectionIds: Set<string>
+): string[] {
+  const names: string[] = [];
+  for (const collection of collections) {
+    if (!targetCollectionIds.has(collection.id)) continue;
+    for (const mode of collection.modes) {
+      if (!names.some(n => n.toLowerCase() === mode.name.toLowerCase())) {
+        names.push(mode.name);
+      }
+    }
+  }
+  return names;
+}
+
+/**
+ * Figma VariablesをW3C Design Tokens形式のJSONに変換
+ * @param collectionIds エクスポート対象のコレクションID配列
+ * @param options.modeFormat モードの出力形式
+ *   - 'default': デフォルトモード（先頭モード）のみ
+ *   - 'perMode': モードごとに別ドキュメントを生成（該当モードがないコレクションはデフォルトモード）
+ *   - 'extensions': $value はデフォルトモード、全モードの値を $extensions に格納
+ * @param options.includeStyles ローカルのスタイルを Styles グループ配下に含める
+ *   （テキストは typography、エフェクトは shadow、グラデーションのペイントは gradient トークン）
+ * @returns { json: string, tokenCount: number, files?: モード別ドキュメント }
+ */
+export async function exportToDesignTokens(
+  collectionIds: string[],
+  options: { modeFormat?: ExportModeFormat; includeStyles?: boolean } = {}
+): Promise<{ json: string; tokenCount: number; files?: ExportFile[] }> {
+  const modeFormat = options.modeFormat ?? 'default';
+  logger.log(`[exportToDesignTokens] Starting export for ${collectionIds.length} collections (mode format: ${modeFormat})`);
+  
+  const collections = await figma.variables.getLocalVariableCollectionsAsync();
+  const variables = await figma.variables.getLocalVariablesAsync();
+  
+  // 変数ID→パスのマップを構築
+  const variablePathMap = await buildVariablePathMap(collectionIds);
+  
+  const styles = options.includeStyles
+    ? {
+        textStyles: await figma.getLocalTextStylesAsync(),
+        effectStyles: await figma.getLocalEffectStylesAsync(),
+        paintStyles: await figma.getLocalPaintStylesAsync()
+      }
+    : { textStyles: [], effectStyles: [], paintStyles: [] };
+  
+  // 対象コレクションのIDセット
+  const targetCollectionIds = new Set(collectionIds);
+  
+  const defaultMode: ModeSelector = collection => collection.modes[0].modeId;
+  
+  if (modeFormat === 'perMode') {
+    const modeNames = collectExportModeNames(collections, targetCollectionIds);
+    const files: ExportFile[] = [];
+    let tokenCount = 0;
+    
+    for (const modeName of modeNames) {
+      logger.log(`[exportToDesignTokens] Mode: ${modeName}`);
+      const selectMode: ModeSelector = collection => {
+        const mode = collection.modes.find(m => m.name.toLowerCase() === modeName.toLowerCase());
+        return mode ? mode.modeId : collection.modes[0].modeId;
+      };
+      const tree = buildTokenTree(collections, variables, targetCollectionIds, variablePathMap, selectMode, false);
+      const styleCount = addStyleTokens(tree.root, styles, variablePathMap);
+      files.push({ modeName, json: JSON.stringify(tree.root, null, 2) });
+      tokenCount = Math.max(tokenCount, tree.tokenCount + styleCount);
+    }
+    
+    logger.log(`[exportToDesignTokens] Completed: ${tokenCount} tokens x ${files.length} modes exported`);
+    
+    return {
+      json: files[0]?.json ?? '{}',
+      tokenCount,
+      files
+    };
+  }
+  
+  const tree = buildTokenTree(
+    collections,
+    variables,
+    targetCollectionIds,
+    variablePathMap,
+    defaultMode,
+    modeFormat === 'extensions'
+  );
+  const root = tree.root;
+  const tokenCount = tree.tokenCount + addStyleTokens(root, styles, variablePathMap);
+  
   logger.log(`[exportToDesignTokens] Completed: ${tokenCount} tokens exported`);
   
   // JSON文字列に変換（整形付き）
@@ -243,3 +494,82 @@ export async function exportToDesignTokens(
   
   return { json, tokenCount };
 }
+
+// Notionへ書き込む形式に値を変換（色はHEX、参照は {Group/Name}、単位付きの値からインポートした数値は元の値）
+function toNotionValue(
+  value: VariableValue | undefined,
+  variableNameMap: Map<string, string>,
+  originalUnitValue?: string
+): NotionVariableValue {
+  if (value === undefined) return '';
+  if (originalUnitValue) return originalUnitValue;
+  if (typeof value === 'object' && value !== null && 'type' in value && value.type === 'VARIABLE_ALIAS') {
+    const targetName = variableNameMap.get(value.id);
+    return targetName ? `{${targetName}}` : '';
+  }
+  if (typeof value === 'object' && value !== null && 'r' in value) {
+    return rgbaToHex(value as RGBA);
+  }
+  // Figmaの数値は32bit浮動小数点のため誤差（0.1 → 0.10000000149...）を丸める
+  if (typeof value === 'number') {
+    return Math.round(value * 10000) / 10000;
+  }
+  return value as NotionVariableValue;
+}
+
+/**
+ * コレクションの変数をNotionへプッシュするための形式に変換
+ * @param collectionId 対象コレクションID
+ * @returns value はデフォルトモードの値、valuesByMode は全モードの値（モード名がキー）
+ */
+export async function exportToNotionVariables(collectionId: string): Promise<NotionPushData> {
+  const collection = await figma.variables.getVariableCollectionByIdAsync(collectionId);
+  if (!collection) {
+    throw new Error(`コレクションが見つかりません: ${collectionId}`);
+  }
+  
+  const variables = await figma.variables.getLocalVariablesAsync();
+  // 参照先は他コレクションの変数の場合もあるため全変数の名前を引けるようにする
+  const variableNameMap = new Map(variables.map(v => [v.id, v.name]));
+  const defaultModeId = collection.modes[0].modeId;
+  
+  const result: NotionVariable[] = [];
+  for (const variable of variables) {
+    if (variable.variableCollectionId !== collection.id) continue;
+    
+    const segments = variable.name.split('/');
+    const name = segments.pop() || variable.name;
+    // インポート時の単位（1.5rem など）は、Figma側で値が変更されていなければ維持する
+    const originals = readOriginalUnitValues(variable);
+    const toModeValue = (modeId: string) => toNotionValue(
+      variable.valuesByMode[modeId],
+      variableNameMap,
+      findOriginalUnitValue(originals, modeId, variable.valuesByMode[modeId])
+    );
+    const valuesByMode: Record<string, NotionVariableValue> = {};
+    for (const mode of collection.modes) {
+      valuesByMode[mode.name] = toModeValue(mode.modeId);
+    }
+    
+    // インポート元のページ（リネーム後もIDで同じページを更新する）
+    const notionPageId = variable.getPluginData(NOTION_PAGE_ID_KEY);
+    result.push({
+      id: variable.id,
+      name,
+      group: segments.join('/'),
+      value: toModeValue(defaultModeId),
+      valuesByMode,
+      type: convertFromFigmaVariableType(variable.resolvedType),
+      description: variable.description || '',
+      ...(notionPageId ? { notionPageId } : {})
+    });
+  }
+  
+  logger.log(`[exportToNotionVariables] ${collection.name}: ${result.length} variables`);
+  
+  return {
+    collectionName: collection.name,
+    modeNames: collection.modes.map(m => m.name),
+    variables: result
+  };
+}
@@ -0,0 +1,204 @@
+// インポートの変更内容（ドライラン）を算出するユーティリティ
+import { ImportChange, ImportSettings, NotionVariable, UnitConversionSettings, VariableType } from '../../shared/types';
+import {
+  convertFromFigmaVariableType,
+  convertToFigmaVariableType,
+  detectVariableType,
+  findLinkedVariable,
+  findVariableByName,
+  getLinkedNotionId,
+  parseColor,
+  ReferenceOptions
+} from './variableUtils';
+import { rgbaToHex } from './exportUtils';
+import { convertNumberWithUnit } from './unitUtils';
+import { annotateDeprecated, DEPRECATED_PREFIX, describeMetadataChanges, resolveDescription, validateScopes } from './variableMetadata';
+
+// group/name 形式のフルネームを取得
+function getFullName(variable: NotionVariable): string {
+  return variable.group ? `${variable.group}/${variable.name}` : variable.name;
+}
+
+// Figma側の値を表示用の文字列に整形
+function formatFigmaValue(value: VariableValue | undefined, allVariables: Variable[]): string {
+  if (value === undefined) return '';
+  if (typeof value === 'object' && value !== null && 'type' in value && value.type === 'VARIABLE_ALIAS') {
+    const target = allVariables.find(v => v.id === value.id);
+    return `{${target ? target.name : value.id}}`;
+  }
+  if (typeof value === 'object' && value !== null && 'r' in value) {
+    return rgbaToHex(value as RGBA);
+  }
+  return String(value);
+}
+
+// Notion側の値を、Figmaに書き込まれる形に合わせて表示用の文字列に整形
+async function formatIncomingValue(
+  value: NotionVariable['value'],
+  type: VariableType,
+  allVariables: Variable[],
+  referenceOptions: ReferenceOptions,
+  unitConversion?: UnitConversionSettings
+): Promise<string> {
+  if (typeof value === 'string' && value.startsWith('{')) {
+    const [refPart, fbPart] = value.split('||', 2).map(s => s.trim());
+    const referenceName = refPart.replace(/^\{|\}$/g, '');
+    const target = await findVariableByName(referenceName, allVariables, referenceOptions);
+    if (target) return `{${target.name}}`;
+    return fbPart ? formatIncomingValue(fbPart, type, allVariables, referenceOptions, unitConversion) : refPart;
+  }
+
+  switch (type) {
+    case VariableType.COLOR:
+      return rgbaToHex(parseColor(value));
+    case VariableType.NUMBER:
+      return String(convertNumberWithUnit(typeof value === 'number' ? value : String(value), unitConversion).value);
+    case VariableType.BOOLEAN:
+      return String(typeof value === 'boolean' ? value : String(value).toLowerCase() === 'true');
+    case VariableType.STRING:
+    default:
+      return String(value);
+  }
+}
+
+// インポート後の型を推定（参照の場合は参照先の型、フォールバックのみの場合はフォールバック値から判定）
+async function resolveIncomingType(
+  variable: NotionVariable,
+  allVariables: Variable[],
+  referenceOptions: ReferenceOptions
+): Promise<VariableType> {
+  const value = variable.value;
+  if (typeof value === 'string' && value.startsWith('{')) {
+    const [refPart, fbPart] = value.split('||', 2).map(s => s.trim());
+    const target = await findVariableByName(refPart.replace(/^\{|\}$/g, ''), allVariables, referenceOptions);
+    if (target) return convertFromFigmaVariableType(target.resolvedType);
+    if (fbPart) return detectVariableType(fbPart);
+  }
+  return variable.type || detectVariableType(value);
+}
+
+/**
+ * インポートを実行した場合の変更内容を算出する（Figmaは変更しない）
+ * @param variables Notionから取得した変数
+ * @param collection 対象コレクション（未作成の場合はnull）
+ * @param allVariables ローカルの全Variable
+ * @param settings 上書き・削除・参照解決の設定
+ * @param collectionNames コレクションID → 名前（厳密な参照解決で使用）
+ */
+export async function buildImportPlan(
+  variables: NotionVariable[],
+  collection: VariableCollection | null,
+  allVariables: Variable[],
+  settings: Pick<ImportSettings, 'overwriteExisting' | 'deleteRemovedVariables' | 'strictAliasResolution' | 'unitConversion'>,
+  collectionNames?: Map<string, string>
+): Promise<ImportChange[]> {
+  const referenceOptions: ReferenceOptions = { strict: settings.strictAliasResolution ?? false, collectionNames };
+  const changes: ImportChange[] = [];
+  const collectionVariables = collection
+    ? allVariables.filter(v => v.variableCollectionId === collection.id)
+    : [];
+  const incomingIds = new Set(variables.map(v => v.id).filter(Boolean));
+  const defaultModeId = collection?.modes[0]?.modeId;
+
+  for (const variable of variables) {
+    const name = getFullName(variable);
+    const newType = await resolveIncomingType(variable, allVariables, referenceOptions);
+    let newValue: string;
+    try {
+      newValue = await formatIncomingValue(variable.value, newType, allVariables, referenceOptions, settings.unitConversion);
+      if (variable.scopes) validateScopes(variable.scopes, convertToFigmaVariableType(newType));
+    } catch (error) {
+      // 換算できない単位・型に合わないスコープなどはインポート時にエラーになるため、プレビューでもスキップとして表示
+      changes.push({ key: variable.id, name, action: 'skip', newValue: String(variable.value), newType, reason: error instanceof Error ? error.message : String(error) });
+      continue;
+    }
+    const existing = findLinkedVariable(collectionVariables, variable, incomingIds);
+
+    if (!existing || !collection || !defaultModeId) {
+      changes.push({ key: variable.id, name, action: 'create', newValue, newType, ...(variable.deprecated ? { reason: '非推奨' } : {}) });
+      continue;
+    }
+
+    const oldType = convertFromFigmaVariableType(existing.resolvedType);
+    const oldValue = formatFigmaValue(existing.valuesByMode[defaultModeId], allVariables);
+
+    if (!settings.overwriteExisting) {
+      changes.push({ key: variable.id, name, action: 'skip', oldValue, newValue, oldType, newType, reason: '上書きが無効です' });
+      continue;
+    }
+
+    if (existing.resolvedType !== convertToFigmaVariableType(newType)) {
+      changes.push({
+        key: variable.id,
+        name,
+        action: 'recreate',
+        oldValue,
+        newValue,
+        oldType,
+        newType,
+        reason: '型が変わるため再作成されます（既存の参照は解除されます）'
+      });
+      continue;
+    }
+
+    // モード別の値の差分
+    const changedModes: string[] = [];
+    for (const [modeName, modeValue] of Object.entries(variable.valuesByMode ?? {})) {
+      const mode = collection.modes.find(m => m.name.toLowerCase() === modeName.toLowerCase());
+      const before = mode ? formatFigmaValue(existing.valuesByMode[mode.modeId], allVariables) : '';
+      const after = await formatIncomingValue(modeValue, newType, allVariables, referenceOptions, settings.unitConversion).catch(() => '');
+      if (!mode || before.toLowerCase() !== after.toLowerCase()) {
+        changedModes.push(modeName);
+      }
+    }
+
+    const valueChanged = oldValue.toLowerCase() !== newValue.toLowerCase();
+    // 説明は [Deprecated] を除いて比較し、非推奨フラグの変更は別に表示する
+    const description = resolveDescription(variable, existing.description);
+    const descriptionChanged = description !== undefined &&
+      annotateDeprecated(description, false) !== annotateDeprecated(existing.description, false);
+    const deprecationChanged = variable.deprecated !== undefined &&
+      variable.deprecated !== existing.description.startsWith(DEPRECATED_PREFIX);
+    const renamed = existing.name !== name;
+    const metadataChanges = describeMetadataChanges(existing, variable);
+
+    if (!valueChanged && !descriptionChanged && !deprecationChanged && !renamed && changedModes.length === 0 && metadataChanges.length === 0) {
+      changes.push({ key: variable.id, name, action: 'unchanged', oldValue, newValue, oldType, newType });
+      continue;
+    }
+
+    const reasons: string[] = [];
+    if (renamed) reasons.push(`名前変更: ${existing.name} → ${name}`);
+    if (descriptionChanged) reasons.push('説明');
+    if (deprecationChanged) reasons.push(variable.deprecated ? '非推奨' : '非推奨を解除');
+    reasons.push(...metadataChanges);
+    if (changedModes.length > 0) reasons.push(`モード: ${changedModes.join(', ')}`);
+    changes.push({
+      key: variable.id,
+      name,
+      action: 'update',
+      oldValue,
+      newValue,
+      oldType,
+      newType,
+      ...(reasons.length > 0 ? { reason: reasons.join(' / ') } : {})
+    });
+  }
+
+  // Notionに存在しない変数の削除
+  if (settings.deleteRemovedVariables) {
+    const incomingNames = new Set(variables.map(getFullName));
+    for (const figmaVariable of collectionVariables) {
+      if (incomingNames.has(figmaVariable.name) || incomingIds.has(getLinkedNotionId(figmaVariable))) continue;
+      changes.push({
+        key: figmaVariable.id,
+        name: figmaVariable.name,
+        action: 'delete',
+        oldValue: defaultModeId ? formatFigmaValue(figmaVariable.valuesByMode[defaultModeId], allVariables) : '',
+        oldType: convertFromFigmaVariableType(figmaVariable.resolvedType)
+      });
+    }
+  }
+
+  return changes;
+}
@@ -0,0 +1,470 @@
+// インポート前のコレクションの状態を保存し、直前のインポートを元に戻すユーティリティ
+import { CodeSyntaxPlatformName, CompositeTokenType, LastImportInfo, NotionVariable } from '../../shared/types';
+import { logger } from '../../shared/logger';
+import { NOTION_PAGE_ID_KEY } from './variableUtils';
+import { ORIGINAL_VALUE_KEY } from './unitUtils';
+import { findLinkedStyle, getLocalStyles } from './styleUtils';
+
+export const IMPORT_SNAPSHOT_KEY = 'lastImportSnapshot';
+
+// 復元するプラグインデータのキー
+const SNAPSHOT_PLUGIN_DATA_KEYS = [NOTION_PAGE_ID_KEY, ORIGINAL_VALUE_KEY];
+
+const CODE_SYNTAX_PLATFORMS: CodeSyntaxPlatformName[] = ['WEB', 'ANDROID', 'iOS'];
+
+// Variable 1件分の状態（valuesByMode の参照は {type: 'VARIABLE_ALIAS', id} のまま保存）
+export interface VariableSnapshot {
+  id: string;
+  name: string;
+  resolvedType: VariableResolvedDataType;
+  description: string;
+  valuesByMode: Record<string, VariableValue>;
+  scopes: VariableScope[];
+  codeSyntax: Partial<Record<CodeSyntaxPlatformName, string>>;
+  hiddenFromPublishing: boolean;
+  pluginData: Record<string, string>;
+}
+
+// スタイル1件分の状態（複合トークンのインポートで変更する項目。バインドは {type: 'VARIABLE_ALIAS', id} のまま保存）
+export interface StyleSnapshot {
+  id: string;
+  name: string;
+  description: string;
+  pluginData: Record<string, string>;
+  // テキストスタイル
+  fontName?: FontName;
+  fontSize?: number;
+  lineHeight?: LineHeight;
+  letterSpacing?: LetterSpacing;
+  boundVariables?: { [field in VariableBindableTextField]?: VariableAlias };
+  // エフェクトスタイル・ペイントスタイル
+  effects?: Effect[];
+  paints?: Paint[];
+}
+
+// インポートした複合トークン（インポートで作成されたスタイルの判別に使う）
+export interface StyleTokenSnapshot {
+  id: string;
+  name: string;
+  group?: string;
+  type: CompositeTokenType;
+}
+
+// コレクション1件分の状態
+export interface ImportSnapshot {
+  runId: string;            // 同じ実行（複数ペアの連続インポート）のスナップショットをまとめるID
+  timestamp: string;        // ISO 8601
+  collectionId: string;
+  collectionName: string;
+  createdCollection: boolean; // インポートで新規作成したコレクション（元に戻す場合は削除する）
+  modes: { modeId: string; name: string }[];
+  variables: VariableSnapshot[];
+  // インポートで作成した変数（型の変更による再作成を含む。元に戻す場合はこの変数のみ削除する）
+  createdVariableIds?: string[];
+  // 複合トークンに対応するスタイル（スタイルの保存に対応する前のスナップショットにはない）
+  styles?: StyleSnapshot[];
+  styleTokens?: StyleTokenSnapshot[];
+}
+
+// 元に戻した結果
+export interface RevertResult {
+  collectionNames: string[];
+  restored: string[];  // 値などを戻した変数・スタイル
+  recreated: string[]; // 削除されていたため再作成した変数
+  removed: string[];   // インポートで作成されたため削除した変数・スタイル・コレクション
+  errors: string[];    // "名前: 理由" 形式
+}
+
+const isAlias = (value: VariableValue | undefined): value is VariableAlias =>
+  typeof value === 'object' && value !== null && 'type' in value && value.type === 'VARIABLE_ALIAS';
+
+// スタイルの現在の状態を取得する
+function snapshotStyle(style: BaseStyle): StyleSnapshot {
+  const snapshot: StyleSnapshot = {
+    id: style.id,
+    name: style.name,
+    description: style.description,
+    pluginData: { [NOTION_PAGE_ID_KEY]: style.getPluginData(NOTION_PAGE_ID_KEY) }
+  };
+  if (style.type === 'TEXT') {
+    const textStyle = style as TextStyle;
+    snapshot.fontName = { ...textStyle.fontName };
+    snapshot.fontSize = textStyle.fontSize;
+    snapshot.lineHeight = { ...textStyle.lineHeight };
+    snapshot.letterSpacing = { ...textStyle.letterSpacing };
+    snapshot.boundVariables = { ...textStyle.boundVariables };
+  } else if (style.type === 'EFFECT') {
+    snapshot.effects = [...(style as EffectStyle).effects];
+  } else if (style.type === 'PAINT') {
+    snapshot.paints = [...(style as PaintStyle).paints];
+  }
+  return snapshot;
+}
+
+// 複合トークンに対応する既存スタイルの状態を取得する（照合はインポートと同じくNotionページID → 名前の順）
+async function captureStyles(
+  compositeTokens: NotionVariable[]
+): Promise<{ styles: StyleSnapshot[]; styleTokens: StyleTokenSnapshot[] }> {
+  const styles: StyleSnapshot[] = [];
+  const styleTokens: StyleTokenSnapshot[] = [];
+  const stylesByType = new Map<CompositeTokenType, BaseStyle[]>();
+  for (const token of compositeTokens) {
+    if (!token.composite) continue;
+    const type = token.composite.type;
+    styleTokens.push({ id: token.id, name: token.name, group: token.group, type });
+    let localStyles = stylesByType.get(type);
+    if (!localStyles) {
+      localStyles = await getLocalStyles(type);
+      stylesByType.set(type, localStyles);
+    }
+    const style = findLinkedStyle(localStyles, token);
+    if (style && !styles.some(s => s.id === style.id)) styles.push(snapshotStyle(style));
+  }
+  return { styles, styleTokens };
+}
+
+/**
+ * コレクションと、複合トークンに対応するスタイルの現在の状態を取得する（インポートで変更する前に呼ぶ）
+ */
+export async function captureImportSnapshot(
+  collection: VariableCollection,
+  options: { runId: string; createdCollection: boolean; compositeTokens?: NotionVariable[] }
+): Promise<ImportSnapshot> {
+  const variables = options.createdCollection
+    ? []
+    : (await figma.variables.getLocalVariablesAsync()).filter(v => v.variableCollectionId === collection.id);
+  const { styles, styleTokens } = await captureStyles(options.compositeTokens ?? []);
+  return {
+    runId: options.runId,
+    timestamp: new Date().toISOString(),
+    collectionId: collection.id,
+    collectionName: collection.name,
+    createdCollection: options.createdCollection,
+    modes: collection.modes.map(m => ({ modeId: m.modeId, name: m.name })),
+    variables: variables.map(v => ({
+      id: v.id,
+      name: v.name,
+      resolvedType: v.resolvedType,
+      description: v.description,
+      valuesByMode: { ...v.valuesByMode },
+      scopes: [...v.scopes],
+      codeSyntax: { ...v.codeSyntax },
+      hiddenFromPublishing: v.hiddenFromPublishing,
+      pluginData: Object.fromEntries(SNAPSHOT_PLUGIN_DATA_KEYS.map(key => [key, v.getPluginData(key)]))
+    })),
+    createdVariableIds: [],
+    styles,
+    styleTokens
+  };
+}
+
+/**
+ * 保存済みのスナップショットを取得する（インポート順。壊れている場合は空）
+ */
+export function loadImportSnapshots(): ImportSnapshot[] {
+  const raw = figma.root.getPluginData(IMPORT_SNAPSHOT_KEY);
+  if (!raw) return [];
+  try {
+    const snapshots = JSON.parse(raw);
+    return Array.isArray(snapshots) ? snapshots : [];
+  } catch (error) {
+    logger.error('❌ Failed to parse import snapshot:', error);
+    return [];
+  }
+}
+
+/**
+ * スナップショットを書き込む
+ * 書き込めない場合は保存済みのスナップショットも削除する（前回の実行の状態に誤って戻さないようにする）
+ * @returns 書き込めた場合はtrue
+ */
+function writeImportSnapshots(snapshots: ImportSnapshot[]): boolean {
+  try {
+    figma.root.setPluginData(IMPORT_SNAPSHOT_KEY, JSON.stringify(snapshots));
+    return true;
+  } catch (error) {
+    logger.error('❌ Failed to save import snapshot:', error);
+    try {
+      figma.root.setPluginData(IMPORT_SNAPSHOT_KEY, '');
+    } catch (clearError) {
+      logger.error('❌ Failed to clear import snapshot:', clearError);
+    }
+    return false;
+  }
+}
+
+/**
+ * スナップショットを保存する
+ * 同じ実行のスナップショットは追加し、別の実行の場合は置き換える（元に戻せるのは直前の実行のみ）
+ * @returns 保存できなかった場合はfalse（インポートは続行できるが、元に戻す操作は利用できない）
+ */
+export function saveImportSnapshot(snapshot: ImportSnapshot): boolean {
+  const current = loadImportSnapshots();
+  const snapshots = current.length > 0 && current[0].runId === snapshot.runId
+    ? [...current, snapshot]
+    : [snapshot];
+  if (!writeImportSnapshots(snapshots)) return false;
+  logger.log(`📸 Import snapshot saved: ${snapshot.collectionName} (${snapshot.variables.length} variables)`);
+  return true;
+}
+
+/**
+ * インポートで作成した変数をスナップショットに記録する（元に戻す場合に削除する変数）
+ * @returns 記録できなかった場合はfalse（スナップショットは削除され、元に戻す操作は利用できない）
+ */
+export function recordCreatedVariables(runId: string, collectionId: string, variableIds: string[]): boolean {
+  const snapshots = loadImportSnapshots();
+  const snapshot = [...snapshots].reverse().find(s => s.runId === runId && s.collectionId === collectionId);
+  if (!snapshot) return false;
+  if (variableIds.length === 0) return true;
+  snapshot.createdVariableIds = [...(snapshot.createdVariableIds ?? []), ...variableIds];
+  return writeImportSnapshots(snapshots);
+}
+
+// UIに表示する直前のインポートの情報（スナップショットがない場合はnull）
+export function getLastImportInfo(): LastImportInfo | null {
+  const snapshots = loadImportSnapshots();
+  if (snapshots.length === 0) return null;
+  return {
+    timestamp: snapshots[0].timestamp,
+    collectionNames: snapshots.map(s => s.collectionName),
+    variableCount: snapshots.reduce((sum, s) => sum + s.variables.length, 0)
+  };
+}
+
+// 参照先のIDを再作成後のIDに置き換える（該当しない場合はそのまま）
+const remapAlias = (value: VariableValue, idMap: Map<string, string>): VariableValue =>
+  isAlias(value) && idMap.has(value.id) ? { type: 'VARIABLE_ALIAS', id: idMap.get(value.id)! } : value;
+
+// エフェクト・ペイントに含まれるバインドの参照先を再作成後のIDに置き換える
+const remapNestedAliases = <T>(value: T, idMap: Map<string, string>): T =>
+  idMap.size === 0
+    ? value
+    : JSON.parse(JSON.stringify(value), (_key, nested) => isAlias(nested) ? remapAlias(nested, idMap) : nested);
+
+// スナップショットの値・説明・メタデータをVariableに書き戻す
+function restoreVariable(
+  figmaVariable: Variable,
+  snapshot: VariableSnapshot,
+  modeIds: Set<string>,
+  pendingAliases: { variable: Variable; modeId: string; targetId: string }[]
+): void {
+  if (figmaVariable.name !== snapshot.name) figmaVariable.name = snapshot.name;
+  figmaVariable.description = snapshot.description;
+  if (figmaVariable.scopes.join(',') !== snapshot.scopes.join(',')) figmaVariable.scopes = snapshot.scopes;
+  if (figmaVariable.hiddenFromPublishing !== snapshot.hiddenFromPublishing) {
+    figmaVariable.hiddenFromPublishing = snapshot.hiddenFromPublishing;
+  }
+  for (const platform of CODE_SYNTAX_PLATFORMS) {
+    const value = snapshot.codeSyntax[platform];
+    if ((value ?? '') === (figmaVariable.codeSyntax[platform] ?? '')) continue;
+    if (value) {
+      figmaVariable.setVariableCodeSyntax(platform, value);
+    } else {
+      figmaVariable.removeVariableCodeSyntax(platform);
+    }
+  }
+  for (const [key, value] of Object.entries(snapshot.pluginData)) {
+    figmaVariable.setPluginData(key, value);
+  }
+  for (const [modeId, value] of Object.entries(snapshot.valuesByMode)) {
+    if (!modeIds.has(modeId)) continue;
+    if (isAlias(value)) {
+      // 参照先が同じ実行内で再作成される場合があるため、全コレクションの復元後に設定する
+      pendingAliases.push({ variable: figmaVariable, modeId, targetId: value.id });
+      continue;
+    }
+    figmaVariable.setValueForMode(modeId, value);
+  }
+}
+
+/**
+ * コレクションをスナップショットの状態に戻す
+ * - インポートで追加されたモード・変数は削除、削除された変数は再作成
+ * - 再作成した変数のIDは idMap（旧ID → 新ID）に記録する
+ */
+async function restoreCollection(
+  snapshot: ImportSnapshot,
+  result: RevertResult,
+  idMap: Map<string, string>,
+  pendingAliases: { variable: Variable; modeId: string; targetId: string }[]
+): Promise<void> {
+  const collection = await figma.variables.getVariableCollectionByIdAsync(snapshot.collectionId);
+  if (!collection) {
+    if (!snapshot.createdCollection) {
+      result.errors.push(`${snapshot.collectionName}: コレクションが見つかりません`);
+    }
+    return;
+  }
+
+  if (snapshot.createdCollection) {
+    collection.remove();
+    result.removed.push(snapshot.collectionName);
+    return;
+  }
+
+  // モード: インポートで追加されたものを削除し、名前を戻す
+  for (const mode of [...collection.modes]) {
+    const original = snapshot.modes.find(m => m.modeId === mode.modeId);
+    if (!original) {
+      collection.removeMode(mode.modeId);
+    } else if (original.name !== mode.name) {
+      collection.renameMode(mode.modeId, original.name);
+    }
+  }
+  const modeIds = new Set(collection.modes.map(m => m.modeId));
+
+  // インポートで作成された変数（型変更による再作成を含む）を削除（インポート後に手動で作成した変数は残す）
+  const createdIds = new Set(snapshot.createdVariableIds ?? []);
+  const current = (await figma.variables.getLocalVariablesAsync()).filter(v => v.variableCollectionId === collection.id);
+  for (const figmaVariable of current) {
+    if (!createdIds.has(figmaVariable.id)) continue;
+    result.removed.push(figmaVariable.name);
+    figmaVariable.remove();
+  }
+
+  for (const variableSnapshot of snapshot.variables) {
+    try {
+      let figmaVariable = current.find(v => v.id === variableSnapshot.id);
+      if (figmaVariable) {
+        result.restored.push(variableSnapshot.name);
+      } else {
+        figmaVariable = figma.variables.createVariable(variableSnapshot.name, collection, variableSnapshot.resolvedType);
+        idMap.set(variableSnapshot.id, figmaVariable.id);
+        result.recreated.push(variableSnapshot.name);
+      }
+      restoreVariable(figmaVariable, variableSnapshot, modeIds, pendingAliases);
+    } catch (error) {
+      result.errors.push(`${variableSnapshot.name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
+
+// スナップショットの値・説明・バインドをスタイルに書き戻す
+async function restoreStyle(style: BaseStyle, snapshot: StyleSnapshot, idMap: Map<string, string>): Promise<void> {
+  if (style.name !== snapshot.name) style.name = snapshot.name;
+  style.description = snapshot.description;
+  for (const [key, value] of Object.entries(snapshot.pluginData)) {
+    style.setPluginData(key, value);
+  }
+
+  if (style.type === 'TEXT' && snapshot.fontName) {
+    const textStyle = style as TextStyle;
+    await figma.loadFontAsync(snapshot.fontName);
+    textStyle.fontName = snapshot.fontName;
+    if (snapshot.fontSize !== undefined) textStyle.fontSize = snapshot.fontSize;
+    if (snapshot.lineHeight) textStyle.lineHeight = snapshot.lineHeight;
+    if (snapshot.letterSpacing) textStyle.letterSpacing = snapshot.letterSpacing;
+    // インポート前にバインドされていた項目は戻し、インポートでバインドした項目は解除
+    const fields = new Set([
+      ...Object.keys(snapshot.boundVariables ?? {}),
+      ...Object.keys(textStyle.boundVariables ?? {})
+    ] as VariableBindableTextField[]);
+    for (const field of fields) {
+      const alias = snapshot.boundVariables?.[field];
+      const variable = alias && await figma.variables.getVariableByIdAsync(idMap.get(alias.id) ?? alias.id);
+      if (variable) {
+        textStyle.setBoundVariable(field, variable);
+      } else if (textStyle.boundVariables?.[field]) {
+        textStyle.setBoundVariable(field, null);
+      }
+    }
+  } else if (style.type === 'EFFECT' && snapshot.effects) {
+    (style as EffectStyle).effects = remapNestedAliases(snapshot.effects, idMap);
+  } else if (style.type === 'PAINT' && snapshot.paints) {
+    (style as PaintStyle).paints = remapNestedAliases(snapshot.paints, idMap);
+  }
+}
+
+/**
+ * 複合トークンに対応するスタイルをスナップショットの状態に戻す
+ * - インポートで作成されたスタイルは削除し、既存のスタイルは値・名前・バインドを戻す
+ */
+async function restoreStyles(snapshot: ImportSnapshot, result: RevertResult, idMap: Map<string, string>): Promise<void> {
+  const styleSnapshots = snapshot.styles ?? [];
+  const snapshotIds = new Set(styleSnapshots.map(s => s.id));
+
+  const stylesByType = new Map<CompositeTokenType, BaseStyle[]>();
+  for (const token of snapshot.styleTokens ?? []) {
+    let localStyles = stylesByType.get(token.type);
+    if (!localStyles) {
+      localStyles = await getLocalStyles(token.type);
+      stylesByType.set(token.type, localStyles);
+    }
+    const style = findLinkedStyle(localStyles, token);
+    if (!style || snapshotIds.has(style.id)) continue;
+    result.removed.push(style.name);
+    style.remove();
+    localStyles.splice(localStyles.indexOf(style), 1);
+  }
+
+  for (const styleSnapshot of styleSnapshots) {
+    try {
+      const style = await figma.getStyleByIdAsync(styleSnapshot.id);
+      if (!style) {
+        result.errors.push(`${styleSnapshot.name}: スタイルが見つかりません`);
+        continue;
+      }
+      // 変更されていないスタイル（上書きしない設定・選択解除など）はそのまま（フォントの読み込みも不要）
+      if (JSON.stringify(snapshotStyle(style)) === JSON.stringify(styleSnapshot)) continue;
+      await restoreStyle(style, styleSnapshot, idMap);
+      result.restored.push(styleSnapshot.name);
+    } catch (error) {
+      result.errors.push(`${styleSnapshot.name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
+
+/**
+ * 直前のインポートを元に戻す
+ * 複数のコレクションをインポートした場合は逆順に戻し、最後に参照を再作成後の変数へ付け替える
+ * スタイルは変数の復元後に戻す（バインドの参照先が再作成される場合があるため）
+ * @throws 元に戻せるインポートがない場合
+ */
+export async function revertLastImport(): Promise<RevertResult> {
+  const snapshots = loadImportSnapshots();
+  if (snapshots.length === 0) {
+    throw new Error('元に戻せるインポートがありません。');
+  }
+
+  const result: RevertResult = {
+    collectionNames: snapshots.map(s => s.collectionName),
+    restored: [],
+    recreated: [],
+    removed: [],
+    errors: []
+  };
+  const idMap = new Map<string, string>();
+  const pendingAliases: { variable: Variable; modeId: string; targetId: string }[] = [];
+
+  for (const snapshot of [...snapshots].reverse()) {
+    logger.log(`\n⏪ Reverting import of "${snapshot.collectionName}" (${snapshot.timestamp})`);
+    await restoreCollection(snapshot, result, idMap, pendingAliases);
+  }
+
+  // スナップショット内の参照を設定（参照先が再作成された場合は新しいIDを使用）
+  for (const { variable, modeId, targetId } of pendingAliases) {
+    try {
+      variable.setValueForMode(modeId, { type: 'VARIABLE_ALIAS', id: idMap.get(targetId) ?? targetId });
+    } catch (error) {
+      result.errors.push(`${variable.name}: 参照を復元できません（${error instanceof Error ? error.message : String(error)}）`);
+    }
+  }
+
+  // 他のコレクションから削除済みの変数を参照していた場合は、再作成した変数へ付け替える
+  if (idMap.size > 0) {
+    for (const figmaVariable of await figma.variables.getLocalVariablesAsync()) {
+      for (const [modeId, value] of Object.entries(figmaVariable.valuesByMode)) {
+        const remapped = remapAlias(value, idMap);
+        if (remapped !== value) figmaVariable.setValueForMode(modeId, remapped);
+      }
+    }
+  }
+
+  for (const snapshot of [...snapshots].reverse()) {
+    await restoreStyles(snapshot, result, idMap);
+  }
+
+  figma.root.setPluginData(IMPORT_SNAPSHOT_KEY, '');
+  return result;
+}
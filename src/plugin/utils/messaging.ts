@@ -0,0 +1,18 @@
+// UIへのメッセージ送信ユーティリティ
+import { PluginToUIMessage } from '../../shared/types';
+
+// リクエストへの応答・進捗通知を送る関数
+export type Reply = (message: PluginToUIMessage) => void;
+
+// UIへメッセージを送信（リクエストへの応答ではない通知用）
+export const postToUI: Reply = message => {
+  figma.ui.postMessage(message);
+};
+
+/**
+ * リクエストに応答する関数を作成する（送信するメッセージにリクエストの requestId を付ける）
+ * requestId がない場合（旧形式のリクエスト）はそのまま送信する
+ */
+export function createReply(requestId?: string): Reply {
+  return message => figma.ui.postMessage(requestId ? { ...message, requestId } : message);
+}
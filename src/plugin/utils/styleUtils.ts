@@ -0,0 +1,556 @@
+// 複合トークンからFigmaのスタイル（テキスト・エフェクト）を作成・更新するユーティリティ
+import { logger } from '../../shared/logger';
+import {
+  CompositeToken,
+  CompositeTokenType,
+  GradientTokenValue,
+  ImportChange,
+  NotionVariable,
+  ShadowLayerValue,
+  TypographyTokenValue
+} from '../../shared/types';
+import { findVariableByName, NOTION_PAGE_ID_KEY, parseColor, ReferenceOptions } from './variableUtils';
+import { rgbaToHex } from './exportUtils';
+
+export interface StyleImportOptions extends ReferenceOptions {
+  overwriteExisting: boolean;
+  excludedKeys?: Set<string>;  // プレビューで選択解除された複合トークン（NotionVariable.id）
+}
+
+export interface StyleImportResult {
+  imported: number;
+  skipped: number;
+  errors: { name: string; reason: string }[];
+  created: string[];  // 作成したスタイル名（同期履歴用）
+  updated: string[];  // 更新したスタイル名（同期履歴用）
+}
+
+// テキストスタイルにVariableをバインドできる項目
+const TYPOGRAPHY_FIELDS: (keyof TypographyTokenValue & VariableBindableTextField)[] = [
+  'fontFamily', 'fontSize', 'fontWeight', 'lineHeight', 'letterSpacing'
+];
+
+// ウェイト（数値）に対応するフォントスタイル名の候補
+const FONT_WEIGHT_STYLE_NAMES: Record<number, string[]> = {
+  100: ['Thin', 'Hairline'],
+  200: ['ExtraLight', 'UltraLight'],
+  300: ['Light'],
+  400: ['Regular', 'Normal', 'Book'],
+  500: ['Medium'],
+  600: ['SemiBold', 'DemiBold'],
+  700: ['Bold'],
+  800: ['ExtraBold', 'UltraBold'],
+  900: ['Black', 'Heavy']
+};
+
+// スタイル名の比較用（空白・ハイフンを除去して小文字化）
+const normalizeStyleName = (style: string) => style.replace(/[\s-]/g, '').toLowerCase();
+
+// group/name 形式のフルネームを取得
+function getFullName(token: Pick<NotionVariable, 'name' | 'group'>): string {
+  return token.group ? `${token.group}/${token.name}` : token.name;
+}
+
+/**
+ * フォントスタイル名からウェイト（数値）を取得（Bold Italic → 700）
+ */
+export function styleNameToFontWeight(style: string): number | undefined {
+  const normalized = normalizeStyleName(style.replace(/italic|oblique/gi, ''));
+  if (!normalized) return 400;
+  for (const [weight, names] of Object.entries(FONT_WEIGHT_STYLE_NAMES)) {
+    if (names.some(name => normalizeStyleName(name) === normalized)) return Number(weight);
+  }
+  return undefined;
+}
+
+/**
+ * 長さの値を解析（16 / "16px" → PIXELS、"2%" → PERCENT）
+ */
+export function parseDimension(value: string | number): { value: number; unit: 'PIXELS' | 'PERCENT' } | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? { value, unit: 'PIXELS' } : null;
+  const match = value.trim().match(/^(-?\d*\.?\d+)\s*(px|%)?$/i);
+  if (!match) return null;
+  return { value: parseFloat(match[1]), unit: match[2] === '%' ? 'PERCENT' : 'PIXELS' };
+}
+
+/**
+ * 行の高さを解析
+ * - "auto" → AUTO
+ * - 単位なしの4以下の数値は倍率（1.5 → 150%）、それ以外はpx
+ */
+export function parseLineHeight(value: string | number): LineHeight | null {
+  if (typeof value === 'string' && value.trim().toLowerCase() === 'auto') return { unit: 'AUTO' };
+  const dimension = parseDimension(value);
+  if (!dimension) return null;
+  const unitless = typeof value === 'number' || /^-?\d*\.?\d+$/.test(value.trim());
+  if (unitless && dimension.value <= 4) return { value: dimension.value * 100, unit: 'PERCENT' };
+  return dimension;
+}
+
+/**
+ * フォントファミリーとウェイトから、利用可能なフォントを選択
+ * - ウェイト未指定は Regular（なければ最初のスタイル）
+ * - 数値のウェイトは対応するスタイル名（700 → Bold）で検索
+ */
+export function resolveFontName(
+  family: string,
+  weight: string | number | undefined,
+  availableFonts: Font[]
+): FontName {
+  const styles = availableFonts
+    .filter(font => font.fontName.family.toLowerCase() === family.trim().toLowerCase())
+    .map(font => font.fontName);
+  if (styles.length === 0) {
+    throw new Error(`フォント "${family}" が見つかりません`);
+  }
+
+  if (weight === undefined || weight === '') {
+    return styles.find(s => normalizeStyleName(s.style) === 'regular') ?? styles[0];
+  }
+
+  const numeric = typeof weight === 'number' ? weight : Number(weight);
+  const candidates = Number.isFinite(numeric)
+    ? FONT_WEIGHT_STYLE_NAMES[Math.round(numeric / 100) * 100] ?? []
+    : [String(weight)];
+  const match = styles.find(s => candidates.some(name => normalizeStyleName(name) === normalizeStyleName(s.style)));
+  if (!match) {
+    throw new Error(`フォント "${family}" にウェイト "${weight}" のスタイルがありません`);
+  }
+  return match;
+}
+
+// {Group/Name} 形式の参照であれば参照先の名前を返す
+function parseReference(value: string | number | undefined): string | null {
+  if (typeof value !== 'string') return null;
+  const match = value.trim().match(/^\{([^{}]+)\}$/);
+  return match ? match[1].trim() : null;
+}
+
+// Variableの値を取得（参照は辿り、最初のモードの値を使用）
+function resolveVariableValue(variable: Variable, allVariables: Variable[], depth = 0): string | number | RGBA | undefined {
+  const value = Object.values(variable.valuesByMode)[0];
+  if (typeof value === 'object' && value !== null && 'type' in value && value.type === 'VARIABLE_ALIAS') {
+    const target = allVariables.find(v => v.id === value.id);
+    return target && depth < 10 ? resolveVariableValue(target, allVariables, depth + 1) : undefined;
+  }
+  if (typeof value === 'object' && value !== null && 'r' in value) {
+    return { a: 1, ...value };
+  }
+  return typeof value === 'string' || typeof value === 'number' ? value : undefined;
+}
+
+// 既存スタイルをNotionページID → 名前の順で照合
+export function findLinkedStyle<T extends BaseStyle>(
+  styles: T[],
+  token: Pick<NotionVariable, 'id' | 'name' | 'group'>
+): T | undefined {
+  return (token.id && styles.find(s => s.getPluginData(NOTION_PAGE_ID_KEY) === token.id))
+    || styles.find(s => s.name === getFullName(token));
+}
+
+// タイポグラフィを表示用の文字列に整形（Inter / 700 / 16px / 1.5）
+export function formatTypography(value: TypographyTokenValue): string {
+  return [value.fontFamily, value.fontWeight, value.fontSize, value.lineHeight, value.letterSpacing]
+    .filter(v => v !== undefined && v !== '')
+    .map(String)
+    .join(' / ');
+}
+
+// シャドウを表示用の文字列に整形（box-shadow 形式）
+export function formatShadow(layers: ShadowLayerValue[]): string {
+  return layers
+    .map(layer => [
+      layer.inset ? 'inset' : '',
+      layer.offsetX,
+      layer.offsetY,
+      layer.blur ?? 0,
+      layer.spread ?? 0,
+      layer.color
+    ].filter(v => v !== '').join(' '))
+    .join(', ');
+}
+
+// 既存のエフェクトスタイルを表示用の文字列に整形（シャドウ以外のエフェクトは除く）
+function formatEffectStyle(style: EffectStyle): string {
+  return formatShadow(style.effects.flatMap(effect =>
+    effect.type === 'DROP_SHADOW' || effect.type === 'INNER_SHADOW'
+      ? [{
+          color: rgbaToHex(effect.color),
+          offsetX: effect.offset.x,
+          offsetY: effect.offset.y,
+          blur: effect.radius,
+          spread: effect.spread ?? 0,
+          inset: effect.type === 'INNER_SHADOW'
+        }]
+      : []
+  ));
+}
+
+// グラデーションを表示用の文字列に整形（CSS形式）
+export function formatGradient(value: GradientTokenValue): string {
+  const stops = value.stops.map(stop => `${stop.color} ${Math.round(stop.position * 1000) / 10}%`);
+  return value.type === 'LINEAR'
+    ? `linear-gradient(${value.angle ?? 180}deg, ${stops.join(', ')})`
+    : `radial-gradient(${stops.join(', ')})`;
+}
+
+/**
+ * linear グラデーションの角度（CSSと同じく 0 = 下から上、90 = 左から右）を gradientTransform に変換
+ * ノードの中心を通り、角度の方向に0→1となる変換
+ */
+export function angleToGradientTransform(angle: number): Transform {
+  const rad = angle * Math.PI / 180;
+  const dx = Math.sin(rad);
+  const dy = -Math.cos(rad);
+  // 浮動小数点の誤差を丸める（-0 は 0 にする）
+  const round = (n: number) => Math.round(n * 1e6) / 1e6 || 0;
+  return [
+    [round(dx), round(dy), round(0.5 - (dx + dy) / 2)],
+    [round(-dy), round(dx), round(0.5 - (dx - dy) / 2)]
+  ];
+}
+
+/**
+ * gradientTransform から linear グラデーションの角度を求める（angleToGradientTransform の逆変換）
+ */
+export function gradientTransformToAngle(transform: Transform): number {
+  const [[dx, dy]] = transform;
+  return Math.round((Math.atan2(dx, -dy) * 180 / Math.PI + 360) % 360 * 100) / 100;
+}
+
+// 既存のペイントスタイルを表示用の文字列に整形（先頭がグラデーション以外の場合は種類のみ）
+function formatPaintStyle(style: PaintStyle): string {
+  const paint = style.paints[0];
+  if (!paint) return '';
+  if (paint.type !== 'GRADIENT_LINEAR' && paint.type !== 'GRADIENT_RADIAL') return paint.type;
+  return formatGradient({
+    type: paint.type === 'GRADIENT_LINEAR' ? 'LINEAR' : 'RADIAL',
+    angle: gradientTransformToAngle(paint.gradientTransform),
+    stops: paint.gradientStops.map(stop => ({ color: rgbaToHex(stop.color), position: stop.position }))
+  });
+}
+
+// 既存のテキストスタイルを表示用の文字列に整形
+function formatTextStyle(style: TextStyle): string {
+  const lineHeight = style.lineHeight.unit === 'AUTO'
+    ? 'auto'
+    : `${style.lineHeight.value}${style.lineHeight.unit === 'PERCENT' ? '%' : 'px'}`;
+  const letterSpacing = `${style.letterSpacing.value}${style.letterSpacing.unit === 'PERCENT' ? '%' : 'px'}`;
+  return [style.fontName.family, style.fontName.style, `${style.fontSize}px`, lineHeight, letterSpacing].join(' / ');
+}
+
+// タイポグラフィをテキストスタイルに反映（参照はVariableをバインド）
+async function applyTypography(
+  style: TextStyle,
+  value: TypographyTokenValue,
+  allVariables: Variable[],
+  availableFonts: Font[],
+  referenceOptions: ReferenceOptions
+): Promise<void> {
+  // 参照を解決し、フォントの読み込みに使う値を求める
+  const resolved: Partial<Record<keyof TypographyTokenValue, string | number>> = {};
+  const bindings = new Map<VariableBindableTextField, Variable>();
+  for (const field of TYPOGRAPHY_FIELDS) {
+    const raw = value[field];
+    const reference = parseReference(raw);
+    if (!reference) {
+      resolved[field] = raw;
+      continue;
+    }
+    const variable = await findVariableByName(reference, allVariables, referenceOptions);
+    if (!variable) {
+      throw new Error(`参照先 "${reference}" が見つかりません（${field}）`);
+    }
+    bindings.set(field, variable);
+    const variableValue = resolveVariableValue(variable, allVariables);
+    resolved[field] = typeof variableValue === 'object' ? undefined : variableValue;
+  }
+
+  if (resolved.fontFamily === undefined || resolved.fontSize === undefined) {
+    throw new Error('フォントファミリーとフォントサイズは必須です');
+  }
+
+  // すべての項目を解釈してからスタイルに反映する（途中で失敗した場合に一部だけ更新されないようにする）
+  const fontSize = parseDimension(resolved.fontSize);
+  if (!fontSize || fontSize.unit !== 'PIXELS') {
+    throw new Error(`フォントサイズ "${resolved.fontSize}" を解釈できません`);
+  }
+
+  let lineHeight: LineHeight | undefined;
+  if (resolved.lineHeight !== undefined) {
+    lineHeight = parseLineHeight(resolved.lineHeight) ?? undefined;
+    if (!lineHeight) throw new Error(`行の高さ "${resolved.lineHeight}" を解釈できません`);
+  }
+
+  let letterSpacing: LetterSpacing | undefined;
+  if (resolved.letterSpacing !== undefined) {
+    letterSpacing = parseDimension(resolved.letterSpacing) ?? undefined;
+    if (!letterSpacing) throw new Error(`文字間隔 "${resolved.letterSpacing}" を解釈できません`);
+  }
+
+  const fontName = resolveFontName(String(resolved.fontFamily), resolved.fontWeight, availableFonts);
+  await figma.loadFontAsync(fontName);
+
+  style.fontName = fontName;
+  style.fontSize = fontSize.value;
+  if (lineHeight) style.lineHeight = lineHeight;
+  if (letterSpacing) style.letterSpacing = letterSpacing;
+
+  // 参照の項目はVariableをバインドし、値になった項目はバインドを解除
+  for (const field of TYPOGRAPHY_FIELDS) {
+    const variable = bindings.get(field);
+    if (variable) {
+      style.setBoundVariable(field, variable);
+    } else if (style.boundVariables?.[field]) {
+      style.setBoundVariable(field, null);
+    }
+  }
+}
+
+// シャドウのレイヤーをFigmaのエフェクトに変換（参照はVariableをバインド）
+async function buildShadowEffects(
+  layers: ShadowLayerValue[],
+  allVariables: Variable[],
+  referenceOptions: ReferenceOptions
+): Promise<Effect[]> {
+  const effects: Effect[] = [];
+  for (const layer of layers) {
+    const bindings: [VariableBindableEffectField, Variable][] = [];
+
+    // 参照の項目は参照先のVariableの値を使用し、バインドする
+    const resolve = async (field: VariableBindableEffectField, raw: string | number | undefined) => {
+      const reference = parseReference(raw);
+      if (!reference) return raw;
+      const variable = await findVariableByName(reference, allVariables, referenceOptions);
+      if (!variable) {
+        throw new Error(`参照先 "${reference}" が見つかりません（${field}）`);
+      }
+      bindings.push([field, variable]);
+      return resolveVariableValue(variable, allVariables);
+    };
+
+    const toPixels = async (field: VariableBindableEffectField, raw: string | number | undefined): Promise<number> => {
+      const value = await resolve(field, raw);
+      if (value === undefined) return 0;
+      const dimension = typeof value === 'object' ? null : parseDimension(value);
+      if (!dimension || dimension.unit !== 'PIXELS') {
+        throw new Error(`シャドウの ${field} "${raw}" を解釈できません`);
+      }
+      return dimension.value;
+    };
+
+    const color = await resolve('color', layer.color);
+    if (color === undefined) {
+      throw new Error(`シャドウの色 "${layer.color}" を解釈できません`);
+    }
+
+    let effect: Effect = {
+      type: layer.inset ? 'INNER_SHADOW' : 'DROP_SHADOW',
+      color: parseColor(color),
+      offset: { x: await toPixels('offsetX', layer.offsetX), y: await toPixels('offsetY', layer.offsetY) },
+      radius: await toPixels('radius', layer.blur),
+      spread: await toPixels('spread', layer.spread),
+      visible: true,
+      blendMode: 'NORMAL'
+    };
+    for (const [field, variable] of bindings) {
+      effect = figma.variables.setBoundVariableForEffect(effect, field, variable);
+    }
+    effects.push(effect);
+  }
+  return effects;
+}
+
+// グラデーションをFigmaのペイントに変換（参照のストップは色のVariableをバインド）
+async function buildGradientPaint(
+  value: GradientTokenValue,
+  allVariables: Variable[],
+  referenceOptions: ReferenceOptions
+): Promise<GradientPaint> {
+  const gradientStops: ColorStop[] = [];
+  for (const stop of value.stops) {
+    const reference = parseReference(stop.color);
+    if (!reference) {
+      gradientStops.push({ position: stop.position, color: parseColor(stop.color) });
+      continue;
+    }
+    const variable = await findVariableByName(reference, allVariables, referenceOptions);
+    if (!variable) {
+      throw new Error(`参照先 "${reference}" が見つかりません（グラデーションのストップ）`);
+    }
+    if (variable.resolvedType !== 'COLOR') {
+      throw new Error(`参照先 "${reference}" は色のVariableではありません`);
+    }
+    gradientStops.push({
+      position: stop.position,
+      color: parseColor(resolveVariableValue(variable, allVariables)),
+      boundVariables: { color: figma.variables.createVariableAlias(variable) }
+    });
+  }
+
+  return {
+    type: value.type === 'LINEAR' ? 'GRADIENT_LINEAR' : 'GRADIENT_RADIAL',
+    // radial はノードの中心から外側へのグラデーション（単位行列）
+    gradientTransform: value.type === 'LINEAR'
+      ? angleToGradientTransform(value.angle ?? 180)
+      : [[1, 0, 0], [0, 1, 0]],
+    gradientStops,
+    visible: true,
+    opacity: 1,
+    blendMode: 'NORMAL'
+  };
+}
+
+// 複合トークンの種類に対応するローカルスタイルを取得
+export async function getLocalStyles(type: CompositeTokenType): Promise<BaseStyle[]> {
+  switch (type) {
+    case CompositeTokenType.TYPOGRAPHY:
+      return figma.getLocalTextStylesAsync();
+    case CompositeTokenType.SHADOW:
+      return figma.getLocalEffectStylesAsync();
+    case CompositeTokenType.GRADIENT:
+      return figma.getLocalPaintStylesAsync();
+  }
+}
+
+// 複合トークンの値を表示用の文字列に整形
+function formatCompositeValue(composite: CompositeToken): string {
+  switch (composite.type) {
+    case CompositeTokenType.TYPOGRAPHY:
+      return formatTypography(composite.value);
+    case CompositeTokenType.SHADOW:
+      return formatShadow(composite.value);
+    case CompositeTokenType.GRADIENT:
+      return formatGradient(composite.value);
+  }
+}
+
+// 既存のスタイルを表示用の文字列に整形
+function formatStyle(style: BaseStyle, type: CompositeTokenType): string {
+  switch (type) {
+    case CompositeTokenType.TYPOGRAPHY:
+      return formatTextStyle(style as TextStyle);
+    case CompositeTokenType.SHADOW:
+      return formatEffectStyle(style as EffectStyle);
+    case CompositeTokenType.GRADIENT:
+      return formatPaintStyle(style as PaintStyle);
+  }
+}
+
+/**
+ * 複合トークンをFigmaのスタイルとしてインポート
+ * - タイポグラフィはテキストスタイル、シャドウはエフェクトスタイル、グラデーションはペイントスタイル
+ * - 既存スタイルはNotionページID → 名前の順で照合し、名前が変わった場合はリネーム
+ * - {Group/Name} 形式の項目は参照先のVariableをバインド（Variablesのインポート後に呼び出す）
+ */
+export async function importCompositeTokens(
+  tokens: NotionVariable[],
+  allVariables: Variable[],
+  options: StyleImportOptions
+): Promise<StyleImportResult> {
+  const result: StyleImportResult = { imported: 0, skipped: 0, errors: [], created: [], updated: [] };
+  if (tokens.length === 0) return result;
+
+  // 既存スタイルとフォント一覧は必要になった時点で取得
+  const stylesByType = new Map<CompositeTokenType, BaseStyle[]>();
+  let availableFonts: Font[] | undefined;
+
+  for (const token of tokens) {
+    const fullName = getFullName(token);
+    const composite = token.composite;
+    if (!composite) continue;
+
+    if (options.excludedKeys?.has(token.id)) {
+      logger.log(`  ⏭️  Skipping style ${fullName} (deselected in preview)`);
+      result.skipped++;
+      continue;
+    }
+
+    let styles = stylesByType.get(composite.type);
+    if (!styles) {
+      styles = await getLocalStyles(composite.type);
+      stylesByType.set(composite.type, styles);
+    }
+
+    const existing = findLinkedStyle(styles, token);
+    if (existing && !options.overwriteExisting) {
+      logger.log(`  ⏭️  Skipping style ${fullName} (overwrite disabled)`);
+      result.skipped++;
+      continue;
+    }
+
+    // 新規作成したスタイルは、値の反映に失敗した場合に削除する
+    let created: BaseStyle | undefined;
+    try {
+      let style: BaseStyle;
+      if (composite.type === CompositeTokenType.TYPOGRAPHY) {
+        availableFonts ??= await figma.listAvailableFontsAsync();
+        const textStyle = (existing as TextStyle | undefined) ?? (created = figma.createTextStyle());
+        await applyTypography(textStyle, composite.value, allVariables, availableFonts, options);
+        style = textStyle;
+      } else if (composite.type === CompositeTokenType.SHADOW) {
+        const effects = await buildShadowEffects(composite.value, allVariables, options);
+        const effectStyle = (existing as EffectStyle | undefined) ?? (created = figma.createEffectStyle());
+        effectStyle.effects = effects;
+        style = effectStyle;
+      } else {
+        const paint = await buildGradientPaint(composite.value, allVariables, options);
+        const paintStyle = (existing as PaintStyle | undefined) ?? (created = figma.createPaintStyle());
+        paintStyle.paints = [paint];
+        style = paintStyle;
+      }
+      style.name = fullName;
+      style.description = token.description || '';
+      if (token.id) style.setPluginData(NOTION_PAGE_ID_KEY, token.id);
+      if (created) styles.push(created);
+      logger.log(`  ✅ ${style.type} style ${existing ? 'updated' : 'created'}: ${fullName}`);
+      result.imported++;
+      (existing ? result.updated : result.created).push(fullName);
+    } catch (error) {
+      logger.error(`Error importing style ${fullName}:`, error);
+      created?.remove();
+      result.errors.push({ name: fullName, reason: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * 複合トークンのインポート内容（ドライラン）を算出
+ */
+export async function buildCompositeTokenPlan(
+  tokens: NotionVariable[],
+  settings: { overwriteExisting: boolean }
+): Promise<ImportChange[]> {
+  const stylesByType = new Map<CompositeTokenType, BaseStyle[]>();
+  const changes: ImportChange[] = [];
+
+  for (const token of tokens) {
+    const composite = token.composite;
+    if (!composite) continue;
+
+    let styles = stylesByType.get(composite.type);
+    if (!styles) {
+      styles = await getLocalStyles(composite.type);
+      stylesByType.set(composite.type, styles);
+    }
+    const existing = findLinkedStyle(styles, token);
+
+    const change: ImportChange = {
+      key: token.id,
+      name: getFullName(token),
+      action: existing ? (settings.overwriteExisting ? 'update' : 'skip') : 'create',
+      newValue: formatCompositeValue(composite),
+      newType: composite.type
+    };
+    if (existing) {
+      change.oldValue = formatStyle(existing, composite.type);
+      change.oldType = composite.type;
+      if (!settings.overwriteExisting) change.reason = '上書きが無効です';
+    }
+    changes.push(change);
+  }
+
+  return changes;
+}
@@ -0,0 +1,53 @@
+// 同期履歴（インポート・エクスポートの記録）をファイル（figma.root）のプラグインデータに保存するユーティリティ
+import { SyncHistoryEntry } from '../../shared/types';
+import { logger } from '../../shared/logger';
+import { generateUUID } from '../../shared/uuid';
+
+export const SYNC_HISTORY_KEY = 'syncHistory';
+
+// 保存する履歴の上限（古いものから削除）
+export const MAX_SYNC_HISTORY_ENTRIES = 50;
+
+// プラグインデータ1件あたりのサイズ上限（100kB）に収めるための目安
+const MAX_SYNC_HISTORY_LENGTH = 90000;
+
+/**
+ * 保存済みの同期履歴を新しい順に取得する（壊れている場合は空）
+ */
+export function loadSyncHistory(): SyncHistoryEntry[] {
+  const raw = figma.root.getPluginData(SYNC_HISTORY_KEY);
+  if (!raw) return [];
+  try {
+    const entries = JSON.parse(raw);
+    return Array.isArray(entries) ? entries : [];
+  } catch (error) {
+    logger.error('❌ Failed to parse sync history:', error);
+    return [];
+  }
+}
+
+/**
+ * 同期履歴を先頭に追加して保存する
+ * 件数・サイズの上限を超えた場合は古い履歴から削除する。保存に失敗しても同期処理は止めない
+ */
+export function recordSyncHistory(entry: Omit<SyncHistoryEntry, 'id' | 'timestamp' | 'user'>): SyncHistoryEntry {
+  const saved: SyncHistoryEntry = {
+    id: generateUUID(),
+    timestamp: new Date().toISOString(),
+    ...(figma.currentUser?.name ? { user: figma.currentUser.name } : {}),
+    ...entry
+  };
+  try {
+    const entries = [saved, ...loadSyncHistory()].slice(0, MAX_SYNC_HISTORY_ENTRIES);
+    let json = JSON.stringify(entries);
+    while (json.length > MAX_SYNC_HISTORY_LENGTH && entries.length > 1) {
+      entries.pop();
+      json = JSON.stringify(entries);
+    }
+    figma.root.setPluginData(SYNC_HISTORY_KEY, json);
+    logger.log(`📝 Sync history recorded: ${saved.kind} ${saved.collectionName} (${entries.length} entries)`);
+  } catch (error) {
+    logger.error('❌ Failed to record sync history:', error);
+  }
+  return saved;
+}
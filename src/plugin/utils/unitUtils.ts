@@ -0,0 +1,99 @@
+// 単位付き数値（16px / 1.5rem / 12pt / 50% など）をVariableの数値に換算するユーティリティ
+import { DEFAULT_UNIT_CONVERSION, UnitConversionSettings } from '../../shared/types';
+
+// 元の単位付きの値を保存するプラグインデータのキー（JSON。単位付きのモードがない場合は空）
+export const ORIGINAL_VALUE_KEY = 'notionOriginalValue';
+
+// 保存する換算前の値（モードID → 単位付きの値と、その換算結果）
+export type OriginalUnitValues = Record<string, { original: string; value: number }>;
+
+// 換算結果（unitは換算前の単位。px・単位なしの場合は未設定）
+export interface ConvertedNumber {
+  value: number;
+  unit?: string;
+}
+
+// 指数表記（1e3・1.5e-1px）も受け付ける。"2em" の e は指数の後に数字が続かないため単位になる
+const NUMBER_WITH_UNIT_PATTERN = /^(-?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)\s*([a-z%]*)$/i;
+
+// 浮動小数点の誤差を丸める（0.1 * 3 などで末尾に誤差が出るのを防ぐ）
+function round(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
+
+/**
+ * 単位付きの数値をpxの数値に換算する
+ * - px・単位なし: そのまま
+ * - rem / em: rootFontSize倍（emも親要素を特定できないためルート基準で換算）
+ * - pt: ptToPx倍
+ * - %: percentage が ratio の場合は 1/100、keep の場合はそのまま
+ * @throws 数値として解釈できない場合、換算できない単位（vh / vw など）の場合
+ */
+export function convertNumberWithUnit(
+  value: string | number,
+  settings: UnitConversionSettings = DEFAULT_UNIT_CONVERSION
+): ConvertedNumber {
+  if (typeof value === 'number') return { value };
+
+  const match = String(value).trim().match(NUMBER_WITH_UNIT_PATTERN);
+  if (!match) {
+    throw new Error(`"${value}" は数値として解釈できません`);
+  }
+  const amount = parseFloat(match[1]);
+  const unit = match[2].toLowerCase();
+
+  switch (unit) {
+    case '':
+    case 'px':
+      return { value: amount };
+    case 'rem':
+    case 'em':
+      return { value: round(amount * settings.rootFontSize), unit };
+    case 'pt':
+      return { value: round(amount * settings.ptToPx), unit };
+    case '%':
+      return { value: settings.percentage === 'ratio' ? round(amount / 100) : amount, unit };
+    default:
+      throw new Error(`単位 "${match[2]}" はpxに換算できません（対応している単位: px / rem / em / pt / %）`);
+  }
+}
+
+// 換算前の単位付きの値（1.5rem / 12pt など）を返す（px・単位なし・数値以外の場合は空文字）
+export function getOriginalUnitValue(value: unknown): string {
+  if (typeof value !== 'string') return '';
+  const match = value.trim().match(NUMBER_WITH_UNIT_PATTERN);
+  return match && match[2] && match[2].toLowerCase() !== 'px' ? value.trim() : '';
+}
+
+// 変数に保存した換算前の値を取得する（未保存・壊れている場合は空）
+export function readOriginalUnitValues(variable: { getPluginData(key: string): string }): OriginalUnitValues {
+  const raw = variable.getPluginData(ORIGINAL_VALUE_KEY);
+  if (!raw) return {};
+  try {
+    const parsed = JSON.parse(raw);
+    return typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * モードの換算前の単位付きの値を返す
+ * Figma側で値が変更され、保存時の換算結果と一致しない場合はundefined（pxの数値として扱う）
+ * Figmaの数値は32bit浮動小数点のため、同じ精度に丸めて比較する
+ */
+export function findOriginalUnitValue(
+  originals: OriginalUnitValues,
+  modeId: string,
+  current: unknown
+): string | undefined {
+  const entry = originals[modeId];
+  if (!entry || typeof current !== 'number') return undefined;
+  return Math.fround(entry.value) === Math.fround(current) ? entry.original : undefined;
+}
+
+// 単位付きの値を数値と単位に分ける（"1.5rem" → { value: 1.5, unit: 'rem' }。解釈できない場合はnull）
+export function splitUnitValue(value: string): { value: number; unit: string } | null {
+  const match = value.trim().match(NUMBER_WITH_UNIT_PATTERN);
+  return match ? { value: parseFloat(match[1]), unit: match[2].toLowerCase() || 'px' } : null;
+}
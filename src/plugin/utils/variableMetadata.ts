@@ -0,0 +1,108 @@
+// Variableのスコープ・コードシンタックス・公開設定・非推奨フラグを扱うユーティリティ
+import { CodeSyntaxPlatformName, NotionVariable } from '../../shared/types';
+
+// 型ごとに設定できるスコープ（BOOLEANはスコープを設定できない）
+export const SCOPES_BY_TYPE: Record<VariableResolvedDataType, VariableScope[]> = {
+  FLOAT: [
+    'ALL_SCOPES', 'TEXT_CONTENT', 'CORNER_RADIUS', 'WIDTH_HEIGHT', 'GAP', 'STROKE_FLOAT', 'EFFECT_FLOAT', 'OPACITY',
+    'FONT_WEIGHT', 'FONT_SIZE', 'LINE_HEIGHT', 'LETTER_SPACING', 'PARAGRAPH_SPACING', 'PARAGRAPH_INDENT'
+  ],
+  COLOR: ['ALL_SCOPES', 'ALL_FILLS', 'FRAME_FILL', 'SHAPE_FILL', 'TEXT_FILL', 'STROKE_COLOR', 'EFFECT_COLOR'],
+  STRING: ['ALL_SCOPES', 'TEXT_CONTENT', 'FONT_FAMILY', 'FONT_STYLE'],
+  BOOLEAN: []
+};
+
+const CODE_SYNTAX_PLATFORMS: CodeSyntaxPlatformName[] = ['WEB', 'ANDROID', 'iOS'];
+
+// 非推奨のトークンの説明に付ける接頭辞
+export const DEPRECATED_PREFIX = '[Deprecated] ';
+
+// 個別の塗りのスコープ（ALL_FILLS と同時に指定できない）
+const FILL_SCOPES: VariableScope[] = ['FRAME_FILL', 'SHAPE_FILL', 'TEXT_FILL'];
+
+/**
+ * Notionのスコープ名（"Corner radius" / "corner-radius" なども可）を検証してVariableScopeに変換する
+ * @throws 変数の型で使用できないスコープ、または同時に指定できない組み合わせの場合
+ */
+export function validateScopes(scopes: string[], type: VariableResolvedDataType): VariableScope[] {
+  const allowed = SCOPES_BY_TYPE[type];
+  const result: VariableScope[] = [];
+  for (const raw of scopes) {
+    const scope = raw.trim().toUpperCase().replace(/[\s-]+/g, '_') as VariableScope;
+    if (!scope || result.includes(scope)) continue;
+    if (!allowed.includes(scope)) {
+      throw new Error(allowed.length > 0
+        ? `スコープ "${raw.trim()}" は ${type} のVariableには設定できません（設定できるスコープ: ${allowed.join(', ')}）`
+        : `${type} のVariableにはスコープを設定できません`);
+    }
+    result.push(scope);
+  }
+  if (result.includes('ALL_SCOPES') && result.length > 1) {
+    throw new Error('ALL_SCOPES は他のスコープと同時に指定できません');
+  }
+  if (result.includes('ALL_FILLS') && result.some(s => FILL_SCOPES.includes(s))) {
+    throw new Error(`ALL_FILLS は ${FILL_SCOPES.join(' / ')} と同時に指定できません`);
+  }
+  return result;
+}
+
+// 非推奨フラグに合わせて説明の先頭の [Deprecated] を付け外しする
+export function annotateDeprecated(description: string, deprecated: boolean): string {
+  const base = description.startsWith(DEPRECATED_PREFIX) ? description.slice(DEPRECATED_PREFIX.length) : description;
+  return deprecated ? `${DEPRECATED_PREFIX}${base}` : base;
+}
+
+/**
+ * インポート後の説明を求める（変更しない場合はundefined）
+ * Notion側の説明が空の場合は現在の説明を引き継ぎ、非推奨フラグがあれば接頭辞を付け外しする
+ */
+export function resolveDescription(variable: NotionVariable, currentDescription: string): string | undefined {
+  if (variable.deprecated === undefined) return variable.description || undefined;
+  return annotateDeprecated(variable.description || currentDescription, variable.deprecated);
+}
+
+// スコープ・コードシンタックス・公開設定の変更内容（インポートプレビューの表示用）
+export function describeMetadataChanges(figmaVariable: Variable, variable: NotionVariable): string[] {
+  const changes: string[] = [];
+  if (variable.scopes) {
+    const scopes = validateScopes(variable.scopes, figmaVariable.resolvedType);
+    if (scopes.join(',') !== figmaVariable.scopes.join(',')) changes.push('スコープ');
+  }
+  if (variable.codeSyntax) {
+    const changed = CODE_SYNTAX_PLATFORMS.some(platform => {
+      const value = variable.codeSyntax![platform];
+      return value !== undefined && value !== (figmaVariable.codeSyntax[platform] ?? '');
+    });
+    if (changed) changes.push('コードシンタックス');
+  }
+  if (variable.hiddenFromPublishing !== undefined && variable.hiddenFromPublishing !== figmaVariable.hiddenFromPublishing) {
+    changes.push(variable.hiddenFromPublishing ? '公開から除外' : '公開対象に戻す');
+  }
+  return changes;
+}
+
+/**
+ * スコープ・コードシンタックス・公開設定を設定する（未設定の項目は変更しない）
+ * @param scopes validateScopes で検証済みのスコープ
+ */
+export function applyVariableMetadata(
+  figmaVariable: Variable,
+  scopes: VariableScope[] | undefined,
+  { codeSyntax, hiddenFromPublishing }: Pick<NotionVariable, 'codeSyntax' | 'hiddenFromPublishing'>
+): void {
+  if (hiddenFromPublishing !== undefined && hiddenFromPublishing !== figmaVariable.hiddenFromPublishing) {
+    figmaVariable.hiddenFromPublishing = hiddenFromPublishing;
+  }
+  if (scopes && scopes.join(',') !== figmaVariable.scopes.join(',')) {
+    figmaVariable.scopes = scopes;
+  }
+  for (const platform of CODE_SYNTAX_PLATFORMS) {
+    const value = codeSyntax?.[platform];
+    if (value === undefined || value === (figmaVariable.codeSyntax[platform] ?? '')) continue;
+    if (value) {
+      figmaVariable.setVariableCodeSyntax(platform, value);
+    } else {
+      figmaVariable.removeVariableCodeSyntax(platform);
+    }
+  }
+}
@@ -1,6 +1,10 @@
 // Figma Variables操作のユーティリティ関数
-import { VariableType, VariableHierarchy, NotionVariable } from '../../shared/types';
+import { VariableType, VariableHierarchy, NotionVariable, UnitConversionSettings } from '../../shared/types';
 import { logger } from '../../shared/logger';
+import { ErrorCode, SyncError } from '../../shared/errors';
+import { parseCssColor } from '../../shared/color';
+import { convertNumberWithUnit, getOriginalUnitValue, ORIGINAL_VALUE_KEY, OriginalUnitValues } from './unitUtils';
+import { applyVariableMetadata, resolveDescription, validateScopes } from './variableMetadata';
 
 // Variable型をFigma型に変換
 export function convertToFigmaVariableType(type: VariableType): VariableResolvedDataType {
@@ -18,6 +22,21 @@ export function convertToFigmaVariableType(type: VariableType): VariableResolved
   }
 }
 
+// Figma型をVariable型に変換
+export function convertFromFigmaVariableType(resolvedType: VariableResolvedDataType): VariableType {
+  switch (resolvedType) {
+    case 'COLOR':
+      return VariableType.COLOR;
+    case 'FLOAT':
+      return VariableType.NUMBER;
+    case 'BOOLEAN':
+      return VariableType.BOOLEAN;
+    case 'STRING':
+    default:
+      return VariableType.STRING;
+  }
+}
+
 // 値の型を自動判定
 export function detectVariableType(value: any): VariableType {
   if (typeof value === 'boolean') {
@@ -29,11 +48,12 @@ export function detectVariableType(value: any): VariableType {
   }
   
   if (typeof value === 'string') {
-    // カラーコードの判定（HEX, RGB, RGBA）
+    // カラーコードの判定（HEX, rgb() / hsl() / oklch() / color() などの色関数）
+    // 色名（red など）は文字列の値と区別できないため色として判定しない
     const hexPattern = /^#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{8})$/;
-    const rgbPattern = /^rgba?\(\s*\d+\s*,\s*\d+\s*,\s*\d+\s*(,\s*[\d.]+)?\s*\)$/;
+    const colorFunctionPattern = /^(rgba?|hsla?|hwb|lab|lch|oklab|oklch|color)\(/i;
     
-    if (hexPattern.test(value) || rgbPattern.test(value)) {
+    if (hexPattern.test(value) || (colorFunctionPattern.test(value.trim()) && parseCssColor(value) !== null)) {
       return VariableType.COLOR;
     }
     
@@ -57,64 +77,23 @@ export function detectVariableType(value: any): VariableType {
   return VariableType.STRING;
 }
 
-// 色の値をRGBAに変換
+// 色の値をRGBAに変換（oklch() / display-p3 などはsRGBの範囲に収めて変換）
+// 色として解釈できない場合はエラー
 export function parseColor(value: any): RGBA {
-  if (typeof value === 'object' && 'r' in value && 'g' in value && 'b' in value) {
+  if (typeof value === 'object' && value !== null && 'r' in value && 'g' in value && 'b' in value) {
     return {
       r: value.r,
       g: value.g,
       b: value.b,
-      a: value.a || 1
+      a: value.a ?? 1
     };
   }
   
-  if (typeof value === 'string') {
-    // HEXカラーの処理 (#RRGGBB[AA])
-    const hexMatch = value.match(/^#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{8})$/);
-    if (hexMatch) {
-      const hex = hexMatch[1];
-      const r = parseInt(hex.substr(0, 2), 16) / 255;
-      const g = parseInt(hex.substr(2, 2), 16) / 255;
-      const b = parseInt(hex.substr(4, 2), 16) / 255;
-      const a = hex.length === 8 ? parseInt(hex.substr(6, 2), 16) / 255 : 1;
-      return { r, g, b, a };
-    }
-    // short HEX #RGB or #RGBA
-    const short = value.match(/^#([A-Fa-f0-9]{3,4})$/);
-    if (short) {
-      const h = short[1];
-      const r = parseInt(h[0] + h[0], 16) / 255;
-      const g = parseInt(h[1] + h[1], 16) / 255;
-      const b = parseInt(h[2] + h[2], 16) / 255;
-      const a = h[3] ? parseInt(h[3] + h[3], 16) / 255 : 1;
-      return { r, g, b, a };
-    }
-    
-    // RGB/RGBAの処理（空白/カンマ混在、百分率、alphaに/も許容）
-    const rgbMatch = value.match(/^rgba?\(\s*([^\)]+)\)$/i);
-    if (rgbMatch) {
-      const raw = rgbMatch[1].trim();
-      let rStr: string, gStr: string, bStr: string, aStr: string | undefined;
-      if (raw.includes('/')) {
-        const [left, aPart] = raw.split('/').map(p => p.trim());
-        aStr = aPart;
-        const parts = left.split(/[ ,]+/).map(p => p.trim());
-        [rStr, gStr, bStr] = parts as any;
-      } else {
-        const parts = raw.split(/[ ,]+/).map(p => p.trim());
-        [rStr, gStr, bStr, aStr] = parts as any;
-      }
-      const chan = (x?: string) => x?.endsWith('%') ? Math.max(0, Math.min(1, parseFloat(x) / 100)) : (Number(x) / 255);
-      const r = chan(rStr) || 0;
-      const g = chan(gStr) || 0;
-      const b = chan(bStr) || 0;
-      const a = aStr ? (aStr.endsWith('%') ? Math.max(0, Math.min(1, parseFloat(aStr) / 100)) : Math.max(0, Math.min(1, parseFloat(aStr)))) : 1;
-      return { r, g, b, a };
-    }
+  const parsed = typeof value === 'string' ? parseCssColor(value) : null;
+  if (!parsed) {
+    throw new Error(`"${typeof value === 'string' ? value : JSON.stringify(value)}" は色として解釈できません`);
   }
-  
-  // デフォルト値
-  return { r: 0, g: 0, b: 0, a: 1 };
+  return parsed;
 }
 
 // 階層パスからVariable名を生成（スラッシュ区切り）
@@ -139,10 +118,22 @@ export function parseVariableName(fullName: string): VariableHierarchy {
   };
 }
 
+// 名前でコレクションを検索（完全一致 → トリム → 大文字小文字無視の順）
+export function findCollectionByName(
+  collections: VariableCollection[],
+  name: string
+): VariableCollection | null {
+  return collections.find(c => c.name === name)
+    ?? collections.find(c => c.name.trim() === name.trim())
+    ?? collections.find(c => c.name.toLowerCase() === name.toLowerCase())
+    ?? null;
+}
+
 // Variableコレクションを作成または取得
 export async function createVariableCollection(
   name: string, 
-  createNew: boolean = false
+  createNew: boolean = false,
+  defaultModeName: string = "Default"
 ): Promise<VariableCollection> {
   const collections = await figma.variables.getLocalVariableCollectionsAsync();
   
@@ -203,7 +194,7 @@ export async function createVariableCollection(
     // 既存のコレクションを使用するモードだが、見つからない場合
     logger.error(`  ❌ ERROR: createNew is false, but collection "${name}" not found!`);
     logger.error(`  - Available collections: ${collections.map(c => `"${c.name}"`).join(', ')}`);
-    throw new Error(`Collection "${name}" not found. Please select an existing collection or create a new one.`);
+    throw new SyncError(ErrorCode.VALIDATION, `Collection "${name}" not found. Please select an existing collection or create a new one.`);
   }
   
   // 新しいコレクションを作成
@@ -212,20 +203,117 @@ export async function createVariableCollection(
   
   // デフォルトモードの名前を設定
   const modeId = collection.modes[0].modeId;
-  collection.renameMode(modeId, "Default");
+  collection.renameMode(modeId, defaultModeName);
   
   logger.log(`  ✅ Created new collection: "${collection.name}" (ID: ${collection.id})`);
   
   return collection;
 }
 
+export interface EnsureModesResult {
+  modeIds: Map<string, string>;  // モード名 → モードID（追加できなかったモードは含まない）
+  errors: { name: string; reason: string }[];  // 追加できなかったモード（プランのモード数の上限など）
+}
+
+// コレクションに指定モードが存在することを保証する（不足分は追加）
+// 追加できなかったモードはエラーとして返し、他のモードの追加は続行する
+export function ensureCollectionModes(
+  collection: VariableCollection,
+  modeNames: string[]
+): EnsureModesResult {
+  const modeMap = new Map<string, string>();
+  const errors: EnsureModesResult['errors'] = [];
+  
+  for (const modeName of modeNames) {
+    if (modeMap.has(modeName)) continue;
+    
+    const existing = collection.modes.find(m => m.name === modeName)
+      ?? collection.modes.find(m => m.name.toLowerCase() === modeName.toLowerCase());
+    if (existing) {
+      modeMap.set(modeName, existing.modeId);
+      continue;
+    }
+    
+    logger.log(`  - Adding mode "${modeName}" to collection "${collection.name}"`);
+    try {
+      const modeId = collection.addMode(modeName);
+      modeMap.set(modeName, modeId);
+    } catch (error) {
+      logger.error(`  ❌ Failed to add mode "${modeName}":`, error);
+      errors.push({
+        name: `モード "${modeName}"`,
+        reason: `追加できなかったため、このモードの値はスキップしました: ${error instanceof Error ? error.message : String(error)}`
+      });
+    }
+  }
+  
+  return { modeIds: modeMap, errors };
+}
+
+// NotionVariable配列からモード名を出現順に収集
+export function collectModeNames(variables: NotionVariable[]): string[] {
+  const names: string[] = [];
+  for (const variable of variables) {
+    for (const modeName of Object.keys(variable.valuesByMode ?? {})) {
+      if (!names.includes(modeName)) names.push(modeName);
+    }
+  }
+  return names;
+}
+
+// インポート元のNotionページIDを保存するプラグインデータのキー
+export const NOTION_PAGE_ID_KEY = 'notionPageId';
+
+// Variableに紐付いたNotionページIDを取得（未設定は空文字）
+export function getLinkedNotionId(figmaVariable: Variable): string {
+  return figmaVariable.getPluginData(NOTION_PAGE_ID_KEY);
+}
+
+/**
+ * Notion変数に対応するFigma Variableを検索
+ * NotionページIDで紐付いた変数を優先し、見つからない場合は名前で一致させる
+ * @param incomingIds 今回インポートする全NotionページID（他のページに紐付いた変数を名前一致で横取りしないため）
+ */
+export function findLinkedVariable(
+  collectionVariables: Variable[],
+  variable: NotionVariable,
+  incomingIds?: Set<string>
+): Variable | undefined {
+  if (variable.id) {
+    const linked = collectionVariables.find(v => getLinkedNotionId(v) === variable.id);
+    if (linked) return linked;
+  }
+  
+  const variableName = variable.group 
+    ? `${variable.group}/${variable.name}`
+    : variable.name;
+  return collectionVariables.find(v => {
+    if (v.name !== variableName) return false;
+    const linkedId = getLinkedNotionId(v);
+    return !linkedId || linkedId === variable.id || !incomingIds?.has(linkedId);
+  });
+}
+
+// 参照（{Group/Name}）の解決方法
+export interface ReferenceOptions {
+  strict?: boolean;                      // 完全一致またはコレクション修飾のみを受け付ける
+  collectionNames?: Map<string, string>; // コレクションID → 名前（コレクション修飾の解決に使用）
+}
+
+export interface UpdateVariableOptions extends ReferenceOptions {
+  incomingIds?: Set<string>;  // 今回インポートする全NotionページID
+  unitConversion?: UnitConversionSettings;  // 単位付き数値の換算設定
+}
+
 // Variableを作成または更新
 // existingVariablesを渡すことで、毎回getLocalVariablesAsync()を呼ばずに済む
 export async function updateVariable(
   collection: VariableCollection,
   variable: NotionVariable,
-  existingVariables?: Variable[]
+  existingVariables?: Variable[],
+  options: UpdateVariableOptions = {}
 ): Promise<Variable> {
+  const { incomingIds, unitConversion } = options;
   const figmaType = convertToFigmaVariableType(variable.type);
   const variableName = variable.group 
     ? `${variable.group}/${variable.name}`
@@ -254,7 +342,8 @@ export async function updateVariable(
     });
   }
   
-  let figmaVariable = matchingVariables[0]; // 最初の一致を使用
+  // NotionページIDで紐付いた変数を優先（なければ名前の最初の一致）
+  let figmaVariable = findLinkedVariable(collectionVariables, variable, incomingIds);
   
   if (!figmaVariable) {
     // より広範囲に検索（コレクションIDを無視）
@@ -284,9 +373,11 @@ export async function updateVariable(
     logger.log(`  - No existing variable found, will create new`);
   }
   
-  // 値を設定
+  // 型・値を先に決定する（参照・値・スコープが不正な場合は、既存の変数を変更・削除する前にエラーにする）
   const modeId = collection.modes[0].modeId;
+  let targetType: VariableResolvedDataType;
   let valueToSet: VariableValue;
+  let sourceValue: NotionVariable['value'] | undefined; // 換算前の値（参照の場合は未設定）
   
   // Variable参照のチェック（{変数名}形式）- 変数作成前に判定
   const isAliasWithFallback = typeof variable.value === 'string' && variable.value.includes('||');
@@ -305,98 +396,89 @@ export async function updateVariable(
     logger.log(`Setting variable reference: ${variableName} -> ${referenceName}`);
     
     // 参照先のVariableを探す
-    const referenceVariable = await findVariableByName(referenceName, allVariables);
+    const referenceVariable = await findVariableByName(referenceName, allVariables, options);
     
     if (referenceVariable) {
-      const targetType = referenceVariable.resolvedType;
+      // 参照先の型を使用
+      targetType = referenceVariable.resolvedType;
       logger.log(`Found reference variable: ${referenceName} (ID: ${referenceVariable.id}, Type: ${targetType})`);
       
-      // 参照先の型を使用して変数を作成/再作成
-      if (!figmaVariable) {
-        figmaVariable = figma.variables.createVariable(variableName, collection, targetType);
-        logger.log(`  - Created new variable with reference type: ${targetType}`);
-      } else if (figmaVariable.resolvedType !== targetType) {
-        logger.log(`  - Type mismatch with reference! ${figmaVariable.resolvedType} !== ${targetType}`);
-        logger.log(`  - Removing old variable and creating new one with reference type`);
-        figmaVariable.remove();
-        figmaVariable = figma.variables.createVariable(variableName, collection, targetType);
-      }
-      
       // Variable Aliasとして設定
       valueToSet = {
         type: 'VARIABLE_ALIAS',
         id: referenceVariable.id
       } as VariableAlias;
+    } else if (fbPart) {
+      // 参照先が見つからない場合はフォールバック値から型を自動判定
+      logger.warn(`Reference not found: ${referenceName}, using fallback value`);
+      const fallbackType = detectVariableType(fbPart);
+      targetType = convertToFigmaVariableType(fallbackType);
+      
+      // フォールバック値を型に応じて適切にパース
+      valueToSet = parseFallbackValue(fbPart, fallbackType, unitConversion);
+      sourceValue = fbPart;
     } else {
-      // 参照先が見つからない場合
-      if (fbPart) {
-        logger.warn(`Reference not found: ${referenceName}, using fallback value`);
-        // フォールバック値から型を自動判定
-        const fallbackType = detectVariableType(fbPart);
-        const fallbackFigmaType = convertToFigmaVariableType(fallbackType);
-        
-        if (!figmaVariable) {
-          figmaVariable = figma.variables.createVariable(variableName, collection, fallbackFigmaType);
-          logger.log(`  - Created new variable with fallback type: ${fallbackFigmaType}`);
-        } else if (figmaVariable.resolvedType !== fallbackFigmaType) {
-          figmaVariable.remove();
-          figmaVariable = figma.variables.createVariable(variableName, collection, fallbackFigmaType);
-        }
-        
-        // フォールバック値を型に応じて適切にパース
-        valueToSet = parseFallbackValue(fbPart, fallbackType);
-      } else {
-        logger.warn(`Reference variable not found: ${referenceName}, using direct value instead`);
-        // 参照先もフォールバックもない場合:
-        // - Notion側のtypeがあればそれを優先
-        // - なければvalueから型を自動判定
-        const inferredType = variable.type || detectVariableType(variable.value);
-        const inferredFigmaType = convertToFigmaVariableType(inferredType);
-        
-        // 既存の変数がない場合は推論した型で作成
-        if (!figmaVariable) {
-          figmaVariable = figma.variables.createVariable(variableName, collection, inferredFigmaType);
-          logger.log(`  - Created new variable with inferred type: ${inferredFigmaType}`);
-        } else if (figmaVariable.resolvedType !== inferredFigmaType) {
-          figmaVariable.remove();
-          figmaVariable = figma.variables.createVariable(variableName, collection, inferredFigmaType);
-        }
-        
-        valueToSet = parseVariableValue(variable);
-      }
+      logger.warn(`Reference variable not found: ${referenceName}, using direct value instead`);
+      // 参照先もフォールバックもない場合:
+      // - Notion側のtypeがあればそれを優先
+      // - なければvalueから型を自動判定
+      targetType = convertToFigmaVariableType(variable.type || detectVariableType(variable.value));
+      valueToSet = parseVariableValue(variable, unitConversion);
+      sourceValue = variable.value;
     }
   } else {
     // 通常の値の場合（非Alias）
-    // 既存のVariableがない場合は作成
-    if (!figmaVariable) {
-      figmaVariable = figma.variables.createVariable(
-        variableName,
-        collection,
-        figmaType
-      );
-      logger.log(`  - Created new variable with type: ${figmaType}`);
+    targetType = figmaType;
+    valueToSet = parseVariableValue(variable, unitConversion);
+    sourceValue = variable.value;
+  }
+  
+  // スコープを変数の型に対して検証
+  const scopes = variable.scopes ? validateScopes(variable.scopes, targetType) : undefined;
+  
+  // モード別の値も先に解決する（不正な色などで途中まで書き込まれないようにする）
+  const modeValues: { modeId: string; modeName: string; value: VariableValue; source?: NotionVariable['value'] }[] = [];
+  if (variable.valuesByMode) {
+    for (const [modeName, modeValue] of Object.entries(variable.valuesByMode)) {
+      const mode = collection.modes.find(m => m.name === modeName)
+        ?? collection.modes.find(m => m.name.toLowerCase() === modeName.toLowerCase());
+      if (!mode) {
+        logger.warn(`  - Mode "${modeName}" not found in collection "${collection.name}", skipping`);
+        continue;
+      }
+      const resolved = await resolveModeValue(modeValue, targetType, variable, allVariables, options);
+      if (resolved === null) {
+        logger.warn(`  - Could not resolve value for mode "${modeName}": ${JSON.stringify(modeValue)}`);
+        continue;
+      }
+      modeValues.push({ modeId: mode.modeId, modeName, ...resolved });
     }
-    
-    // 型が異なる場合は再作成が必要
-    if (figmaVariable.resolvedType !== figmaType) {
-      logger.log(`  - Type mismatch! ${figmaVariable.resolvedType} !== ${figmaType}`);
-      logger.log(`  - Removing old variable and creating new one`);
-      // 古いVariableを削除
-      figmaVariable.remove();
-      // 新しい型で作成
-      figmaVariable = figma.variables.createVariable(
-        variableName,
-        collection,
-        figmaType
-      );
+  }
+  
+  // Notion側で名前が変わった場合は変数をリネーム（参照を維持するため再作成しない）
+  if (figmaVariable && figmaVariable.name !== variableName) {
+    const conflict = collectionVariables.find(v => v !== figmaVariable && v.name === variableName);
+    if (conflict) {
+      throw new Error(`"${variableName}" は既に別の変数で使用されているため、"${figmaVariable.name}" の名前を変更できません`);
     }
-    
-    // 通常の値を設定
-    valueToSet = parseVariableValue(variable);
+    logger.log(`  - Renaming linked variable: "${figmaVariable.name}" -> "${variableName}"`);
+    figmaVariable.name = variableName;
+  }
+  
+  // 既存のVariableがない場合は作成、型が異なる場合は再作成
+  if (!figmaVariable) {
+    figmaVariable = figma.variables.createVariable(variableName, collection, targetType);
+    logger.log(`  - Created new variable with type: ${targetType}`);
+  } else if (figmaVariable.resolvedType !== targetType) {
+    logger.log(`  - Type mismatch! ${figmaVariable.resolvedType} !== ${targetType}`);
+    logger.log(`  - Removing old variable and creating new one`);
+    figmaVariable.remove();
+    figmaVariable = figma.variables.createVariable(variableName, collection, targetType);
   }
   
   logger.log(`  - Setting value: ${JSON.stringify(valueToSet)}`);
   
+  
   // 値を設定（既存変数の場合は明示的に上書き）
   try {
     figmaVariable.setValueForMode(modeId, valueToSet);
@@ -424,34 +506,169 @@ export async function updateVariable(
     throw new Error(`Failed to set value for ${variableName}: ${error instanceof Error ? error.message : String(error)}`);
   }
   
-  // 説明を設定
-  if (variable.description) {
-    figmaVariable.description = variable.description;
+  // 説明を設定（非推奨のトークンは先頭に [Deprecated] を付ける）
+  const description = resolveDescription(variable, figmaVariable.description);
+  if (description !== undefined) {
+    figmaVariable.description = description;
+  }
+  
+  // スコープ・コードシンタックス・公開設定を設定
+  applyVariableMetadata(figmaVariable, scopes, variable);
+  
+  // 次回以降のインポートでIDにより一致させるためNotionページIDを保存
+  if (variable.id) {
+    figmaVariable.setPluginData(NOTION_PAGE_ID_KEY, variable.id);
+  }
+  
+  // モード別の値を設定
+  for (const { modeId: valueModeId, modeName, value } of modeValues) {
+    logger.log(`  - Setting value for mode "${modeName}": ${JSON.stringify(value)}`);
+    figmaVariable.setValueForMode(valueModeId, value);
+  }
+  
+  // 換算前の単位付きの値をモードごとに保存（プッシュ・エクスポートで単位を戻す。px・単位なし・参照のモードは保存しない）
+  const originals: OriginalUnitValues = {};
+  if (figmaVariable.resolvedType === 'FLOAT') {
+    for (const entry of [{ modeId, value: valueToSet, source: sourceValue }, ...modeValues]) {
+      const original = getOriginalUnitValue(entry.source);
+      if (original && typeof entry.value === 'number') {
+        originals[entry.modeId] = { original, value: entry.value };
+      } else {
+        delete originals[entry.modeId];
+      }
+    }
+  }
+  const originalValues = Object.keys(originals).length > 0 ? JSON.stringify(originals) : '';
+  if (figmaVariable.getPluginData(ORIGINAL_VALUE_KEY) !== originalValues) {
+    figmaVariable.setPluginData(ORIGINAL_VALUE_KEY, originalValues);
   }
   
   return figmaVariable;
 }
 
+// モード別の値を変数の型に合わせて解決（参照先が見つからない場合はフォールバック、なければnull）
+// source は換算前の値（参照の場合は未設定）
+async function resolveModeValue(
+  value: NotionVariable['value'],
+  resolvedType: VariableResolvedDataType,
+  variable: NotionVariable,
+  allVariables: Variable[],
+  options: UpdateVariableOptions
+): Promise<{ value: VariableValue; source?: NotionVariable['value'] } | null> {
+  const type = convertFromFigmaVariableType(resolvedType);
+  
+  if (typeof value === 'string' && value.startsWith('{')) {
+    const [refPart, fbPart] = value.split('||', 2).map(s => s.trim());
+    const referenceName = refPart.replace(/^\{|\}$/g, '');
+    const referenceVariable = await findVariableByName(referenceName, allVariables, options);
+    if (referenceVariable && referenceVariable.resolvedType === resolvedType) {
+      return { value: { type: 'VARIABLE_ALIAS', id: referenceVariable.id } as VariableAlias };
+    }
+    if (referenceVariable) {
+      logger.warn(`  - Reference type mismatch: ${referenceVariable.resolvedType} !== ${resolvedType}`);
+    }
+    return fbPart ? { value: parseFallbackValue(fbPart, type, options.unitConversion), source: fbPart } : null;
+  }
+  
+  return { value: parseVariableValue({ id: variable.id, name: variable.name, value, type }, options.unitConversion), source: value };
+}
+
 // Variable名から既存のVariableを検索
 export async function findVariableByName(
   name: string, 
-  existingVariables?: Variable[]
+  existingVariables?: Variable[],
+  options: ReferenceOptions = {}
 ): Promise<Variable | null> {
   const variables = existingVariables || await figma.variables.getLocalVariablesAsync();
   
+  if (options.strict) {
+    const items = variables.map(v => ({
+      name: v.name,
+      collectionName: options.collectionNames?.get(v.variableCollectionId) ?? v.variableCollectionId,
+      variable: v
+    }));
+    const { match, candidates, ambiguous } = findByQualifiedName(name, items);
+    if (!match && ambiguous) {
+      logger.warn(`  - Ambiguous reference "${name}": ${candidates.map(formatQualifiedName).join(', ')}`);
+    }
+    return match?.variable ?? null;
+  }
+  
+  // Collection:Group/Name 形式の場合は指定したコレクション内のみを検索
+  const { collectionName, path } = splitCollectionQualifier(name, options.collectionNames?.values() ?? []);
+  if (collectionName !== null) {
+    return findByName(path, variables.filter(v => options.collectionNames?.get(v.variableCollectionId) === collectionName));
+  }
+  
+  return findByName(name, variables);
+}
+
+/**
+ * Collection:Group/Name 形式の参照をコレクション名とパスに分解
+ * 先頭が既知のコレクション名でない場合は修飾なし（collectionName: null）として扱う
+ */
+export function splitCollectionQualifier(
+  reference: string,
+  collectionNames: Iterable<string>
+): { collectionName: string | null; path: string } {
+  const separator = reference.indexOf(':');
+  if (separator > 0) {
+    const collectionName = reference.slice(0, separator).trim();
+    if (new Set(collectionNames).has(collectionName)) {
+      return { collectionName, path: reference.slice(separator + 1).trim() };
+    }
+  }
+  return { collectionName: null, path: reference };
+}
+
+// 厳密な名前解決の対象（コレクション名付き）
+export interface QualifiedItem {
+  name: string;
+  collectionName: string;
+}
+
+// Collection:Group/Name 形式の表示名
+export function formatQualifiedName(item: QualifiedItem): string {
+  return `${item.collectionName}:${item.name}`;
+}
+
+/**
+ * 厳密な名前解決（完全一致のパス、または Collection:Group/Name 形式のコレクション修飾のみ）
+ * - 一致が複数ある場合は match をnull、ambiguous をtrueとし、candidates に全候補を返す
+ * - 一致がない場合は、末尾が一致する項目を candidates に返す（エラー表示用）
+ */
+export function findByQualifiedName<T extends QualifiedItem>(
+  reference: string,
+  items: T[]
+): { match: T | null; candidates: T[]; ambiguous: boolean } {
+  const separator = reference.indexOf(':');
+  const collectionName = separator > 0 ? reference.slice(0, separator).trim() : null;
+  const path = separator > 0 ? reference.slice(separator + 1).trim() : reference.trim();
+  
+  const matches = items.filter(i => i.name === path && (collectionName === null || i.collectionName === collectionName));
+  if (matches.length === 1) return { match: matches[0], candidates: [], ambiguous: false };
+  if (matches.length > 1) return { match: null, candidates: matches, ambiguous: true };
+  
+  const suggestions = items.filter(i => i.name.endsWith(`/${path}`) && (collectionName === null || i.collectionName === collectionName));
+  return { match: null, candidates: suggestions, ambiguous: false };
+}
+
+// 名前で検索（完全一致 → 末尾一致 → 名前部分のみ一致 → 区切り文字の正規化の順）
+// Figma Variable 以外（インポート予定の変数など）にも同じ規則を適用できるよう汎用化している
+export function findByName<T extends { name: string }>(name: string, items: T[]): T | null {
   // 完全一致を試す
-  let found = variables.find(v => v.name === name);
+  let found = items.find(v => v.name === name);
   if (found) return found;
   
   // グループ付きの名前を試す（例: "Primitive/color-yellow-700"）
-  found = variables.find(v => v.name.endsWith(`/${name}`));
+  found = items.find(v => v.name.endsWith(`/${name}`));
   if (found) return found;
   
   // グループなしの名前を試す（グループが含まれている場合）
   const nameParts = name.split('/');
   if (nameParts.length > 1) {
     const simpleName = nameParts[nameParts.length - 1];
-    found = variables.find(v => {
+    found = items.find(v => {
       const vParts = v.name.split('/');
       return vParts[vParts.length - 1] === simpleName;
     });
@@ -459,7 +676,7 @@ export async function findVariableByName(
   // よくあるパターンの補正: Color/Neutral vs Color\Neutral vs Color>Neutral
   if (!found) {
     const normalized = name.split(/[\/:>]+/).filter(Boolean).join('/');
-    found = variables.find(v => {
+    found = items.find(v => {
       const vn = v.name.split(/[\/:>]+/).filter(Boolean).join('/');
       return vn === normalized || vn.endsWith(`/${normalized}`) || normalized.endsWith(`/${vn}`);
     });
@@ -469,7 +686,7 @@ export async function findVariableByName(
 }
 
 // Variable値をパース
-function parseVariableValue(variable: NotionVariable): VariableValue {
+function parseVariableValue(variable: NotionVariable, unitConversion?: UnitConversionSettings): VariableValue {
   logger.log(`  - [parseVariableValue] Type: ${variable.type}, Raw value: ${JSON.stringify(variable.value)}`);
   
   let result: VariableValue;
@@ -478,9 +695,11 @@ function parseVariableValue(variable: NotionVariable): VariableValue {
       result = parseColor(variable.value);
       break;
     case VariableType.NUMBER:
-      result = typeof variable.value === 'number' 
-        ? variable.value 
-        : parseFloat(String(variable.value));
+      // 単位付きの値（1.5rem / 12pt など）はpxに換算
+      result = convertNumberWithUnit(
+        typeof variable.value === 'number' ? variable.value : String(variable.value),
+        unitConversion
+      ).value;
       logger.log(`  - [parseVariableValue] NUMBER: "${variable.value}" -> ${result}`);
       break;
     case VariableType.BOOLEAN:
@@ -499,13 +718,12 @@ function parseVariableValue(variable: NotionVariable): VariableValue {
 }
 
 // フォールバック値を型に応じてパース
-function parseFallbackValue(fallbackValue: string, type: VariableType): VariableValue {
+function parseFallbackValue(fallbackValue: string, type: VariableType, unitConversion?: UnitConversionSettings): VariableValue {
   switch (type) {
     case VariableType.COLOR:
       return parseColor(fallbackValue);
     case VariableType.NUMBER:
-      const num = parseFloat(fallbackValue);
-      return isNaN(num) ? 0 : num;
+      return convertNumberWithUnit(fallbackValue, unitConversion).value;
     case VariableType.BOOLEAN:
       return fallbackValue.toLowerCase() === 'true';
     case VariableType.STRING:
@@ -545,22 +763,7 @@ export async function getExistingVariables(
     // 階層構造を解析
     const hierarchy = parseVariableName(variable.name);
     
-    let type: VariableType;
-    switch (variable.resolvedType) {
-      case 'COLOR':
-        type = VariableType.COLOR;
-        break;
-      case 'FLOAT':
-        type = VariableType.NUMBER;
-        break;
-      case 'BOOLEAN':
-        type = VariableType.BOOLEAN;
-        break;
-      case 'STRING':
-      default:
-        type = VariableType.STRING;
-        break;
-    }
+    const type = convertFromFigmaVariableType(variable.resolvedType);
     
     result.push({
       id: variable.id,
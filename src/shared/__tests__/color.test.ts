@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { colorToHex, parseCssColor } from '../color';
+
+const hex = (value: string) => {
+  const color = parseCssColor(value);
+  return color && colorToHex(color);
+};
+
+describe('color', () => {
+  describe('parseCssColor', () => {
+    it('should parse hex, rgb, hsl and comma-separated values', () => {
+      expect(parseCssColor('#f00c')).toEqual({ r: 1, g: 0, b: 0, a: 0.8 });
+      expect(hex('rgb(255 128 0 / 50%)')).toBe('#ff800080');
+      expect(hex('rgba(100%, 0%, 0%, 0.5)')).toBe('#ff000080');
+      expect(hex('hsl(120deg 100% 25%)')).toBe('#008000');
+      expect(hex('hsla(0.5turn, 100%, 50%, 1)')).toBe('#00ffff');
+      expect(hex('255, 0, 0, 0.5')).toBe('#ff000080');
+    });
+
+    it('should parse hwb, lab, lch, oklab and oklch', () => {
+      expect(hex('hwb(0 0% 0%)')).toBe('#ff0000');
+      expect(hex('hwb(0 50% 50%)')).toBe('#808080');
+      expect(hex('lab(54.29 80.8 69.89)')).toBe('#ff0000');
+      expect(hex('lch(54.29 106.84 40.86)')).toBe('#ff0000');
+      expect(hex('oklab(0.628 0.2249 0.1258)')).toBe('#ff0000');
+      expect(hex('oklch(62.8% 0.2577 29.23 / 0.5)')).toBe('#ff000080');
+    });
+
+    it('should parse color() in the supported color spaces', () => {
+      expect(hex('color(srgb 1 0.5 0)')).toBe('#ff8000');
+      expect(hex('color(srgb-linear 1 0 0)')).toBe('#ff0000');
+      expect(hex('color(xyz-d50 0.4361 0.2225 0.0139)')).toBe('#ff0000');
+      expect(hex('color(display-p3 0 0 0)')).toBe('#000000');
+    });
+
+    it('should map colors outside the sRGB gamut into range', () => {
+      const p3Red = parseCssColor('color(display-p3 1 0 0)')!;
+      expect(p3Red.r).toBe(1);
+      expect(p3Red.g).toBeLessThan(0.1);
+      expect(p3Red.b).toBeLessThan(0.1);
+
+      const vivid = parseCssColor('oklch(0.7 0.4 150)')!;
+      for (const channel of [vivid.r, vivid.g, vivid.b]) {
+        expect(channel).toBeGreaterThanOrEqual(0);
+        expect(channel).toBeLessThanOrEqual(1);
+      }
+      expect(hex('oklch(1.2 0 0)')).toBe('#ffffff');
+    });
+
+    it('should parse CSS named colors case-insensitively', () => {
+      expect(hex('RebeccaPurple')).toBe('#663399');
+      expect(hex('transparent')).toBe('#00000000');
+    });
+
+    it('should return null for values that are not colors', () => {
+      expect(parseCssColor('not-a-color')).toBeNull();
+      expect(parseCssColor('rgb(1 2)')).toBeNull();
+      expect(parseCssColor('rgb(1 2 3 / 4 / 5)')).toBeNull();
+      expect(parseCssColor('color(unknown 1 0 0)')).toBeNull();
+      expect(parseCssColor('oklch(0.5 0.1 red)')).toBeNull();
+    });
+  });
+
+  describe('colorToHex', () => {
+    it('should omit the alpha channel only for opaque colors', () => {
+      expect(colorToHex({ r: 1, g: 0.5, b: 0, a: 1 })).toBe('#ff8000');
+      expect(colorToHex({ r: 0, g: 0, b: 0, a: 0 })).toBe('#00000000');
+    });
+  });
+});
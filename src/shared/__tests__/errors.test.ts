@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { classifyProxyError, ErrorCode, getErrorCode, SyncError } from '../errors';
+
+const body = (value: object) => JSON.stringify(value);
+
+describe('errors', () => {
+  describe('classifyProxyError', () => {
+    it('should prefer the error code attached by the worker', () => {
+      expect(classifyProxyError(401, body({ error: 'Unauthorized: Invalid X-Proxy-Token', errorCode: 'PROXY_TOKEN_REJECTED' })))
+        .toEqual({ code: ErrorCode.PROXY_TOKEN_REJECTED, detail: 'Unauthorized: Invalid X-Proxy-Token' });
+    });
+
+    it('should map Notion error codes', () => {
+      expect(classifyProxyError(401, body({ code: 'unauthorized', message: 'API token is invalid.' })).code).toBe(ErrorCode.AUTH);
+      expect(classifyProxyError(404, body({ code: 'object_not_found', message: 'Could not find database' })).code)
+        .toBe(ErrorCode.DATABASE_NOT_SHARED);
+      expect(classifyProxyError(400, body({ code: 'validation_error', message: 'body.filter is invalid' })).code)
+        .toBe(ErrorCode.VALIDATION);
+      expect(classifyProxyError(400, body({ code: 'validation_error', message: 'path failed validation: path.database_id should be a valid uuid' })).code)
+        .toBe(ErrorCode.INVALID_ID);
+    });
+
+    it('should classify rate limits and non-JSON responses', () => {
+      expect(classifyProxyError(429, body({ code: 'rate_limited' })).code).toBe(ErrorCode.RATE_LIMITED);
+      expect(classifyProxyError(404, '<html>Not Found</html>')).toEqual({
+        code: ErrorCode.PROXY_MISCONFIGURED,
+        detail: '<html>Not Found</html>'
+      });
+    });
+
+    it('should classify errors of workers without error codes', () => {
+      expect(classifyProxyError(401, body({ error: 'Unauthorized: Invalid X-Proxy-Token' })).code).toBe(ErrorCode.PROXY_TOKEN_REJECTED);
+      expect(classifyProxyError(500, body({ error: 'Server Misconfiguration: PROXY_TOKEN is not set' })).code)
+        .toBe(ErrorCode.PROXY_MISCONFIGURED);
+      expect(classifyProxyError(500, body({ error: 'boom' })).code).toBe(ErrorCode.UNKNOWN);
+    });
+  });
+
+  describe('getErrorCode', () => {
+    it('should read the code of sync errors and error data', () => {
+      expect(getErrorCode(new SyncError(ErrorCode.VALIDATION, 'invalid'))).toBe(ErrorCode.VALIDATION);
+      expect(getErrorCode({ message: 'x', code: 'AUTH' })).toBe(ErrorCode.AUTH);
+      expect(getErrorCode({ code: 'not-a-code' })).toBe(ErrorCode.UNKNOWN);
+      expect(getErrorCode(new Error('plain'))).toBe(ErrorCode.UNKNOWN);
+    });
+  });
+});
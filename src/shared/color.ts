@@ -0,0 +1,392 @@
+/**
+ * CSSの色の構文を sRGB の RGBA（0〜1）に変換するユーティリティ
+ * UI（Notionデータの変換）とプラグイン（Variableへの書き込み）の両方で使用する
+ *
+ * 対応する構文:
+ * - #RGB / #RGBA / #RRGGBB / #RRGGBBAA
+ * - rgb() / rgba() / hsl() / hsla() / hwb()
+ * - lab() / lch() / oklab() / oklch()
+ * - color(srgb | srgb-linear | display-p3 | a98-rgb | prophoto-rgb | rec2020 | xyz | xyz-d50 | xyz-d65 ...)
+ * - CSSの色名（transparent を含む）
+ * - "255, 0, 0" / "255, 0, 0, 0.5" 形式のカンマ区切り
+ *
+ * sRGBの範囲外の色は CSS Color Module Level 4 の方法（OKLCHで彩度を下げる）で sRGB に収める
+ */
+
+export interface RgbaColor {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+type Vector3 = [number, number, number];
+type Matrix3 = [Vector3, Vector3, Vector3];
+
+// CSSの色名（CSS Color Module Level 4）
+const NAMED_COLORS: Record<string, string> = {
+  aliceblue: 'f0f8ff', antiquewhite: 'faebd7', aqua: '00ffff', aquamarine: '7fffd4', azure: 'f0ffff',
+  beige: 'f5f5dc', bisque: 'ffe4c4', black: '000000', blanchedalmond: 'ffebcd', blue: '0000ff',
+  blueviolet: '8a2be2', brown: 'a52a2a', burlywood: 'deb887', cadetblue: '5f9ea0', chartreuse: '7fff00',
+  chocolate: 'd2691e', coral: 'ff7f50', cornflowerblue: '6495ed', cornsilk: 'fff8dc', crimson: 'dc143c',
+  cyan: '00ffff', darkblue: '00008b', darkcyan: '008b8b', darkgoldenrod: 'b8860b', darkgray: 'a9a9a9',
+  darkgreen: '006400', darkgrey: 'a9a9a9', darkkhaki: 'bdb76b', darkmagenta: '8b008b', darkolivegreen: '556b2f',
+  darkorange: 'ff8c00', darkorchid: '9932cc', darkred: '8b0000', darksalmon: 'e9967a', darkseagreen: '8fbc8f',
+  darkslateblue: '483d8b', darkslategray: '2f4f4f', darkslategrey: '2f4f4f', darkturquoise: '00ced1', darkviolet: '9400d3',
+  deeppink: 'ff1493', deepskyblue: '00bfff', dimgray: '696969', dimgrey: '696969', dodgerblue: '1e90ff',
+  firebrick: 'b22222', floralwhite: 'fffaf0', forestgreen: '228b22', fuchsia: 'ff00ff', gainsboro: 'dcdcdc',
+  ghostwhite: 'f8f8ff', gold: 'ffd700', goldenrod: 'daa520', gray: '808080', green: '008000',
+  greenyellow: 'adff2f', grey: '808080', honeydew: 'f0fff0', hotpink: 'ff69b4', indianred: 'cd5c5c',
+  indigo: '4b0082', ivory: 'fffff0', khaki: 'f0e68c', lavender: 'e6e6fa', lavenderblush: 'fff0f5',
+  lawngreen: '7cfc00', lemonchiffon: 'fffacd', lightblue: 'add8e6', lightcoral: 'f08080', lightcyan: 'e0ffff',
+  lightgoldenrodyellow: 'fafad2', lightgray: 'd3d3d3', lightgreen: '90ee90', lightgrey: 'd3d3d3', lightpink: 'ffb6c1',
+  lightsalmon: 'ffa07a', lightseagreen: '20b2aa', lightskyblue: '87cefa', lightslategray: '778899', lightslategrey: '778899',
+  lightsteelblue: 'b0c4de', lightyellow: 'ffffe0', lime: '00ff00', limegreen: '32cd32', linen: 'faf0e6',
+  magenta: 'ff00ff', maroon: '800000', mediumaquamarine: '66cdaa', mediumblue: '0000cd', mediumorchid: 'ba55d3',
+  mediumpurple: '9370db', mediumseagreen: '3cb371', mediumslateblue: '7b68ee', mediumspringgreen: '00fa9a', mediumturquoise: '48d1cc',
+  mediumvioletred: 'c71585', midnightblue: '191970', mintcream: 'f5fffa', mistyrose: 'ffe4e1', moccasin: 'ffe4b5',
+  navajowhite: 'ffdead', navy: '000080', oldlace: 'fdf5e6', olive: '808000', olivedrab: '6b8e23',
+  orange: 'ffa500', orangered: 'ff4500', orchid: 'da70d6', palegoldenrod: 'eee8aa', palegreen: '98fb98',
+  paleturquoise: 'afeeee', palevioletred: 'db7093', papayawhip: 'ffefd5', peachpuff: 'ffdab9', peru: 'cd853f',
+  pink: 'ffc0cb', plum: 'dda0dd', powderblue: 'b0e0e6', purple: '800080', rebeccapurple: '663399',
+  red: 'ff0000', rosybrown: 'bc8f8f', royalblue: '4169e1', saddlebrown: '8b4513', salmon: 'fa8072',
+  sandybrown: 'f4a460', seagreen: '2e8b57', seashell: 'fff5ee', sienna: 'a0522d', silver: 'c0c0c0',
+  skyblue: '87ceeb', slateblue: '6a5acd', slategray: '708090', slategrey: '708090', snow: 'fffafa',
+  springgreen: '00ff7f', steelblue: '4682b4', tan: 'd2b48c', teal: '008080', thistle: 'd8bfd8',
+  tomato: 'ff6347', turquoise: '40e0d0', violet: 'ee82ee', wheat: 'f5deb3', white: 'ffffff',
+  whitesmoke: 'f5f5f5', yellow: 'ffff00', yellowgreen: '9acd32', transparent: '00000000'
+};
+
+// 変換行列（CSS Color Module Level 4 のサンプルコードの値）
+const XYZ_TO_LINEAR_SRGB: Matrix3 = [
+  [12831 / 3959, -329 / 214, -1974 / 3959],
+  [-851781 / 878810, 1648619 / 878810, 36519 / 878810],
+  [705 / 12673, -2585 / 12673, 705 / 667]
+];
+const LINEAR_P3_TO_XYZ: Matrix3 = [
+  [608311 / 1250200, 189793 / 714400, 198249 / 1000160],
+  [35783 / 156275, 247089 / 357200, 198249 / 2500400],
+  [0, 32229 / 714400, 5220557 / 5000800]
+];
+const LINEAR_A98_TO_XYZ: Matrix3 = [
+  [573536 / 994567, 263643 / 1420810, 187206 / 994567],
+  [591459 / 1989134, 6239551 / 9945670, 374412 / 4972835],
+  [53769 / 1989134, 351524 / 4972835, 4929758 / 4972835]
+];
+const LINEAR_REC2020_TO_XYZ: Matrix3 = [
+  [63426534 / 99577255, 20160776 / 139408157, 47086771 / 278816314],
+  [26158966 / 99577255, 472592308 / 697040785, 8267143 / 139408157],
+  [0, 19567812 / 697040785, 295819943 / 278816314]
+];
+// ProPhoto RGB は D50 基準
+const LINEAR_PROPHOTO_TO_XYZ_D50: Matrix3 = [
+  [0.7977666449006423, 0.13518129740053308, 0.0313477341283922],
+  [0.2880748288194013, 0.711835234241873, 0.00008993693872564],
+  [0, 0, 0.8251046025104602]
+];
+// D50 → D65 の色順応（Bradford）
+const D50_TO_D65: Matrix3 = [
+  [0.955473421488075, -0.02309845494876471, 0.06325924320057072],
+  [-0.0283697093338637, 1.0099953980813041, 0.021041441191917323],
+  [0.012314014864481998, -0.020507649298898964, 1.330365926242124]
+];
+const D50_WHITE: Vector3 = [0.3457 / 0.3585, 1, (1 - 0.3457 - 0.3585) / 0.3585];
+
+const multiply = (m: Matrix3, v: Vector3): Vector3 => [
+  m[0][0] * v[0] + m[0][1] * v[1] + m[0][2] * v[2],
+  m[1][0] * v[0] + m[1][1] * v[1] + m[1][2] * v[2],
+  m[2][0] * v[0] + m[2][1] * v[1] + m[2][2] * v[2]
+];
+
+const clamp01 = (n: number): number => Math.max(0, Math.min(1, n));
+
+// ガンマ補正（負の値は符号を保って扱う）
+const srgbToLinear = (c: number): number => {
+  const abs = Math.abs(c);
+  return abs <= 0.04045 ? c / 12.92 : Math.sign(c) * Math.pow((abs + 0.055) / 1.055, 2.4);
+};
+const linearToSrgb = (c: number): number => {
+  const abs = Math.abs(c);
+  return abs <= 0.0031308 ? c * 12.92 : Math.sign(c) * (1.055 * Math.pow(abs, 1 / 2.4) - 0.055);
+};
+const rec2020ToLinear = (c: number): number => {
+  const alpha = 1.09929682680944;
+  const beta = 0.018053968510807;
+  const abs = Math.abs(c);
+  return abs < beta * 4.5 ? c / 4.5 : Math.sign(c) * Math.pow((abs + alpha - 1) / alpha, 1 / 0.45);
+};
+const a98ToLinear = (c: number): number => Math.sign(c) * Math.pow(Math.abs(c), 563 / 256);
+const prophotoToLinear = (c: number): number => {
+  const abs = Math.abs(c);
+  return abs <= 16 / 512 ? c / 16 : Math.sign(c) * Math.pow(abs, 1.8);
+};
+
+const xyzToLinearSrgb = (xyz: Vector3): Vector3 => multiply(XYZ_TO_LINEAR_SRGB, xyz);
+
+// CIE Lab（D50）→ 線形sRGB
+const labToLinearSrgb = (l: number, a: number, b: number): Vector3 => {
+  const kappa = 24389 / 27;
+  const epsilon = 216 / 24389;
+  const f1 = (l + 16) / 116;
+  const f0 = a / 500 + f1;
+  const f2 = f1 - b / 200;
+  const xyz: Vector3 = [
+    Math.pow(f0, 3) > epsilon ? Math.pow(f0, 3) : (116 * f0 - 16) / kappa,
+    l > kappa * epsilon ? Math.pow(f1, 3) : l / kappa,
+    Math.pow(f2, 3) > epsilon ? Math.pow(f2, 3) : (116 * f2 - 16) / kappa
+  ];
+  return xyzToLinearSrgb(multiply(D50_TO_D65, [xyz[0] * D50_WHITE[0], xyz[1] * D50_WHITE[1], xyz[2] * D50_WHITE[2]]));
+};
+
+// OKLab ⇔ 線形sRGB
+const oklabToLinearSrgb = (l: number, a: number, b: number): Vector3 => {
+  const lms = [
+    l + 0.3963377774 * a + 0.2158037573 * b,
+    l - 0.1055613458 * a - 0.0638541728 * b,
+    l - 0.0894841775 * a - 1.291485548 * b
+  ].map(c => c * c * c);
+  return [
+    4.0767416621 * lms[0] - 3.3077115913 * lms[1] + 0.2309699292 * lms[2],
+    -1.2684380046 * lms[0] + 2.6097574011 * lms[1] - 0.3413193965 * lms[2],
+    -0.0041960863 * lms[0] - 0.7034186147 * lms[1] + 1.707614701 * lms[2]
+  ];
+};
+const linearSrgbToOklab = ([r, g, b]: Vector3): Vector3 => {
+  const lms = [
+    0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b,
+    0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b,
+    0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b
+  ].map(Math.cbrt);
+  return [
+    0.2104542553 * lms[0] + 0.793617785 * lms[1] - 0.0040720468 * lms[2],
+    1.9779984951 * lms[0] - 2.428592205 * lms[1] + 0.4505937099 * lms[2],
+    0.0259040371 * lms[0] + 0.7827717662 * lms[1] - 0.808675766 * lms[2]
+  ];
+};
+
+const polarToCartesian = (chroma: number, hue: number): [number, number] => {
+  const radians = hue * Math.PI / 180;
+  return [chroma * Math.cos(radians), chroma * Math.sin(radians)];
+};
+
+// HSL / HWB → sRGB（0〜1）
+const hslToSrgb = (h: number, s: number, l: number): Vector3 => {
+  const f = (n: number) => {
+    const k = (n + h / 30) % 12;
+    return l - s * Math.min(l, 1 - l) * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+  };
+  return [f(0), f(8), f(4)];
+};
+const hwbToSrgb = (h: number, w: number, b: number): Vector3 => {
+  if (w + b >= 1) {
+    const gray = w / (w + b);
+    return [gray, gray, gray];
+  }
+  return hslToSrgb(h, 1, 0.5).map(c => c * (1 - w - b) + w) as Vector3;
+};
+
+/**
+ * sRGBの範囲外の色を範囲内に収める（CSS Color Module Level 4 の gamut mapping）
+ * OKLCHの明度・色相を保ったまま、クリップとの差が知覚できない程度になるまで彩度を下げる
+ */
+const gamutMapToSrgb = (linear: Vector3): Vector3 => {
+  const EPSILON = 1e-6;
+  const encoded = linear.map(linearToSrgb) as Vector3;
+  const inGamut = (rgb: Vector3) => rgb.every(c => c >= -EPSILON && c <= 1 + EPSILON);
+  if (inGamut(encoded)) return encoded.map(clamp01) as Vector3;
+
+  const [l, a, b] = linearSrgbToOklab(linear);
+  if (l >= 1) return [1, 1, 1];
+  if (l <= 0) return [0, 0, 0];
+  const hue = Math.atan2(b, a) * 180 / Math.PI;
+
+  const JND = 0.02;
+  const toSrgb = (chroma: number): Vector3 => oklabToLinearSrgb(l, ...polarToCartesian(chroma, hue)).map(linearToSrgb) as Vector3;
+  const deltaEOK = (x: Vector3, y: Vector3): number => {
+    const [l1, a1, b1] = linearSrgbToOklab(x.map(srgbToLinear) as Vector3);
+    const [l2, a2, b2] = linearSrgbToOklab(y.map(srgbToLinear) as Vector3);
+    return Math.sqrt((l1 - l2) ** 2 + (a1 - a2) ** 2 + (b1 - b2) ** 2);
+  };
+  const clip = (rgb: Vector3): Vector3 => rgb.map(clamp01) as Vector3;
+
+  let current = encoded;
+  let clipped = clip(current);
+  if (deltaEOK(clipped, current) < JND) return clipped;
+
+  let min = 0;
+  let max = Math.sqrt(a * a + b * b);
+  let minInGamut = true;
+  while (max - min > 1e-4) {
+    const chroma = (min + max) / 2;
+    current = toSrgb(chroma);
+    if (minInGamut && inGamut(current)) {
+      min = chroma;
+      continue;
+    }
+    clipped = clip(current);
+    const delta = deltaEOK(clipped, current);
+    if (delta < JND) {
+      if (JND - delta < 1e-4) return clipped;
+      minInGamut = false;
+      min = chroma;
+    } else {
+      max = chroma;
+    }
+  }
+  return clipped;
+};
+
+// 色関数の成分（数値 / パーセント / none）を読み取る（percentScale は 100% に相当する値）
+const parseComponent = (token: string | undefined, percentScale: number): number | null => {
+  if (token === undefined) return null;
+  if (token.toLowerCase() === 'none') return 0;
+  const match = token.match(/^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)(%?)$/i);
+  if (!match) return null;
+  const value = parseFloat(match[1]);
+  return match[2] ? value / 100 * percentScale : value;
+};
+
+// 色相（deg / rad / grad / turn / 単位なし）を度に変換
+const parseHue = (token: string | undefined): number | null => {
+  if (token === undefined) return null;
+  if (token.toLowerCase() === 'none') return 0;
+  const match = token.match(/^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)(deg|rad|grad|turn)?$/i);
+  if (!match) return null;
+  const value = parseFloat(match[1]);
+  const unit = (match[2] || 'deg').toLowerCase();
+  const degrees = unit === 'rad' ? value * 180 / Math.PI
+    : unit === 'grad' ? value * 0.9
+    : unit === 'turn' ? value * 360
+    : value;
+  return ((degrees % 360) + 360) % 360;
+};
+
+// 関数の引数を成分とアルファに分ける（"r g b / a" と "r, g, b, a" の両方に対応）
+const splitArguments = (args: string): { components: string[]; alpha?: string } | null => {
+  const [left, alpha, ...rest] = args.split('/').map(s => s.trim());
+  if (rest.length > 0) return null;
+  const components = left.split(/\s*,\s*|\s+/).filter(Boolean);
+  if (alpha !== undefined) return components.length === 3 ? { components, alpha } : null;
+  if (components.length === 4) return { components: components.slice(0, 3), alpha: components[3] };
+  return components.length === 3 ? { components } : null;
+};
+
+// color() 関数の色空間ごとの線形sRGBへの変換
+const COLOR_SPACES: Record<string, (c: Vector3) => Vector3> = {
+  'srgb': c => c.map(srgbToLinear) as Vector3,
+  'srgb-linear': c => c,
+  'display-p3': c => xyzToLinearSrgb(multiply(LINEAR_P3_TO_XYZ, c.map(srgbToLinear) as Vector3)),
+  'a98-rgb': c => xyzToLinearSrgb(multiply(LINEAR_A98_TO_XYZ, c.map(a98ToLinear) as Vector3)),
+  'prophoto-rgb': c => xyzToLinearSrgb(multiply(D50_TO_D65, multiply(LINEAR_PROPHOTO_TO_XYZ_D50, c.map(prophotoToLinear) as Vector3))),
+  'rec2020': c => xyzToLinearSrgb(multiply(LINEAR_REC2020_TO_XYZ, c.map(rec2020ToLinear) as Vector3)),
+  'xyz': c => xyzToLinearSrgb(c),
+  'xyz-d65': c => xyzToLinearSrgb(c),
+  'xyz-d50': c => xyzToLinearSrgb(multiply(D50_TO_D65, c))
+};
+
+// 色関数を線形sRGB（範囲外を含む）またはsRGB（0〜1）に変換
+const parseColorFunction = (name: string, args: string): { linear?: Vector3; srgb?: Vector3; alpha?: string } | null => {
+  let fn = name.toLowerCase();
+  let body = args;
+  let space = '';
+  if (fn === 'color') {
+    const match = args.trim().match(/^([a-z0-9-]+)\s+([\s\S]*)$/i);
+    if (!match) return null;
+    space = match[1].toLowerCase();
+    body = match[2];
+    if (!COLOR_SPACES[space]) return null;
+  }
+  const parsed = splitArguments(body);
+  if (!parsed) return null;
+  const [c0, c1, c2] = parsed.components;
+  const alpha = parsed.alpha;
+  const all = (values: (number | null)[]): values is number[] => values.every(v => v !== null);
+
+  switch (fn) {
+    case 'rgb':
+    case 'rgba': {
+      const values = [c0, c1, c2].map(c => parseComponent(c, 255));
+      return all(values) ? { srgb: values.map(v => clamp01(v / 255)) as Vector3, alpha } : null;
+    }
+    case 'hsl':
+    case 'hsla': {
+      const values = [parseHue(c0), parseComponent(c1, 100), parseComponent(c2, 100)];
+      if (!all(values)) return null;
+      return { srgb: hslToSrgb(values[0], clamp01(values[1] / 100), clamp01(values[2] / 100)).map(clamp01) as Vector3, alpha };
+    }
+    case 'hwb': {
+      const values = [parseHue(c0), parseComponent(c1, 100), parseComponent(c2, 100)];
+      if (!all(values)) return null;
+      return { srgb: hwbToSrgb(values[0], clamp01(values[1] / 100), clamp01(values[2] / 100)), alpha };
+    }
+    case 'lab': {
+      const values = [parseComponent(c0, 100), parseComponent(c1, 125), parseComponent(c2, 125)];
+      return all(values) ? { linear: labToLinearSrgb(Math.max(0, values[0]), values[1], values[2]), alpha } : null;
+    }
+    case 'lch': {
+      const values = [parseComponent(c0, 100), parseComponent(c1, 150), parseHue(c2)];
+      if (!all(values)) return null;
+      return { linear: labToLinearSrgb(Math.max(0, values[0]), ...polarToCartesian(Math.max(0, values[1]), values[2])), alpha };
+    }
+    case 'oklab': {
+      const values = [parseComponent(c0, 1), parseComponent(c1, 0.4), parseComponent(c2, 0.4)];
+      return all(values) ? { linear: oklabToLinearSrgb(Math.max(0, values[0]), values[1], values[2]), alpha } : null;
+    }
+    case 'oklch': {
+      const values = [parseComponent(c0, 1), parseComponent(c1, 0.4), parseHue(c2)];
+      if (!all(values)) return null;
+      return { linear: oklabToLinearSrgb(Math.max(0, values[0]), ...polarToCartesian(Math.max(0, values[1]), values[2])), alpha };
+    }
+    case 'color': {
+      const values = [c0, c1, c2].map(c => parseComponent(c, 1));
+      return all(values) ? { linear: COLOR_SPACES[space](values as Vector3), alpha } : null;
+    }
+    default:
+      return null;
+  }
+};
+
+const parseHex = (hex: string): RgbaColor => {
+  const full = hex.length <= 4 ? hex.split('').map(c => c + c).join('') : hex;
+  const channel = (i: number) => parseInt(full.slice(i * 2, i * 2 + 2), 16) / 255;
+  return { r: channel(0), g: channel(1), b: channel(2), a: full.length === 8 ? channel(3) : 1 };
+};
+
+/**
+ * CSSの色の文字列を sRGB の RGBA（各成分 0〜1）に変換する
+ * @returns 色として解釈できない場合はnull
+ */
+export function parseCssColor(value: string): RgbaColor | null {
+  const s = value.trim();
+
+  const hex = s.match(/^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i);
+  if (hex) return parseHex(hex[1]);
+
+  const named = NAMED_COLORS[s.toLowerCase()];
+  if (named) return parseHex(named);
+
+  // "r, g, b[, a]" 形式（0〜255）
+  const csv = s.match(/^(\d{1,3})\s*,\s*(\d{1,3})\s*,\s*(\d{1,3})(?:\s*,\s*(\d*\.?\d+))?$/);
+  if (csv) {
+    const [r, g, b] = [csv[1], csv[2], csv[3]].map(c => clamp01(Number(c) / 255));
+    return { r, g, b, a: csv[4] != null ? clamp01(Number(csv[4])) : 1 };
+  }
+
+  const fn = s.match(/^([a-z-]+)\(([\s\S]*)\)$/i);
+  if (!fn) return null;
+  const parsed = parseColorFunction(fn[1], fn[2]);
+  if (!parsed) return null;
+
+  const a = parsed.alpha === undefined ? 1 : parseComponent(parsed.alpha, 1);
+  if (a === null) return null;
+  const [r, g, b] = parsed.srgb ?? gamutMapToSrgb(parsed.linear!);
+  return { r, g, b, a: clamp01(a) };
+}
+
+/**
+ * RGBA（各成分 0〜1）を #RRGGBB（不透明でない場合は #RRGGBBAA）形式に変換する
+ */
+export function colorToHex(color: RgbaColor): string {
+  const hex = (n: number) => Math.round(clamp01(n) * 255).toString(16).padStart(2, '0');
+  return `#${hex(color.r)}${hex(color.g)}${hex(color.b)}${color.a < 1 ? hex(color.a) : ''}`;
+}
@@ -0,0 +1,126 @@
+/**
+ * 同期処理のエラー分類
+ * プロキシ（Worker）・UI（Notionへのリクエスト）・プラグインで共通のコードを使い、
+ * メッセージにはコードを載せて、表示側（StatusMessage）で対処方法を示す
+ */
+
+export const ErrorCode = {
+  AUTH: 'AUTH',                                   // Notion APIキーが無効
+  DATABASE_NOT_SHARED: 'DATABASE_NOT_SHARED',     // データベース・ページがIntegrationに共有されていない
+  INVALID_ID: 'INVALID_ID',                       // データベースID・ページIDの形式が不正
+  PROXY_MISCONFIGURED: 'PROXY_MISCONFIGURED',     // プロキシURLの誤り・Workerの設定不足・接続できない
+  PROXY_TOKEN_REJECTED: 'PROXY_TOKEN_REJECTED',   // X-Proxy-Token がWorkerの PROXY_TOKEN と一致しない
+  RATE_LIMITED: 'RATE_LIMITED',                   // Notion APIのレート制限
+  VALIDATION: 'VALIDATION',                       // 送信・インポートするデータの検証エラー
+  UNKNOWN: 'UNKNOWN'
+} as const;
+
+export type ErrorCode = typeof ErrorCode[keyof typeof ErrorCode];
+
+// コードごとの見出しと対処方法（UIに表示）
+export const ERROR_GUIDANCE: Record<ErrorCode, { title: string; remedy: string }> = {
+  AUTH: {
+    title: 'Notion APIキーが無効です',
+    remedy: 'Notionの「インテグレーション」設定で内部インテグレーションシークレットを確認し、APIキーを入力し直してください。'
+  },
+  DATABASE_NOT_SHARED: {
+    title: 'データベースにアクセスできません',
+    remedy: 'Notionでデータベースを開き、「…」メニューの「接続」からインテグレーションを追加してください。relation先のデータベースにも追加が必要です。'
+  },
+  INVALID_ID: {
+    title: 'IDの形式が正しくありません',
+    remedy: 'データベースのURL（https://www.notion.so/xxxx?v=...）の xxxx 部分（32桁）をデータベースIDに入力してください。'
+  },
+  PROXY_MISCONFIGURED: {
+    title: 'プロキシに接続できません',
+    remedy: 'プロキシURLがデプロイしたWorkerのURL（https://）か確認してください。Worker側では環境変数 PROXY_TOKEN の設定が必要です。'
+  },
+  PROXY_TOKEN_REJECTED: {
+    title: 'プロキシトークンが一致しません',
+    remedy: 'プロキシトークンに、Workerの環境変数 PROXY_TOKEN と同じ値を入力してください。'
+  },
+  RATE_LIMITED: {
+    title: 'Notion APIのリクエスト制限に達しました',
+    remedy: 'しばらく待ってから再実行してください。対象のペアを減らすと制限にかかりにくくなります。'
+  },
+  VALIDATION: {
+    title: 'データに問題があります',
+    remedy: 'メッセージに表示された項目を確認し、Notionのデータまたはフィールドマッピングを修正してください。'
+  },
+  UNKNOWN: {
+    title: 'エラーが発生しました',
+    remedy: 'しばらく待ってから再実行してください。解決しない場合は、プラグインのコンソールのログを確認してください。'
+  }
+};
+
+const ERROR_CODES = Object.values(ErrorCode) as string[];
+
+export const isErrorCode = (value: unknown): value is ErrorCode =>
+  typeof value === 'string' && ERROR_CODES.includes(value);
+
+// コード付きのエラー（message はそのまま表示できる日本語）
+export class SyncError extends Error {
+  readonly code: ErrorCode;
+
+  constructor(code: ErrorCode, message: string) {
+    super(message);
+    this.name = 'SyncError';
+    this.code = code;
+  }
+}
+
+// 例外からコードを取得する（コードのない例外は UNKNOWN）
+export function getErrorCode(error: unknown): ErrorCode {
+  if (error instanceof SyncError) return error.code;
+  const code = typeof error === 'object' && error !== null ? (error as { code?: unknown }).code : undefined;
+  return isErrorCode(code) ? code : ErrorCode.UNKNOWN;
+}
+
+// Notion APIのエラーコード（https://developers.notion.com/reference/status-codes）からの対応
+const NOTION_ERROR_CODES: Record<string, ErrorCode> = {
+  unauthorized: ErrorCode.AUTH,
+  restricted_resource: ErrorCode.DATABASE_NOT_SHARED,
+  object_not_found: ErrorCode.DATABASE_NOT_SHARED,
+  rate_limited: ErrorCode.RATE_LIMITED,
+  validation_error: ErrorCode.VALIDATION,
+  invalid_json: ErrorCode.VALIDATION,
+  invalid_request: ErrorCode.VALIDATION
+};
+
+/**
+ * プロキシのエラー応答を分類する
+ * - Workerが付けた errorCode があればそれを使用
+ * - それ以外はNotion APIのエラーコード・HTTPステータスから判定（旧テンプレートのWorkerを含む）
+ */
+export function classifyProxyError(status: number, body: string): { code: ErrorCode; detail: string } {
+  let parsed: { errorCode?: unknown; code?: unknown; message?: unknown; error?: unknown } = {};
+  let isJson = true;
+  try {
+    parsed = JSON.parse(body) ?? {};
+  } catch {
+    isJson = false;
+  }
+  const detail = String(parsed.message ?? parsed.error ?? body).slice(0, 300);
+
+  if (status === 429) return { code: ErrorCode.RATE_LIMITED, detail };
+  // NotionもWorkerもJSONを返すため、それ以外（HTMLのエラーページなど）はプロキシURLの誤り
+  if (!isJson) return { code: ErrorCode.PROXY_MISCONFIGURED, detail };
+
+  if (isErrorCode(parsed.errorCode)) return { code: parsed.errorCode, detail };
+
+  const notionCode = typeof parsed.code === 'string' ? NOTION_ERROR_CODES[parsed.code] : undefined;
+  // パスのIDがUUIDとして不正な場合は validation_error になる
+  if (notionCode === ErrorCode.VALIDATION && /valid uuid|path failed validation/i.test(detail)) {
+    return { code: ErrorCode.INVALID_ID, detail };
+  }
+  if (notionCode) return { code: notionCode, detail };
+
+  // 旧テンプレートのWorker自身のエラー
+  if (/X-Proxy-Token/i.test(detail)) return { code: ErrorCode.PROXY_TOKEN_REJECTED, detail };
+  if (/PROXY_TOKEN is not set|Server Misconfiguration/i.test(detail)) return { code: ErrorCode.PROXY_MISCONFIGURED, detail };
+
+  if (status === 401) return { code: ErrorCode.AUTH, detail };
+  if (status === 404) return { code: ErrorCode.DATABASE_NOT_SHARED, detail };
+  if (status === 400) return { code: ErrorCode.VALIDATION, detail };
+  return { code: ErrorCode.UNKNOWN, detail };
+}
@@ -1,8 +1,18 @@
 // 共通の型定義
+import { ErrorCode } from './errors';
 
 export const MessageType = {
+  // 保存データ
+  INIT_DATA: 'INIT_DATA',
+  SAVE_DATA: 'SAVE_DATA',
+  SAVE_COMPLETE: 'SAVE_COMPLETE',
+  LOAD_DATA: 'LOAD_DATA',
+  LOAD_DATA_RESPONSE: 'LOAD_DATA_RESPONSE',
+  
   // Notion関連
   IMPORT_FROM_NOTION: 'IMPORT_FROM_NOTION',
+  PREVIEW_IMPORT: 'PREVIEW_IMPORT',
+  IMPORT_PREVIEW: 'IMPORT_PREVIEW',
   
   // Figma Variables関連
   GET_COLLECTIONS: 'GET_COLLECTIONS',
@@ -11,6 +21,21 @@ export const MessageType = {
   // Export関連
   EXPORT_VARIABLES: 'EXPORT_VARIABLES',
   EXPORT_RESULT: 'EXPORT_RESULT',
+  GET_NOTION_PUSH_DATA: 'GET_NOTION_PUSH_DATA',
+  NOTION_PUSH_DATA: 'NOTION_PUSH_DATA',
+  
+  // 同期履歴
+  GET_SYNC_HISTORY: 'GET_SYNC_HISTORY',
+  SYNC_HISTORY: 'SYNC_HISTORY',
+  RECORD_SYNC_HISTORY: 'RECORD_SYNC_HISTORY',
+  
+  // 直前のインポートを元に戻す
+  GET_LAST_IMPORT: 'GET_LAST_IMPORT',
+  LAST_IMPORT: 'LAST_IMPORT',
+  REVERT_LAST_IMPORT: 'REVERT_LAST_IMPORT',
+  
+  // 実行中のインポートを中止
+  CANCEL_IMPORT: 'CANCEL_IMPORT',
   
   // UI関連
   RESIZE_UI: 'RESIZE_UI',
@@ -78,17 +103,79 @@ export enum VariableTypeEnum {
   BOOLEAN = 'BOOLEAN'
 }
 
+// Variableの値の型
+export type NotionVariableValue = string | number | boolean | { r: number; g: number; b: number; a: number };
+
+// 複合トークンの種類（Variableではなく、Figmaのスタイルとしてインポートする）
+export const CompositeTokenType = {
+  TYPOGRAPHY: 'TYPOGRAPHY',
+  SHADOW: 'SHADOW',
+  GRADIENT: 'GRADIENT'
+} as const;
+
+export type CompositeTokenType = typeof CompositeTokenType[keyof typeof CompositeTokenType];
+
+// タイポグラフィの値（各項目は値、または {Group/Name} 形式のVariable参照）
+// - fontSize / letterSpacing: 数値（px）または "16px" / "2%" 形式
+// - fontWeight: 数値（100〜900）またはスタイル名（Bold など）
+// - lineHeight: 数値（4以下は倍率、それ以外はpx）、"24px" / "150%" 形式、または "auto"
+export interface TypographyTokenValue {
+  fontFamily: string;
+  fontSize: string | number;
+  fontWeight?: string | number;
+  lineHeight?: string | number;
+  letterSpacing?: string | number;
+}
+
+// シャドウの1レイヤー（色はHEXまたは {Group/Name} 形式のVariable参照、長さは数値（px）または "4px" 形式）
+export interface ShadowLayerValue {
+  color: string;
+  offsetX: string | number;
+  offsetY: string | number;
+  blur?: string | number;
+  spread?: string | number;
+  inset?: boolean;  // true の場合はインナーシャドウ
+}
+
+// グラデーションのストップ（色はHEXまたは {Group/Name} 形式のVariable参照、位置は 0〜1）
+export interface GradientStopValue {
+  color: string;
+  position: number;
+}
+
+// グラデーションの値（angle は linear の向き。CSSと同じく 0 = 下から上、90 = 左から右）
+export interface GradientTokenValue {
+  type: 'LINEAR' | 'RADIAL';
+  angle?: number;
+  stops: GradientStopValue[];
+}
+
+export type CompositeToken =
+  | { type: typeof CompositeTokenType.TYPOGRAPHY; value: TypographyTokenValue }
+  | { type: typeof CompositeTokenType.SHADOW; value: ShadowLayerValue[] }
+  | { type: typeof CompositeTokenType.GRADIENT; value: GradientTokenValue };
+
 // Notionから取得するデータの型
 export interface NotionVariable {
   id: string;
   name: string;
-  value: string | number | boolean | { r: number; g: number; b: number; a: number };
+  value: NotionVariableValue; // デフォルトモード（先頭モード）の値
+  valuesByMode?: Record<string, NotionVariableValue>; // モード名 → 値（マルチモード用）
   type: VariableType;
   description?: string;
   group?: string; // 階層構造のグループ名
   collection?: string; // コレクション名
+  composite?: CompositeToken; // 複合トークン（設定されている場合は value / type を使用せず、スタイルとしてインポート）
+  scopes?: string[]; // 適用範囲（FigmaのVariableScope名。未設定の場合は変更しない）
+  codeSyntax?: Partial<Record<CodeSyntaxPlatformName, string>>; // Dev Modeに表示するコード（空文字は削除）
+  hiddenFromPublishing?: boolean; // ライブラリの公開対象から除外するか（未設定の場合は変更しない）
+  deprecated?: boolean; // 非推奨のトークンか（説明の先頭に [Deprecated] を付ける。未設定の場合は変更しない）
+  notionPageId?: string; // 紐付いたNotionページのID（プッシュ時のみ。id はFigma Variable ID）
 }
 
+// コードシンタックスのプラットフォーム（FigmaのCodeSyntaxPlatformと同じ値）
+export type CodeSyntaxPlatformName = 'WEB' | 'ANDROID' | 'iOS';
+
 // 階層構造を表現する型
 export interface VariableHierarchy {
   path: string[]; // 例: ["Color", "Primary", "Blue"]
@@ -106,14 +193,75 @@ export interface ImportSettings {
   createNewCollection: boolean;
   overwriteExisting: boolean;
   deleteRemovedVariables?: boolean; // Notionから削除された変数をFigmaからも削除するか
+  strictAliasResolution?: boolean; // 参照を完全一致・コレクション修飾のみで解決するか
   mappings: FieldMapping[];
   notionApiKey?: string; // 互換性のため残す
+  excludedChangeKeys?: string[]; // プレビューで選択解除された変更（ImportChange.key）
+  unitConversion?: UnitConversionSettings; // 単位付き数値の換算設定（未指定の場合はデフォルト値）
+  runId?: string; // 複数ペアの連続インポートをまとめるID（元に戻す・中止の単位。未指定の場合は1回のインポートごと）
+}
+
+// 単位付き数値（rem / em / pt / %）をpxに換算する設定
+// - rootFontSize: rem / em の基準となるフォントサイズ（px）
+// - ptToPx: 1pt あたりのpx
+// - percentage: keep = 50% → 50 / ratio = 50% → 0.5
+// px・単位なし以外（vh / vw / ch など）は換算できないためエラーになる
+export interface UnitConversionSettings {
+  rootFontSize: number;
+  ptToPx: number;
+  percentage: 'keep' | 'ratio';
+}
+
+export const DEFAULT_UNIT_CONVERSION: UnitConversionSettings = {
+  rootFontSize: 16,
+  ptToPx: 4 / 3,
+  percentage: 'keep'
+};
+
+// インポートプレビューの変更種別
+// - create: 新規作成 / update: 値・説明の更新 / recreate: 型変更による再作成
+// - delete: Figmaから削除 / skip: 上書き無効のためスキップ / unchanged: 変更なし
+export type ImportChangeAction = 'create' | 'update' | 'recreate' | 'delete' | 'skip' | 'unchanged';
+
+// インポートプレビューの1行
+export interface ImportChange {
+  key: string;          // 作成/更新系は NotionVariable.id、削除は Figma Variable ID
+  name: string;         // フルネーム（group/name）
+  action: ImportChangeAction;
+  oldValue?: string;    // 表示用に整形した値
+  newValue?: string;
+  oldType?: string;
+  newType?: string;
+  reason?: string;
+}
+
+// インポートプレビュー結果
+export interface ImportPreview {
+  collectionName: string;
+  collectionExists: boolean;
+  changes: ImportChange[];
 }
 
 // フィールドマッピング
 export interface FieldMapping {
   notionField: string;
-  variableProperty: 'name' | 'value' | 'type' | 'description' | 'group' | 'unit';
+  variableProperty:
+    | 'name' | 'value' | 'type' | 'description' | 'group' | 'unit'
+    // タイポグラフィ（Type が TYPOGRAPHY の行で使用）
+    | 'fontFamily' | 'fontSize' | 'fontWeight' | 'lineHeight' | 'letterSpacing'
+    // シャドウ（Type が SHADOW の行で使用）
+    | 'shadowColor' | 'shadowOffsetX' | 'shadowOffsetY' | 'shadowBlur' | 'shadowSpread'
+    // スコープ（カンマ区切りまたはマルチセレクト）・プラットフォームごとのコードシンタックス
+    | 'scopes' | 'codeSyntaxWeb' | 'codeSyntaxAndroid' | 'codeSyntaxIOS'
+    // 公開から除外・非推奨のフラグ（チェックボックス）
+    | 'hiddenFromPublishing' | 'deprecated';
+  modeName?: string; // variableProperty が 'value' の場合の対象モード名（未指定はデフォルトモード）
+}
+
+// Notionデータベースのプロパティ（スキーマ）
+export interface NotionDatabaseProperty {
+  name: string;
+  type: string;  // title / rich_text / select / relation / rollup / formula など
 }
 
 // 進捗情報の型定義
@@ -131,6 +279,12 @@ export interface CollectionDbPair {
   databaseId: string;      // NotionデータベースID
   enabled: boolean;        // インポート対象かどうか
   isManualInput?: boolean; // 手入力モードかどうか
+  // ペア単位のインポート設定（未設定の場合は移行前の全体設定またはデフォルト値を使用）
+  overwriteExisting?: boolean;       // 既存の変数を上書きするか
+  deleteRemovedVariables?: boolean;  // Notionから削除された変数をFigmaからも削除するか
+  strictAliasResolution?: boolean; // 参照を完全一致・コレクション修飾（Collection:Group/Name）のみで解決
+  mappings?: FieldMapping[];         // フィールドマッピング
+  unitConversion?: UnitConversionSettings; // 単位付き数値の換算設定
 }
 
 // 保存データの型を定義
@@ -139,20 +293,37 @@ export interface SavedFormData {
   notion_database_id?: string;
   collection_name?: string;
   collection_mode?: 'new' | 'existing';
-  overwrite_existing?: boolean;
-  delete_removed_variables?: boolean;
+  overwrite_existing?: boolean;  // 移行前の全体設定（ペア単位の設定の初期値として読み込む）
+  delete_removed_variables?: boolean;  // 同上
   notion_proxy_url?: string;
   notion_proxy_token?: string;
   collection_id?: string;
   include_description?: boolean;
   preserve_hierarchy?: boolean;
   collection_db_pairs?: CollectionDbPair[];  // コレクション+DBIDペアのリスト
-  field_mappings?: FieldMapping[];  // フィールドマッピング設定
+  field_mappings?: FieldMapping[];  // 移行前のフィールドマッピング設定（同上）
 }
 
+// Exportのモード出力形式
+// - default: デフォルトモードのみ
+// - perMode: モードごとに別ファイル
+// - extensions: 1ファイルにまとめ、モード別の値を $extensions に格納
+export type ExportModeFormat = 'default' | 'perMode' | 'extensions';
+
+// モード別の値を格納する $extensions のキー（エクスポート・JSONインポートで共通）
+export const MODES_EXTENSION_KEY = 'com.figma.modes';
+
 // Export設定
 export interface ExportSettings {
   collectionIds: string[];  // エクスポート対象のコレクションID
+  modeFormat?: ExportModeFormat;  // 未指定は 'default'
+  includeStyles?: boolean;  // ローカルスタイル（テキスト・エフェクト・ペイント）を複合トークンとして含める
+}
+
+// モード別のエクスポートファイル
+export interface ExportFile {
+  modeName: string;
+  json: string;
 }
 
 // Export結果
@@ -160,5 +331,143 @@ export interface ExportResult {
   success: boolean;
   json?: string;          // W3C Design Tokens形式のJSON文字列
   tokenCount?: number;    // エクスポートされたトークン数
+  files?: ExportFile[];   // modeFormat が 'perMode' の場合のモード別JSON
   error?: string;
 }
+
+// Notionへのプッシュ用データ（Figma → Notion）
+export interface NotionPushData {
+  collectionName: string;
+  modeNames: string[];          // コレクションのモード名（先頭がデフォルトモード）
+  variables: NotionVariable[];  // id はFigma Variable ID
+}
+
+// Notionへのプッシュ結果
+export interface NotionPushResult {
+  created: number;
+  updated: number;
+  unchanged: number;
+  failed: number;
+  errors: string[];
+  createdNames: string[];  // 作成したページの変数名（同期履歴用）
+  updatedNames: string[];  // 更新したページの変数名（同期履歴用）
+}
+
+// 同期の種類
+// - import: Notion → Figma / export: Design Tokens JSONの書き出し / push: Figma → Notion / revert: 直前のインポートを元に戻す
+export type SyncHistoryKind = 'import' | 'export' | 'push' | 'revert';
+
+// 同期履歴の1件（ファイルのプラグインデータに保存）
+export interface SyncHistoryEntry {
+  id: string;
+  kind: SyncHistoryKind;
+  timestamp: string;        // ISO 8601
+  user?: string;            // 実行したユーザー名（取得できない場合は未設定）
+  databaseId?: string;      // NotionデータベースID（export は未設定）
+  collectionName: string;   // 複数コレクションの場合はカンマ区切り
+  created: string[];        // 変数・スタイルのフルネーム
+  updated: string[];
+  deleted: string[];
+  errors: string[];         // "名前: 理由" 形式
+  tokenCount?: number;      // export で書き出したトークン数
+}
+
+// 元に戻せる直前のインポート
+export interface LastImportInfo {
+  timestamp: string;          // ISO 8601
+  collectionNames: string[];  // インポートしたコレクション（インポート順）
+  variableCount: number;      // インポート前の変数の数
+}
+
+// ===== UI ↔ プラグイン間のメッセージ =====
+// UIからのリクエストには requestId を付け、プラグインはそのリクエストへの応答・進捗通知に同じIDを付けて返す
+
+// コレクションの概要（UIのコレクション一覧用）
+export interface VariableCollectionSummary {
+  id: string;
+  name: string;
+  modes: { modeId: string; name: string }[];
+  variableIds: string[];
+}
+
+// インポート完了時の詳細
+export interface ImportResultDetails {
+  imported: number;
+  skipped: number;
+  deleted: number;
+  errors: number;
+  total: number;
+  importErrors: { name: string; reason: string }[];
+  deprecated: string[];   // インポートした非推奨のトークン名
+  cancelled: boolean;     // 中止により途中で終了した
+  created: string[];      // 作成した変数名
+  updated: string[];      // 更新した変数名
+}
+
+// UI → プラグインのリクエスト（type ごとの data）
+export interface PluginRequestData {
+  SAVE_DATA: Partial<SavedFormData>;
+  LOAD_DATA: void;
+  IMPORT_FROM_NOTION: ImportSettings & { variables: NotionVariable[] };
+  CANCEL_IMPORT: { runId: string };
+  PREVIEW_IMPORT: ImportSettings & { variables: NotionVariable[] };
+  GET_COLLECTIONS: void;
+  GET_LAST_IMPORT: void;
+  REVERT_LAST_IMPORT: void;
+  EXPORT_VARIABLES: ExportSettings;
+  GET_NOTION_PUSH_DATA: { collectionId: string };
+  GET_SYNC_HISTORY: void;
+  RECORD_SYNC_HISTORY: Omit<SyncHistoryEntry, 'id' | 'timestamp' | 'user'>;
+  CLOSE_PLUGIN: void;
+}
+
+// プラグイン → UI のメッセージ（type ごとの data）
+export interface PluginMessageData {
+  INIT_DATA: { savedData: SavedFormData; collections: VariableCollectionSummary[] };
+  SAVE_COMPLETE: { success: boolean };
+  LOAD_DATA_RESPONSE: SavedFormData;
+  COLLECTIONS_DATA: { collections: VariableCollectionSummary[] };
+  IMPORT_PREVIEW: ImportPreview;
+  EXPORT_RESULT: ExportResult;
+  NOTION_PUSH_DATA: NotionPushData;
+  SYNC_HISTORY: { entries: SyncHistoryEntry[] };
+  LAST_IMPORT: { lastImport: LastImportInfo | null };
+  SUCCESS: { message: string; details?: ImportResultDetails };
+  ERROR: { message: string; code?: ErrorCode; details?: { error: string } };
+  LOADING: { message: string };
+  PROGRESS: ProgressData;
+}
+
+// リクエストごとの応答の type（ERROR はすべてのリクエストで返り得る。応答のないリクエストは never）
+export interface PluginResponseType {
+  SAVE_DATA: 'SAVE_COMPLETE';
+  LOAD_DATA: 'LOAD_DATA_RESPONSE';
+  IMPORT_FROM_NOTION: 'SUCCESS';
+  CANCEL_IMPORT: never;
+  PREVIEW_IMPORT: 'IMPORT_PREVIEW';
+  GET_COLLECTIONS: 'COLLECTIONS_DATA';
+  GET_LAST_IMPORT: 'LAST_IMPORT';
+  REVERT_LAST_IMPORT: 'SUCCESS';
+  EXPORT_VARIABLES: 'EXPORT_RESULT';
+  GET_NOTION_PUSH_DATA: 'NOTION_PUSH_DATA';
+  GET_SYNC_HISTORY: 'SYNC_HISTORY';
+  RECORD_SYNC_HISTORY: never;
+  CLOSE_PLUGIN: never;
+}
+
+export type PluginRequestType = keyof PluginRequestData;
+
+// UI → プラグインのメッセージ（type で data を判別）
+export type UIToPluginMessage = {
+  [K in PluginRequestType]: PluginRequestData[K] extends void
+    ? { type: K; requestId?: string; data?: undefined }
+    : { type: K; requestId?: string; data: PluginRequestData[K] };
+}[PluginRequestType];
+
+// プラグイン → UI のメッセージ（type で data を判別）
+export type PluginToUIMessage = {
+  [K in keyof PluginMessageData]: { type: K; requestId?: string; data: PluginMessageData[K] };
+}[keyof PluginMessageData];
+
+// 指定したリクエストへの応答メッセージ
+export type PluginResponse<K extends PluginRequestType> = Extract<PluginToUIMessage, { type: PluginResponseType[K] | 'ERROR' }>;
@@ -8,6 +8,8 @@ const mockFigma = {
     getLocalVariableCollectionsAsync: vi.fn().mockResolvedValue([]),
     getVariableByIdAsync: vi.fn().mockResolvedValue(null),
     getVariableCollectionByIdAsync: vi.fn().mockResolvedValue(null),
+    setBoundVariableForEffect: vi.fn(),
+    createVariableAlias: vi.fn((variable: { id: string }) => ({ type: 'VARIABLE_ALIAS', id: variable.id })),
     createVariable: vi.fn().mockReturnValue({
       id: 'mock-var-id',
       name: 'MockVariable',
@@ -15,6 +17,8 @@ const mockFigma = {
       valuesByMode: {},
       setValueForMode: vi.fn(),
       remove: vi.fn(),
+      getPluginData: vi.fn().mockReturnValue(''),
+      setPluginData: vi.fn(),
       description: '',
     }),
     createVariableCollection: vi.fn().mockReturnValue({
@@ -25,6 +29,15 @@ const mockFigma = {
       renameMode: vi.fn(),
     }),
   },
+  getLocalTextStylesAsync: vi.fn().mockResolvedValue([]),
+  getLocalEffectStylesAsync: vi.fn().mockResolvedValue([]),
+  getLocalPaintStylesAsync: vi.fn().mockResolvedValue([]),
+  getStyleByIdAsync: vi.fn().mockResolvedValue(null),
+  createTextStyle: vi.fn(),
+  createEffectStyle: vi.fn(),
+  createPaintStyle: vi.fn(),
+  listAvailableFontsAsync: vi.fn().mockResolvedValue([]),
+  loadFontAsync: vi.fn().mockResolvedValue(undefined),
   ui: {
     postMessage: vi.fn(),
   },
@@ -32,6 +45,11 @@ const mockFigma = {
     getAsync: vi.fn().mockResolvedValue(null),
     setAsync: vi.fn().mockResolvedValue(undefined),
   },
+  root: {
+    getPluginData: vi.fn().mockReturnValue(''),
+    setPluginData: vi.fn(),
+  },
+  currentUser: null,
   showUI: vi.fn(),
   closePlugin: vi.fn(),
 };
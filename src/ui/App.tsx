@@ -2,8 +2,11 @@ import { useState, useEffect } from 'react';
 import './styles/globals.css';
 import ImportTab from './components/ImportTab';
 import ExportTab from './components/ExportTab';
+import JsonImportTab from './components/JsonImportTab';
+import HistoryTab from './components/HistoryTab';
+import { onPluginMessage } from './services/pluginMessaging';
 
-type TabId = 'import' | 'export';
+type TabId = 'import' | 'json' | 'export' | 'history';
 
 interface Collection {
   id: string;
@@ -18,23 +21,11 @@ const App = () => {
 
   // コレクションデータを一元管理
   useEffect(() => {
-    const handleMessage = (event: MessageEvent) => {
-      const msg = event.data.pluginMessage;
-      if (!msg) return;
-
-      // 初期化データ
-      if (msg.type === 'INIT_DATA' && msg.collections) {
-        setCollections(msg.collections);
-      }
-
-      // コレクションデータ更新
-      if (msg.type === 'COLLECTIONS_DATA' && msg.data?.collections) {
-        setCollections(msg.data.collections);
-      }
-    };
-
-    window.addEventListener('message', handleMessage);
-    return () => window.removeEventListener('message', handleMessage);
+    return onPluginMessage(['INIT_DATA', 'COLLECTIONS_DATA'], (msg) => {
+      // 初期化データ・コレクションデータ更新
+      const { collections } = msg.data;
+      if (collections) setCollections(collections);
+    });
   }, []);
 
   return (
@@ -52,6 +43,17 @@ const App = () => {
         >
           Import
         </button>
+        <button
+          role="tab"
+          className={`flex-1 py-3 text-sm text-center border-b-2 transition-colors ${
+            activeTab === 'json'
+              ? 'border-primary font-medium text-base-content'
+              : 'border-base-300 text-base-content/70 hover:text-base-content'
+          }`}
+          onClick={() => setActiveTab('json')}
+        >
+          JSON
+        </button>
         <button
           role="tab"
           className={`flex-1 py-3 text-sm text-center border-b-2 transition-colors ${
@@ -63,11 +65,24 @@ const App = () => {
         >
           Export
         </button>
+        <button
+          role="tab"
+          className={`flex-1 py-3 text-sm text-center border-b-2 transition-colors ${
+            activeTab === 'history'
+              ? 'border-primary font-medium text-base-content'
+              : 'border-base-300 text-base-content/70 hover:text-base-content'
+          }`}
+          onClick={() => setActiveTab('history')}
+        >
+          History
+        </button>
       </div>
 
       {/* タブコンテンツ */}
       {activeTab === 'import' && <ImportTab collections={collections} />}
+      {activeTab === 'json' && <JsonImportTab collections={collections} />}
       {activeTab === 'export' && <ExportTab collections={collections} />}
+      {activeTab === 'history' && <HistoryTab />}
     </div>
   );
 };
@@ -1,5 +1,13 @@
-import { useState, useEffect, useCallback, useMemo } from 'react';
-import { ExportResult } from '../../shared/types';
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { ExportModeFormat, NotionPushResult } from '../../shared/types';
+import { fetchNotionData } from '../services/notionProxy';
+import { pushVariablesToNotion } from '../services/notionPush';
+import { formatRetryMessage, onNotionRetry } from '../services/notionRequest';
+import { migratePairSettings } from '../services/pairSettings';
+import { postToPlugin, sendRequest } from '../services/pluginMessaging';
+import { logger } from '../../shared/logger';
+import { getErrorCode } from '../../shared/errors';
+import StatusMessage, { StatusState } from './StatusMessage';
 
 interface Collection {
   id: string;
@@ -18,11 +26,47 @@ interface ExportTabProps {
   collections: Collection[];
 }
 
+// モード出力形式の選択肢
+const MODE_FORMAT_OPTIONS: { value: ExportModeFormat; label: string }[] = [
+  { value: 'default', label: 'デフォルトモードのみ' },
+  { value: 'perMode', label: 'モードごとに別ファイル' },
+  { value: 'extensions', label: '1ファイル（モード別の値を$extensionsに格納）' }
+];
+
+// プラグインからの応答待ちのタイムアウト
+const PLUGIN_RESPONSE_TIMEOUT_MS = 30000;
+
+// モード名からファイル名を生成（例: "Light" → design-token.light.json。日本語などの文字は残し、同じ名前になる場合は連番を付ける）
+const toModeFileNames = (modeNames: string[]): string[] => {
+  const used = new Set<string>();
+  return modeNames.map(modeName => {
+    const slug = modeName
+      .trim()
+      .toLowerCase()
+      .replace(/\s+/g, '-')
+      .replace(/[^\p{L}\p{N}\-_]/gu, '') || 'mode';
+    let fileSlug = slug;
+    for (let index = 2; used.has(fileSlug); index++) {
+      fileSlug = `${slug}-${index}`;
+    }
+    used.add(fileSlug);
+    return `design-token.${fileSlug}.json`;
+  });
+};
+
 const ExportTab = ({ collections: propCollections }: ExportTabProps) => {
   // 選択状態をIDでマップ管理（propsが変わっても選択状態を維持）
   const [selectionMap, setSelectionMap] = useState<Map<string, boolean>>(new Map());
   const [isLoading, setIsLoading] = useState(false);
-  const [status, setStatus] = useState<{ type: 'success' | 'error' | 'info'; text: string } | null>(null);
+  const [isPushing, setIsPushing] = useState(false);
+  const [modeFormat, setModeFormat] = useState<ExportModeFormat>('default');
+  const [includeStyles, setIncludeStyles] = useState(false);
+  const [status, setStatus] = useState<StatusState | null>(null);
+
+  // Notion APIの再試行を待機中であることを表示
+  useEffect(() => onNotionRetry(event => {
+    setStatus({ type: 'info', text: formatRetryMessage(event) });
+  }), []);
 
   // propsのコレクションと選択状態をマージ
   const collections: CollectionSelection[] = useMemo(() => {
@@ -35,49 +79,6 @@ const ExportTab = ({ collections: propCollections }: ExportTabProps) => {
     }));
   }, [propCollections, selectionMap]);
 
-  // メッセージハンドラ（エクスポート結果のみ処理）
-  useEffect(() => {
-    const handleMessage = (event: MessageEvent) => {
-      const msg = event.data.pluginMessage;
-      if (!msg) return;
-
-      // エクスポート結果
-      if (msg.type === 'EXPORT_RESULT') {
-        setIsLoading(false);
-        const result = msg.data as ExportResult;
-        
-        if (result.success && result.json) {
-          // JSONファイルをダウンロード
-          downloadJson(result.json, 'design-token.json');
-          setStatus({ 
-            type: 'success', 
-            text: `${result.tokenCount || 0} 個のトークンをエクスポートしました。` 
-          });
-        } else {
-          setStatus({ 
-            type: 'error', 
-            text: result.error || 'エクスポートに失敗しました。' 
-          });
-        }
-        
-        setTimeout(() => setStatus(null), 5000);
-      }
-
-      // エラー
-      if (msg.type === 'ERROR' && msg.data) {
-        setIsLoading(false);
-        setStatus({ 
-          type: 'error', 
-          text: msg.data.message || 'エラーが発生しました。' 
-        });
-        setTimeout(() => setStatus(null), 5000);
-      }
-    };
-
-    window.addEventListener('message', handleMessage);
-    return () => window.removeEventListener('message', handleMessage);
-  }, []);
-
   // JSONファイルをダウンロード
   const downloadJson = (jsonString: string, filename: string) => {
     const blob = new Blob([jsonString], { type: 'application/json' });
@@ -111,7 +112,7 @@ const ExportTab = ({ collections: propCollections }: ExportTabProps) => {
   }, [propCollections]);
 
   // エクスポート実行
-  const handleExport = useCallback(() => {
+  const handleExport = useCallback(async () => {
     const selectedCollections = collections.filter(c => c.selected);
     
     if (selectedCollections.length === 0) {
@@ -123,14 +124,152 @@ const ExportTab = ({ collections: propCollections }: ExportTabProps) => {
     setIsLoading(true);
     setStatus({ type: 'info', text: 'エクスポート中...' });
 
-    parent.postMessage({
-      pluginMessage: {
-        type: 'EXPORT_VARIABLES',
-        data: {
-          collectionIds: selectedCollections.map(c => c.id)
+    const response = await sendRequest({
+      type: 'EXPORT_VARIABLES',
+      data: {
+        collectionIds: selectedCollections.map(c => c.id),
+        modeFormat,
+        includeStyles
+      }
+    }, PLUGIN_RESPONSE_TIMEOUT_MS);
+    setIsLoading(false);
+
+    if (response.type === 'EXPORT_RESULT') {
+      const result = response.data;
+      
+      if (result.success && result.files && result.files.length > 0) {
+        // モードごとのJSONファイルをダウンロード
+        const fileNames = toModeFileNames(result.files.map(file => file.modeName));
+        result.files.forEach((file, index) => downloadJson(file.json, fileNames[index]));
+        setStatus({ 
+          type: 'success', 
+          text: `${result.tokenCount || 0} 個のトークンを ${result.files.length} モード分エクスポートしました。` 
+        });
+      } else if (result.success && result.json) {
+        // JSONファイルをダウンロード
+        downloadJson(result.json, 'design-token.json');
+        setStatus({ 
+          type: 'success', 
+          text: `${result.tokenCount || 0} 個のトークンをエクスポートしました。` 
+        });
+      } else {
+        setStatus({ 
+          type: 'error', 
+          text: result.error || 'エクスポートに失敗しました。' 
+        });
+      }
+    } else {
+      setStatus({ 
+        type: 'error', 
+        text: response.type === 'TIMEOUT' ? 'エクスポートがタイムアウトしました。' : response.data.message || 'エラーが発生しました。',
+        code: response.type === 'ERROR' ? response.data.code : undefined
+      });
+    }
+    
+    setTimeout(() => setStatus(null), 5000);
+  }, [collections, modeFormat, includeStyles]);
+
+  // 選択中のコレクションをペア設定のNotionデータベースへプッシュ
+  const handlePushToNotion = useCallback(async () => {
+    const selectedCollections = collections.filter(c => c.selected);
+    
+    if (selectedCollections.length === 0) {
+      setStatus({ type: 'error', text: 'プッシュするコレクションを選択してください。' });
+      setTimeout(() => setStatus(null), 3000);
+      return;
+    }
+
+    setIsPushing(true);
+    setStatus({ type: 'info', text: 'Notionへプッシュ中...' });
+
+    try {
+      // インポートタブで保存した接続設定・ペア・マッピングを使用
+      const loaded = await sendRequest({ type: 'LOAD_DATA' }, PLUGIN_RESPONSE_TIMEOUT_MS);
+      if (loaded.type !== 'LOAD_DATA_RESPONSE') {
+        throw new Error('保存済みの設定を読み込めませんでした。');
+      }
+      const saved = loaded.data;
+      if (!saved.notion_api_key || !saved.notion_proxy_url) {
+        throw new Error('インポートタブでNotion APIキーとプロキシURLを保存してください。');
+      }
+
+      const total: NotionPushResult = { created: 0, updated: 0, unchanged: 0, failed: 0, errors: [], createdNames: [], updatedNames: [] };
+
+      for (const collection of selectedCollections) {
+        const pair = migratePairSettings(saved.collection_db_pairs || [], saved).find(p =>
+          p.collectionName.trim() === collection.name.trim() && p.databaseId.trim()
+        );
+        if (!pair) {
+          total.errors.push(`${collection.name}: 対応するNotionデータベースのペアがありません`);
+          continue;
         }
+
+        const response = await sendRequest(
+          { type: 'GET_NOTION_PUSH_DATA', data: { collectionId: collection.id } },
+          PLUGIN_RESPONSE_TIMEOUT_MS
+        );
+        if (response.type !== 'NOTION_PUSH_DATA') {
+          const message = response.data.message || '変数を取得できませんでした';
+          total.errors.push(`${collection.name}: ${message}`);
+          continue;
+        }
+        const pushData = response.data;
+
+        const notionData = await fetchNotionData(
+          saved.notion_api_key,
+          pair.databaseId.trim(),
+          saved.notion_proxy_url,
+          {},
+          saved.notion_proxy_token
+        );
+
+        const result = await pushVariablesToNotion(pushData.variables, notionData.results, {
+          apiKey: saved.notion_api_key,
+          databaseId: pair.databaseId.trim(),
+          proxyUrl: saved.notion_proxy_url,
+          proxyToken: saved.notion_proxy_token,
+          mappings: pair.mappings,
+          onProgress: (done, count) =>
+            setStatus({ type: 'info', text: `${collection.name}: ${done}/${count} 件を処理中...` })
+        });
+
+        total.created += result.created;
+        total.updated += result.updated;
+        total.unchanged += result.unchanged;
+        total.failed += result.failed;
+        total.errors.push(...result.errors);
+        
+        // プッシュの結果をファイルの同期履歴に記録
+        postToPlugin({
+          type: 'RECORD_SYNC_HISTORY',
+          data: {
+            kind: 'push',
+            databaseId: pair.databaseId.trim(),
+            collectionName: collection.name,
+            created: result.createdNames,
+            updated: result.updatedNames,
+            deleted: [],
+            errors: result.errors
+          }
+        });
       }
-    }, '*');
+
+      const summary = `作成 ${total.created} 件 / 更新 ${total.updated} 件 / 変更なし ${total.unchanged} 件`;
+      if (total.failed > 0 || total.errors.length > 0) {
+        total.errors.forEach(e => logger.warn('[ExportTab] push:', e));
+        setStatus({
+          type: 'error',
+          text: `${summary}（失敗 ${total.failed} 件）: ${total.errors.slice(0, 3).join(' / ')}`
+        });
+      } else {
+        setStatus({ type: 'success', text: `Notionへプッシュしました。${summary}` });
+      }
+    } catch (e) {
+      setStatus({ type: 'error', text: e instanceof Error ? e.message : 'Notionへのプッシュに失敗しました。', code: getErrorCode(e) });
+    } finally {
+      setIsPushing(false);
+      setTimeout(() => setStatus(null), 8000);
+    }
   }, [collections]);
 
   // 選択中のコレクション数と変数数を計算
@@ -209,13 +348,36 @@ const ExportTab = ({ collections: propCollections }: ExportTabProps) => {
           <li>・コレクション名がパスのプレフィックスになります</li>
           <li>・エイリアス参照は維持されます</li>
         </ul>
+        <label className="block mt-3">
+          <span className="text-xs font-semibold block mb-1">モード</span>
+          <select
+            className="select select-xs select-bordered w-full"
+            value={modeFormat}
+            onChange={(e) => setModeFormat(e.target.value as ExportModeFormat)}
+          >
+            {MODE_FORMAT_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2 mt-3 cursor-pointer">
+          <input
+            type="checkbox"
+            className="checkbox checkbox-primary checkbox-xs"
+            checked={includeStyles}
+            onChange={(e) => setIncludeStyles(e.target.checked)}
+          />
+          <span className="text-xs">スタイルを含める（Styles 配下にテキスト・シャドウ・グラデーションを複合トークンとして出力）</span>
+        </label>
       </section>
 
       <button
         type="button"
         className="btn btn-primary w-full"
         onClick={handleExport}
-        disabled={isLoading || selectedCount === 0}
+        disabled={isLoading || isPushing || selectedCount === 0}
       >
         {isLoading ? (
           <>
@@ -227,6 +389,30 @@ const ExportTab = ({ collections: propCollections }: ExportTabProps) => {
         )}
       </button>
 
+      <section className="bg-base-200 rounded-lg p-3 space-y-2">
+        <h3 className="text-xs font-semibold">Notionへプッシュ</h3>
+        <ul className="text-xs text-base-content/70 space-y-1">
+          <li>・インポートタブで保存したペアのデータベースへ書き戻します</li>
+          <li>・名前（Group/Name）が一致するページは更新、ないページは作成します</li>
+          <li>・値列がリレーションの場合、エイリアスはリレーションとして設定されます</li>
+        </ul>
+        <button
+          type="button"
+          className="btn btn-outline btn-sm w-full"
+          onClick={handlePushToNotion}
+          disabled={isPushing || isLoading || selectedCount === 0}
+        >
+          {isPushing ? (
+            <>
+              <span className="loading loading-spinner"></span>
+              プッシュ中...
+            </>
+          ) : (
+            'Notionへプッシュ'
+          )}
+        </button>
+      </section>
+
       {selectedCount === 0 && !isLoading && collections.length > 0 && (
         <p className="text-xs text-warning text-center">
           エクスポートするコレクションを選択してください
@@ -234,13 +420,7 @@ const ExportTab = ({ collections: propCollections }: ExportTabProps) => {
       )}
 
       {/* toast notifications */}
-      {status && (
-        <div className="toast toast-end">
-          <div className={`alert ${status.type === 'success' ? 'alert-success' : status.type === 'error' ? 'alert-error' : 'alert-info'}`}>
-            <span>{status.text}</span>
-          </div>
-        </div>
-      )}
+      {status && <StatusMessage {...status} />}
     </div>
   );
 };
@@ -1,18 +1,34 @@
-import { FieldMapping } from '../../shared/types';
+import { FieldMapping, NotionDatabaseProperty } from '../../shared/types';
+import { findUnknownMappings, suggestFieldMappings } from '../services/fieldMappingSchema';
 
 interface FieldMappingEditorProps {
   mappings: FieldMapping[];
   onChange: (mappings: FieldMapping[]) => void;
+  properties?: NotionDatabaseProperty[];  // データベースのスキーマ（取得済みの場合はプロパティを選択式にする）
 }
 
-const FieldMappingEditor = ({ mappings, onChange }: FieldMappingEditorProps) => {
+const FieldMappingEditor = ({ mappings, onChange, properties }: FieldMappingEditorProps) => {
   // 利用可能なFigma Variableプロパティ
   // unit: descriptionに結合される補足情報（例: px, rem, %）
-  const availableProperties = ['name', 'value', 'type', 'description', 'group', 'unit'];
+  // fontFamily〜letterSpacing: Type が TYPOGRAPHY の行をテキストスタイルとしてインポートする際の列
+  // shadowColor〜shadowSpread: Type が SHADOW の行をエフェクトスタイルとしてインポートする際の列
+  // scopes: スコープ（例: CORNER_RADIUS, GAP） / codeSyntax*: Dev Modeに表示するコード（例: var(--color-primary)）
+  // hiddenFromPublishing / deprecated: チェックボックスで公開から除外・非推奨にする
+  const availableProperties = [
+    'name', 'value', 'type', 'description', 'group', 'unit',
+    'fontFamily', 'fontSize', 'fontWeight', 'lineHeight', 'letterSpacing',
+    'shadowColor', 'shadowOffsetX', 'shadowOffsetY', 'shadowBlur', 'shadowSpread',
+    'scopes', 'codeSyntaxWeb', 'codeSyntaxAndroid', 'codeSyntaxIOS',
+    'hiddenFromPublishing', 'deprecated'
+  ];
 
   const updateMapping = (index: number, field: keyof FieldMapping, value: string) => {
     const newMappings = [...mappings];
     newMappings[index] = { ...newMappings[index], [field]: value };
+    // value以外ではモード指定は意味を持たないため除去
+    if (field === 'variableProperty' && value !== 'value') {
+      delete newMappings[index].modeName;
+    }
     onChange(newMappings);
   };
 
@@ -24,6 +40,9 @@ const FieldMappingEditor = ({ mappings, onChange }: FieldMappingEditorProps) =>
     onChange(mappings.filter((_, i) => i !== index));
   };
 
+  // スキーマに存在しないプロパティを指しているマッピング
+  const unknownMappings = properties ? new Set(findUnknownMappings(mappings, properties)) : new Set<FieldMapping>();
+
   return (
     <div className="space-y-4">
       {/* ヘッダー */}
@@ -37,13 +56,31 @@ const FieldMappingEditor = ({ mappings, onChange }: FieldMappingEditorProps) =>
       {/* マッピング行 */}
       {mappings.map((mapping, index) => (
         <div key={index} className="grid grid-cols-[1fr_auto_1fr_auto] gap-2 items-center">
-          <input
-            type="text"
-            className="input input-xs"
-            value={mapping.notionField}
-            onChange={(e) => updateMapping(index, 'notionField', e.target.value)}
-            placeholder="Notionフィールド名"
-          />
+          {properties ? (
+            <select
+              className={`select select-xs ${unknownMappings.has(mapping) ? 'select-error' : ''}`}
+              value={mapping.notionField}
+              onChange={(e) => updateMapping(index, 'notionField', e.target.value)}
+            >
+              <option value="">プロパティを選択</option>
+              {properties.map((property) => (
+                <option key={property.name} value={property.name}>
+                  {property.name} ({property.type})
+                </option>
+              ))}
+              {unknownMappings.has(mapping) && (
+                <option value={mapping.notionField}>{mapping.notionField}（存在しません）</option>
+              )}
+            </select>
+          ) : (
+            <input
+              type="text"
+              className="input input-xs"
+              value={mapping.notionField}
+              onChange={(e) => updateMapping(index, 'notionField', e.target.value)}
+              placeholder="Notionフィールド名"
+            />
+          )}
           
           <span className="text-base-content text-center">→</span>
           
@@ -67,16 +104,45 @@ const FieldMappingEditor = ({ mappings, onChange }: FieldMappingEditorProps) =>
           >
             ×
           </button>
+
+          {/* value の場合のみモード名を指定可能（例: Light / Dark） */}
+          {mapping.variableProperty === 'value' && (
+            <input
+              type="text"
+              className="input input-xs col-start-3"
+              value={mapping.modeName ?? ''}
+              onChange={(e) => updateMapping(index, 'modeName', e.target.value)}
+              placeholder="モード名（任意: Light, Dark など）"
+            />
+          )}
+
+          {unknownMappings.has(mapping) && (
+            <small className="text-xs text-error col-span-4">
+              「{mapping.notionField}」はデータベースに存在しないプロパティです
+            </small>
+          )}
         </div>
       ))}
 
-      <button
-        type="button"
-        className="btn btn-neutral btn-sm"
-        onClick={addMapping}
-      >
-        + マッピングを追加
-      </button>
+      <div className="flex gap-2">
+        <button
+          type="button"
+          className="btn btn-neutral btn-sm"
+          onClick={addMapping}
+        >
+          + マッピングを追加
+        </button>
+        {properties && (
+          <button
+            type="button"
+            className="btn btn-outline btn-sm"
+            onClick={() => onChange(suggestFieldMappings(properties))}
+            title="プロパティ名と型からマッピングを推測します（現在のマッピングは置き換えられます）"
+          >
+            スキーマから推測
+          </button>
+        )}
+      </div>
     </div>
   );
 };
@@ -0,0 +1,133 @@
+import { useState, useEffect, useCallback } from 'react';
+import { SyncHistoryEntry } from '../../shared/types';
+import { sendRequest } from '../services/pluginMessaging';
+import {
+  findLastRunForVariable,
+  summarizeSyncEntry,
+  SYNC_KIND_LABELS,
+  SYNC_TOUCH_LABELS,
+  SyncHistoryTouch
+} from '../services/syncHistory';
+
+// プラグインからの応答待ちのタイムアウト
+const PLUGIN_RESPONSE_TIMEOUT_MS = 30000;
+
+// 展開時に一覧表示する項目
+const DETAIL_TOUCHES: SyncHistoryTouch[] = ['created', 'updated', 'deleted', 'errors'];
+
+const formatTimestamp = (timestamp: string): string => new Date(timestamp).toLocaleString('ja-JP');
+
+const HistoryTab = () => {
+  const [entries, setEntries] = useState<SyncHistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+
+  // ファイルに保存された同期履歴を読み込む
+  const loadHistory = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    const response = await sendRequest({ type: 'GET_SYNC_HISTORY' }, PLUGIN_RESPONSE_TIMEOUT_MS);
+    if (response.type === 'SYNC_HISTORY') {
+      setEntries(response.data.entries ?? []);
+    } else {
+      setError(response.data.message || '同期履歴を読み込めませんでした。');
+    }
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  const lastRun = query.trim() ? findLastRunForVariable(entries, query) : null;
+
+  return (
+    <div className="p-4 space-y-4">
+      <header className="flex justify-between items-start">
+        <div>
+          <h1 className="font-semibold">Sync History</h1>
+          <p className="text-xs text-base-content/70 mt-1">
+            このファイルで実行したインポート・エクスポートの記録（新しい順）
+          </p>
+        </div>
+        <button
+          type="button"
+          className="btn btn-outline btn-xs"
+          onClick={loadHistory}
+          disabled={isLoading}
+        >
+          再読み込み
+        </button>
+      </header>
+
+      <section className="bg-base-200 rounded-lg p-3 space-y-2">
+        <h3 className="text-xs font-semibold">変数の最終更新</h3>
+        <input
+          type="text"
+          className="input input-xs input-bordered w-full"
+          placeholder="Color/Primary"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+        />
+        {query.trim() && (
+          <p className="text-xs">
+            {lastRun
+              ? `${formatTimestamp(lastRun.entry.timestamp)} の ${SYNC_KIND_LABELS[lastRun.entry.kind]}（${lastRun.entry.collectionName}）で${SYNC_TOUCH_LABELS[lastRun.touch]}${lastRun.entry.user ? ` / ${lastRun.entry.user}` : ''}`
+              : '履歴に記録がありません'}
+          </p>
+        )}
+      </section>
+
+      {error && <p className="text-xs text-error">{error}</p>}
+
+      {!isLoading && entries.length === 0 && !error ? (
+        <div className="text-center py-8 text-base-content/50">
+          <p>同期履歴がありません</p>
+        </div>
+      ) : (
+        <ul className="space-y-2">
+          {entries.map(entry => (
+            <li key={entry.id} className="border border-base-300 rounded-lg">
+              <button
+                type="button"
+                className="w-full text-left p-2 hover:bg-base-200 transition-colors"
+                onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+              >
+                <div className="flex justify-between items-center gap-2">
+                  <span className="text-sm font-medium truncate">{entry.collectionName || '-'}</span>
+                  <span className="badge badge-ghost badge-sm shrink-0">{SYNC_KIND_LABELS[entry.kind]}</span>
+                </div>
+                <div className="text-xs text-base-content/60">
+                  {formatTimestamp(entry.timestamp)}
+                  {entry.user ? ` / ${entry.user}` : ''}
+                  {` / ${summarizeSyncEntry(entry)}`}
+                </div>
+              </button>
+              {expandedId === entry.id && (
+                <div className="px-2 pb-2 space-y-2 text-xs">
+                  {entry.databaseId && (
+                    <p className="text-base-content/70 break-all">Database: {entry.databaseId}</p>
+                  )}
+                  {DETAIL_TOUCHES.filter(touch => entry[touch].length > 0).map(touch => (
+                    <div key={touch}>
+                      <p className="font-semibold">{SYNC_TOUCH_LABELS[touch]}（{entry[touch].length}）</p>
+                      <ul className={`max-h-32 overflow-y-auto ${touch === 'errors' ? 'text-error' : 'text-base-content/70'}`}>
+                        {entry[touch].map((name, index) => (
+                          <li key={index} className="break-all">{name}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default HistoryTab;
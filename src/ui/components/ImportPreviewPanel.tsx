@@ -0,0 +1,146 @@
+import { ImportChange, ImportChangeAction } from '../../shared/types';
+
+// ペア単位のプレビュー表示データ
+export interface PairPreviewView {
+  pairId: string;
+  collectionName: string;
+  collectionExists: boolean;
+  changes: ImportChange[];
+  excludedKeys: string[];
+}
+
+interface ImportPreviewPanelProps {
+  previews: PairPreviewView[];
+  isLoading: boolean;
+  onToggleChange: (pairId: string, key: string) => void;
+  onToggleAll: (pairId: string, selected: boolean) => void;
+  onApprove: () => void;
+  onCancel: () => void;
+}
+
+// 変更種別ごとの表示ラベルとバッジ
+const ACTION_LABELS: Record<ImportChangeAction, { label: string; className: string }> = {
+  create: { label: '作成', className: 'badge-success' },
+  update: { label: '更新', className: 'badge-info' },
+  recreate: { label: '再作成', className: 'badge-warning' },
+  delete: { label: '削除', className: 'badge-error' },
+  skip: { label: 'スキップ', className: 'badge-ghost' },
+  unchanged: { label: '変更なし', className: 'badge-ghost' }
+};
+
+// 選択可能な（実際にFigmaを変更する）変更種別
+const SELECTABLE_ACTIONS: ImportChangeAction[] = ['create', 'update', 'recreate', 'delete'];
+
+export const isSelectableChange = (change: ImportChange): boolean =>
+  SELECTABLE_ACTIONS.includes(change.action);
+
+const ImportPreviewPanel = ({
+  previews,
+  isLoading,
+  onToggleChange,
+  onToggleAll,
+  onApprove,
+  onCancel
+}: ImportPreviewPanelProps) => {
+  const selectedCount = previews.reduce(
+    (sum, p) => sum + p.changes.filter(c => isSelectableChange(c) && !p.excludedKeys.includes(c.key)).length,
+    0
+  );
+
+  return (
+    <section className="space-y-4">
+      <h2 className="text-sm font-semibold">インポートプレビュー</h2>
+
+      {previews.map(preview => {
+        const selectable = preview.changes.filter(isSelectableChange);
+        const others = preview.changes.filter(c => !isSelectableChange(c));
+        const unchangedCount = others.filter(c => c.action === 'unchanged').length;
+        const skipped = others.filter(c => c.action === 'skip');
+
+        return (
+          <div key={preview.pairId} className="bg-base-200 rounded-lg p-3 space-y-2">
+            <div className="flex justify-between items-center">
+              <h3 className="text-xs font-semibold">
+                {preview.collectionName}
+                {!preview.collectionExists && <span className="ml-1 text-base-content/60">（新規コレクション）</span>}
+              </h3>
+              {selectable.length > 0 && (
+                <div className="flex gap-1">
+                  <button type="button" className="btn btn-outline btn-xs" onClick={() => onToggleAll(preview.pairId, true)}>
+                    全選択
+                  </button>
+                  <button type="button" className="btn btn-outline btn-xs" onClick={() => onToggleAll(preview.pairId, false)}>
+                    全解除
+                  </button>
+                </div>
+              )}
+            </div>
+
+            {selectable.length === 0 ? (
+              <p className="text-xs text-base-content/60">変更はありません</p>
+            ) : (
+              <ul className="space-y-1 max-h-64 overflow-y-auto">
+                {selectable.map(change => (
+                  <li key={`${change.action}-${change.key}`}>
+                    <label className="flex items-start gap-2 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        className="checkbox checkbox-primary checkbox-xs mt-0.5"
+                        checked={!preview.excludedKeys.includes(change.key)}
+                        onChange={() => onToggleChange(preview.pairId, change.key)}
+                      />
+                      <span className={`badge badge-xs ${ACTION_LABELS[change.action].className}`}>
+                        {ACTION_LABELS[change.action].label}
+                      </span>
+                      <span className="text-xs flex-1 min-w-0">
+                        <span className="font-mono break-all">{change.name}</span>
+                        {(change.oldValue || change.newValue) && (
+                          <span className="block text-base-content/70 font-mono break-all">
+                            {change.action === 'create' && change.newValue}
+                            {change.action === 'delete' && change.oldValue}
+                            {(change.action === 'update' || change.action === 'recreate') &&
+                              `${change.oldValue ?? ''} → ${change.newValue ?? ''}`}
+                            {change.action === 'recreate' && ` (${change.oldType} → ${change.newType})`}
+                          </span>
+                        )}
+                        {change.reason && (
+                          <span className="block text-base-content/60">{change.reason}</span>
+                        )}
+                      </span>
+                    </label>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {(unchangedCount > 0 || skipped.length > 0) && (
+              <p className="text-xs text-base-content/60">
+                {unchangedCount > 0 && `変更なし ${unchangedCount} 件`}
+                {unchangedCount > 0 && skipped.length > 0 && ' / '}
+                {skipped.length > 0 && `スキップ ${skipped.length} 件（上書き無効）`}
+              </p>
+            )}
+          </div>
+        );
+      })}
+
+      <div className="flex gap-2">
+        <button type="button" className="btn btn-outline flex-1" onClick={onCancel} disabled={isLoading}>
+          キャンセル
+        </button>
+        <button type="button" className="btn btn-primary flex-1" onClick={onApprove} disabled={isLoading}>
+          {isLoading ? (
+            <>
+              <span className="loading loading-spinner"></span>
+              インポート中...
+            </>
+          ) : (
+            `承認してインポート (${selectedCount}件)`
+          )}
+        </button>
+      </div>
+    </section>
+  );
+};
+
+export default ImportPreviewPanel;
@@ -1,10 +1,17 @@
 import { useState, useEffect, FormEvent, useRef, useCallback } from 'react';
-import { fetchNotionData, fetchNotionPage } from '../services/notionProxy';
-import { transformNotionResponse } from '../services/notionTransform';
-import { ImportSettings, FieldMapping, NotionVariable, SavedFormData, ProgressData, CollectionDbPair } from '../../shared/types';
-import FieldMappingEditor from './FieldMappingEditor';
+import { fetchNotionData, fetchNotionDatabaseSchema, fetchNotionPage, isAbortError } from '../services/notionProxy';
+import { formatRetryMessage, onNotionRetry } from '../services/notionRequest';
+import { cacheQueriedPages, normalizeDatabaseId, RelatedPageCache, transformNotionResponse } from '../services/notionTransform';
+import { onPluginMessage, postToPlugin, ProgressMessage, sendRequest } from '../services/pluginMessaging';
+import { LoadedPair, orderPairsByReferences } from '../services/pairOrder';
+import { getPairOptions, migratePairSettings } from '../services/pairSettings';
+import { ImportSettings, NotionVariable, SavedFormData, CollectionDbPair, LastImportInfo } from '../../shared/types';
+import ImportPreviewPanel, { PairPreviewView, isSelectableChange } from './ImportPreviewPanel';
 import SyncPairList, { createEmptyPair } from './SyncPairList';
+import StatusMessage, { StatusState } from './StatusMessage';
 import { generateUUID } from '../../shared/uuid';
+import { logger } from '../../shared/logger';
+import { ErrorCode, getErrorCode, SyncError } from '../../shared/errors';
 
 interface Collection {
   id: string;
@@ -16,32 +23,14 @@ interface ImportTabProps {
   collections: Collection[];
 }
 
+// プレビュー結果（ペア単位、承認時に再取得しないよう変換済みデータを保持）
+interface PairPreview extends LoadedPair {
+  view: PairPreviewView;
+}
+
 // デフォルトのタイムアウト（変数数不明時）
 const DEFAULT_TIMEOUT_MS = 60000; // 1分
 
-// 有効なvariablePropertyの値
-const VALID_VARIABLE_PROPERTIES: FieldMapping['variableProperty'][] = [
-  'name', 'value', 'type', 'group', 'description', 'unit'
-];
-
-/**
- * フィールドマッピングを正規化・検証する
- * 
- * 古いバージョンで保存されたデータや破損したデータから
- * 無効なマッピングをフィルタリングする
- * 
- * @param mappings - 正規化対象のマッピング配列
- * @returns 有効なマッピングのみを含む配列
- */
-const normalizeFieldMappings = (
-  mappings: FieldMapping[]
-): FieldMapping[] => {
-  return mappings.filter(m => 
-    m.notionField && 
-    VALID_VARIABLE_PROPERTIES.includes(m.variableProperty)
-  );
-};
-
 /**
  * CollectionDbPairsのIDを正規化する
  * 
@@ -71,27 +60,29 @@ const ImportTab = ({ collections }: ImportTabProps) => {
   const [apiKey, setApiKey] = useState('');
   const [proxyUrl, setProxyUrl] = useState('');
   const [proxyToken, setProxyToken] = useState('');
-  const [overwriteExisting, setOverwriteExisting] = useState(true);
-  const [deleteRemovedVariables, setDeleteRemovedVariables] = useState(false);
-  const [mappings, setMappings] = useState<FieldMapping[]>([
-    { notionField: 'Name', variableProperty: 'name' },
-    { notionField: 'Value', variableProperty: 'value' },
-    { notionField: 'Type', variableProperty: 'type' },
-    { notionField: 'Group', variableProperty: 'group' },
-    { notionField: 'Description', variableProperty: 'description' }
-  ]);
   const [isLoading, setIsLoading] = useState(false);
-  const [status, setStatus] = useState<{ type: 'success' | 'error' | 'info'; text: string } | null>(null);
+  const [status, setStatus] = useState<StatusState | null>(null);
   const importTimeoutRef = useRef<number | null>(null);
   const currentTimeoutMsRef = useRef<number>(DEFAULT_TIMEOUT_MS);
   const hasLoadedDataRef = useRef(false);
   
-  // 連続インポート中のセッションID（グローバルメッセージハンドラの誤動作防止用）
+  // 実行中のインポートのID（連続インポートしたペアをまとめて元に戻す・中止する単位）
   const importRunIdRef = useRef<string | null>(null);
 
+  // 実行中のインポートの中止用（nullの場合は中止できない）
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const [isCancellable, setIsCancellable] = useState(false);
+  const [isCancelling, setIsCancelling] = useState(false);
+
   // コレクション+DBIDペアの状態
   const [collectionDbPairs, setCollectionDbPairs] = useState<CollectionDbPair[]>([createEmptyPair()]);
 
+  // インポートプレビューの状態（nullの場合は非表示）
+  const [previews, setPreviews] = useState<PairPreview[] | null>(null);
+
+  // 元に戻せる直前のインポート（nullの場合は非表示）
+  const [lastImport, setLastImport] = useState<LastImportInfo | null>(null);
+
   // タイムアウトをクリアするヘルパー関数
   const clearImportTimeout = useCallback(() => {
     if (importTimeoutRef.current) {
@@ -116,20 +107,11 @@ const ImportTab = ({ collections }: ImportTabProps) => {
   // 保存データを適用するヘルパー関数
   const applySavedData = useCallback((data: SavedFormData) => {
     if (data.notion_api_key) setApiKey(data.notion_api_key);
-    if (data.overwrite_existing !== undefined) setOverwriteExisting(data.overwrite_existing);
-    if (data.delete_removed_variables !== undefined) setDeleteRemovedVariables(data.delete_removed_variables);
     if (data.notion_proxy_url) setProxyUrl(data.notion_proxy_url);
     if (data.notion_proxy_token) setProxyToken(data.notion_proxy_token);
-    // コレクション+DBIDペアの復元
+    // コレクション+DBIDペアの復元（ペア単位の設定がない場合は全体設定を引き継ぐ）
     if (data.collection_db_pairs && data.collection_db_pairs.length > 0) {
-      setCollectionDbPairs(normalizeCollectionDbPairs(data.collection_db_pairs));
-    }
-    // フィールドマッピングの復元（無効なマッピングをフィルタリング）
-    if (data.field_mappings && data.field_mappings.length > 0) {
-      const validMappings = normalizeFieldMappings(data.field_mappings);
-      if (validMappings.length > 0) {
-        setMappings(validMappings);
-      }
+      setCollectionDbPairs(normalizeCollectionDbPairs(migratePairSettings(data.collection_db_pairs, data)));
     }
   }, []);
 
@@ -137,97 +119,52 @@ const ImportTab = ({ collections }: ImportTabProps) => {
     setCollectionDbPairs(normalizeCollectionDbPairs(pairs));
   }, []);
 
-  // 完了処理の共通ハンドラー（SUCCESS, ERROR, OPERATION_STATUS用）
-  // 注意: 連続インポート中（importRunIdRef.current !== null）はこのハンドラを呼ばない
-  const handleOperationComplete = useCallback((success: boolean, message: string) => {
-    // 連続インポート中はグローバルハンドラからの呼び出しを無視
-    // （importSinglePair内のローカルリスナーが個別に処理する）
-    if (importRunIdRef.current !== null) {
-      return;
-    }
-    setIsLoading(false);
-    clearImportTimeout();
-    setStatus({ type: success ? 'success' : 'error', text: message });
-    window.setTimeout(() => setStatus(null), success ? 4000 : 6000);
-  }, [clearImportTimeout]);
-
   // 初期データを受信
   useEffect(() => {
-    const handleMessage = (event: MessageEvent) => {
-      const msg = event.data.pluginMessage;
-      if (!msg) return;
-      
-      // 初期化データ
-      if (msg.type === 'INIT_DATA') {
-        // collectionsはApp.tsxで管理されるため、ここでは処理しない
-        if (msg.savedData) {
-          applySavedData(msg.savedData as SavedFormData);
-        }
-        hasLoadedDataRef.current = true;
-      }
-      
-      // コレクションデータはApp.tsxで管理されるため、ここでは処理しない
-      
-      // 進捗通知（タイムアウトタイマーをリセット）
-      if (msg.type === 'PROGRESS' && msg.data) {
-        const progressData = msg.data as ProgressData;
-        resetTimeout();
-        setStatus({ type: 'info', text: progressData.message });
-      }
-
-      // ローディング状態
-      if (msg.type === 'LOADING' && msg.data) {
-        const loadingData = msg.data as { message?: string };
-        setStatus({ type: 'info', text: loadingData.message || '処理中...' });
-      }
-
-      // 操作完了（統合ハンドラー）
-      if (msg.type === 'OPERATION_STATUS' && msg.data) {
-        const data = msg.data as { success?: boolean; status?: string; message?: string };
-        const ok = (typeof data.success === 'boolean') ? data.success : (data.status === 'success');
-        const message = data.message || (ok ? 'インポートが完了しました。' : 'インポートに失敗しました。');
-        handleOperationComplete(ok, message);
-      }
-
-      // 成功
-      if (msg.type === 'SUCCESS' && msg.data) {
-        const data = msg.data as { message?: string };
-        handleOperationComplete(true, data.message || 'インポートが完了しました。');
+    // collectionsはApp.tsxで管理されるため、ここでは保存データのみ処理する
+    const unsubscribe = onPluginMessage(['INIT_DATA'], (msg) => {
+      if (msg.data.savedData) {
+        applySavedData(msg.data.savedData);
       }
-
-      // エラー
-      if (msg.type === 'ERROR' && msg.data) {
-        const data = msg.data as { message?: string };
-        handleOperationComplete(false, data.message || 'インポートに失敗しました。');
-      }
-      
-      // データ読み込みレスポンス
-      if (msg.type === 'LOAD_DATA_RESPONSE' && msg.data) {
-        applySavedData(msg.data as SavedFormData);
-        hasLoadedDataRef.current = true;
-      }
-    };
-    
-    window.addEventListener('message', handleMessage);
+      hasLoadedDataRef.current = true;
+    });
     
     // マウント時にデータをリクエスト（INIT_DATAを逃した場合の保険）
     if (!hasLoadedDataRef.current) {
-      parent.postMessage({
-        pluginMessage: { type: 'LOAD_DATA' }
-      }, '*');
+      sendRequest({ type: 'LOAD_DATA' }, DEFAULT_TIMEOUT_MS).then(response => {
+        if (response.type !== 'LOAD_DATA_RESPONSE') return;
+        applySavedData(response.data);
+        hasLoadedDataRef.current = true;
+      });
     }
 
-    return () => window.removeEventListener('message', handleMessage);
-  }, [applySavedData, handleOperationComplete, resetTimeout]);
+    return unsubscribe;
+  }, [applySavedData]);
+
+  // Notion APIの再試行を待機中であることを表示（待機中にインポート全体がタイムアウトしないようリセット）
+  useEffect(() => onNotionRetry(event => {
+    if (importTimeoutRef.current) resetTimeout();
+    setStatus({ type: 'info', text: formatRetryMessage(event) });
+  }), [resetTimeout]);
+
+  // 元に戻せる直前のインポートを取得
+  const loadLastImport = useCallback(async () => {
+    const response = await sendRequest({ type: 'GET_LAST_IMPORT' }, DEFAULT_TIMEOUT_MS);
+    if (response.type === 'LAST_IMPORT') {
+      setLastImport(response.data.lastImport);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadLastImport();
+  }, [loadLastImport]);
 
   // 入力値を保存する関数
   const saveFormData = useCallback(() => {
     // 空の値は送信しない（空文字列で既存の値を上書きしないため）
+    // 上書き・削除・フィールドマッピングの設定は各ペアに含まれる
     const dataToSave: Partial<SavedFormData> = {
-      overwrite_existing: overwriteExisting,
-      delete_removed_variables: deleteRemovedVariables,
       collection_db_pairs: collectionDbPairs,
-      field_mappings: mappings,  // フィールドマッピングを保存
     };
     
     // 空でない値のみ追加
@@ -235,13 +172,8 @@ const ImportTab = ({ collections }: ImportTabProps) => {
     if (proxyUrl && proxyUrl.trim()) dataToSave.notion_proxy_url = proxyUrl;
     if (proxyToken && proxyToken.trim()) dataToSave.notion_proxy_token = proxyToken;
     
-    parent.postMessage({
-      pluginMessage: {
-        type: 'SAVE_DATA',
-        data: dataToSave
-      }
-    }, '*');
-  }, [apiKey, overwriteExisting, deleteRemovedVariables, proxyUrl, proxyToken, collectionDbPairs, mappings]);
+    postToPlugin({ type: 'SAVE_DATA', data: dataToSave });
+  }, [apiKey, proxyUrl, proxyToken, collectionDbPairs]);
 
   // 各入力フィールドの変更時に自動保存
   useEffect(() => {
@@ -258,6 +190,14 @@ const ImportTab = ({ collections }: ImportTabProps) => {
   }, []);
 
 
+  // データベースのスキーマを取得（フィールドマッピングの選択肢に使用）
+  const loadSchema = useCallback((databaseId: string) => {
+    if (!apiKey) {
+      return Promise.reject(new Error('Notion APIキーを入力してください'));
+    }
+    return fetchNotionDatabaseSchema(apiKey, databaseId, proxyUrl, proxyToken);
+  }, [apiKey, proxyUrl, proxyToken]);
+
   // 全選択/全解除
   const toggleAllPairs = useCallback((enabled: boolean) => {
     setCollectionDbPairs(prev => prev.map(p => ({ ...p, enabled })));
@@ -269,27 +209,186 @@ const ImportTab = ({ collections }: ImportTabProps) => {
     message: string;
     collectionName: string;
     shouldAbort: boolean; // trueの場合、後続のペア処理を中断
+    deprecated?: string[]; // インポートした非推奨のトークン名
+    cancelled?: boolean; // 中止によりコレクションの途中で終了した
+    code?: ErrorCode; // 失敗時のエラーコード（対処方法の表示に使用）
   };
 
-  // 単一ペアのインポート処理
-  const importSinglePair = async (
+  // ペアのデータベースの全ページを取得
+  const fetchPairPages = async (
     pair: CollectionDbPair,
     currentIndex: number,
+    totalCount: number,
+    signal?: AbortSignal
+  ): Promise<any[]> => {
+    const { collectionName, databaseId } = pair;
+    setStatus({ type: 'info', text: `[${currentIndex + 1}/${totalCount}] ${collectionName}: Notionからデータを取得中...` });
+    
+    // Notionデータを取得
+    const notionResponse = await fetchNotionData(apiKey, databaseId, proxyUrl, {
+      sorts: [{ timestamp: 'created_time', direction: 'ascending' }]
+    }, proxyToken, signal);
+    
+    return notionResponse?.results || [];
+  };
+
+  // 取得したページをNotionVariable配列に変換（relation先のページはキャッシュを使用）
+  const transformPairPages = (
+    pair: CollectionDbPair,
+    raw: any[],
+    pageCache: RelatedPageCache,
+    signal?: AbortSignal
+  ): Promise<NotionVariable[]> => {
+    // 他のペアのデータベースへのrelationは、そのペアのコレクション名で修飾した参照にする
+    const collectionsByDatabase = new Map(
+      collectionDbPairs
+        .filter(p => p.databaseId.trim() && p.collectionName.trim())
+        .map(p => [normalizeDatabaseId(p.databaseId.trim()), p.collectionName] as [string, string])
+    );
+    const { mappings } = getPairOptions(pair);
+    // relation先のページ取得も中止の対象にする
+    const fetchPage = (key: string, pageId: string, url: string, token?: string) =>
+      fetchNotionPage(key, pageId, url, token, signal);
+    return transformNotionResponse(raw, apiKey, proxyUrl, proxyToken, fetchPage, mappings, { collectionsByDatabase, pageCache });
+  };
+
+  /**
+   * 全ペアのNotionデータを取得して変換する
+   * 全ペアのページを先に取得し、ペア間のrelationは取得済みのページで解決する（relation先のページは実行全体で共有）
+   * @returns 失敗した場合は、それまでに変換したペアと失敗したペア・エラー
+   */
+  const loadAllPairVariables = async (
+    pairs: CollectionDbPair[],
+    signal?: AbortSignal
+  ): Promise<{ loaded: LoadedPair[]; failure?: { pair: CollectionDbPair; error: unknown } }> => {
+    const pageCache: RelatedPageCache = new Map();
+    const fetched: { pair: CollectionDbPair; raw: any[] }[] = [];
+    const loaded: LoadedPair[] = [];
+    let current = pairs[0];
+    try {
+      for (let i = 0; i < pairs.length; i++) {
+        current = pairs[i];
+        if (importTimeoutRef.current) resetTimeout(); // 各ペア処理前にタイムアウトリセット
+        const raw = await fetchPairPages(current, i, pairs.length, signal);
+        cacheQueriedPages(pageCache, raw);
+        fetched.push({ pair: current, raw });
+      }
+      for (let i = 0; i < fetched.length; i++) {
+        current = fetched[i].pair;
+        if (importTimeoutRef.current) resetTimeout();
+        setStatus({ type: 'info', text: `[${i + 1}/${fetched.length}] ${current.collectionName}: 参照を解決中...` });
+        loaded.push({ pair: current, variables: await transformPairPages(current, fetched[i].raw, pageCache, signal) });
+      }
+      return { loaded };
+    } catch (error) {
+      return { loaded, failure: { pair: current, error } };
+    }
+  };
+
+  // 参照先のコレクションが先にインポートされるようペアを並べ替える
+  const orderLoadedPairs = <T extends LoadedPair>(loaded: T[]): T[] => {
+    const { ordered, cyclic } = orderPairsByReferences(loaded);
+    if (cyclic.length > 0) {
+      logger.warn('[ImportTab] コレクション間の参照が循環しているため、設定順でインポートします:', cyclic.join(', '));
+    }
+    return ordered;
+  };
+
+  // コレクションの存在チェック（手入力モードの場合）
+  // 存在しない場合は新規作成フラグを立てる
+  const shouldCreateCollection = (pair: CollectionDbPair): boolean => {
+    const collectionExists = collections.some(c => c.name === pair.collectionName);
+    return (pair.isManualInput === true) && !collectionExists;
+  };
+
+  // ペアのインポート設定を作成
+  const buildPairSettings = (
+    pair: CollectionDbPair,
+    variables: NotionVariable[],
+    excludedChangeKeys?: string[]
+  ): ImportSettings & { variables: NotionVariable[] } => ({
+    apiKey: apiKey,
+    notionApiKey: apiKey,
+    databaseId: pair.databaseId,
+    collectionName: pair.collectionName,
+    createNewCollection: shouldCreateCollection(pair),
+    ...getPairOptions(pair),
+    variables,
+    ...(excludedChangeKeys && excludedChangeKeys.length > 0 ? { excludedChangeKeys } : {}),
+    // 連続インポートしたペアはまとめて元に戻す
+    ...(importRunIdRef.current ? { runId: importRunIdRef.current } : {})
+  });
+
+  // 進捗通知を表示（インポート全体のタイムアウトが設定されている場合はリセット）
+  const handleImportProgress = (msg: ProgressMessage) => {
+    if (importTimeoutRef.current) resetTimeout();
+    setStatus({ type: 'info', text: msg.data.message || '処理中...' });
+  };
+
+  // 同期的にインポートを実行（このリクエストへのプラグインの完了通知を待つ）
+  const runPluginImport = async (
+    settings: ImportSettings & { variables: NotionVariable[] }
+  ): Promise<ImportResult> => {
+    const collectionName = settings.collectionName || '';
+    const SINGLE_PAIR_TIMEOUT = 120000; // 2分
+    
+    const response = await sendRequest(
+      { type: 'IMPORT_FROM_NOTION', data: settings },
+      SINGLE_PAIR_TIMEOUT,
+      handleImportProgress
+    );
+    
+    if (response.type === 'TIMEOUT') {
+      return {
+        success: false,
+        message: `${collectionName}: インポートがタイムアウトしました`,
+        collectionName,
+        shouldAbort: true
+      };
+    }
+    
+    if (response.type === 'ERROR') {
+      return {
+        success: false,
+        message: `${collectionName}: ${response.data.message || 'エラーが発生しました'}`,
+        collectionName,
+        shouldAbort: true, // エラーの場合は中断
+        code: response.data.code
+      };
+    }
+    
+    const { message, details } = response.data;
+    
+    // 中止された場合はプラグインのメッセージ（中止までに反映した件数）をそのまま表示する
+    if (details?.cancelled) {
+      return {
+        success: false,
+        message: `${collectionName}: ${message || 'インポートを中止しました'}`,
+        collectionName,
+        shouldAbort: true,
+        deprecated: details.deprecated,
+        cancelled: true
+      };
+    }
+    
+    return {
+      success: true,
+      message: `${collectionName}: ${settings.variables.length} 件インポート成功`,
+      collectionName,
+      shouldAbort: false,
+      deprecated: details?.deprecated
+    };
+  };
+
+  // 単一ペアのインポート処理（取得済みのデータを使用）
+  const importSinglePair = async (
+    { pair, variables }: LoadedPair,
+    currentIndex: number,
     totalCount: number
   ): Promise<ImportResult> => {
-    const { collectionName, databaseId, isManualInput } = pair;
+    const { collectionName } = pair;
     
     try {
-      setStatus({ type: 'info', text: `[${currentIndex + 1}/${totalCount}] ${collectionName}: Notionからデータを取得中...` });
-      
-      // Notionデータを取得
-      const notionResponse = await fetchNotionData(apiKey, databaseId, proxyUrl, {
-        sorts: [{ timestamp: 'created_time', direction: 'ascending' }]
-      }, proxyToken);
-      
-      const raw = notionResponse?.results || [];
-      const variables = await transformNotionResponse(raw, apiKey, proxyUrl, proxyToken, fetchNotionPage, mappings);
-      
       if (!Array.isArray(variables) || variables.length === 0) {
         // データが空の場合は中断せず続行（データがないだけなので）
         return { 
@@ -302,112 +401,92 @@ const ImportTab = ({ collections }: ImportTabProps) => {
 
       setStatus({ type: 'info', text: `[${currentIndex + 1}/${totalCount}] ${collectionName}: ${variables.length} 件の変数をインポート中...` });
 
-      // コレクションの存在チェック（手入力モードの場合）
-      // 存在しない場合は新規作成フラグを立てる
-      const collectionExists = collections.some(c => c.name === collectionName);
-      const shouldCreateNew = (isManualInput === true) && !collectionExists;
-
-      const settings: ImportSettings & { variables: NotionVariable[] } = {
-        apiKey: apiKey,
-        notionApiKey: apiKey,
-        databaseId,
-        collectionName,
-        createNewCollection: shouldCreateNew,
-        overwriteExisting,
-        deleteRemovedVariables,
-        mappings,
-        variables
-      };
-
-      // 同期的にインポートを実行するためのPromise（タイムアウト付き）
-      const SINGLE_PAIR_TIMEOUT = 120000; // 2分
-      
-      return new Promise((resolve) => {
-        let timeoutId: number | null = null;
-        
-        // クリーンアップ関数（リスナーとタイムアウトの両方を削除）
-        // リスナーを即座に削除することでレースコンディションを防止
-        const cleanup = () => {
-          window.removeEventListener('message', handleImportResult);
-          if (timeoutId !== null) {
-            clearTimeout(timeoutId);
-            timeoutId = null;
-          }
-        };
-        
-        const handleImportResult = (event: MessageEvent) => {
-          const msg = event.data.pluginMessage;
-          if (!msg) return;
-          
-          if (msg.type === 'SUCCESS' || msg.type === 'OPERATION_STATUS') {
-            // 即座にリスナーを削除してレースコンディションを防止
-            cleanup();
-            
-            const data = msg.data as { success?: boolean; status?: string; message?: string };
-            const ok = msg.type === 'SUCCESS' || 
-              (typeof data.success === 'boolean' ? data.success : data.status === 'success');
-            
-            resolve({
-              success: ok,
-              message: ok ? `${collectionName}: ${variables.length} 件インポート成功` : `${collectionName}: インポート失敗`,
-              collectionName,
-              shouldAbort: !ok // インポート処理自体が失敗した場合は中断
-            });
-            return;
-          }
-          
-          if (msg.type === 'ERROR') {
-            // 即座にリスナーを削除してレースコンディションを防止
-            cleanup();
-            
-            const data = msg.data as { message?: string };
-            resolve({
-              success: false,
-              message: `${collectionName}: ${data.message || 'エラーが発生しました'}`,
-              collectionName,
-              shouldAbort: true // エラーの場合は中断
-            });
-            return;
-          }
-        };
-        
-        // タイムアウト設定
-        timeoutId = window.setTimeout(() => {
-          cleanup();
-          resolve({
-            success: false,
-            message: `${collectionName}: インポートがタイムアウトしました`,
-            collectionName,
-            shouldAbort: true
-          });
-        }, SINGLE_PAIR_TIMEOUT);
-        
-        window.addEventListener('message', handleImportResult);
-        
-        parent.postMessage({
-          pluginMessage: {
-            type: 'IMPORT_FROM_NOTION',
-            data: settings
-          }
-        }, '*');
-      });
+      return await runPluginImport(buildPairSettings(pair, variables));
     } catch (err) {
-      // Notionデータ取得やその他の例外は中断
+      // 予期しない例外は中断
       return {
         success: false,
         message: `${collectionName}: ${err instanceof Error ? err.message : 'エラーが発生しました'}`,
         collectionName,
-        shouldAbort: true
+        shouldAbort: true,
+        code: getErrorCode(err)
       };
     }
   };
 
-  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
-    e.preventDefault();
+  // 処理結果のサマリーを表示
+  const reportResults = (results: ImportResult[], totalCount: number, aborted: boolean, cancelled = false) => {
+    const successCount = results.filter(r => r.success).length;
+    const failCount = results.filter(r => !r.success).length;
+    const skippedCount = totalCount - results.length; // 中断により未処理のペア数
+    // 非推奨のトークンは成功時のメッセージに名前を添える（多い場合は先頭のみ）
+    const deprecated = results.flatMap(r => r.deprecated ?? []);
+    const deprecatedNote = deprecated.length > 0
+      ? ` 非推奨のトークン ${deprecated.length} 件: ${deprecated.slice(0, 5).join(', ')}${deprecated.length > 5 ? ' ほか' : ''}`
+      : '';
     
+    if (cancelled) {
+      // 中止した場合は、反映済みのコレクションと途中で止めたコレクションの内訳を表示
+      const completed = results.filter(r => r.success).map(r => r.collectionName);
+      const partial = results.find(r => r.cancelled);
+      const unprocessed = totalCount - results.length;
+      const parts = ['インポートを中止しました。'];
+      if (completed.length > 0) parts.push(`反映済み: ${completed.join(', ')}。`);
+      if (partial) parts.push(partial.message);
+      if (unprocessed > 0) parts.push(`未処理 ${unprocessed} 件のコレクション。`);
+      setStatus({ type: 'info', text: parts.join(' ') });
+    } else if (aborted) {
+      // 中断が発生した場合
+      let statusText: string;
+      const failedPair = results.length > 0 ? results[results.length - 1] : undefined; // 最後に処理したペアが失敗原因
+      if (failedPair) {
+        statusText = `「${failedPair.collectionName}」でエラーが発生したため処理を中断しました。`;
+      } else {
+        // 何らかの理由で結果がない状態で中断した場合のフォールバックメッセージ
+        statusText = 'エラーが発生したため処理を中断しました。';
+      }
+      const details: string[] = [];
+      if (successCount > 0) details.push(`${successCount}件成功`);
+      details.push(`${failCount}件失敗`);
+      if (skippedCount > 0) details.push(`${skippedCount}件未処理`);
+      if (details.length > 0) {
+        statusText += `（${details.join('、')}）`;
+      }
+      
+      // 失敗したペアのエラー内容と対処方法を表示
+      if (failedPair?.code) {
+        statusText += ` ${failedPair.message}`;
+      }
+      setStatus({ 
+        type: 'error', 
+        text: statusText,
+        code: failedPair?.code
+      });
+    } else if (failCount === 0) {
+      setStatus({ 
+        type: 'success', 
+        text: `全 ${successCount} 件のコレクションをインポートしました。${deprecatedNote}` 
+      });
+    } else if (successCount === 0) {
+      setStatus({ 
+        type: 'error', 
+        text: `全 ${failCount} 件のインポートに失敗しました。` 
+      });
+    } else {
+      setStatus({ 
+        type: 'info', 
+        text: `${successCount} 件成功、${failCount} 件失敗しました。${deprecatedNote}` 
+      });
+    }
+    
+    window.setTimeout(() => setStatus(null), 6000);
+  };
+
+  // 実行前の検証を行い、対象ペアを返す（不正な場合はnull）
+  const getPairsToRun = (): CollectionDbPair[] | null => {
     if (!apiKey) {
       alert('Notion APIキーを入力してください');
-      return;
+      return null;
     }
     
     // 有効なペアをフィルタリング
@@ -417,15 +496,50 @@ const ImportTab = ({ collections }: ImportTabProps) => {
     
     if (enabledPairs.length === 0) {
       alert('インポート対象のペアを選択してください。コレクション名とデータベースIDの両方が必要です。');
-      return;
+      return null;
     }
+    
+    return enabledPairs;
+  };
+
+  // 中止できる実行を開始し、Notionへのリクエストに渡すシグナルを返す
+  const beginCancellableRun = (): AbortSignal => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsCancellable(true);
+    setIsCancelling(false);
+    return controller.signal;
+  };
+
+  const endCancellableRun = () => {
+    abortControllerRef.current = null;
+    setIsCancellable(false);
+    setIsCancelling(false);
+  };
+
+  // 実行中のインポートを中止（Notionへのリクエストを中断し、プラグインには変数の間で止めるよう通知）
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+    if (importRunIdRef.current) {
+      postToPlugin({ type: 'CANCEL_IMPORT', data: { runId: importRunIdRef.current } });
+    }
+    setIsCancelling(true);
+    setStatus({ type: 'info', text: '中止しています...' });
+  };
+
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    
+    const enabledPairs = getPairsToRun();
+    if (!enabledPairs) return;
 
     // 送信前に最新のデータを保存
     saveFormData();
 
-    // 連続インポートセッション開始（グローバルハンドラの誤動作防止）
+    // 連続インポートセッション開始（ペアをまとめて元に戻す・中止する単位）
     const runId = generateUUID();
     importRunIdRef.current = runId;
+    const signal = beginCancellableRun();
 
     try {
       clearImportTimeout();
@@ -437,18 +551,44 @@ const ImportTab = ({ collections }: ImportTabProps) => {
 
       const results: ImportResult[] = [];
       let aborted = false;
+      let cancelled = false;
+      
+      // 全ペアのデータを先に取得（参照先のコレクションを先にインポートするため）
+      const { loaded, failure } = await loadAllPairVariables(enabledPairs, signal);
+      if (failure) {
+        const { pair, error: err } = failure;
+        if (isAbortError(err)) {
+          // 中止によるリクエストの中断はエラーとして扱わない
+          cancelled = true;
+        } else {
+          // Notionデータ取得の失敗は中断
+          results.push({
+            success: false,
+            message: `${pair.collectionName}: ${err instanceof Error ? err.message : 'エラーが発生しました'}`,
+            collectionName: pair.collectionName,
+            shouldAbort: true,
+            code: getErrorCode(err)
+          });
+          aborted = true;
+        }
+      }
       
       // 順番にインポート実行
-      for (let i = 0; i < enabledPairs.length; i++) {
-        const pair = enabledPairs[i];
+      const ordered = aborted || cancelled ? [] : orderLoadedPairs(loaded);
+      for (let i = 0; i < ordered.length; i++) {
+        if (signal.aborted) {
+          cancelled = true;
+          break;
+        }
         resetTimeout(); // 各ペア処理前にタイムアウトリセット
         
-        const result = await importSinglePair(pair, i, enabledPairs.length);
+        const result = await importSinglePair(ordered[i], i, ordered.length);
         results.push(result);
         
         // インポート処理自体が失敗した場合は後続を中断
         if (result.shouldAbort) {
           aborted = true;
+          cancelled = result.cancelled === true;
           break;
         }
       }
@@ -460,56 +600,172 @@ const ImportTab = ({ collections }: ImportTabProps) => {
       // 連続インポートセッション終了
       importRunIdRef.current = null;
       
-      const successCount = results.filter(r => r.success).length;
-      const failCount = results.filter(r => !r.success).length;
-      const skippedCount = enabledPairs.length - results.length; // 中断により未処理のペア数
+      reportResults(results, enabledPairs.length, aborted, cancelled);
+      loadLastImport();
       
-      if (aborted) {
-        // 中断が発生した場合
-        let statusText: string;
-        if (results.length > 0) {
-          const failedPair = results[results.length - 1]; // 最後に処理したペアが失敗原因
-          statusText = `「${failedPair.collectionName}」でエラーが発生したため処理を中断しました。`;
-        } else {
-          // 何らかの理由で結果がない状態で中断した場合のフォールバックメッセージ
-          statusText = 'エラーが発生したため処理を中断しました。';
-        }
-        const details: string[] = [];
-        if (successCount > 0) details.push(`${successCount}件成功`);
-        details.push(`${failCount}件失敗`);
-        if (skippedCount > 0) details.push(`${skippedCount}件未処理`);
-        if (details.length > 0) {
-          statusText += `（${details.join('、')}）`;
+    } catch (err) {
+      clearImportTimeout();
+      setIsLoading(false);
+      importRunIdRef.current = null; // セッション終了
+      setStatus({ type: 'error', text: err instanceof Error ? err.message : 'インポートに失敗しました。', code: getErrorCode(err) });
+    } finally {
+      endCancellableRun();
+    }
+  };
+
+  // プレビュー（ドライラン）: 変更内容を取得して表示
+  const handlePreview = async () => {
+    const enabledPairs = getPairsToRun();
+    if (!enabledPairs) return;
+
+    saveFormData();
+    setIsLoading(true);
+    setPreviews(null);
+
+    try {
+      const { loaded: all, failure } = await loadAllPairVariables(enabledPairs);
+      if (failure) throw failure.error;
+      const fetched = all.filter(({ variables }) => variables.length > 0);
+      
+      // 承認時のインポート順（参照先のコレクションが先）で表示する
+      const ordered = orderLoadedPairs(fetched);
+      const loaded: PairPreview[] = [];
+      
+      for (let i = 0; i < ordered.length; i++) {
+        const { pair, variables } = ordered[i];
+        
+        setStatus({ type: 'info', text: `[${i + 1}/${ordered.length}] ${pair.collectionName}: 変更内容を確認中...` });
+        const response = await sendRequest(
+          { type: 'PREVIEW_IMPORT', data: buildPairSettings(pair, variables) },
+          DEFAULT_TIMEOUT_MS
+        );
+        
+        if (response.type !== 'IMPORT_PREVIEW') {
+          const message = response.type === 'TIMEOUT'
+            ? 'プレビューがタイムアウトしました'
+            : response.data.message || 'エラーが発生しました';
+          throw new SyncError(
+            response.type === 'ERROR' ? getErrorCode(response.data) : ErrorCode.UNKNOWN,
+            `${pair.collectionName}: ${message}`
+          );
         }
         
-        setStatus({ 
-          type: 'error', 
-          text: statusText
-        });
-      } else if (failCount === 0) {
-        setStatus({ 
-          type: 'success', 
-          text: `全 ${successCount} 件のコレクションをインポートしました。` 
-        });
-      } else if (successCount === 0) {
-        setStatus({ 
-          type: 'error', 
-          text: `全 ${failCount} 件のインポートに失敗しました。` 
-        });
-      } else {
-        setStatus({ 
-          type: 'info', 
-          text: `${successCount} 件成功、${failCount} 件失敗しました。` 
+        const preview = response.data;
+        loaded.push({
+          pair,
+          variables,
+          view: {
+            pairId: pair.id,
+            collectionName: preview.collectionName,
+            collectionExists: preview.collectionExists,
+            changes: preview.changes,
+            excludedKeys: []
+          }
         });
       }
       
+      if (loaded.length === 0) {
+        setStatus({ type: 'error', text: '有効なデータがありません。' });
+        window.setTimeout(() => setStatus(null), 6000);
+      } else {
+        setPreviews(loaded);
+        setStatus(null);
+      }
+    } catch (err) {
+      setStatus({ type: 'error', text: err instanceof Error ? err.message : 'プレビューの作成に失敗しました。', code: getErrorCode(err) });
       window.setTimeout(() => setStatus(null), 6000);
-      
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // プレビューの行の選択を切り替え
+  const togglePreviewChange = useCallback((pairId: string, key: string) => {
+    setPreviews(prev => prev && prev.map(p => {
+      if (p.pair.id !== pairId) return p;
+      const excluded = p.view.excludedKeys.includes(key)
+        ? p.view.excludedKeys.filter(k => k !== key)
+        : [...p.view.excludedKeys, key];
+      return { ...p, view: { ...p.view, excludedKeys: excluded } };
+    }));
+  }, []);
+
+  // プレビューのペア内の全行の選択を切り替え
+  const toggleAllPreviewChanges = useCallback((pairId: string, selected: boolean) => {
+    setPreviews(prev => prev && prev.map(p => {
+      if (p.pair.id !== pairId) return p;
+      const excluded = selected ? [] : p.view.changes.filter(isSelectableChange).map(c => c.key);
+      return { ...p, view: { ...p.view, excludedKeys: excluded } };
+    }));
+  }, []);
+
+  // プレビューを承認してインポート（取得済みのデータを使用）
+  const handleApprovePreview = async () => {
+    if (!previews) return;
+
+    importRunIdRef.current = generateUUID();
+    const signal = beginCancellableRun();
+    setIsLoading(true);
+    const results: ImportResult[] = [];
+    let aborted = false;
+    let cancelled = false;
+
+    try {
+      for (let i = 0; i < previews.length; i++) {
+        if (signal.aborted) {
+          cancelled = true;
+          break;
+        }
+        const { pair, variables, view } = previews[i];
+        setStatus({ type: 'info', text: `[${i + 1}/${previews.length}] ${pair.collectionName}: インポート中...` });
+        
+        const result = await runPluginImport(buildPairSettings(pair, variables, view.excludedKeys));
+        results.push(result);
+        if (result.shouldAbort) {
+          aborted = true;
+          cancelled = result.cancelled === true;
+          break;
+        }
+      }
+      reportResults(results, previews.length, aborted, cancelled);
     } catch (err) {
-      clearImportTimeout();
+      setStatus({ type: 'error', text: err instanceof Error ? err.message : 'インポートに失敗しました。', code: getErrorCode(err) });
+    } finally {
+      endCancellableRun();
+      importRunIdRef.current = null;
       setIsLoading(false);
-      importRunIdRef.current = null; // セッション終了
-      setStatus({ type: 'error', text: err instanceof Error ? err.message : 'インポートに失敗しました。' });
+      setPreviews(null);
+      loadLastImport();
+    }
+  };
+
+  // 直前のインポートを元に戻す
+  const handleRevertLastImport = async () => {
+    if (!lastImport) return;
+    const names = lastImport.collectionNames.join(', ');
+    if (!confirm(`${new Date(lastImport.timestamp).toLocaleString('ja-JP')} のインポート（${names}）を元に戻しますか？\nインポート後に行った変更も失われます。`)) {
+      return;
+    }
+
+    setIsLoading(true);
+    setStatus({ type: 'info', text: '元に戻しています...' });
+
+    try {
+      const response = await sendRequest({ type: 'REVERT_LAST_IMPORT' }, DEFAULT_TIMEOUT_MS);
+      if (response.type === 'SUCCESS') {
+        setStatus({ type: 'success', text: response.data.message || '直前のインポートを元に戻しました。' });
+      } else {
+        const message = response.type === 'TIMEOUT' ? '元に戻す処理がタイムアウトしました。' : response.data.message;
+        setStatus({
+          type: 'error',
+          text: message || '元に戻せませんでした。',
+          code: response.type === 'ERROR' ? response.data.code : undefined
+        });
+      }
+    } finally {
+      setIsLoading(false);
+      window.setTimeout(() => setStatus(null), 6000);
+      loadLastImport();
     }
   };
 
@@ -582,7 +838,7 @@ const ImportTab = ({ collections }: ImportTabProps) => {
       <section>
         <h2 className="mb-2 text-sm font-semibold">同期ペア設定</h2>
         <small className="text-xs text-base-content/70 block mb-3">
-          FigmaコレクションとNotionデータベースのペアを設定します。
+          FigmaコレクションとNotionデータベースのペアを設定します。上書き・削除・フィールドマッピングはペアごとに設定できます。
         </small>
         
         {/* 全選択/全解除ボタン（リスト上部） */}
@@ -609,6 +865,7 @@ const ImportTab = ({ collections }: ImportTabProps) => {
           collections={collections}
           onPairsChange={handlePairsChange}
           onSave={saveFormData}
+          loadSchema={loadSchema}
         />
         
         {/* 追加ボタン（リスト下部） */}
@@ -623,54 +880,48 @@ const ImportTab = ({ collections }: ImportTabProps) => {
         </div>
       </section>
 
-      <section>
-        <h2 className="mb-2 text-sm font-semibold">インポートオプション</h2>
-        <div className="space-y-2">
-          <div className="form-control">
-            <label className="label cursor-pointer justify-start gap-2">
-              <input
-                type="checkbox"
-                className="checkbox checkbox-primary checkbox-xs"
-                checked={overwriteExisting}
-                onChange={(e) => { setOverwriteExisting(e.target.checked); saveFormData(); }}
-              />
-              <span className="text-xs">既存のVariableを上書き</span>
-            </label>
-          </div>
-          
-          <div className="form-control">
-            <label className="label cursor-pointer justify-start gap-2">
-              <input
-                type="checkbox"
-                className="checkbox checkbox-primary checkbox-xs"
-                checked={deleteRemovedVariables}
-                onChange={(e) => { setDeleteRemovedVariables(e.target.checked); saveFormData(); }}
-              />
-              <span className="text-xs">Notionから削除された変数をFigmaからも削除</span>
-            </label>
-            <small className="text-xs text-warning ml-6">⚠️ この変数を参照しているコンポーネントの参照も解除されます</small>
-          </div>
-        </div>
-      </section>
-
-      <section>
-        <h2 className="mb-2 text-sm font-semibold">フィールドマッピング</h2>
-        <FieldMappingEditor
-          mappings={mappings}
-          onChange={setMappings}
+      {previews ? (
+        <ImportPreviewPanel
+          previews={previews.map(p => p.view)}
+          isLoading={isLoading}
+          onToggleChange={togglePreviewChange}
+          onToggleAll={toggleAllPreviewChanges}
+          onApprove={handleApprovePreview}
+          onCancel={() => setPreviews(null)}
         />
-      </section>
-
-      <button type="submit" className="btn btn-primary w-full" disabled={isLoading || enabledPairsCount === 0}>
-        {isLoading ? (
-          <>
-            <span className="loading loading-spinner"></span>
-            インポート中...
-          </>
-        ) : (
-          `Notionからインポート${enabledPairsCount > 0 ? ` (${enabledPairsCount}件)` : ''}`
-        )}
-      </button>
+      ) : (
+        <div className="flex gap-2">
+          <button
+            type="button"
+            className="btn btn-outline flex-1"
+            onClick={handlePreview}
+            disabled={isLoading || enabledPairsCount === 0}
+          >
+            変更をプレビュー
+          </button>
+          <button type="submit" className="btn btn-primary flex-1" disabled={isLoading || enabledPairsCount === 0}>
+            {isLoading ? (
+              <>
+                <span className="loading loading-spinner"></span>
+                インポート中...
+              </>
+            ) : (
+              `Notionからインポート${enabledPairsCount > 0 ? ` (${enabledPairsCount}件)` : ''}`
+            )}
+          </button>
+        </div>
+      )}
+      
+      {isCancellable && (
+        <button
+          type="button"
+          className="btn btn-outline btn-error btn-sm w-full"
+          onClick={handleCancel}
+          disabled={isCancelling}
+        >
+          {isCancelling ? '中止しています...' : '中止'}
+        </button>
+      )}
       
       {enabledPairsCount === 0 && !isLoading && (
         <p className="text-xs text-warning text-center">
@@ -678,14 +929,24 @@ const ImportTab = ({ collections }: ImportTabProps) => {
         </p>
       )}
       
-      {/* toast notifications */}
-      {status && (
-        <div className="toast toast-end">
-          <div className={`alert ${status.type === 'success' ? 'alert-success' : status.type === 'error' ? 'alert-error' : 'alert-info'}`}>
-            <span>{status.text}</span>
-          </div>
-      </div>
+      {lastImport && !previews && (
+        <div className="flex items-center justify-between gap-2 text-xs text-base-content/70">
+          <span className="truncate">
+            直前のインポート: {new Date(lastImport.timestamp).toLocaleString('ja-JP')}（{lastImport.collectionNames.join(', ')}）
+          </span>
+          <button
+            type="button"
+            className="btn btn-ghost btn-xs shrink-0"
+            onClick={handleRevertLastImport}
+            disabled={isLoading}
+          >
+            元に戻す
+          </button>
+        </div>
       )}
+      
+      {/* toast notifications */}
+      {status && <StatusMessage {...status} />}
     </form>
   );
 };
@@ -0,0 +1,222 @@
+import { useState, useCallback, ChangeEvent, FormEvent } from 'react';
+import { ImportSettings, NotionVariable } from '../../shared/types';
+import { parseDesignTokens } from '../services/designTokens';
+import { postToPlugin, sendRequest } from '../services/pluginMessaging';
+import { logger } from '../../shared/logger';
+import StatusMessage, { StatusState } from './StatusMessage';
+
+interface Collection {
+  id: string;
+  name: string;
+  variableIds?: string[];
+}
+
+interface JsonImportTabProps {
+  collections: Collection[];
+}
+
+// 1コレクションあたりのインポートのタイムアウト
+const COLLECTION_IMPORT_TIMEOUT_MS = 120000; // 2分
+
+const JsonImportTab = ({ collections }: JsonImportTabProps) => {
+  const [jsonText, setJsonText] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [collectionName, setCollectionName] = useState('Design Tokens');
+  const [splitCollections, setSplitCollections] = useState(true);
+  const [overwriteExisting, setOverwriteExisting] = useState(true);
+  const [deleteRemovedVariables, setDeleteRemovedVariables] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [status, setStatus] = useState<StatusState | null>(null);
+
+  const showStatus = useCallback((type: 'success' | 'error' | 'info', text: string, durationMs = 5000) => {
+    setStatus({ type, text });
+    window.setTimeout(() => setStatus(null), durationMs);
+  }, []);
+
+  // ファイル選択（.tokens.json / .json）
+  const handleFileChange = useCallback((e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => {
+      setJsonText(String(reader.result ?? ''));
+      setFileName(file.name);
+    };
+    reader.onerror = () => showStatus('error', 'ファイルの読み込みに失敗しました。');
+    reader.readAsText(file);
+  }, [showStatus]);
+
+  // インポート実行（コレクションごとに既存のインポート処理へ渡す）
+  const handleSubmit = useCallback(async (e: FormEvent) => {
+    e.preventDefault();
+
+    let variables: NotionVariable[];
+    try {
+      const result = parseDesignTokens(jsonText, { splitCollections });
+      variables = result.variables;
+      setWarnings(result.warnings);
+      result.warnings.forEach(w => logger.warn('[JsonImportTab]', w));
+    } catch (err) {
+      showStatus('error', err instanceof Error ? err.message : 'JSONの解析に失敗しました。');
+      return;
+    }
+
+    if (variables.length === 0) {
+      showStatus('error', 'インポートできるトークンが見つかりませんでした。');
+      return;
+    }
+
+    // コレクション名ごとに分割（JSON内の出現順を維持）
+    const groups = new Map<string, NotionVariable[]>();
+    for (const variable of variables) {
+      const name = (splitCollections && variable.collection) || collectionName.trim() || 'Design Tokens';
+      if (!groups.has(name)) groups.set(name, []);
+      groups.get(name)!.push(variable);
+    }
+
+    setIsLoading(true);
+    const failures: string[] = [];
+    let index = 0;
+
+    for (const [name, groupVariables] of groups) {
+      index++;
+      setStatus({ type: 'info', text: `${name} をインポート中... (${index}/${groups.size})` });
+
+      const settings: ImportSettings & { variables: NotionVariable[] } = {
+        apiKey: '',
+        databaseId: '',
+        collectionName: name,
+        createNewCollection: !collections.some(c => c.name === name),
+        overwriteExisting,
+        deleteRemovedVariables,
+        mappings: [],
+        variables: groupVariables
+      };
+
+      const response = await sendRequest({ type: 'IMPORT_FROM_NOTION', data: settings }, COLLECTION_IMPORT_TIMEOUT_MS);
+      if (response.type === 'TIMEOUT') {
+        failures.push(`${name}: インポートがタイムアウトしました`);
+        break;
+      }
+      if (response.type === 'ERROR') {
+        failures.push(`${name}: ${response.data.message || 'インポートに失敗しました'}`);
+      }
+    }
+
+    setIsLoading(false);
+
+    // 作成したコレクションをUIに反映
+    postToPlugin({ type: 'GET_COLLECTIONS' });
+
+    if (failures.length === 0) {
+      showStatus('success', `${variables.length} 個のトークンを ${groups.size} コレクションにインポートしました。`);
+    } else {
+      showStatus('error', failures.join(' / '), 8000);
+    }
+  }, [jsonText, splitCollections, collectionName, collections, overwriteExisting, deleteRemovedVariables, showStatus]);
+
+  return (
+    <div className="p-4 space-y-4">
+      <header>
+        <h1 className="font-semibold">Import Design Tokens JSON to Figma Variables</h1>
+        <p className="text-xs text-base-content/70 mt-1">
+          W3C Design Tokens形式のJSONを読み込みます（Notionは使用しません）
+        </p>
+      </header>
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <section className="space-y-2">
+          <label className="block">
+            <span className="text-xs font-semibold block mb-1">JSONファイル</span>
+            <input
+              type="file"
+              accept=".json,application/json"
+              className="file-input file-input-bordered file-input-sm w-full"
+              onChange={handleFileChange}
+            />
+          </label>
+          {fileName && <p className="text-xs text-base-content/60">{fileName}</p>}
+          <label className="block">
+            <span className="text-xs font-semibold block mb-1">またはJSONを貼り付け</span>
+            <textarea
+              className="textarea textarea-bordered w-full font-mono text-xs h-40"
+              value={jsonText}
+              onChange={(e) => { setJsonText(e.target.value); setFileName(''); }}
+              placeholder='{ "Color": { "$type": "color", "Primary": { "$value": "#0066ff" } } }'
+            />
+          </label>
+        </section>
+
+        <section className="bg-base-200 rounded-lg p-3 space-y-2">
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              className="checkbox checkbox-primary checkbox-sm"
+              checked={splitCollections}
+              onChange={(e) => setSplitCollections(e.target.checked)}
+            />
+            <span className="text-xs">トップレベルのグループをコレクションとして扱う（エクスポートしたJSON向け）</span>
+          </label>
+          <label className="block">
+            <span className="text-xs font-semibold block mb-1">
+              {splitCollections ? 'トップレベルのトークンのコレクション名' : 'コレクション名'}
+            </span>
+            <input
+              type="text"
+              className="input input-bordered input-sm w-full"
+              value={collectionName}
+              onChange={(e) => setCollectionName(e.target.value)}
+            />
+          </label>
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              className="checkbox checkbox-primary checkbox-sm"
+              checked={overwriteExisting}
+              onChange={(e) => setOverwriteExisting(e.target.checked)}
+            />
+            <span className="text-xs">既存の変数を上書き</span>
+          </label>
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              className="checkbox checkbox-primary checkbox-sm"
+              checked={deleteRemovedVariables}
+              onChange={(e) => setDeleteRemovedVariables(e.target.checked)}
+            />
+            <span className="text-xs">JSONにない変数をFigmaから削除</span>
+          </label>
+        </section>
+
+        {warnings.length > 0 && (
+          <div className="alert alert-warning text-xs">
+            <ul className="space-y-1 max-h-32 overflow-y-auto">
+              {warnings.map(w => <li key={w}>{w}</li>)}
+            </ul>
+          </div>
+        )}
+
+        <button
+          type="submit"
+          className="btn btn-primary w-full"
+          disabled={isLoading || !jsonText.trim()}
+        >
+          {isLoading ? (
+            <>
+              <span className="loading loading-spinner"></span>
+              インポート中...
+            </>
+          ) : (
+            'JSONをインポート'
+          )}
+        </button>
+      </form>
+
+      {/* toast notifications */}
+      {status && <StatusMessage {...status} />}
+    </div>
+  );
+};
+
+export default JsonImportTab;
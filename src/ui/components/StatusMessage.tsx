@@ -1,42 +1,25 @@
-// DaisyUIに合わせてプレーン要素に置換
+import { ERROR_GUIDANCE, ErrorCode } from '../../shared/errors';
 
-interface StatusMessageProps {
-  type: 'loading' | 'success' | 'error';
-  message: string;
-  details?: {
-    error?: string;
-    suggestion?: string;
-  };
+// 各タブのトースト通知（エラーコードがある場合は対処方法を表示。見出しはメッセージに含まれるため表示しない）
+export interface StatusState {
+  type: 'success' | 'error' | 'info';
+  text: string;
+  code?: ErrorCode;
 }
 
-const StatusMessage = ({ type, message, details }: StatusMessageProps) => {
-  const getIcon = () => {
-    switch (type) {
-      case 'loading':
-        return <span className="loading loading-spinner text-primary" />;
-      case 'success':
-        return <span className="text-success text-lg">✅</span>;
-      case 'error':
-        return <span className="text-error text-lg">❌</span>;
-      default:
-        return null;
-    }
-  };
-
-
+const StatusMessage = ({ type, text, code }: StatusState) => {
+  const remedy = type === 'error' && code ? ERROR_GUIDANCE[code].remedy : null;
 
   return (
-    <div className="fixed bottom-4 left-4 right-4 z-50">
-      <div className={`alert shadow-lg ${
-        type === 'success' ? 'alert-success' :
-        type === 'error' ? 'alert-error' : 'alert-info'
-      }`}>
-        <div>
-          {getIcon()}
-          <span>{message}</span>
-        </div>
-        {details && details.suggestion && (
-          <div className="text-sm opacity-80">💡 {details.suggestion}</div>
+    <div className="toast toast-end">
+      <div className={`alert ${type === 'success' ? 'alert-success' : type === 'error' ? 'alert-error' : 'alert-info'}`}>
+        {remedy ? (
+          <div className="flex flex-col gap-1">
+            <span>{text}</span>
+            <span className="text-xs opacity-80">💡 {remedy}</span>
+          </div>
+        ) : (
+          <span>{text}</span>
         )}
       </div>
     </div>
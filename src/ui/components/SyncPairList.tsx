@@ -1,4 +1,4 @@
-import { useCallback } from 'react';
+import { useCallback, useState } from 'react';
 import {
   GridList,
   GridListItem,
@@ -6,8 +6,10 @@ import {
   Button,
   DropIndicator,
 } from 'react-aria-components';
-import type { CollectionDbPair } from '../../shared/types';
+import type { CollectionDbPair, NotionDatabaseProperty, UnitConversionSettings } from '../../shared/types';
 import { generateUUID } from '../../shared/uuid';
+import { DEFAULT_PAIR_OPTIONS, getPairOptions } from '../services/pairSettings';
+import FieldMappingEditor from './FieldMappingEditor';
 
 interface Collection {
   id: string;
@@ -20,6 +22,7 @@ interface SyncPairListProps {
   collections: Collection[];
   onPairsChange: (pairs: CollectionDbPair[]) => void;
   onSave: () => void;
+  loadSchema?: (databaseId: string) => Promise<NotionDatabaseProperty[]>;  // データベースのスキーマ取得
 }
 
 // ドラッグハンドルアイコン
@@ -39,11 +42,156 @@ const DragHandle = () => (
   </svg>
 );
 
+// ペアのインポート設定（折りたたみ表示）
+const PairOptionsEditor = ({
+  pair,
+  onChange,
+  loadSchema,
+}: {
+  pair: CollectionDbPair;
+  onChange: (updates: Partial<CollectionDbPair>) => void;
+  loadSchema?: (databaseId: string) => Promise<NotionDatabaseProperty[]>;
+}) => {
+  const options = getPairOptions(pair);
+  // 取得したスキーマ（データベースIDが変わった場合は使用しない）
+  const [schema, setSchema] = useState<{ databaseId: string; properties: NotionDatabaseProperty[] } | null>(null);
+  const properties = schema?.databaseId === pair.databaseId.trim() ? schema.properties : undefined;
+  const [schemaStatus, setSchemaStatus] = useState<{ loading: boolean; error?: string }>({ loading: false });
+
+  // データベースのプロパティを取得（マッピングの選択肢と検証に使用）
+  const handleLoadSchema = async () => {
+    if (!loadSchema) return;
+    const databaseId = pair.databaseId.trim();
+    setSchemaStatus({ loading: true });
+    try {
+      setSchema({ databaseId, properties: await loadSchema(databaseId) });
+      setSchemaStatus({ loading: false });
+    } catch (err) {
+      setSchemaStatus({ loading: false, error: err instanceof Error ? err.message : 'プロパティを取得できませんでした' });
+    }
+  };
+  const summary = [
+    options.overwriteExisting ? '上書き' : '追加のみ',
+    ...(options.deleteRemovedVariables ? ['削除'] : []),
+    ...(options.strictAliasResolution ? ['厳密'] : []),
+  ].join(' / ');
+
+  return (
+    <details className="text-xs" onClick={(e) => e.stopPropagation()}>
+      <summary className="cursor-pointer text-base-content/70 select-none">
+        インポート設定（{summary}）
+      </summary>
+      <div className="mt-2 space-y-2">
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            className="checkbox checkbox-primary checkbox-xs"
+            checked={options.overwriteExisting}
+            onChange={(e) => onChange({ overwriteExisting: e.target.checked })}
+          />
+          <span>既存のVariableを上書き</span>
+        </label>
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            className="checkbox checkbox-primary checkbox-xs"
+            checked={options.deleteRemovedVariables}
+            onChange={(e) => onChange({ deleteRemovedVariables: e.target.checked })}
+          />
+          <span>Notionから削除された変数をFigmaからも削除</span>
+        </label>
+        {options.deleteRemovedVariables && (
+          <small className="text-warning block ml-6">⚠️ この変数を参照しているコンポーネントの参照も解除されます</small>
+        )}
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            className="checkbox checkbox-primary checkbox-xs"
+            checked={options.strictAliasResolution}
+            onChange={(e) => onChange({ strictAliasResolution: e.target.checked })}
+          />
+          <span>厳密な参照解決（完全一致・コレクション修飾のみ）</span>
+        </label>
+        <div className="pt-1 space-y-1">
+          <span className="font-semibold block">単位の換算（rem / em / pt / % → px）</span>
+          <div className="flex items-center gap-2">
+            <label className="flex items-center gap-1">
+              <span>1rem =</span>
+              <input
+                type="number"
+                className="input input-bordered input-xs w-16"
+                min={1}
+                value={options.unitConversion.rootFontSize}
+                onChange={(e) => {
+                  const rootFontSize = Number(e.target.value);
+                  if (rootFontSize > 0) onChange({ unitConversion: { ...options.unitConversion, rootFontSize } });
+                }}
+              />
+              <span>px</span>
+            </label>
+            <label className="flex items-center gap-1">
+              <span>1pt =</span>
+              <input
+                type="number"
+                className="input input-bordered input-xs w-16"
+                min={0.01}
+                step={0.01}
+                value={Math.round(options.unitConversion.ptToPx * 100) / 100}
+                onChange={(e) => {
+                  const ptToPx = Number(e.target.value);
+                  if (ptToPx > 0) onChange({ unitConversion: { ...options.unitConversion, ptToPx } });
+                }}
+              />
+              <span>px</span>
+            </label>
+          </div>
+          <label className="flex items-center gap-2">
+            <span>%</span>
+            <select
+              className="select select-bordered select-xs"
+              value={options.unitConversion.percentage}
+              onChange={(e) => onChange({
+                unitConversion: { ...options.unitConversion, percentage: e.target.value as UnitConversionSettings['percentage'] }
+              })}
+            >
+              <option value="keep">そのまま（50% → 50）</option>
+              <option value="ratio">比率に変換（50% → 0.5）</option>
+            </select>
+          </label>
+          <small className="text-base-content/60 block">vh / vw などpxに換算できない単位の値はエラーになります</small>
+        </div>
+        <div className="pt-1">
+          <div className="flex items-center justify-between mb-2">
+            <span className="font-semibold">フィールドマッピング</span>
+            {loadSchema && (
+              <button
+                type="button"
+                className="btn btn-ghost btn-xs"
+                onClick={handleLoadSchema}
+                disabled={schemaStatus.loading || !pair.databaseId.trim()}
+              >
+                {schemaStatus.loading ? <span className="loading loading-spinner loading-xs"></span> : 'Notionからプロパティを取得'}
+              </button>
+            )}
+          </div>
+          {schemaStatus.error && <small className="text-error block mb-2">{schemaStatus.error}</small>}
+          <FieldMappingEditor
+            mappings={options.mappings}
+            onChange={(mappings) => onChange({ mappings })}
+            properties={properties}
+          />
+        </div>
+      </div>
+    </details>
+  );
+};
+
 const SyncPairList = ({
   pairs,
   collections,
   onPairsChange,
   onSave,
+  loadSchema,
 }: SyncPairListProps) => {
   // ペアを更新
   const updatePair = useCallback(
@@ -219,10 +367,17 @@ const SyncPairList = ({
             }
             onBlur={onSave}
           />
+
+          {/* ペアごとのインポート設定 */}
+          <PairOptionsEditor
+            pair={pair}
+            onChange={(updates) => updatePair(pair.id, updates)}
+            loadSchema={loadSchema}
+          />
         </div>
       </GridListItem>
     ),
-    [collections, updatePair, removePair, onSave]
+    [collections, updatePair, removePair, onSave, loadSchema]
   );
 
   return (
@@ -245,6 +400,7 @@ const createEmptyPair = (): CollectionDbPair => ({
   databaseId: '',
   enabled: true,
   isManualInput: false,
+  ...DEFAULT_PAIR_OPTIONS,
 });
 
 export default SyncPairList;
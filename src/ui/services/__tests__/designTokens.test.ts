@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { parseDesignTokens, convertTokenAlias } from '../designTokens';
+
+describe('designTokens', () => {
+  describe('convertTokenAlias', () => {
+    it('should convert dot path aliases to slash paths', () => {
+      expect(convertTokenAlias('{Color.Primary.500}')).toBe('{Color/Primary/500}');
+      expect(convertTokenAlias('#ffffff')).toBeNull();
+      expect(convertTokenAlias(16)).toBeNull();
+    });
+
+    it('should drop the collection segment when it is a collection name', () => {
+      expect(convertTokenAlias('{Primitives.Color.White}', new Set(['Primitives']))).toBe('{Color/White}');
+    });
+  });
+
+  describe('parseDesignTokens', () => {
+    it('should flatten nested groups and inherit $type from groups', () => {
+      const { variables, warnings } = parseDesignTokens({
+        Color: {
+          $type: 'color',
+          Primary: {
+            500: { $value: '#3366CC', $description: 'Primary 500' },
+            100: { $value: 'rgb(230, 242, 255)' }
+          }
+        },
+        Spacing: {
+          Base: { $type: 'dimension', $value: '16px' }
+        },
+        Flag: { $value: true }
+      });
+
+      expect(warnings).toEqual([]);
+      expect(variables).toEqual([
+        // 数値キーはオブジェクトの列挙順で先に並ぶ
+        { id: '', name: '100', group: 'Color/Primary', value: '#e6f2ff', type: 'COLOR', description: '' },
+        { id: '', name: '500', group: 'Color/Primary', value: '#3366CC', type: 'COLOR', description: 'Primary 500' },
+        { id: '', name: 'Base', group: 'Spacing', value: 16, type: 'NUMBER', description: '' },
+        { id: '', name: 'Flag', group: '', value: true, type: '', description: '' }
+      ]);
+    });
+
+    it('should convert aliases and leave their type empty', () => {
+      const { variables } = parseDesignTokens({
+        Color: {
+          $type: 'color',
+          Brand: { $value: '{Color.Primary}' },
+          Primary: { $value: '#0066ff' }
+        }
+      });
+
+      expect(variables[0]).toMatchObject({ name: 'Brand', value: '{Color/Primary}', type: '' });
+    });
+
+    it('should read exported JSON with collections and mode extensions', () => {
+      const exported = JSON.stringify({
+        Primitives: {
+          White: { $type: 'color', $value: '#ffffff' }
+        },
+        Theme: {
+          Background: {
+            $type: 'color',
+            $value: '{Primitives.White}',
+            $extensions: {
+              'com.figma.modes': { Light: '{Primitives.White}', Dark: '#000000' }
+            }
+          }
+        }
+      });
+
+      const { variables } = parseDesignTokens(exported, { splitCollections: true });
+
+      expect(variables).toEqual([
+        expect.objectContaining({ name: 'White', group: '', collection: 'Primitives', value: '#ffffff' }),
+        expect.objectContaining({
+          name: 'Background',
+          collection: 'Theme',
+          value: '{White}',
+          valuesByMode: { Light: '{White}', Dark: '#000000' }
+        })
+      ]);
+    });
+
+    it('should skip unsupported composite tokens with a warning', () => {
+      const { variables, warnings } = parseDesignTokens({
+        Shadow: {
+          Card: { $type: 'shadow', $value: { offsetX: '0px', offsetY: '2px', blur: '4px', color: '#00000033' } }
+        },
+        Size: { Broken: { $type: 'number', $value: 'large' } }
+      });
+
+      expect(variables).toEqual([]);
+      expect(warnings).toEqual([
+        'Shadow.Card: 未対応の型のためスキップしました ($type: shadow)',
+        'Size.Broken: 値を読み取れないためスキップしました'
+      ]);
+    });
+
+    it('should accept color objects and dimension objects', () => {
+      const { variables } = parseDesignTokens({
+        Accent: { $type: 'color', $value: { colorSpace: 'srgb', components: [1, 0, 0], alpha: 0.5 } },
+        Radius: { $type: 'dimension', $value: { value: 8, unit: 'px' } }
+      });
+
+      expect(variables.map(v => v.value)).toEqual(['#ff000080', 8]);
+    });
+
+    it('should convert color objects according to their color space', () => {
+      const { variables, warnings } = parseDesignTokens({
+        Hsl: { $type: 'color', $value: { colorSpace: 'hsl', components: [120, 100, 25] } },
+        Oklch: { $type: 'color', $value: { colorSpace: 'oklch', components: [0.628, 0.2577, 29.23], hex: '#000000' } },
+        P3: { $type: 'color', $value: { colorSpace: 'display-p3', components: [0, 0, 1], alpha: 0.5 } },
+        Unknown: { $type: 'color', $value: { colorSpace: 'cmyk', components: [0, 1, 1, 0], hex: '#ff0000' } }
+      });
+
+      // sRGBの成分として解釈しない（P3の青はsRGBの範囲に収める）
+      expect(variables.map(v => v.value)).toEqual(['#008000', '#ff0000', '#0000ff80']);
+      expect(warnings).toEqual(['Unknown: 未対応の色空間のためスキップしました (colorSpace: cmyk)']);
+    });
+
+    it('should throw on invalid JSON', () => {
+      expect(() => parseDesignTokens('{ invalid')).toThrow('JSONの形式が正しくありません');
+      expect(() => parseDesignTokens('[]')).toThrow('トップレベルはオブジェクト');
+    });
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { findUnknownMappings, suggestFieldMappings } from '../fieldMappingSchema';
+import { FieldMapping, NotionDatabaseProperty } from '@/shared/types';
+
+describe('fieldMappingSchema', () => {
+  describe('suggestFieldMappings', () => {
+    it('should map the title property and properties matched by name and type', () => {
+      const properties: NotionDatabaseProperty[] = [
+        { name: 'Token', type: 'title' },
+        { name: 'ValueRollup', type: 'rollup' },
+        { name: 'Value', type: 'relation' },
+        { name: 'Type', type: 'select' },
+        { name: '説明', type: 'rich_text' },
+        { name: 'Group', type: 'date' },
+        { name: 'Dark', type: 'rich_text' }
+      ];
+
+      expect(suggestFieldMappings(properties)).toEqual([
+        { notionField: 'Token', variableProperty: 'name' },
+        { notionField: 'Value', variableProperty: 'value' },
+        { notionField: 'Type', variableProperty: 'type' },
+        { notionField: '説明', variableProperty: 'description' },
+        { notionField: 'Dark', variableProperty: 'value', modeName: 'Dark' }
+      ]);
+    });
+
+    it('should return an empty list for an empty schema', () => {
+      expect(suggestFieldMappings([])).toEqual([]);
+    });
+  });
+
+  describe('findUnknownMappings', () => {
+    it('should return mappings whose property does not exist in the database', () => {
+      const mappings: FieldMapping[] = [
+        { notionField: 'Name', variableProperty: 'name' },
+        { notionField: 'Valeu', variableProperty: 'value' },
+        { notionField: '', variableProperty: 'group' }
+      ];
+
+      expect(findUnknownMappings(mappings, [{ name: 'Name', type: 'title' }, { name: 'Value', type: 'rich_text' }])).toEqual([
+        { notionField: 'Valeu', variableProperty: 'value' }
+      ]);
+    });
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { fetchNotionData, fetchNotionPage } from '../notionProxy';
+import { fetchNotionData, fetchNotionPage, createNotionPage, updateNotionPage, fetchNotionDatabaseSchema, isAbortError } from '../notionProxy';
+import { ErrorCode, SyncError } from '@/shared/errors';
 
 describe('notionProxy', () => {
   beforeEach(() => {
@@ -134,6 +135,38 @@ describe('notionProxy', () => {
       ).rejects.toThrow('Notion API error: 401');
     });
 
+    it('should reject with the error code returned by the proxy', async () => {
+      globalThis.fetch = vi.fn().mockResolvedValue({
+        ok: false,
+        status: 404,
+        text: () => Promise.resolve(JSON.stringify({ object: 'error', code: 'object_not_found', message: 'Could not find database', errorCode: 'DATABASE_NOT_SHARED' })),
+      });
+
+      const error = await fetchNotionData('api-key', 'db-id', 'https://proxy.test', {}).catch(e => e);
+      expect(error).toBeInstanceOf(SyncError);
+      expect(error.code).toBe(ErrorCode.DATABASE_NOT_SHARED);
+      expect(error.message).toContain('Notion API error: 404 - Could not find database');
+    });
+
+    it('should retry a rate-limited query after Retry-After', async () => {
+      const mockFetch = vi.fn()
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 429,
+          headers: new Headers({ 'Retry-After': '0' }),
+          text: () => Promise.resolve(JSON.stringify({ code: 'rate_limited', errorCode: 'RATE_LIMITED' })),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () => Promise.resolve({ results: [{ id: '1' }], has_more: false, next_cursor: null }),
+        });
+      globalThis.fetch = mockFetch;
+
+      const result = await fetchNotionData('api-key', 'db-id', 'https://proxy.test', {});
+      expect(result.results).toEqual([{ id: '1' }]);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
     it('should send correct body structure', async () => {
       const mockFetch = vi.fn().mockResolvedValue({
         ok: true,
@@ -156,6 +189,23 @@ describe('notionProxy', () => {
         },
       });
     });
+
+    it('should pass the abort signal to fetch and reject when aborted', async () => {
+      const mockFetch = vi.fn().mockImplementation((_url: string, init: RequestInit) =>
+        new Promise((_resolve, reject) => {
+          init.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+        })
+      );
+      globalThis.fetch = mockFetch;
+      const controller = new AbortController();
+
+      const promise = fetchNotionData('api-key', 'db-id', 'https://proxy.test', {}, undefined, controller.signal);
+      controller.abort();
+
+      const error = await promise.catch(e => e);
+      expect(mockFetch.mock.calls[0][1].signal).toBe(controller.signal);
+      expect(isAbortError(error)).toBe(true);
+    });
   });
 
   describe('fetchNotionPage', () => {
@@ -220,5 +270,152 @@ describe('notionProxy', () => {
         fetchNotionPage('api-key', 'page-id', 'https://proxy.test')
       ).rejects.toThrow('Notion get page error: 404');
     });
+
+    it('should pass the abort signal to fetch', async () => {
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({ id: 'page-id' }),
+      });
+      globalThis.fetch = mockFetch;
+      const controller = new AbortController();
+
+      await fetchNotionPage('api-key', 'page-id', 'https://proxy.test', undefined, controller.signal);
+
+      expect(mockFetch.mock.calls[0][1].signal).toBe(controller.signal);
+    });
+  });
+
+  describe('createNotionPage', () => {
+    it('should throw error when proxyUrl is empty', async () => {
+      await expect(createNotionPage('api-key', 'db-id', {}, '')).rejects.toThrow(
+        'プロキシURLが未設定です'
+      );
+    });
+
+    it('should send correct body structure for createPage action', async () => {
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({ id: 'new-page' }),
+      });
+      globalThis.fetch = mockFetch;
+
+      const properties = { Name: { title: [{ type: 'text', text: { content: 'Primary' } }] } };
+      const result = await createNotionPage('api-key', 'db-id', properties, 'https://proxy.test', 'my-token');
+
+      expect(result).toEqual({ id: 'new-page' });
+      expect(mockFetch.mock.calls[0][1].headers['X-Proxy-Token']).toBe('my-token');
+      const callBody = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(callBody).toMatchObject({
+        apiKey: 'api-key',
+        databaseId: 'db-id',
+        action: 'createPage',
+        notionVersion: '2022-06-28',
+        properties,
+      });
+    });
+
+    it('should throw error when the response has no page ID', async () => {
+      globalThis.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({ object: 'list' }),
+      });
+
+      await expect(
+        createNotionPage('api-key', 'db-id', {}, 'https://proxy.test')
+      ).rejects.toThrow('Notion create page error: 応答にページIDがありません');
+    });
+
+    it('should throw error on non-ok response', async () => {
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: false,
+        status: 400,
+        text: () => Promise.resolve('validation_error'),
+      });
+      globalThis.fetch = mockFetch;
+
+      await expect(
+        createNotionPage('api-key', 'db-id', {}, 'https://proxy.test')
+      ).rejects.toThrow('Notion create page error: 400');
+    });
+  });
+
+  describe('updateNotionPage', () => {
+    it('should throw error when proxyUrl is not https', async () => {
+      await expect(
+        updateNotionPage('api-key', 'page-id', {}, 'http://proxy.test')
+      ).rejects.toThrow('不正なプロキシURL');
+    });
+
+    it('should send correct body structure for updatePage action', async () => {
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({ id: 'page-id' }),
+      });
+      globalThis.fetch = mockFetch;
+
+      const properties = { Value: { rich_text: [{ type: 'text', text: { content: '#ffffff' } }] } };
+      await updateNotionPage('api-key', 'page-id', properties, 'https://proxy.test');
+
+      const callBody = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(callBody).toMatchObject({
+        apiKey: 'api-key',
+        pageId: 'page-id',
+        action: 'updatePage',
+        properties,
+      });
+    });
+
+    it('should throw error on non-ok response', async () => {
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: false,
+        status: 404,
+        text: () => Promise.resolve('Not Found'),
+      });
+      globalThis.fetch = mockFetch;
+
+      await expect(
+        updateNotionPage('api-key', 'page-id', {}, 'https://proxy.test')
+      ).rejects.toThrow('Notion update page error: 404');
+    });
+  });
+
+  describe('fetchNotionDatabaseSchema', () => {
+    it('should send retrieveDatabase action and return property names with types', async () => {
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({
+          id: 'db-id',
+          properties: {
+            Name: { id: 'title', type: 'title', title: {} },
+            Value: { id: 'abc', type: 'rich_text', rich_text: {} },
+          },
+        }),
+      });
+      globalThis.fetch = mockFetch;
+
+      const properties = await fetchNotionDatabaseSchema('api-key', 'db-id', 'https://proxy.test', 'token');
+
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body)).toMatchObject({
+        apiKey: 'api-key',
+        databaseId: 'db-id',
+        action: 'retrieveDatabase',
+      });
+      expect(properties).toEqual([
+        { name: 'Name', type: 'title' },
+        { name: 'Value', type: 'rich_text' },
+      ]);
+    });
+
+    it('should throw error on non-ok response', async () => {
+      globalThis.fetch = vi.fn().mockResolvedValue({
+        ok: false,
+        status: 404,
+        text: () => Promise.resolve('object_not_found'),
+      });
+
+      await expect(
+        fetchNotionDatabaseSchema('api-key', 'db-id', 'https://proxy.test')
+      ).rejects.toThrow('Notion retrieve database error: 404');
+    });
   });
 });
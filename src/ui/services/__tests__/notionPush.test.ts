@@ -0,0 +1,243 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { planNotionPush, pushVariablesToNotion, buildPropertyValue } from '../notionPush';
+import { createNotionPage, fetchNotionDatabaseSchema, updateNotionPage } from '../notionProxy';
+import { FieldMapping, NotionDatabaseProperty, NotionVariable, VariableType } from '../../../shared/types';
+
+vi.mock('../notionProxy', () => ({
+  createNotionPage: vi.fn(),
+  updateNotionPage: vi.fn(),
+  fetchNotionDatabaseSchema: vi.fn()
+}));
+
+const text = (content: string) => [{ plain_text: content }];
+
+// Notionの既存ページ
+const notionPage = (id: string, name: string, group: string, value: any, extra: Record<string, any> = {}) => ({
+  id,
+  properties: {
+    Name: { type: 'title', title: text(name) },
+    Group: { type: 'select', select: group ? { name: group } : null },
+    Type: { type: 'select', select: { name: 'COLOR' } },
+    Description: { type: 'rich_text', rich_text: [] },
+    Value: value,
+    ...extra
+  }
+});
+
+// データベースのスキーマ（notionPage と同じ列）
+const schema = (valueType: string, extra: Record<string, string> = {}): NotionDatabaseProperty[] =>
+  Object.entries({ Name: 'title', Group: 'select', Type: 'select', Description: 'rich_text', Value: valueType, ...extra })
+    .map(([name, type]) => ({ name, type }));
+
+const variable = (id: string, group: string, name: string, value: NotionVariable['value'], type: VariableType = VariableType.COLOR): NotionVariable => ({
+  id,
+  name,
+  group,
+  value,
+  type,
+  description: ''
+});
+
+describe('notionPush', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('buildPropertyValue', () => {
+    it('should build payload for each property type', () => {
+      expect(buildPropertyValue('title', 'Primary')).toEqual({ title: [{ type: 'text', text: { content: 'Primary' } }] });
+      expect(buildPropertyValue('number', '16')).toEqual({ number: 16 });
+      expect(buildPropertyValue('select', '')).toEqual({ select: null });
+      expect(buildPropertyValue('checkbox', 'true')).toEqual({ checkbox: true });
+      expect(buildPropertyValue('relation', '', 'page-1')).toEqual({ relation: [{ id: 'page-1' }] });
+      expect(buildPropertyValue('url', 'x')).toBeNull();
+    });
+  });
+
+  describe('planNotionPush', () => {
+    it('should mark existing pages as unchanged, update or create', () => {
+      const pages = [
+        notionPage('p-white', 'White', 'Color', { type: 'rich_text', rich_text: text('#FFFFFF') }),
+        notionPage('p-black', 'Black', 'Color', { type: 'rich_text', rich_text: text('#111111') })
+      ];
+      const items = planNotionPush([
+        variable('v-white', 'Color', 'White', '#ffffff'),
+        variable('v-black', 'Color', 'Black', '#000000'),
+        variable('v-red', 'Color', 'Red', '#ff0000')
+      ], pages, schema('rich_text'));
+
+      expect(items.map(i => i.action)).toEqual(['unchanged', 'update', 'create']);
+      // 更新時は差分のあるプロパティのみ
+      expect(items[1].pageId).toBe('p-black');
+      expect(items[1].properties).toEqual({
+        Value: { rich_text: [{ type: 'text', text: { content: '#000000' } }] }
+      });
+      // 作成時はページの型に合わせた全プロパティ
+      expect(items[2].properties).toMatchObject({
+        Name: { title: [{ type: 'text', text: { content: 'Red' } }] },
+        Group: { select: { name: 'Color' } },
+        Type: { select: { name: 'COLOR' } },
+        Value: { rich_text: [{ type: 'text', text: { content: '#ff0000' } }] }
+      });
+    });
+
+    it('should update the linked page of a variable renamed in Figma instead of creating a new one', () => {
+      const pages = [
+        notionPage('p-primary', 'Primary', 'Color', { type: 'relation', relation: [] }),
+        notionPage('p-bg', 'Background', 'Theme', { type: 'relation', relation: [] })
+      ];
+      const items = planNotionPush([
+        { ...variable('v-brand', 'Brand', 'Main', '#0000ff'), notionPageId: 'p-primary' },
+        // 紐付いたページの旧名とは一致させない
+        variable('v-primary', 'Color', 'Primary', '#ff0000'),
+        variable('v-bg', 'Theme', 'Background', '{Brand/Main}')
+      ], pages, schema('relation'));
+
+      expect(items[0]).toMatchObject({ action: 'update', pageId: 'p-primary' });
+      expect(items[0].properties).toMatchObject({
+        Name: { title: [{ type: 'text', text: { content: 'Main' } }] },
+        Group: { select: { name: 'Brand' } }
+      });
+      expect(items[1].action).toBe('create');
+      // リネーム後の名前への参照は紐付いたページに解決する
+      expect(items[2].properties).toEqual({ Value: { relation: [{ id: 'p-primary' }] } });
+    });
+
+    it('should write aliases as relations when the value property is a relation', () => {
+      const pages = [
+        notionPage('p-white', 'White', 'Color', { type: 'relation', relation: [] }),
+        notionPage('p-bg', 'Background', 'Theme', { type: 'relation', relation: [] })
+      ];
+      const items = planNotionPush([
+        variable('v-bg', 'Theme', 'Background', '{Color/White}'),
+        variable('v-surface', 'Theme', 'Surface', '{Theme/Accent}')
+      ], pages, schema('relation'));
+
+      expect(items[0].properties).toEqual({ Value: { relation: [{ id: 'p-white' }] } });
+      // 参照先ページが未作成の場合は後から設定する
+      expect(items[1].pendingRelations).toEqual([{ key: 'Value', targetName: 'Theme/Accent' }]);
+    });
+
+    it('should keep values with units instead of writing the converted px value', () => {
+      const numberType = { Type: { type: 'select', select: { name: VariableType.NUMBER } } };
+      const pages = [
+        notionPage('p-large', 'Large', 'Spacing', { type: 'rich_text', rich_text: text('1.5rem') }, numberType),
+        notionPage('p-base', 'Base', 'Spacing', { type: 'rich_text', rich_text: text('16') }, numberType)
+      ];
+      const items = planNotionPush([
+        variable('v-large', 'Spacing', 'Large', '1.5rem', VariableType.NUMBER),
+        variable('v-base', 'Spacing', 'Base', '1rem', VariableType.NUMBER)
+      ], pages, schema('rich_text'));
+
+      expect(items[0].action).toBe('unchanged');
+      expect(items[1].properties).toEqual({ Value: { rich_text: [{ type: 'text', text: { content: '1rem' } }] } });
+
+      // 数値列には単位付きの値を書き込まない
+      const numberItems = planNotionPush(
+        [variable('v-large', 'Spacing', 'Large', '1.5rem', VariableType.NUMBER)],
+        [notionPage('p-large', 'Large', 'Spacing', { type: 'number', number: 24 }, numberType)],
+        schema('number')
+      );
+      expect(numberItems[0].properties).not.toHaveProperty('Value');
+      expect(numberItems[0].warnings).toEqual(['Value: 単位付きの値 "1.5rem" は数値列に書き込めません']);
+    });
+
+    it('should skip read-only properties and write mode columns', () => {
+      const pages = [
+        notionPage('p-bg', 'Background', 'Theme', { type: 'rich_text', rich_text: text('#ffffff') }, {
+          ValueRollup: { type: 'rollup', rollup: { type: 'array', array: [] } },
+          Dark: { type: 'rich_text', rich_text: text('#ffffff') }
+        })
+      ];
+      const mappings: FieldMapping[] = [
+        { notionField: 'Value', variableProperty: 'value' },
+        { notionField: 'Dark', variableProperty: 'value', modeName: 'Dark' }
+      ];
+      const items = planNotionPush([
+        { ...variable('v-bg', 'Theme', 'Background', '#ffffff'), valuesByMode: { Light: '#ffffff', Dark: '#000000' } }
+      ], pages, schema('rich_text', { ValueRollup: 'rollup', Dark: 'rich_text' }), mappings);
+
+      expect(items[0].action).toBe('update');
+      expect(items[0].properties).toEqual({
+        Dark: { rich_text: [{ type: 'text', text: { content: '#000000' } }] }
+      });
+    });
+  });
+
+  describe('pushVariablesToNotion', () => {
+    const options = { apiKey: 'key', databaseId: 'db', proxyUrl: 'https://proxy.test' };
+
+    beforeEach(() => {
+      vi.mocked(fetchNotionDatabaseSchema).mockResolvedValue(schema('relation'));
+    });
+
+    it('should create pages and set pending relations after targets exist', async () => {
+      vi.mocked(createNotionPage)
+        .mockResolvedValueOnce({ id: 'new-surface' })
+        .mockResolvedValueOnce({ id: 'new-accent' });
+      vi.mocked(updateNotionPage).mockImplementation(async (_apiKey, pageId) => ({ id: pageId }));
+
+      const pages = [notionPage('p-white', 'White', 'Color', { type: 'relation', relation: [] })];
+      const result = await pushVariablesToNotion([
+        variable('v-surface', 'Theme', 'Surface', '{Theme/Accent}'),
+        variable('v-accent', 'Theme', 'Accent', '{Color/White}')
+      ], pages, options);
+
+      expect(result).toEqual({
+        created: 2, updated: 0, unchanged: 0, failed: 0, errors: [],
+        createdNames: ['Theme/Surface', 'Theme/Accent'], updatedNames: []
+      });
+      expect(vi.mocked(createNotionPage).mock.calls[1][2]).toMatchObject({
+        Value: { relation: [{ id: 'p-white' }] }
+      });
+      expect(updateNotionPage).toHaveBeenCalledWith(
+        'key',
+        'new-surface',
+        { Value: { relation: [{ id: 'new-accent' }] } },
+        'https://proxy.test',
+        undefined
+      );
+    });
+
+    it('should write columns with the types of the schema when the database is empty', async () => {
+      vi.mocked(fetchNotionDatabaseSchema).mockResolvedValue(
+        schema('number', { Unit: 'select', ValueRollup: 'rollup' }).filter(p => p.name !== 'Description')
+      );
+      vi.mocked(createNotionPage).mockResolvedValue({ id: 'new-1' });
+
+      const result = await pushVariablesToNotion(
+        [{ ...variable('v-1', 'Spacing', 'Large', 24, VariableType.NUMBER), description: 'Gap [rem]' }],
+        [],
+        { ...options, mappings: [{ notionField: 'Unit', variableProperty: 'unit' }] }
+      );
+
+      expect(result.created).toBe(1);
+      expect(fetchNotionDatabaseSchema).toHaveBeenCalledWith('key', 'db', 'https://proxy.test', undefined);
+      // データベースにないDescription列・読み取り専用の列は書き込まない
+      expect(vi.mocked(createNotionPage).mock.calls[0][2]).toEqual({
+        Name: { title: [{ type: 'text', text: { content: 'Large' } }] },
+        Group: { select: { name: 'Spacing' } },
+        Type: { select: { name: 'NUMBER' } },
+        Value: { number: 24 },
+        Unit: { select: { name: 'rem' } }
+      });
+    });
+
+    it('should continue after a failed page and report the error', async () => {
+      vi.mocked(createNotionPage)
+        .mockRejectedValueOnce(new Error('Notion create page error: 400 - validation_error'))
+        .mockResolvedValueOnce({ id: 'new-2' });
+
+      const onProgress = vi.fn();
+      const result = await pushVariablesToNotion([
+        variable('v-1', 'Color', 'One', '#111111'),
+        variable('v-2', 'Color', 'Two', '#222222')
+      ], [], { ...options, onProgress });
+
+      expect(result.created).toBe(1);
+      expect(result.failed).toBe(1);
+      expect(result.errors[0]).toContain('Color/One');
+      expect(onProgress).toHaveBeenLastCalledWith(2, 2);
+    });
+  });
+});
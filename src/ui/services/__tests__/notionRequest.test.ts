@@ -0,0 +1,194 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  createConcurrencyLimiter,
+  fetchWithRetry,
+  formatRetryMessage,
+  getBackoffDelay,
+  onNotionRetry,
+  parseRetryAfter,
+  RetryEvent
+} from '../notionRequest';
+
+// fetch の応答（Retry-After などのヘッダー・本文付き）
+const response = (status: number, headers: Record<string, string> = {}, body: object = {}) =>
+  new Response(JSON.stringify(body), { status, headers });
+
+describe('notionRequest', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    // ゆらぎをなくす（係数 1.0）
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  describe('parseRetryAfter', () => {
+    it('should parse seconds and HTTP dates', () => {
+      expect(parseRetryAfter('3')).toBe(3000);
+      expect(parseRetryAfter('Wed, 21 Oct 2026 07:28:05 GMT', Date.parse('Wed, 21 Oct 2026 07:28:00 GMT'))).toBe(5000);
+      expect(parseRetryAfter('soon')).toBeUndefined();
+      expect(parseRetryAfter(null)).toBeUndefined();
+    });
+  });
+
+  describe('getBackoffDelay', () => {
+    it('should double the delay per attempt up to the maximum', () => {
+      expect([1, 2, 3, 4].map(attempt => getBackoffDelay(attempt, 1000, 5000))).toEqual([1000, 2000, 4000, 5000]);
+    });
+  });
+
+  describe('fetchWithRetry', () => {
+    it('should wait for Retry-After on 429 and notify the retry', async () => {
+      const mockFetch = vi.fn()
+        .mockResolvedValueOnce(response(429, { 'Retry-After': '2' }))
+        .mockResolvedValueOnce(response(200));
+      globalThis.fetch = mockFetch;
+      const events: RetryEvent[] = [];
+      const unsubscribe = onNotionRetry(event => events.push(event));
+
+      const promise = fetchWithRetry('https://proxy.test', {}, { label: 'query' });
+      await vi.advanceTimersByTimeAsync(1999);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1);
+
+      await expect(promise).resolves.toMatchObject({ status: 200 });
+      expect(events).toEqual([
+        { label: 'query', reason: 'rate_limited', status: 429, attempt: 1, maxRetries: 4, delayMs: 2000 }
+      ]);
+      expect(formatRetryMessage(events[0])).toBe('Notion APIのリクエスト制限に達したため、2 秒後に再試行します（1/4）');
+      unsubscribe();
+    });
+
+    it('should retry server and network errors with backoff', async () => {
+      const mockFetch = vi.fn()
+        .mockResolvedValueOnce(response(502))
+        .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+        .mockResolvedValueOnce(response(200));
+      globalThis.fetch = mockFetch;
+
+      const promise = fetchWithRetry('https://proxy.test', {}, { label: 'query', baseDelayMs: 100 });
+      await vi.advanceTimersByTimeAsync(300);
+
+      await expect(promise).resolves.toMatchObject({ status: 200 });
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should return the last response after the maximum retries', async () => {
+      const mockFetch = vi.fn().mockResolvedValue(response(503));
+      globalThis.fetch = mockFetch;
+
+      const promise = fetchWithRetry('https://proxy.test', {}, { label: 'query', maxRetries: 2, baseDelayMs: 100 });
+      await vi.advanceTimersByTimeAsync(300);
+
+      await expect(promise).resolves.toMatchObject({ status: 503 });
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not retry client errors or server errors of non-idempotent requests', async () => {
+      const mockFetch = vi.fn()
+        .mockResolvedValueOnce(response(400))
+        .mockResolvedValueOnce(response(500));
+      globalThis.fetch = mockFetch;
+
+      await expect(fetchWithRetry('https://proxy.test', {}, { label: 'query' })).resolves.toMatchObject({ status: 400 });
+      await expect(fetchWithRetry('https://proxy.test', {}, { label: 'create', retryServerErrors: false }))
+        .resolves.toMatchObject({ status: 500 });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not retry configuration errors returned by the proxy itself', async () => {
+      const mockFetch = vi.fn()
+        .mockResolvedValueOnce(response(500, {}, { error: 'Server Misconfiguration: PROXY_TOKEN is not set', errorCode: 'PROXY_MISCONFIGURED' }))
+        // errorCode を返さない旧テンプレートのWorker
+        .mockResolvedValueOnce(response(500, {}, { error: 'Server Misconfiguration: PROXY_TOKEN is not set' }))
+        // Notion APIのエラーは再試行する
+        .mockResolvedValueOnce(response(500, {}, { object: 'error', code: 'internal_server_error', errorCode: 'UNKNOWN' }))
+        .mockResolvedValueOnce(response(200));
+      globalThis.fetch = mockFetch;
+
+      await expect(fetchWithRetry('https://proxy.test', {}, { label: 'query' })).resolves.toMatchObject({ status: 500 });
+      await expect(fetchWithRetry('https://proxy.test', {}, { label: 'query' })).resolves.toMatchObject({ status: 500 });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+
+      const promise = fetchWithRetry('https://proxy.test', {}, { label: 'query', baseDelayMs: 100 });
+      await vi.advanceTimersByTimeAsync(100);
+      await expect(promise).resolves.toMatchObject({ status: 200 });
+      expect(mockFetch).toHaveBeenCalledTimes(4);
+    });
+
+    it('should retry transient errors wrapped by the proxy', async () => {
+      const mockFetch = vi.fn()
+        // 上流のJSONでない502をWorkerが包んだ応答
+        .mockResolvedValueOnce(response(502, {}, { error: '<html>Bad Gateway</html>', errorCode: 'UNKNOWN' }))
+        // Notionに接続できなかった場合のWorkerの応答
+        .mockResolvedValueOnce(response(500, {}, { error: 'Proxy Error', message: 'fetch failed', errorCode: 'UNKNOWN' }))
+        .mockResolvedValueOnce(response(200));
+      globalThis.fetch = mockFetch;
+
+      const promise = fetchWithRetry('https://proxy.test', {}, { label: 'query', baseDelayMs: 100 });
+      await vi.advanceTimersByTimeAsync(300);
+
+      await expect(promise).resolves.toMatchObject({ status: 200 });
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should stop waiting when aborted', async () => {
+      globalThis.fetch = vi.fn().mockResolvedValue(response(429, { 'Retry-After': '10' }));
+      const controller = new AbortController();
+
+      const promise = fetchWithRetry('https://proxy.test', { signal: controller.signal }, { label: 'query' });
+      await vi.advanceTimersByTimeAsync(0);
+      controller.abort();
+
+      await expect(promise).rejects.toMatchObject({ name: 'AbortError' });
+      expect(globalThis.fetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('createConcurrencyLimiter', () => {
+    it('should run at most the given number of tasks at once', async () => {
+      const limit = createConcurrencyLimiter(2);
+      let running = 0;
+      let maxRunning = 0;
+      const task = () => limit(async () => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await new Promise(resolve => setTimeout(resolve, 10));
+        running--;
+      });
+
+      const all = Promise.all([task(), task(), task(), task(), task()]);
+      await vi.advanceTimersByTimeAsync(30);
+      await all;
+
+      expect(maxRunning).toBe(2);
+    });
+
+    it('should hand a released slot to a queued task before a new caller', async () => {
+      const limit = createConcurrencyLimiter(1);
+      let running = 0;
+      let maxRunning = 0;
+      const task = (work: () => Promise<void> = () => Promise.resolve()) => limit(async () => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await work();
+        running--;
+      });
+
+      let finishFirst = () => {};
+      const tasks = [task(() => new Promise(resolve => { finishFirst = resolve; })), task()];
+      finishFirst();
+      // 先頭のタスクが枠を返してから待機中のタスクが再開するまでの間も、新しいタスクが枠を取らない
+      for (let i = 0; i < 10; i++) {
+        tasks.push(task());
+        await Promise.resolve();
+      }
+      await Promise.all(tasks);
+
+      expect(maxRunning).toBe(1);
+    });
+  });
+});
@@ -9,6 +9,11 @@ import {
   hslToRgb,
   transformNotionResponse,
   getNotionFieldName,
+  parseBoxShadow,
+  parseGradient,
+  parseScopes,
+  cacheQueriedPages,
+  RelatedPageCache,
 } from '../notionTransform';
 import { FieldMapping } from '../../../shared/types';
 
@@ -119,11 +124,85 @@ describe('notionTransform', () => {
       expect(result).toBe('#ff0000');
     });
 
+    it('should handle modern CSS color syntax and named colors', () => {
+      expect(normalizeColor('oklch(62.8% 0.2577 29.23)')).toBe('#ff0000');
+      expect(normalizeColor('color(srgb 0 0 1 / 0.5)')).toBe('#0000ff80');
+      expect(normalizeColor('Navy')).toBe('#000080');
+    });
+
     it('should return string as-is if not a color format', () => {
       expect(normalizeColor('not-a-color')).toBe('not-a-color');
     });
   });
 
+  describe('parseScopes', () => {
+    it('should split and normalize scope names', () => {
+      expect(parseScopes('Corner radius, stroke-float\nALL_FILLS')).toEqual(['CORNER_RADIUS', 'STROKE_FLOAT', 'ALL_FILLS']);
+      expect(parseScopes('')).toEqual([]);
+    });
+  });
+
+  describe('parseBoxShadow', () => {
+    it('should parse multiple layers with inset, colors and references', () => {
+      expect(parseBoxShadow('0 4px 8px -2px rgba(0, 0, 0, 0.2), inset 0 1px 0 {Color/White}')).toEqual([
+        { color: '#00000033', offsetX: 0, offsetY: 4, blur: 8, spread: -2 },
+        { color: '{Color/White}', offsetX: 0, offsetY: 1, blur: 0, spread: 0, inset: true },
+      ]);
+    });
+
+    it('should return null for values that are not box-shadows', () => {
+      expect(parseBoxShadow('#000000')).toBeNull();
+      expect(parseBoxShadow('0 4px 1rem #000000')).toBeNull();
+      expect(parseBoxShadow('0 4px blackish')).toBeNull();
+    });
+  });
+
+  describe('parseGradient', () => {
+    it('should parse linear gradients with angles, directions and references', () => {
+      expect(parseGradient('linear-gradient(90deg, #ffffff 0%, {Color/Black} 100%)')).toEqual({
+        type: 'LINEAR',
+        angle: 90,
+        stops: [
+          { color: '#ffffff', position: 0 },
+          { color: '{Color/Black}', position: 1 },
+        ],
+      });
+      expect(parseGradient('linear-gradient(to top right, rgb(255, 0, 0), #00ff00)')).toMatchObject({ angle: 45 });
+    });
+
+    it('should default the angle and distribute stops without positions', () => {
+      expect(parseGradient('linear-gradient(#000, #111, #222 40%, #333, #444)')).toEqual({
+        type: 'LINEAR',
+        angle: 180,
+        stops: [
+          { color: '#000000', position: 0 },
+          { color: '#111111', position: 0.2 },
+          { color: '#222222', position: 0.4 },
+          { color: '#333333', position: 0.7 },
+          { color: '#444444', position: 1 },
+        ],
+      });
+    });
+
+    it('should ignore the shape of radial gradients', () => {
+      expect(parseGradient('radial-gradient(circle at center, #fff, #000)')).toEqual({
+        type: 'RADIAL',
+        stops: [
+          { color: '#ffffff', position: 0 },
+          { color: '#000000', position: 1 },
+        ],
+      });
+    });
+
+    it('should return null for unsupported values', () => {
+      expect(parseGradient('#ffffff')).toBeNull();
+      expect(parseGradient('conic-gradient(#fff, #000)')).toBeNull();
+      expect(parseGradient('linear-gradient(to nowhere, #fff, #000)')).toBeNull();
+      expect(parseGradient('linear-gradient(90deg, #fff)')).toBeNull();
+      expect(parseGradient('linear-gradient(90deg, #fff 1rem, #000)')).toBeNull();
+    });
+  });
+
   describe('extractFromProperty', () => {
     it('should return empty string for null/undefined props', () => {
       expect(extractFromProperty(null, 'key')).toBe('');
@@ -208,6 +287,15 @@ describe('notionTransform', () => {
       expect(extractFromProperty(props, 'Tags')).toBe('Tag1, Tag2');
     });
 
+    it('should extract checkbox property', () => {
+      const props = {
+        Hidden: { type: 'checkbox', checkbox: true },
+        Deprecated: { type: 'checkbox', checkbox: false },
+      };
+      expect(extractFromProperty(props, 'Hidden')).toBe('true');
+      expect(extractFromProperty(props, 'Deprecated')).toBe('false');
+    });
+
     it('should extract formula property (string)', () => {
       const props = {
         Computed: {
@@ -309,6 +397,14 @@ describe('notionTransform', () => {
       expect(getNotionFieldName(mappings, 'description', 'Description')).toBe('Description');
     });
 
+    it('should ignore mode-specific value mappings', () => {
+      const mappings: FieldMapping[] = [
+        { notionField: 'Dark', variableProperty: 'value', modeName: 'Dark' },
+        { notionField: 'Light', variableProperty: 'value' },
+      ];
+      expect(getNotionFieldName(mappings, 'value', 'Value')).toBe('Light');
+    });
+
     it('should return default value when notionField is empty string', () => {
       const mappings: FieldMapping[] = [
         { notionField: '', variableProperty: 'name' },
@@ -563,5 +659,382 @@ describe('notionTransform', () => {
         group: 'Brand',
       });
     });
+
+    it('should read per-mode values from mode mappings', async () => {
+      const mappings: FieldMapping[] = [
+        { notionField: 'Name', variableProperty: 'name' },
+        { notionField: 'Light', variableProperty: 'value', modeName: 'Light' },
+        { notionField: 'Dark', variableProperty: 'value', modeName: 'Dark' },
+      ];
+
+      const raw = [
+        {
+          id: 'page-1',
+          properties: {
+            Name: { type: 'title', title: [{ plain_text: 'Background' }] },
+            Light: { type: 'rich_text', rich_text: [{ plain_text: 'rgb(255, 255, 255)' }] },
+            Dark: { type: 'rich_text', rich_text: [{ plain_text: '{Color/Gray/900}' }] },
+          },
+        },
+      ];
+
+      const result = await transformNotionResponse(
+        raw,
+        'api-key',
+        'https://proxy.test',
+        'token',
+        mockFetchNotionPage,
+        mappings
+      );
+
+      expect(result).toHaveLength(1);
+      expect(result[0].valuesByMode).toEqual({
+        Light: '#ffffff',
+        Dark: '{Color/Gray/900}',
+      });
+      // デフォルトの値列がない場合は先頭モードの値を使用
+      expect(result[0].value).toBe('#ffffff');
+    });
+
+    it('should resolve relation in mode columns to alias within the same query', async () => {
+      const mappings: FieldMapping[] = [
+        { notionField: 'Name', variableProperty: 'name' },
+        { notionField: 'Value', variableProperty: 'value' },
+        { notionField: 'Dark', variableProperty: 'value', modeName: 'Dark' },
+      ];
+
+      const raw = [
+        {
+          id: 'page-gray',
+          properties: {
+            Name: { type: 'title', title: [{ plain_text: 'Gray 900' }] },
+            Value: { type: 'rich_text', rich_text: [{ plain_text: '#111111' }] },
+          },
+        },
+        {
+          id: 'page-bg',
+          properties: {
+            Name: { type: 'title', title: [{ plain_text: 'Background' }] },
+            Value: { type: 'rich_text', rich_text: [{ plain_text: '#ffffff' }] },
+            Dark: { type: 'relation', relation: [{ id: 'page-gray' }] },
+          },
+        },
+      ];
+
+      const result = await transformNotionResponse(
+        raw,
+        'api-key',
+        'https://proxy.test',
+        'token',
+        mockFetchNotionPage,
+        mappings
+      );
+
+      expect(result[1].value).toBe('#ffffff');
+      expect(result[1].valuesByMode).toEqual({ Dark: '{Gray 900}' });
+      expect(mockFetchNotionPage).not.toHaveBeenCalled();
+    });
+
+    it('should qualify relations to another paired database with its collection name', async () => {
+      const raw = [
+        {
+          id: 'page-bg',
+          properties: {
+            Name: { type: 'title', title: [{ plain_text: 'Background' }] },
+            Value: { type: 'relation', relation: [{ id: 'page-white' }] },
+          },
+        },
+      ];
+
+      mockFetchNotionPage.mockResolvedValue({
+        id: 'page-white',
+        parent: { type: 'database_id', database_id: 'aaaa-bbbb-cccc' },
+        properties: {
+          Name: { type: 'title', title: [{ plain_text: 'White' }] },
+          Group: { type: 'rich_text', rich_text: [{ plain_text: 'Color' }] },
+        },
+      });
+
+      const result = await transformNotionResponse(
+        raw,
+        'api-key',
+        'https://proxy.test',
+        'token',
+        mockFetchNotionPage,
+        undefined,
+        { collectionsByDatabase: new Map([['aaaabbbbcccc', 'Primitives']]) }
+      );
+
+      expect(result[0].value).toBe('{Primitives:Color/White}');
+    });
+
+    it('should fetch each related page once and share the cache across transforms', async () => {
+      const relatedRow = (id: string, name: string) => ({
+        id,
+        properties: {
+          Name: { type: 'title', title: [{ plain_text: name }] },
+          Value: { type: 'relation', relation: [{ id: 'page-white' }] },
+        },
+      });
+      const fetchPage = vi.fn().mockResolvedValue({
+        id: 'page-white',
+        properties: { Name: { type: 'title', title: [{ plain_text: 'White' }] } },
+      });
+      const pageCache: RelatedPageCache = new Map();
+
+      const first = await transformNotionResponse(
+        [relatedRow('page-bg', 'Background'), relatedRow('page-surface', 'Surface')],
+        'api-key', 'https://proxy.test', 'token', fetchPage, undefined, { pageCache }
+      );
+      const second = await transformNotionResponse(
+        [relatedRow('page-card', 'Card')],
+        'api-key', 'https://proxy.test', 'token', fetchPage, undefined, { pageCache }
+      );
+
+      expect(first.map(v => v.value)).toEqual(['{White}', '{White}']);
+      expect(second[0].value).toBe('{White}');
+      expect(fetchPage).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fetch a related page again after a failed fetch', async () => {
+      const raw = [{
+        id: 'page-bg',
+        properties: {
+          Name: { type: 'title', title: [{ plain_text: 'Background' }] },
+          Value: { type: 'relation', relation: [{ id: 'page-white' }] },
+        },
+      }];
+      const fetchPage = vi.fn()
+        .mockRejectedValueOnce(new Error('Network error'))
+        .mockResolvedValueOnce({
+          id: 'page-white',
+          properties: { Name: { type: 'title', title: [{ plain_text: 'White' }] } },
+        });
+      const pageCache: RelatedPageCache = new Map();
+
+      await transformNotionResponse(raw, 'api-key', 'https://proxy.test', 'token', fetchPage, undefined, { pageCache });
+      const retried = await transformNotionResponse(raw, 'api-key', 'https://proxy.test', 'token', fetchPage, undefined, { pageCache });
+
+      expect(retried[0].value).toBe('{White}');
+      expect(fetchPage).toHaveBeenCalledTimes(2);
+    });
+
+    it('should resolve relations to pages queried for another pair without fetching them', async () => {
+      const pageCache: RelatedPageCache = new Map();
+      cacheQueriedPages(pageCache, [{
+        id: 'page-white',
+        parent: { type: 'database_id', database_id: 'aaaa-bbbb-cccc' },
+        properties: {
+          Name: { type: 'title', title: [{ plain_text: 'White' }] },
+          Group: { type: 'rich_text', rich_text: [{ plain_text: 'Color' }] },
+        },
+      }]);
+      const raw = [{
+        id: 'page-bg',
+        properties: {
+          Name: { type: 'title', title: [{ plain_text: 'Background' }] },
+          Value: { type: 'relation', relation: [{ id: 'page-white' }] },
+        },
+      }];
+      const fetchPage = vi.fn();
+
+      const result = await transformNotionResponse(
+        raw, 'api-key', 'https://proxy.test', 'token', fetchPage, undefined,
+        { collectionsByDatabase: new Map([['aaaabbbbcccc', 'Primitives']]), pageCache }
+      );
+
+      expect(result[0].value).toBe('{Primitives:Color/White}');
+      expect(fetchPage).not.toHaveBeenCalled();
+    });
+
+    it('should read scopes and code syntax columns', async () => {
+      const raw = [
+        {
+          id: 'page-radius',
+          properties: {
+            Name: { type: 'title', title: [{ plain_text: 'Small' }] },
+            Value: { type: 'number', number: 4 },
+            Scopes: { type: 'multi_select', multi_select: [{ name: 'Corner radius' }, { name: 'GAP' }] },
+            'Code Syntax Web': { type: 'rich_text', rich_text: [{ plain_text: 'var(--radius-small)' }] },
+            'Code Syntax iOS': { type: 'rich_text', rich_text: [] },
+          },
+        },
+        {
+          id: 'page-plain',
+          properties: {
+            Name: { type: 'title', title: [{ plain_text: 'Plain' }] },
+            Value: { type: 'number', number: 8 },
+          },
+        },
+      ];
+
+      const result = await transformNotionResponse(raw, 'api-key', 'https://proxy.test', 'token', mockFetchNotionPage);
+
+      expect(result[0]).toMatchObject({
+        scopes: ['CORNER_RADIUS', 'GAP'],
+        // 空欄の列は削除として渡す
+        codeSyntax: { WEB: 'var(--radius-small)', iOS: '' },
+      });
+      // 列がない場合は変更しない
+      expect(result[1].scopes).toBeUndefined();
+      expect(result[1].codeSyntax).toBeUndefined();
+    });
+
+    it('should read hidden and deprecated flags', async () => {
+      const raw = [
+        {
+          id: 'page-old',
+          properties: {
+            Name: { type: 'title', title: [{ plain_text: 'Old' }] },
+            Value: { type: 'rich_text', rich_text: [{ plain_text: '#0000FF' }] },
+            Hidden: { type: 'checkbox', checkbox: true },
+            Deprecated: { type: 'select', select: { name: 'Yes' } },
+          },
+        },
+        {
+          id: 'page-new',
+          properties: {
+            Name: { type: 'title', title: [{ plain_text: 'New' }] },
+            Value: { type: 'rich_text', rich_text: [{ plain_text: '#FF0000' }] },
+            Hidden: { type: 'checkbox', checkbox: false },
+          },
+        },
+      ];
+
+      const result = await transformNotionResponse(raw, 'api-key', 'https://proxy.test', 'token', mockFetchNotionPage);
+
+      expect(result[0]).toMatchObject({ hiddenFromPublishing: true, deprecated: true });
+      expect(result[1].hiddenFromPublishing).toBe(false);
+      // 列がない場合は変更しない
+      expect(result[1].deprecated).toBeUndefined();
+    });
+
+    it('should read typography rows into composite tokens', async () => {
+      const raw = [
+        {
+          id: 'page-body',
+          properties: {
+            Name: { type: 'title', title: [{ plain_text: 'Body' }] },
+            Group: { type: 'rich_text', rich_text: [{ plain_text: 'Text' }] },
+            Type: { type: 'select', select: { name: 'Typography' } },
+            'Font Family': { type: 'rich_text', rich_text: [{ plain_text: 'Inter' }] },
+            'Font Size': { type: 'relation', relation: [{ id: 'page-size' }] },
+            'Font Weight': { type: 'number', number: 700 },
+            'Line Height': { type: 'rich_text', rich_text: [{ plain_text: '150%' }] },
+          },
+        },
+        {
+          id: 'page-size',
+          properties: {
+            Name: { type: 'title', title: [{ plain_text: 'Base' }] },
+            Group: { type: 'rich_text', rich_text: [{ plain_text: 'Size' }] },
+            Value: { type: 'number', number: 16 },
+          },
+        },
+        {
+          id: 'page-broken',
+          properties: {
+            Name: { type: 'title', title: [{ plain_text: 'Broken' }] },
+            Type: { type: 'select', select: { name: 'TYPOGRAPHY' } },
+          },
+        },
+      ];
+
+      const result = await transformNotionResponse(
+        raw,
+        'api-key',
+        'https://proxy.test',
+        'token',
+        mockFetchNotionPage
+      );
+
+      // フォントとサイズがない行はスキップ
+      expect(result).toHaveLength(2);
+      expect(result[0]).toMatchObject({
+        name: 'Body',
+        group: 'Text',
+        value: '',
+        composite: {
+          type: 'TYPOGRAPHY',
+          value: { fontFamily: 'Inter', fontSize: '{Size/Base}', fontWeight: 700, lineHeight: '150%' },
+        },
+      });
+      expect(result[0].composite?.value).not.toHaveProperty('letterSpacing');
+      expect(result[1].composite).toBeUndefined();
+    });
+
+    it('should read gradient values as composite tokens even without a type', async () => {
+      const raw = [
+        {
+          id: 'page-hero',
+          properties: {
+            Name: { type: 'title', title: [{ plain_text: 'Hero' }] },
+            Value: { type: 'rich_text', rich_text: [{ plain_text: 'linear-gradient(90deg, #fff, #000)' }] },
+          },
+        },
+      ];
+
+      const result = await transformNotionResponse(
+        raw,
+        'api-key',
+        'https://proxy.test',
+        'token',
+        mockFetchNotionPage
+      );
+
+      expect(result[0]).toMatchObject({
+        value: '',
+        composite: { type: 'GRADIENT', value: { type: 'LINEAR', angle: 90 } },
+      });
+    });
+
+    it('should read shadow rows from shadow columns or a box-shadow value', async () => {
+      const raw = [
+        {
+          id: 'page-card',
+          properties: {
+            Name: { type: 'title', title: [{ plain_text: 'Card' }] },
+            Type: { type: 'select', select: { name: 'SHADOW' } },
+            'Shadow Color': { type: 'relation', relation: [{ id: 'page-black' }] },
+            'Offset X': { type: 'number', number: 0 },
+            'Offset Y': { type: 'number', number: 2 },
+            Blur: { type: 'rich_text', rich_text: [{ plain_text: '4px' }] },
+          },
+        },
+        {
+          id: 'page-modal',
+          properties: {
+            Name: { type: 'title', title: [{ plain_text: 'Modal' }] },
+            Type: { type: 'select', select: { name: 'SHADOW' } },
+            Value: { type: 'rich_text', rich_text: [{ plain_text: '0 8px 24px #00000040' }] },
+          },
+        },
+        {
+          id: 'page-black',
+          properties: {
+            Name: { type: 'title', title: [{ plain_text: 'Black' }] },
+            Group: { type: 'rich_text', rich_text: [{ plain_text: 'Color' }] },
+            Value: { type: 'rich_text', rich_text: [{ plain_text: '#000000' }] },
+          },
+        },
+      ];
+
+      const result = await transformNotionResponse(
+        raw,
+        'api-key',
+        'https://proxy.test',
+        'token',
+        mockFetchNotionPage
+      );
+
+      expect(result[0].composite).toEqual({
+        type: 'SHADOW',
+        value: [{ color: '{Color/Black}', offsetX: 0, offsetY: 2, blur: '4px' }],
+      });
+      expect(result[1].composite).toEqual({
+        type: 'SHADOW',
+        value: [{ color: '#00000040', offsetX: 0, offsetY: 8, blur: 24, spread: 0 }],
+      });
+    });
   });
 });
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { collectReferencedCollections, orderPairsByReferences } from '../pairOrder';
+import { CollectionDbPair, NotionVariable, VariableType } from '@/shared/types';
+
+const pair = (collectionName: string): CollectionDbPair => ({
+  id: `pair-${collectionName}`,
+  collectionName,
+  databaseId: `db-${collectionName}`,
+  enabled: true
+});
+
+const variable = (name: string, value: NotionVariable['value'], valuesByMode?: NotionVariable['valuesByMode']): NotionVariable => ({
+  id: `page-${name}`,
+  name,
+  value,
+  type: '' as VariableType,
+  ...(valuesByMode ? { valuesByMode } : {})
+});
+
+describe('pairOrder', () => {
+  describe('collectReferencedCollections', () => {
+    it('should collect collection qualifiers from values and mode values', () => {
+      const names = collectReferencedCollections([
+        variable('Background', '{Primitives:Color/White}||#ffffff', { Dark: '{Palette:Gray/900}' }),
+        variable('Text', '{Color/Black}'),
+        variable('Plain', '#000000')
+      ]);
+
+      expect([...names]).toEqual(['Primitives', 'Palette']);
+    });
+  });
+
+  describe('orderPairsByReferences', () => {
+    it('should import referenced collections first and keep the order otherwise', () => {
+      const entries = [
+        { pair: pair('Semantic'), variables: [variable('Background', '{Primitives:Color/White}')] },
+        { pair: pair('Spacing'), variables: [variable('Base', 16)] },
+        { pair: pair('Primitives'), variables: [variable('White', '#ffffff')] }
+      ];
+
+      const { ordered, cyclic } = orderPairsByReferences(entries);
+
+      expect(ordered.map(e => e.pair.collectionName)).toEqual(['Primitives', 'Semantic', 'Spacing']);
+      expect(cyclic).toEqual([]);
+    });
+
+    it('should ignore references to collections outside the pairs and report cycles', () => {
+      const entries = [
+        { pair: pair('A'), variables: [variable('One', '{B:Two}'), variable('Ext', '{External:Color}')] },
+        { pair: pair('B'), variables: [variable('Two', '{A:One}')] }
+      ];
+
+      const { ordered, cyclic } = orderPairsByReferences(entries);
+
+      expect(ordered.map(e => e.pair.collectionName)).toEqual(['B', 'A']);
+      expect(cyclic).toEqual(['A']);
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_FIELD_MAPPINGS, getPairOptions, migratePairSettings, normalizeFieldMappings } from '../pairSettings';
+import { CollectionDbPair, DEFAULT_UNIT_CONVERSION, FieldMapping, UnitConversionSettings } from '@/shared/types';
+
+const pair = (overrides: Partial<CollectionDbPair> = {}): CollectionDbPair => ({
+  id: 'pair-1',
+  collectionName: 'Primitives',
+  databaseId: 'db-1',
+  enabled: true,
+  ...overrides
+});
+
+describe('pairSettings', () => {
+  describe('getPairOptions', () => {
+    it('should fill unset options with defaults', () => {
+      expect(getPairOptions(pair())).toEqual({
+        overwriteExisting: true,
+        deleteRemovedVariables: false,
+        strictAliasResolution: false,
+        mappings: DEFAULT_FIELD_MAPPINGS,
+        unitConversion: DEFAULT_UNIT_CONVERSION
+      });
+    });
+
+    it('should keep options set on the pair', () => {
+      const mappings: FieldMapping[] = [{ notionField: 'Token', variableProperty: 'name' }];
+      expect(getPairOptions(pair({ overwriteExisting: false, deleteRemovedVariables: true, mappings }))).toMatchObject({
+        overwriteExisting: false,
+        deleteRemovedVariables: true,
+        mappings
+      });
+    });
+
+    it('should fill unset unit conversion settings with defaults', () => {
+      const unitConversion = { rootFontSize: 10 } as UnitConversionSettings;
+      expect(getPairOptions(pair({ unitConversion })).unitConversion).toEqual({ ...DEFAULT_UNIT_CONVERSION, rootFontSize: 10 });
+    });
+  });
+
+  describe('migratePairSettings', () => {
+    it('should copy the legacy global settings into pairs without their own settings', () => {
+      const legacyMappings: FieldMapping[] = [
+        { notionField: 'Token', variableProperty: 'name' },
+        { notionField: '', variableProperty: 'value' }
+      ];
+
+      const [migrated] = migratePairSettings([pair()], {
+        overwrite_existing: false,
+        delete_removed_variables: true,
+        field_mappings: legacyMappings
+      });
+
+      expect(migrated).toMatchObject({
+        id: 'pair-1',
+        overwriteExisting: false,
+        deleteRemovedVariables: true,
+        strictAliasResolution: false,
+        mappings: [{ notionField: 'Token', variableProperty: 'name' }]
+      });
+    });
+
+    it('should not override settings already stored on the pair', () => {
+      const [migrated] = migratePairSettings(
+        [pair({ overwriteExisting: true, deleteRemovedVariables: false })],
+        { overwrite_existing: false, delete_removed_variables: true }
+      );
+
+      expect(migrated.overwriteExisting).toBe(true);
+      expect(migrated.deleteRemovedVariables).toBe(false);
+      expect(migrated.mappings).toEqual(DEFAULT_FIELD_MAPPINGS);
+    });
+  });
+
+  describe('normalizeFieldMappings', () => {
+    it('should drop mappings without a field or with an unknown property', () => {
+      const mappings = [
+        { notionField: 'Name', variableProperty: 'name' },
+        { notionField: '', variableProperty: 'value' },
+        { notionField: 'Legacy', variableProperty: 'color' }
+      ] as FieldMapping[];
+
+      expect(normalizeFieldMappings(mappings)).toEqual([{ notionField: 'Name', variableProperty: 'name' }]);
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { onPluginMessage, sendRequest } from '../pluginMessaging';
+import { PluginToUIMessage } from '@/shared/types';
+
+// プラグインからのメッセージを受信させる
+const receive = (pluginMessage: PluginToUIMessage) =>
+  window.dispatchEvent(new MessageEvent('message', { data: { pluginMessage } }));
+
+describe('pluginMessaging', () => {
+  let postMessage: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    postMessage = vi.spyOn(window.parent, 'postMessage').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  // 送信したリクエストのIDを取得
+  const sentRequestId = (index = 0): string => postMessage.mock.calls[index][0].pluginMessage.requestId;
+
+  describe('sendRequest', () => {
+    it('should attach a request ID and resolve only with the response carrying it', async () => {
+      const promise = sendRequest({ type: 'GET_SYNC_HISTORY' }, 1000);
+      const requestId = sentRequestId();
+      expect(postMessage.mock.calls[0][0].pluginMessage).toEqual({ type: 'GET_SYNC_HISTORY', requestId });
+
+      // 他のリクエストへの応答・IDのない通知は無視する
+      receive({ type: 'SYNC_HISTORY', requestId: 'other', data: { entries: [] } });
+      receive({ type: 'SUCCESS', data: { message: 'done' } });
+      receive({ type: 'SYNC_HISTORY', requestId, data: { entries: [{ id: 'h-1' } as never] } });
+
+      await expect(promise).resolves.toEqual({ type: 'SYNC_HISTORY', requestId, data: { entries: [{ id: 'h-1' }] } });
+    });
+
+    it('should resolve with an error for the same request', async () => {
+      const promise = sendRequest({ type: 'GET_NOTION_PUSH_DATA', data: { collectionId: 'c-1' } }, 1000);
+      receive({ type: 'ERROR', requestId: 'other', data: { message: 'other failed' } });
+      receive({ type: 'ERROR', requestId: sentRequestId(), data: { message: 'not found' } });
+
+      await expect(promise).resolves.toMatchObject({ type: 'ERROR', data: { message: 'not found' } });
+    });
+
+    it('should pass progress messages of the request to the callback without resolving', async () => {
+      const onProgress = vi.fn();
+      const promise = sendRequest({ type: 'REVERT_LAST_IMPORT' }, 1000, onProgress);
+      const requestId = sentRequestId();
+
+      receive({ type: 'LOADING', requestId, data: { message: '処理中' } });
+      receive({ type: 'PROGRESS', requestId: 'other', data: { current: 1, total: 2, phase: 'importing', message: '1/2' } });
+      receive({ type: 'SUCCESS', requestId, data: { message: '完了' } });
+
+      await expect(promise).resolves.toMatchObject({ type: 'SUCCESS' });
+      expect(onProgress).toHaveBeenCalledTimes(1);
+      expect(onProgress).toHaveBeenCalledWith(expect.objectContaining({ type: 'LOADING' }));
+    });
+
+    it('should resolve with TIMEOUT and ignore a late response', async () => {
+      const promise = sendRequest({ type: 'GET_LAST_IMPORT' }, 1000);
+      vi.advanceTimersByTime(1000);
+      await expect(promise).resolves.toEqual({ type: 'TIMEOUT', data: {} });
+
+      // 応答待ちのリスナーは削除されている
+      const listener = vi.fn();
+      const unsubscribe = onPluginMessage(['LAST_IMPORT'], listener);
+      receive({ type: 'LAST_IMPORT', requestId: sentRequestId(), data: { lastImport: null } });
+      expect(listener).toHaveBeenCalledTimes(1);
+      unsubscribe();
+    });
+  });
+
+  describe('onPluginMessage', () => {
+    it('should call the handler for the subscribed types until unsubscribed', () => {
+      const handler = vi.fn();
+      const unsubscribe = onPluginMessage(['COLLECTIONS_DATA'], handler);
+
+      receive({ type: 'COLLECTIONS_DATA', data: { collections: [] } });
+      receive({ type: 'SUCCESS', data: { message: 'done' } });
+      unsubscribe();
+      receive({ type: 'COLLECTIONS_DATA', data: { collections: [] } });
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(handler).toHaveBeenCalledWith({ type: 'COLLECTIONS_DATA', data: { collections: [] } });
+    });
+  });
+});
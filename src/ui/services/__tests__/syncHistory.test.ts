@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { findLastRunForVariable, summarizeSyncEntry } from '../syncHistory';
+import { SyncHistoryEntry } from '@/shared/types';
+
+const entry = (id: string, overrides: Partial<SyncHistoryEntry>): SyncHistoryEntry => ({
+  id,
+  kind: 'import',
+  timestamp: '2026-01-01T00:00:00.000Z',
+  collectionName: 'Primitives',
+  created: [],
+  updated: [],
+  deleted: [],
+  errors: [],
+  ...overrides
+});
+
+describe('syncHistory', () => {
+  describe('findLastRunForVariable', () => {
+    const entries = [
+      entry('run-3', { updated: ['Color/Secondary'] }),
+      entry('run-2', { errors: ['Color/Primary: "x" は色として解釈できません'] }),
+      entry('run-1', { created: ['Color/Primary', 'Color/Secondary'] })
+    ];
+
+    it('should return the newest run that touched the variable', () => {
+      expect(findLastRunForVariable(entries, 'Color/Secondary')).toMatchObject({ entry: { id: 'run-3' }, touch: 'updated' });
+      expect(findLastRunForVariable(entries, ' Color/Primary ')).toMatchObject({ entry: { id: 'run-2' }, touch: 'errors' });
+    });
+
+    it('should return null when no run touched the variable', () => {
+      expect(findLastRunForVariable(entries, 'Color/Tertiary')).toBeNull();
+      expect(findLastRunForVariable(entries, '')).toBeNull();
+    });
+  });
+
+  describe('summarizeSyncEntry', () => {
+    it('should summarize counts per change', () => {
+      expect(summarizeSyncEntry(entry('run-1', { created: ['A', 'B'], errors: ['C: x'] }))).toBe('作成 2 / エラー 1');
+      expect(summarizeSyncEntry(entry('run-2', {}))).toBe('変更なし');
+      expect(summarizeSyncEntry(entry('run-3', { kind: 'export', tokenCount: 12 }))).toBe('12 トークン');
+    });
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * W3C Design Tokens (JSON) の読み込みユーティリティ
+ * exportToDesignTokens の逆変換として、トークンをNotionVariable配列に変換する
+ */
+
+import { MODES_EXTENSION_KEY, NotionVariable, NotionVariableValue, VariableType } from '@/shared/types';
+import { colorToHex, parseCssColor, RgbaColor } from '@/shared/color';
+import { normalizeColor } from './notionTransform';
+
+// W3Cの$type → VariableType（ここにない型は未対応としてスキップ）
+const W3C_TYPE_MAP: Record<string, VariableType> = {
+  color: VariableType.COLOR,
+  number: VariableType.NUMBER,
+  dimension: VariableType.NUMBER,
+  fontWeight: VariableType.NUMBER,
+  duration: VariableType.NUMBER,
+  string: VariableType.STRING,
+  fontFamily: VariableType.STRING,
+  boolean: VariableType.BOOLEAN
+};
+
+export interface DesignTokenParseOptions {
+  // トップレベルのグループをコレクション名として扱う（エクスポートしたJSONの形式）
+  splitCollections?: boolean;
+}
+
+export interface DesignTokenParseResult {
+  variables: NotionVariable[];  // splitCollections の場合は collection にコレクション名を設定
+  warnings: string[];
+}
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// 色オブジェクトの colorSpace → CSSの構文（同名の色関数で表す色空間と、color() で表す色空間）
+const COLOR_FUNCTION_SPACES = new Set(['hsl', 'hwb', 'lab', 'lch', 'oklab', 'oklch']);
+const PREDEFINED_COLOR_SPACES = new Set(['srgb', 'srgb-linear', 'display-p3', 'a98-rgb', 'prophoto-rgb', 'rec2020', 'xyz-d65', 'xyz-d50']);
+
+// 色オブジェクトの色空間が未対応の場合はその名前を返す（colorSpace 省略時は srgb）
+const getUnsupportedColorSpace = (value: unknown): string | null => {
+  if (!isPlainObject(value) || value.colorSpace === undefined) return null;
+  const space = String(value.colorSpace);
+  return COLOR_FUNCTION_SPACES.has(space) || PREDEFINED_COLOR_SPACES.has(space) ? null : space;
+};
+
+// 色オブジェクトをCSSの色の構文に組み立て、共通のパーサーで sRGB に変換（成分を読み取れない場合はnull）
+const parseColorObject = (value: Record<string, any>): RgbaColor | null => {
+  if (!Array.isArray(value.components) || value.components.length < 3) return null;
+  const space = value.colorSpace === undefined ? 'srgb' : String(value.colorSpace);
+  // 成分には "none" も指定できる（CSSの none と同じ扱い）
+  const args = `${value.components.slice(0, 3).join(' ')} / ${value.alpha ?? 1}`;
+  const css = COLOR_FUNCTION_SPACES.has(space) ? `${space}(${args})` : `color(${space} ${args})`;
+  return parseCssColor(css);
+};
+
+/**
+ * {a.b.c} 形式の参照を {a/b/c} 形式に変換（参照でなければnull）
+ * @param collectionNames コレクションとして扱うトップレベルのグループ名（参照パスから除去する）
+ */
+export const convertTokenAlias = (value: unknown, collectionNames?: Set<string>): string | null => {
+  if (typeof value !== 'string') return null;
+  const match = value.trim().match(/^\{([^{}]+)\}$/);
+  if (!match) return null;
+  const segments = match[1].split('.').map(s => s.trim()).filter(Boolean);
+  if (collectionNames && segments.length > 1 && collectionNames.has(segments[0])) {
+    segments.shift();
+  }
+  return `{${segments.join('/')}}`;
+};
+
+// トークンの値を型に応じて変換（変換できない場合はnull）
+const convertTokenValue = (value: unknown, type: VariableType | undefined): NotionVariableValue | null => {
+  switch (type) {
+    case VariableType.COLOR: {
+      if (typeof value === 'string') return normalizeColor(value);
+      if (isPlainObject(value)) {
+        // 新しい仕様の色オブジェクト（{ colorSpace, components, alpha, hex }）。hex は成分を読み取れない場合に使う
+        if (getUnsupportedColorSpace(value)) return null;
+        const color = parseColorObject(value);
+        if (color) return colorToHex(color);
+        if (typeof value.hex === 'string') return normalizeColor(value.hex);
+      }
+      return null;
+    }
+    case VariableType.NUMBER: {
+      // "16px" や { value: 16, unit: "px" } 形式も数値として扱う
+      const raw = isPlainObject(value) ? `${value.value}${value.unit ?? ''}` : value;
+      // px以外の単位（rem / pt など）はプラグイン側で換算するため文字列のまま渡す
+      if (typeof raw === 'string' && /^-?[\d.]+\s*(?!px$)[a-z%]+$/i.test(raw.trim())) return raw.trim();
+      const n = typeof raw === 'number' ? raw : parseFloat(String(raw));
+      return Number.isFinite(n) ? n : null;
+    }
+    case VariableType.BOOLEAN:
+      if (typeof value === 'boolean') return value;
+      if (value === 'true' || value === 'false') return value === 'true';
+      return null;
+    case VariableType.STRING:
+      return typeof value === 'object' ? null : String(value);
+    default:
+      // $type未指定の場合はプラグイン側で型を自動判定
+      if (typeof value === 'number' || typeof value === 'boolean' || typeof value === 'string') return value;
+      return null;
+  }
+};
+
+/**
+ * W3C Design Tokens のJSONをNotionVariable配列に変換
+ * - ネストしたグループは group（スラッシュ区切り）に変換
+ * - グループの $type は配下のトークンに継承
+ * - {a.b.c} 形式の参照は {a/b/c} 形式に変換
+ * - $extensions["com.figma.modes"] はモード別の値として読み込む
+ */
+export function parseDesignTokens(
+  input: string | Record<string, unknown>,
+  options: DesignTokenParseOptions = {}
+): DesignTokenParseResult {
+  let root: unknown = input;
+  if (typeof input === 'string') {
+    try {
+      root = JSON.parse(input);
+    } catch (e) {
+      throw new Error(`JSONの形式が正しくありません: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+  if (!isPlainObject(root)) {
+    throw new Error('JSONのトップレベルはオブジェクトである必要があります。');
+  }
+  const tokens = root;
+
+  const variables: NotionVariable[] = [];
+  const warnings: string[] = [];
+
+  // コレクションとして扱うトップレベルのグループ（トークンそのものは除く）
+  const collectionNames = options.splitCollections
+    ? new Set(Object.keys(tokens).filter(key => !key.startsWith('$') && isPlainObject(tokens[key]) && !('$value' in tokens[key])))
+    : undefined;
+
+  const addToken = (token: Record<string, any>, path: string[], w3cType: string | undefined) => {
+    const pathLabel = path.join('.');
+    const collection = collectionNames?.has(path[0]) ? path[0] : undefined;
+    const segments = collection ? path.slice(1) : path;
+    const name = segments[segments.length - 1];
+    const group = segments.slice(0, -1).join('/');
+
+    const type = w3cType ? W3C_TYPE_MAP[w3cType] : undefined;
+    if (w3cType && !type) {
+      warnings.push(`${pathLabel}: 未対応の型のためスキップしました ($type: ${w3cType})`);
+      return;
+    }
+
+    const toValue = (raw: unknown): NotionVariableValue | null =>
+      convertTokenAlias(raw, collectionNames) ?? convertTokenValue(raw, type);
+    // 色空間が未対応の色は理由を明示する
+    const unsupportedSpace = (raw: unknown): string | null =>
+      type === VariableType.COLOR ? getUnsupportedColorSpace(raw) : null;
+
+    const value = toValue(token.$value);
+    if (value === null) {
+      const space = unsupportedSpace(token.$value);
+      warnings.push(space
+        ? `${pathLabel}: 未対応の色空間のためスキップしました (colorSpace: ${space})`
+        : `${pathLabel}: 値を読み取れないためスキップしました`);
+      return;
+    }
+
+    const variable: NotionVariable = {
+      // Notionページではないため空（NotionページIDによる紐付けは行わない）
+      id: '',
+      name,
+      group,
+      value,
+      // 参照の場合は参照先の型を継承するため型を指定しない
+      type: (typeof value === 'string' && value.startsWith('{') ? '' : type ?? '') as VariableType,
+      description: typeof token.$description === 'string' ? token.$description : ''
+    };
+    if (collection) variable.collection = collection;
+
+    const modes = token.$extensions?.[MODES_EXTENSION_KEY];
+    if (isPlainObject(modes)) {
+      const valuesByMode: Record<string, NotionVariableValue> = {};
+      for (const [modeName, modeValue] of Object.entries(modes)) {
+        const converted = toValue(modeValue);
+        if (converted === null) {
+          const space = unsupportedSpace(modeValue);
+          warnings.push(space
+            ? `${pathLabel}: モード "${modeName}" の値は未対応の色空間のためスキップしました (colorSpace: ${space})`
+            : `${pathLabel}: モード "${modeName}" の値を読み取れないためスキップしました`);
+          continue;
+        }
+        valuesByMode[modeName] = converted;
+      }
+      if (Object.keys(valuesByMode).length > 0) variable.valuesByMode = valuesByMode;
+    }
+
+    variables.push(variable);
+  };
+
+  const walk = (node: unknown, path: string[], inheritedType: string | undefined) => {
+    if (!isPlainObject(node)) return;
+    const w3cType = typeof node.$type === 'string' ? node.$type : inheritedType;
+    if ('$value' in node) {
+      if (path.length === 0) return;
+      addToken(node, path, w3cType);
+      return;
+    }
+    for (const [key, child] of Object.entries(node)) {
+      if (key.startsWith('$')) continue;
+      walk(child, [...path, key], w3cType);
+    }
+  };
+
+  walk(tokens, [], undefined);
+
+  return { variables, warnings };
+}
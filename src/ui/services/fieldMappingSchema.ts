@@ -0,0 +1,69 @@
+/**
+ * Notionデータベースのスキーマに基づくフィールドマッピングの推測・検証
+ */
+
+import { FieldMapping, NotionDatabaseProperty } from '@/shared/types';
+
+// 値として読み取れるプロパティの型（extractFromProperty が対応する型）
+const VALUE_TYPES = ['rich_text', 'number', 'formula', 'rollup', 'relation', 'checkbox', 'select', 'title'];
+
+// Variableプロパティごとの推測ルール（プロパティ名のパターンと対応する型）
+const MAPPING_HINTS: { variableProperty: FieldMapping['variableProperty']; pattern: RegExp; types: string[] }[] = [
+  { variableProperty: 'value', pattern: /^(value|値|hex|color)$/i, types: VALUE_TYPES },
+  { variableProperty: 'type', pattern: /^(type|型|種類)$/i, types: ['select', 'rich_text', 'formula'] },
+  { variableProperty: 'group', pattern: /^(group|グループ|category|カテゴリ|path)$/i, types: ['rich_text', 'select', 'multi_select', 'formula'] },
+  { variableProperty: 'description', pattern: /^(description|desc|説明|note|メモ)$/i, types: ['rich_text', 'formula'] },
+  { variableProperty: 'unit', pattern: /^(unit|単位)$/i, types: ['rich_text', 'select', 'formula'] },
+  { variableProperty: 'scopes', pattern: /^(scopes?|スコープ)$/i, types: ['multi_select', 'rich_text', 'select', 'formula'] },
+  { variableProperty: 'codeSyntaxWeb', pattern: /^(code syntax web|web|css)$/i, types: ['rich_text', 'formula'] },
+  { variableProperty: 'codeSyntaxAndroid', pattern: /^(code syntax android|android)$/i, types: ['rich_text', 'formula'] },
+  { variableProperty: 'codeSyntaxIOS', pattern: /^(code syntax ios|ios)$/i, types: ['rich_text', 'formula'] },
+  { variableProperty: 'hiddenFromPublishing', pattern: /^(hidden|非公開|internal)$/i, types: ['checkbox', 'formula', 'select'] },
+  { variableProperty: 'deprecated', pattern: /^(deprecated|非推奨)$/i, types: ['checkbox', 'formula', 'select'] }
+];
+
+// モード別の値として扱う列名（例: Light / Dark）
+const MODE_COLUMN_PATTERN = /^(light|dark)$/i;
+
+/**
+ * スキーマからフィールドマッピングを推測する
+ * - name: タイトルプロパティ
+ * - value / type / group / description / unit / scopes / codeSyntax*: プロパティ名と型から推測
+ * - Light / Dark 列: 同名のモードの値
+ */
+export const suggestFieldMappings = (properties: NotionDatabaseProperty[]): FieldMapping[] => {
+  const mappings: FieldMapping[] = [];
+  const used = new Set<string>();
+
+  const title = properties.find(p => p.type === 'title');
+  if (title) {
+    mappings.push({ notionField: title.name, variableProperty: 'name' });
+    used.add(title.name);
+  }
+
+  for (const hint of MAPPING_HINTS) {
+    const match = properties.find(p => !used.has(p.name) && hint.pattern.test(p.name.trim()) && hint.types.includes(p.type));
+    if (!match) continue;
+    mappings.push({ notionField: match.name, variableProperty: hint.variableProperty });
+    used.add(match.name);
+  }
+
+  for (const property of properties) {
+    if (used.has(property.name) || !MODE_COLUMN_PATTERN.test(property.name.trim()) || !VALUE_TYPES.includes(property.type)) continue;
+    mappings.push({ notionField: property.name, variableProperty: 'value', modeName: property.name.trim() });
+    used.add(property.name);
+  }
+
+  return mappings;
+};
+
+/**
+ * データベースに存在しないプロパティを指しているマッピングを返す
+ */
+export const findUnknownMappings = (
+  mappings: FieldMapping[],
+  properties: NotionDatabaseProperty[]
+): FieldMapping[] => {
+  const names = new Set(properties.map(p => p.name));
+  return mappings.filter(m => m.notionField && !names.has(m.notionField));
+};
@@ -1,4 +1,7 @@
 import { logger } from '@/shared/logger';
+import { NotionDatabaseProperty } from '@/shared/types';
+import { classifyProxyError, ERROR_GUIDANCE, ErrorCode, SyncError } from '@/shared/errors';
+import { fetchWithRetry } from './notionRequest';
 
 interface NotionDatabaseQueryParams {
   sorts?: Array<{ timestamp?: string; property?: string; direction: 'ascending' | 'descending' }>;
@@ -13,13 +16,63 @@ interface NotionQueryResponse {
   next_cursor: string | null;
 }
 
+// ページの作成・更新の応答（使用する項目のみ）
+export interface NotionPageResponse {
+  id: string;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
 function assertHttps(url: string) {
   try {
     const u = new URL(url);
     if (u.protocol !== 'https:') throw new Error('プロキシURLはhttpsを使用してください。');
     } catch {
-    throw new Error('不正なプロキシURLです。https:// から始まる完全なURLを入力してください。');
+    throw new SyncError(ErrorCode.PROXY_MISCONFIGURED, '不正なプロキシURLです。https:// から始まる完全なURLを入力してください。');
+  }
+}
+
+// プロキシURLを検証して返す
+function resolveProxyUrl(proxyUrl: string): string {
+  const PROXY_URL = (proxyUrl || '').trim();
+  if (!PROXY_URL) {
+    throw new SyncError(ErrorCode.PROXY_MISCONFIGURED, 'プロキシURLが未設定です。フォームにWorkersのURLを入力してください。');
+  }
+  assertHttps(PROXY_URL);
+  return PROXY_URL;
+}
+
+/**
+ * プロキシへリクエストを送信する（レート制限・一時的なエラーは再試行）
+ * 接続できない場合・エラー応答の場合は、原因を分類したコード付きのエラーを投げる（中止による AbortError はそのまま）
+ * @param retryServerErrors 5xx・接続エラーも再試行する（ページ作成など冪等でないリクエストはfalse）
+ */
+async function fetchProxy(url: string, init: RequestInit, errorLabel: string, retryServerErrors = true): Promise<Response> {
+  let response: Response;
+  try {
+    response = await fetchWithRetry(url, init, { label: errorLabel, retryServerErrors });
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    logger.error(`❌ ${errorLabel}:`, error);
+    throw new SyncError(
+      ErrorCode.PROXY_MISCONFIGURED,
+      `${ERROR_GUIDANCE.PROXY_MISCONFIGURED.title}（${error instanceof Error ? error.message : String(error)}）`
+    );
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    logger.error(`❌ ${errorLabel}:`, errorText);
+    const { code, detail } = classifyProxyError(response.status, errorText);
+    throw new SyncError(code, `${ERROR_GUIDANCE[code].title}（${errorLabel}: ${response.status} - ${detail}）`);
   }
+  return response;
+}
+
+// fetch が AbortController により中止された場合のエラーか（DOMException は環境により Error を継承しない）
+export function isAbortError(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { name?: unknown }).name === 'AbortError';
 }
 
 export async function fetchNotionData(
@@ -27,14 +80,11 @@ export async function fetchNotionData(
   databaseId: string, 
   proxyUrl: string, 
   query?: NotionDatabaseQueryParams, 
-  proxyToken?: string
+  proxyToken?: string,
+  signal?: AbortSignal
 ): Promise<NotionQueryResponse> {
   logger.log('📡 Fetching Notion data (via proxy)...');
-  const PROXY_URL = (proxyUrl || '').trim();
-  if (!PROXY_URL) {
-    throw new Error('プロキシURLが未設定です。フォームにWorkersのURLを入力してください。');
-  }
-  assertHttps(PROXY_URL);
+  const PROXY_URL = resolveProxyUrl(proxyUrl);
   const headers: Record<string, string> = {
     'Content-Type': 'application/json',
     'Accept': 'application/json',
@@ -56,7 +106,7 @@ export async function fetchNotionData(
       ...(startCursor ? { start_cursor: startCursor } : {})
     };
     
-    const response: Response = await fetch(PROXY_URL, {
+    const response = await fetchProxy(PROXY_URL, {
       method: 'POST',
       headers,
       body: JSON.stringify({
@@ -65,14 +115,9 @@ export async function fetchNotionData(
         action: 'query',
         notionVersion: '2022-06-28',
         query: queryWithCursor
-      })
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      logger.error('❌ Notion API error:', errorText);
-      throw new Error(`Notion API error: ${response.status} - ${errorText}`);
-    }
+      }),
+      signal
+    }, 'Notion API error');
 
     const data: NotionQueryResponse = await response.json();
     
@@ -100,13 +145,9 @@ export async function fetchNotionData(
   };
 }
 
-export async function fetchNotionPage(apiKey: string, pageId: string, proxyUrl: string, proxyToken?: string) {
+export async function fetchNotionPage(apiKey: string, pageId: string, proxyUrl: string, proxyToken?: string, signal?: AbortSignal) {
   logger.log('📄 Fetch Notion page (via proxy)...', pageId);
-  const PROXY_URL = (proxyUrl || '').trim();
-  if (!PROXY_URL) {
-    throw new Error('プロキシURLが未設定です。フォームにWorkersのURLを入力してください。');
-  }
-  assertHttps(PROXY_URL);
+  const PROXY_URL = resolveProxyUrl(proxyUrl);
 
   const headers: Record<string, string> = {
     'Content-Type': 'application/json',
@@ -114,7 +155,7 @@ export async function fetchNotionPage(apiKey: string, pageId: string, proxyUrl:
   };
   if (proxyToken) headers['X-Proxy-Token'] = proxyToken;
 
-  const response = await fetch(PROXY_URL, {
+  const response = await fetchProxy(PROXY_URL, {
     method: 'POST',
     headers,
     body: JSON.stringify({
@@ -122,16 +163,107 @@ export async function fetchNotionPage(apiKey: string, pageId: string, proxyUrl:
       pageId,
       action: 'retrievePage',
       notionVersion: '2022-06-28'
-    })
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    logger.error('❌ Notion get page error:', errorText);
-    throw new Error(`Notion get page error: ${response.status} - ${errorText}`);
-  }
+    }),
+    signal
+  }, 'Notion get page error');
 
   const data = await response.json();
   logger.log('✅ Notion page received:', data?.id);
   return data;
 }
+
+// プロキシへのリクエスト共通処理（URL検証・ヘッダー構築・エラー処理）
+async function postToProxy(
+  proxyUrl: string,
+  proxyToken: string | undefined,
+  body: Record<string, unknown>,
+  errorLabel: string
+): Promise<unknown> {
+  const PROXY_URL = resolveProxyUrl(proxyUrl);
+
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'Accept': 'application/json',
+  };
+  if (proxyToken) headers['X-Proxy-Token'] = proxyToken;
+
+  // ページ作成は再送すると重複する可能性があるため、429（未処理）の場合のみ再試行する
+  const response = await fetchProxy(PROXY_URL, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({ ...body, notionVersion: '2022-06-28' })
+  }, errorLabel, body.action !== 'createPage');
+
+  return response.json();
+}
+
+// ページの作成・更新の応答からページIDを取り出す（IDがない応答はエラー）
+function toPageResponse(data: unknown, errorLabel: string): NotionPageResponse {
+  if (!isRecord(data) || typeof data.id !== 'string') {
+    throw new Error(`${errorLabel}: 応答にページIDがありません`);
+  }
+  return { id: data.id };
+}
+
+export async function createNotionPage(
+  apiKey: string,
+  databaseId: string,
+  properties: Record<string, unknown>,
+  proxyUrl: string,
+  proxyToken?: string
+): Promise<NotionPageResponse> {
+  logger.log('📝 Create Notion page (via proxy)...');
+  const errorLabel = 'Notion create page error';
+  const page = toPageResponse(await postToProxy(proxyUrl, proxyToken, {
+    apiKey,
+    databaseId,
+    action: 'createPage',
+    properties
+  }, errorLabel), errorLabel);
+  logger.log('✅ Notion page created:', page.id);
+  return page;
+}
+
+export async function updateNotionPage(
+  apiKey: string,
+  pageId: string,
+  properties: Record<string, unknown>,
+  proxyUrl: string,
+  proxyToken?: string
+): Promise<NotionPageResponse> {
+  logger.log('📝 Update Notion page (via proxy)...', pageId);
+  const errorLabel = 'Notion update page error';
+  const page = toPageResponse(await postToProxy(proxyUrl, proxyToken, {
+    apiKey,
+    pageId,
+    action: 'updatePage',
+    properties
+  }, errorLabel), errorLabel);
+  logger.log('✅ Notion page updated:', page.id);
+  return page;
+}
+
+/**
+ * データベースのスキーマ（プロパティ名と型）を取得
+ */
+export async function fetchNotionDatabaseSchema(
+  apiKey: string,
+  databaseId: string,
+  proxyUrl: string,
+  proxyToken?: string
+): Promise<NotionDatabaseProperty[]> {
+  logger.log('🗂 Retrieve Notion database schema (via proxy)...', databaseId);
+  const data = await postToProxy(proxyUrl, proxyToken, {
+    apiKey,
+    databaseId,
+    action: 'retrieveDatabase'
+  }, 'Notion retrieve database error');
+
+  const rawProperties = isRecord(data) && isRecord(data.properties) ? data.properties : {};
+  const properties = Object.entries(rawProperties).map(([name, property]) => ({
+    name,
+    type: isRecord(property) && typeof property.type === 'string' ? property.type : 'unknown'
+  }));
+  logger.log(`✅ Notion database schema received: ${properties.length} properties`);
+  return properties;
+}
@@ -0,0 +1,370 @@
+/**
+ * Figma Variables を Notion データベースへ書き戻す（Figma → Notion の逆方向同期）
+ */
+
+import { FieldMapping, NotionDatabaseProperty, NotionPushResult, NotionVariable, NotionVariableValue } from '@/shared/types';
+import { logger } from '@/shared/logger';
+import { createNotionPage, fetchNotionDatabaseSchema, updateNotionPage } from './notionProxy';
+import {
+  extractFromProperty,
+  getModeValueMappings,
+  getNotionFieldName,
+  sanitizeName,
+  sanitizePath
+} from './notionTransform';
+
+// Notion側で計算される（書き込みできない）プロパティ型
+const READ_ONLY_PROPERTY_TYPES = [
+  'formula',
+  'rollup',
+  'created_time',
+  'created_by',
+  'last_edited_time',
+  'last_edited_by',
+  'unique_id'
+];
+
+// 書き込み対象のフィールド
+interface PushField {
+  key: string;           // Notionプロパティ名
+  isValue: boolean;      // 値列（参照・色を含む）かどうか
+  read: (variable: NotionVariable) => NotionVariableValue | undefined;
+}
+
+// 後から設定するリレーション（参照先ページが同じプッシュ内で新規作成される場合）
+interface PendingRelation {
+  key: string;
+  targetName: string;
+}
+
+// 1ページ分の書き込み計画
+export interface NotionPushItem {
+  variable: NotionVariable;
+  fullName: string;
+  action: 'create' | 'update' | 'unchanged';
+  pageId?: string;                      // 既存ページのID（新規作成時は未定義）
+  properties: Record<string, unknown>;  // 書き込むプロパティ（更新時は差分のみ）
+  pendingRelations: PendingRelation[];
+  warnings: string[];
+}
+
+export interface NotionPushOptions {
+  apiKey: string;
+  databaseId: string;
+  proxyUrl: string;
+  proxyToken?: string;
+  mappings?: FieldMapping[];
+  onProgress?: (done: number, total: number) => void;
+}
+
+// group/name 形式のフルネームを取得
+const getFullName = (variable: NotionVariable): string =>
+  variable.group ? `${variable.group}/${variable.name}` : variable.name;
+
+// {Group/Name} 形式の参照先名を取得（参照でなければnull）
+const getAliasTarget = (value: NotionVariableValue | undefined): string | null => {
+  if (typeof value !== 'string') return null;
+  const match = value.trim().match(/^\{([^}]+)\}/);
+  return match ? match[1].trim() : null;
+};
+
+
+/**
+ * 既存ページを変数のフルネームで索引化
+ */
+export const indexPagesByName = (
+  pages: any[],
+  nameKey: string,
+  groupKey: string
+): Map<string, any> => {
+  const index = new Map<string, any>();
+  for (const page of pages) {
+    const props = page?.properties || {};
+    const name = sanitizeName(String(extractFromProperty(props, nameKey) || ''));
+    if (!name) continue;
+    const group = sanitizePath(String(extractFromProperty(props, groupKey) || ''));
+    const fullName = group ? `${group}/${name}` : name;
+    if (!index.has(fullName)) index.set(fullName, page);
+  }
+  return index;
+};
+
+/**
+ * 変数に対応する既存ページを決定する
+ * インポート時に保存したNotionページIDで紐付いたページを優先し（Figma側でリネームしても同じページを更新）、
+ * なければフルネームで一致させる（他の変数に紐付いたページは除く）
+ */
+export const matchPagesToVariables = (
+  variables: NotionVariable[],
+  pages: any[],
+  pageIndex: Map<string, any>
+): Map<NotionVariable, any> => {
+  const pagesById = new Map(pages.filter(p => p?.id).map(p => [p.id, p]));
+  const linkedPageIds = new Set(variables.map(v => v.notionPageId).filter(id => id && pagesById.has(id)));
+  const matches = new Map<NotionVariable, any>();
+  for (const variable of variables) {
+    const linked = variable.notionPageId ? pagesById.get(variable.notionPageId) : undefined;
+    const byName = pageIndex.get(getFullName(variable));
+    const page = linked ?? (byName && !linkedPageIds.has(byName.id) ? byName : undefined);
+    if (page) matches.set(variable, page);
+  }
+  return matches;
+};
+
+/**
+ * プロパティ型に応じたNotion APIの書き込み値を生成（書き込めない型はnull）
+ */
+export const buildPropertyValue = (type: string, text: string, relationId?: string): unknown => {
+  switch (type) {
+    case 'title':
+      return { title: [{ type: 'text', text: { content: text } }] };
+    case 'rich_text':
+      return { rich_text: text ? [{ type: 'text', text: { content: text } }] : [] };
+    case 'number': {
+      const n = parseFloat(text);
+      return { number: Number.isFinite(n) ? n : null };
+    }
+    case 'select':
+      return { select: text ? { name: text } : null };
+    case 'multi_select':
+      return { multi_select: text ? [{ name: text }] : [] };
+    case 'checkbox':
+      return { checkbox: text.toLowerCase() === 'true' };
+    case 'relation':
+      return { relation: relationId ? [{ id: relationId }] : [] };
+    default:
+      return null;
+  }
+};
+
+// 既存プロパティの値を比較用の文字列として取得
+const readCurrentValue = (prop: any): string => {
+  if (!prop) return '';
+  if (prop.type === 'relation') {
+    return Array.isArray(prop.relation) ? prop.relation.map((r: any) => r?.id).filter(Boolean).join(',') : '';
+  }
+  if (prop.type === 'checkbox') return prop.checkbox ? 'true' : 'false';
+  return String(extractFromProperty({ prop }, 'prop') ?? '').trim();
+};
+
+// 値の比較（色のHEXは大文字・小文字を区別しない）
+const isSameValue = (current: string, next: string, isValue: boolean): boolean => {
+  if (current === next) return true;
+  return isValue && current.startsWith('#') && current.toLowerCase() === next.toLowerCase();
+};
+
+// 書き込み値を文字列に変換
+const toText = (value: NotionVariableValue | undefined): string => {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+/**
+ * Figmaの変数と既存のNotionページを比較し、作成・更新の計画を立てる
+ * @param variables プッシュする変数（プラグインから取得）
+ * @param pages Notionデータベースの既存ページ
+ * @param schema データベースのプロパティ（ページがない場合も型を判定できるようスキーマを使用）
+ * @param mappings フィールドマッピング設定（インポートと共通）
+ */
+export function planNotionPush(
+  variables: NotionVariable[],
+  pages: any[],
+  schema: NotionDatabaseProperty[],
+  mappings?: FieldMapping[]
+): NotionPushItem[] {
+  const nameKey = getNotionFieldName(mappings, 'name', 'Name');
+  const groupKey = getNotionFieldName(mappings, 'group', 'Group');
+  const valueKey = getNotionFieldName(mappings, 'value', 'Value');
+  const typeKey = getNotionFieldName(mappings, 'type', 'Type');
+  const descKey = getNotionFieldName(mappings, 'description', 'Description');
+  const unitKey = getNotionFieldName(mappings, 'unit', '');
+
+  const propertyTypes = new Map(schema.map(p => [p.name, p.type]));
+  const pageIndex = indexPagesByName(pages, nameKey, groupKey);
+  const pageMatches = matchPagesToVariables(variables, pages, pageIndex);
+  // 参照先の解決用（紐付いたページは変数の現在の名前で引く）
+  const targetIndex = new Map(pageIndex);
+  pageMatches.forEach((page, variable) => targetIndex.set(getFullName(variable), page));
+
+  // インポート時に description へ結合された "[unit]" を分離
+  const splitUnit = (variable: NotionVariable): { description: string; unit: string } => {
+    const description = variable.description || '';
+    const match = unitKey ? description.match(/^(.*?)\s*\[([^\]]+)\]$/) : null;
+    return match ? { description: match[1], unit: match[2] } : { description, unit: '' };
+  };
+
+  const fields: PushField[] = [
+    { key: nameKey, isValue: false, read: v => v.name },
+    { key: groupKey, isValue: false, read: v => v.group || '' },
+    { key: typeKey, isValue: false, read: v => v.type },
+    { key: descKey, isValue: false, read: v => splitUnit(v).description },
+    { key: valueKey, isValue: true, read: v => v.value }
+  ];
+  if (unitKey) {
+    fields.push({ key: unitKey, isValue: false, read: v => splitUnit(v).unit });
+  }
+  for (const { modeName, notionField } of getModeValueMappings(mappings)) {
+    fields.push({
+      key: notionField,
+      isValue: true,
+      read: v => {
+        const entry = Object.entries(v.valuesByMode ?? {})
+          .find(([name]) => name.toLowerCase() === modeName.toLowerCase());
+        return entry?.[1];
+      }
+    });
+  }
+
+  const items: NotionPushItem[] = [];
+
+  for (const variable of variables) {
+    const fullName = getFullName(variable);
+    const page = pageMatches.get(variable);
+    const currentProps = page?.properties || {};
+    const properties: Record<string, unknown> = {};
+    const pendingRelations: PendingRelation[] = [];
+    const warnings: string[] = [];
+
+    for (const field of fields) {
+      const value = field.read(variable);
+      if (value === undefined) continue;
+
+      // データベースにない列（Description・Unit など任意の列）には書き込まない
+      const type = propertyTypes.get(field.key);
+      if (!type) {
+        if (field.key === nameKey) warnings.push(`${field.key}: データベースに列がありません`);
+        continue;
+      }
+      if (READ_ONLY_PROPERTY_TYPES.includes(type)) continue;
+
+      const aliasTarget = field.isValue ? getAliasTarget(value) : null;
+
+      if (type === 'relation') {
+        if (!aliasTarget) {
+          if (toText(value)) warnings.push(`${field.key}: リレーション列には参照以外の値を書き込めません`);
+          continue;
+        }
+        const targetPage = targetIndex.get(aliasTarget);
+        if (!targetPage) {
+          pendingRelations.push({ key: field.key, targetName: aliasTarget });
+          continue;
+        }
+        if (page && readCurrentValue(currentProps[field.key]) === targetPage.id) continue;
+        properties[field.key] = buildPropertyValue(type, '', targetPage.id);
+        continue;
+      }
+
+      const text = aliasTarget ? `{${aliasTarget}}` : toText(value);
+      if (page && isSameValue(readCurrentValue(currentProps[field.key]), text, field.isValue)) continue;
+
+      // 単位付きの値（1.5rem など）は数値列に書き込むと単位が失われるため書き込まない
+      if (type === 'number' && field.isValue && /^-?[\d.]+(?:e[+-]?\d+)?\s*[a-z%]+$/i.test(text)) {
+        warnings.push(`${field.key}: 単位付きの値 "${text}" は数値列に書き込めません`);
+        continue;
+      }
+
+      const payload = buildPropertyValue(type, text);
+      if (payload === null) {
+        warnings.push(`${field.key}: 未対応のプロパティ型です (${type})`);
+        continue;
+      }
+      properties[field.key] = payload;
+    }
+
+    const hasChanges = Object.keys(properties).length > 0 || pendingRelations.length > 0;
+    items.push({
+      variable,
+      fullName,
+      action: !page ? 'create' : hasChanges ? 'update' : 'unchanged',
+      ...(page ? { pageId: page.id } : {}),
+      properties,
+      pendingRelations,
+      warnings
+    });
+  }
+
+  return items;
+}
+
+/**
+ * 変数をNotionデータベースへプッシュ（存在しないページは作成、差分があるページは更新）
+ * @param variables プッシュする変数
+ * @param pages Notionデータベースの既存ページ
+ */
+export async function pushVariablesToNotion(
+  variables: NotionVariable[],
+  pages: any[],
+  options: NotionPushOptions
+): Promise<NotionPushResult> {
+  const { apiKey, databaseId, proxyUrl, proxyToken, mappings, onProgress } = options;
+  const schema = await fetchNotionDatabaseSchema(apiKey, databaseId, proxyUrl, proxyToken);
+  const items = planNotionPush(variables, pages, schema, mappings);
+  const result: NotionPushResult = { created: 0, updated: 0, unchanged: 0, failed: 0, errors: [], createdNames: [], updatedNames: [] };
+
+  // フルネーム → ページID（新規作成したページも追加し、後続のリレーション解決に使う）
+  const pageIdByName = new Map<string, string>();
+  indexPagesByName(
+    pages,
+    getNotionFieldName(mappings, 'name', 'Name'),
+    getNotionFieldName(mappings, 'group', 'Group')
+  ).forEach((page, name) => pageIdByName.set(name, page.id));
+
+  const deferred: NotionPushItem[] = [];
+  let done = 0;
+
+  for (const item of items) {
+    item.warnings.forEach(w => result.errors.push(`${item.fullName}: ${w}`));
+
+    try {
+      if (item.action === 'create') {
+        const created = await createNotionPage(apiKey, databaseId, item.properties, proxyUrl, proxyToken);
+        pageIdByName.set(item.fullName, created.id);
+        item.pageId = created.id;
+        result.created++;
+        result.createdNames.push(item.fullName);
+      } else if (item.action === 'update') {
+        if (Object.keys(item.properties).length > 0) {
+          await updateNotionPage(apiKey, item.pageId!, item.properties, proxyUrl, proxyToken);
+        }
+        result.updated++;
+        result.updatedNames.push(item.fullName);
+      } else {
+        result.unchanged++;
+      }
+      // リネームした変数への参照も解決できるよう現在の名前で登録
+      if (item.pageId) pageIdByName.set(item.fullName, item.pageId);
+      if (item.pendingRelations.length > 0) deferred.push(item);
+    } catch (e) {
+      logger.error('[notionPush] ページの書き込みに失敗:', item.fullName, e);
+      result.failed++;
+      result.errors.push(`${item.fullName}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+
+    onProgress?.(++done, items.length);
+  }
+
+  // 参照先ページが揃った後にリレーションを設定
+  for (const item of deferred) {
+    const properties: Record<string, unknown> = {};
+    for (const { key, targetName } of item.pendingRelations) {
+      const targetId = pageIdByName.get(targetName);
+      if (targetId) {
+        properties[key] = buildPropertyValue('relation', '', targetId);
+      } else {
+        result.errors.push(`${item.fullName}: 参照先 ${targetName} がデータベースにありません`);
+      }
+    }
+    if (Object.keys(properties).length === 0) continue;
+
+    try {
+      await updateNotionPage(apiKey, item.pageId!, properties, proxyUrl, proxyToken);
+    } catch (e) {
+      logger.error('[notionPush] リレーションの設定に失敗:', item.fullName, e);
+      result.errors.push(`${item.fullName}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+
+  logger.log('[notionPush] completed', result);
+  return result;
+}
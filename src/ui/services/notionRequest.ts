@@ -0,0 +1,200 @@
+/**
+ * プロキシ経由のNotion APIリクエストの共通処理
+ * - 429 は Retry-After に従って待機してから再試行
+ * - 5xx・接続エラーは指数バックオフで再試行（冪等でないリクエスト・プロキシの設定エラーは再試行しない）
+ * - 同時に送信するリクエスト数を制限する（Notion APIは平均3リクエスト/秒）
+ */
+import { logger } from '@/shared/logger';
+import { classifyProxyError, ErrorCode } from '@/shared/errors';
+
+export const MAX_CONCURRENT_REQUESTS = 3;
+export const MAX_RETRIES = 4;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30000;
+// Retry-After が長すぎる場合の上限
+const MAX_RETRY_AFTER_MS = 60000;
+
+const RETRYABLE_SERVER_STATUSES = [500, 502, 503, 504];
+
+// 再試行の通知
+export interface RetryEvent {
+  label: string;
+  reason: 'rate_limited' | 'server_error' | 'network_error';
+  status?: number;
+  attempt: number;    // 何回目の再試行か（1から）
+  maxRetries: number;
+  delayMs: number;
+}
+
+export interface RetryOptions {
+  label: string;               // ログ・通知用のリクエスト名
+  retryServerErrors?: boolean; // 5xx・接続エラーも再試行する（既定: true。ページ作成など冪等でない場合はfalse）
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+const retryListeners = new Set<(event: RetryEvent) => void>();
+
+/**
+ * 再試行の通知を購読する（UIで待機中であることを表示する）
+ * @returns 購読を解除する関数
+ */
+export const onNotionRetry = (listener: (event: RetryEvent) => void): (() => void) => {
+  retryListeners.add(listener);
+  return () => {
+    retryListeners.delete(listener);
+  };
+};
+
+// 再試行の通知を表示用の文言にする
+export function formatRetryMessage(event: RetryEvent): string {
+  const seconds = Math.ceil(event.delayMs / 1000);
+  const cause = event.reason === 'rate_limited'
+    ? 'Notion APIのリクエスト制限に達したため'
+    : event.reason === 'server_error'
+      ? `Notion APIがエラーを返したため（${event.status}）`
+      : 'プロキシに接続できなかったため';
+  return `${cause}、${seconds} 秒後に再試行します（${event.attempt}/${event.maxRetries}）`;
+}
+
+/**
+ * 同時実行数を制限する関数を作成する（上限を超えたタスクは空きが出るまで待機）
+ * 終了したタスクの枠は待機中のタスクにそのまま引き渡す（引き渡しまでの間に新しいタスクが枠を取らないようにする）
+ */
+export function createConcurrencyLimiter(maxConcurrent: number) {
+  let active = 0;
+  const queue: (() => void)[] = [];
+
+  const release = () => {
+    const next = queue.shift();
+    if (next) {
+      next();
+    } else {
+      active--;
+    }
+  };
+
+  return async <T>(task: () => Promise<T>): Promise<T> => {
+    if (active >= maxConcurrent) {
+      await new Promise<void>(resolve => queue.push(resolve));
+    } else {
+      active++;
+    }
+    try {
+      return await task();
+    } finally {
+      release();
+    }
+  };
+}
+
+// Notionへのリクエスト全体で共有する同時実行数の制限
+const limitRequest = createConcurrencyLimiter(MAX_CONCURRENT_REQUESTS);
+
+/**
+ * Retry-After ヘッダー（秒数またはHTTP日付）を待機時間（ミリ秒）にする
+ * @returns 解釈できない場合はundefined
+ */
+export function parseRetryAfter(value: string | null, now = Date.now()): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+// 指数バックオフの待機時間（±20%のゆらぎを加えて同時に再試行しないようにする）
+export function getBackoffDelay(attempt: number, baseDelayMs = BASE_DELAY_MS, maxDelayMs = MAX_DELAY_MS): number {
+  const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+}
+
+// 待機する（中止された場合は AbortError で終了）
+function wait(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const abortError = () => new DOMException('Aborted', 'AbortError');
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(abortError());
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// 再試行しても結果が変わらないプロキシの設定エラー
+const PROXY_CONFIGURATION_ERRORS: string[] = [ErrorCode.PROXY_MISCONFIGURED, ErrorCode.PROXY_TOKEN_REJECTED];
+
+/**
+ * プロキシの設定エラーか（PROXY_TOKEN の未設定など。再試行しても結果が変わらない）
+ * Notion APIのエラー（object: 'error'）を透過した応答・上流の一時的なエラーをWorkerが包んだ応答（502など）・
+ * Notionに接続できなかった応答（UNKNOWN）・JSONでない応答（Cloudflareのエラーページなど）は対象外
+ */
+async function isProxyConfigurationError(response: Response): Promise<boolean> {
+  try {
+    const body = JSON.parse(await response.clone().text());
+    if (!body || body.object === 'error') return false;
+    // errorCode を返さない旧テンプレートのWorkerはメッセージから判定
+    const code = body.errorCode ?? classifyProxyError(response.status, JSON.stringify(body)).code;
+    return PROXY_CONFIGURATION_ERRORS.includes(code);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 再試行・同時実行数の制限付きで fetch する
+ * 再試行しても成功しない場合は最後の応答を返す（接続エラーの場合は例外を投げる）
+ */
+export async function fetchWithRetry(url: string, init: RequestInit, options: RetryOptions): Promise<Response> {
+  const {
+    label,
+    retryServerErrors = true,
+    maxRetries = MAX_RETRIES,
+    baseDelayMs = BASE_DELAY_MS,
+    maxDelayMs = MAX_DELAY_MS
+  } = options;
+
+  for (let attempt = 1; ; attempt++) {
+    let retry: Omit<RetryEvent, 'label' | 'attempt' | 'maxRetries'>;
+    try {
+      const response = await limitRequest(() => fetch(url, init));
+      if (response.status === 429) {
+        const retryAfter = parseRetryAfter(response.headers?.get('Retry-After') ?? null);
+        retry = {
+          reason: 'rate_limited',
+          status: 429,
+          delayMs: retryAfter !== undefined
+            ? Math.min(retryAfter, MAX_RETRY_AFTER_MS)
+            : getBackoffDelay(attempt, baseDelayMs, maxDelayMs)
+        };
+      } else if (
+        retryServerErrors &&
+        RETRYABLE_SERVER_STATUSES.includes(response.status) &&
+        !(await isProxyConfigurationError(response))
+      ) {
+        retry = { reason: 'server_error', status: response.status, delayMs: getBackoffDelay(attempt, baseDelayMs, maxDelayMs) };
+      } else {
+        return response;
+      }
+      if (attempt > maxRetries) return response;
+    } catch (error) {
+      // 中止された場合・再試行しない場合はそのまま
+      if (init.signal?.aborted || !retryServerErrors || attempt > maxRetries) throw error;
+      retry = { reason: 'network_error', delayMs: getBackoffDelay(attempt, baseDelayMs, maxDelayMs) };
+    }
+
+    const event: RetryEvent = { label, attempt, maxRetries, ...retry };
+    logger.warn(`⏳ ${label}: ${event.reason}${event.status ? ` (${event.status})` : ''}, retry ${attempt}/${maxRetries} in ${event.delayMs}ms`);
+    retryListeners.forEach(listener => listener(event));
+    await wait(event.delayMs, init.signal);
+  }
+}
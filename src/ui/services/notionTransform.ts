@@ -2,8 +2,20 @@
  * Notionデータの変換ユーティリティ
  */
 
-import { NotionVariable, FieldMapping } from '@/shared/types';
+import {
+  NotionVariable,
+  NotionVariableValue,
+  FieldMapping,
+  CodeSyntaxPlatformName,
+  CompositeToken,
+  CompositeTokenType,
+  GradientTokenValue,
+  ShadowLayerValue,
+  TypographyTokenValue,
+  VariableType
+} from '@/shared/types';
 import { logger } from '@/shared/logger';
+import { colorToHex, parseCssColor } from '@/shared/color';
 
 /**
  * マッピング設定からNotionフィールド名を取得するヘルパー
@@ -14,10 +26,23 @@ export const getNotionFieldName = (
   defaultValue: string
 ): string => {
   if (!mappings || mappings.length === 0) return defaultValue;
-  const mapping = mappings.find(m => m.variableProperty === variableProperty);
+  // モード指定付きのマッピングはモード別の値として別途扱うため除外
+  const mapping = mappings.find(m => m.variableProperty === variableProperty && !m.modeName);
   return mapping?.notionField || defaultValue;
 };
 
+/**
+ * モード別の値マッピングを取得するヘルパー
+ */
+export const getModeValueMappings = (
+  mappings: FieldMapping[] | undefined
+): { modeName: string; notionField: string }[] => {
+  if (!mappings) return [];
+  return mappings
+    .filter(m => m.variableProperty === 'value' && m.modeName?.trim() && m.notionField)
+    .map(m => ({ modeName: m.modeName!.trim(), notionField: m.notionField }));
+};
+
 /**
  * HEX変換用ヘルパー
  */
@@ -51,6 +76,159 @@ export const hslToRgb = (h: number, s: number, l: number): { r: number; g: numbe
   return { r: (r + m) * 255, g: (g + m) * 255, b: (b + m) * 255 };
 };
 
+// linear-gradient / radial-gradient 形式の値かどうか
+const isGradientValue = (value: unknown): boolean =>
+  typeof value === 'string' && /^(linear|radial)-gradient\(/i.test(value.trim());
+
+// {Group/Name} 形式の参照かどうか
+const isAliasReference = (value: string): boolean => /^\{[^{}]+\}$/.test(value.trim());
+
+// 括弧（() / {}）の外側にある区切り文字で分割
+const splitOutsideBrackets = (input: string, isSeparator: (c: string) => boolean): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const c of input) {
+    if (c === '(' || c === '{') depth++;
+    if (c === ')' || c === '}') depth--;
+    if (depth === 0 && isSeparator(c)) {
+      if (current.trim()) parts.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += c;
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+};
+
+/**
+ * CSS box-shadow 形式の文字列をシャドウのレイヤーに変換（解釈できない場合はnull）
+ * 例: "0 4px 8px -2px rgba(0,0,0,0.2), inset 0 1px 0 {Color/White}"
+ * - 長さは px または単位なしの数値のみ対応
+ * - 色はHEXに正規化（{Group/Name} 形式の参照はそのまま）
+ */
+export const parseBoxShadow = (value: string): ShadowLayerValue[] | null => {
+  const layers: ShadowLayerValue[] = [];
+  for (const layer of splitOutsideBrackets(value, c => c === ',')) {
+    let color = '';
+    let inset = false;
+    const lengths: number[] = [];
+    for (const part of splitOutsideBrackets(layer, c => /\s/.test(c))) {
+      if (part.toLowerCase() === 'inset') {
+        inset = true;
+        continue;
+      }
+      const length = part.match(/^(-?\d*\.?\d+)(px)?$/i);
+      if (length) {
+        lengths.push(parseFloat(length[1]));
+        continue;
+      }
+      if (color) return null;
+      color = isAliasReference(part) ? part : normalizeColor(part);
+      if (!color.startsWith('{') && !color.startsWith('#')) return null;
+    }
+    if (!color || lengths.length < 2 || lengths.length > 4) return null;
+    const [offsetX, offsetY, blur = 0, spread = 0] = lengths;
+    layers.push({ color, offsetX, offsetY, blur, spread, ...(inset ? { inset } : {}) });
+  }
+  return layers.length > 0 ? layers : null;
+};
+
+// CSSの方向キーワードのベクトル（y は下向きが正）
+const DIRECTION_VECTORS: Record<string, [number, number]> = {
+  top: [0, -1],
+  right: [1, 0],
+  bottom: [0, 1],
+  left: [-1, 0]
+};
+
+// "to top right" などの方向を角度に変換（解釈できない場合はnull）
+const directionToAngle = (direction: string): number | null => {
+  let x = 0;
+  let y = 0;
+  for (const word of direction.split(/\s+/).slice(1)) {
+    const vector = DIRECTION_VECTORS[word];
+    if (!vector) return null;
+    x += vector[0];
+    y += vector[1];
+  }
+  if (x === 0 && y === 0) return null;
+  return (Math.atan2(x, -y) * 180 / Math.PI + 360) % 360;
+};
+
+// グラデーションのストップ（"#fff 50%" / "{Color/Black}"）を読み取る（解釈できない場合はnull）
+const parseGradientStop = (part: string): { color: string; position?: number } | null => {
+  const [rawColor, rawPosition, ...rest] = splitOutsideBrackets(part, c => /\s/.test(c));
+  if (!rawColor || rest.length > 0) return null;
+  const color = isAliasReference(rawColor) ? rawColor : normalizeColor(rawColor);
+  if (!color.startsWith('{') && !color.startsWith('#')) return null;
+  if (rawPosition === undefined) return { color };
+  const position = rawPosition.match(/^(-?\d*\.?\d+)%$/);
+  return position ? { color, position: parseFloat(position[1]) / 100 } : null;
+};
+
+/**
+ * CSS linear-gradient / radial-gradient 形式の文字列をグラデーションに変換（解釈できない場合はnull）
+ * 例: "linear-gradient(90deg, #ffffff 0%, {Color/Black} 100%)"
+ * - 角度は deg または "to right" などの方向（省略時は 180 = 上から下）
+ * - radial-gradient の形状・位置の指定は無視（中心から外側へのグラデーション）
+ * - 位置を省略したストップは前後のストップの間に均等に配置
+ */
+export const parseGradient = (value: string): GradientTokenValue | null => {
+  const match = value.trim().match(/^(linear|radial)-gradient\(([\s\S]*)\)$/i);
+  if (!match) return null;
+  const type = match[1].toLowerCase() === 'linear' ? 'LINEAR' : 'RADIAL';
+  const args = splitOutsideBrackets(match[2], c => c === ',');
+
+  let angle = 180;
+  const first = (args[0] ?? '').toLowerCase();
+  if (type === 'LINEAR') {
+    const degrees = first.match(/^(-?\d*\.?\d+)deg$/);
+    const direction = first.startsWith('to ') ? directionToAngle(first) : null;
+    if (degrees) angle = parseFloat(degrees[1]);
+    if (first.startsWith('to ') && direction === null) return null;
+    if (direction !== null) angle = direction;
+    if (degrees || direction !== null) args.shift();
+  } else if (args.length > 0 && !parseGradientStop(args[0])) {
+    args.shift();
+  }
+
+  const stops: { color: string; position?: number }[] = [];
+  for (const arg of args) {
+    const stop = parseGradientStop(arg);
+    if (!stop) return null;
+    stops.push(stop);
+  }
+  if (stops.length < 2) return null;
+
+  // 位置が省略されたストップを補完（先頭は0、末尾は1、間は均等）
+  stops[0].position ??= 0;
+  stops[stops.length - 1].position ??= 1;
+  for (let i = 1; i < stops.length - 1; i++) {
+    if (stops[i].position !== undefined) continue;
+    const next = stops.findIndex((s, j) => j > i && s.position !== undefined);
+    const start = stops[i - 1].position!;
+    stops[i].position = start + (stops[next].position! - start) / (next - i + 1);
+  }
+
+  return {
+    type,
+    ...(type === 'LINEAR' ? { angle } : {}),
+    stops: stops.map(s => ({ color: s.color, position: s.position! }))
+  };
+};
+
+/**
+ * スコープの列（カンマ・改行区切り、またはマルチセレクト）をスコープ名の配列に変換
+ * 例: "Corner radius, gap" → ["CORNER_RADIUS", "GAP"]
+ */
+export const parseScopes = (value: string): string[] =>
+  value
+    .split(/[,\n]+/)
+    .map(s => s.trim().toUpperCase().replace(/[\s-]+/g, '_'))
+    .filter(Boolean);
+
 /**
  * 色値を正規化してHEX形式に変換
  */
@@ -77,55 +255,9 @@ export const normalizeColor = (val: any): string => {
       return `#${r}${g}${b}${a}`;
     }
     
-    // rgb/rgba (カンマ区切り、スペース区切り、% 対応、alpha は / または , 対応)
-    const rgb = s.match(/^rgba?\(\s*([^\)]+)\)$/i);
-    if (rgb) {
-      const raw = rgb[1].trim();
-      let rStr: string, gStr: string, bStr: string, aStr: string | undefined;
-      
-      if (raw.includes('/')) {
-        const [left, aPart] = raw.split('/').map(p => p.trim());
-        aStr = aPart;
-        const parts = left.split(/[ ,]+/).map(p => p.trim());
-        [rStr, gStr, bStr] = parts;
-      } else {
-        const parts = raw.split(/[ ,]+/).map(p => p.trim());
-        [rStr, gStr, bStr, aStr] = parts;
-      }
-      
-      const parseChan = (x?: string) => x?.endsWith('%') ? pctToByte(x) : Number(x);
-      const r = parseChan(rStr) ?? 0;
-      const g = parseChan(gStr) ?? 0;
-      const b = parseChan(bStr) ?? 0;
-      let a = 1;
-      if (aStr != null) {
-        a = aStr.endsWith('%') 
-          ? Math.max(0, Math.min(1, parseFloat(aStr) / 100)) 
-          : Number(aStr);
-      }
-      return `#${toHex(r)}${toHex(g)}${toHex(b)}${a < 1 ? toHex(a * 255) : ''}`;
-    }
-    
-    // hsl/hsla
-    const hsl = s.match(/^hsla?\(\s*([\d.]+)\s*,\s*([\d.]+)%\s*,\s*([\d.]+)%\s*(?:,\s*([\d.]+))?\s*\)$/i);
-    if (hsl) {
-      const h = parseFloat(hsl[1]);
-      const S = parseFloat(hsl[2]) / 100;
-      const L = parseFloat(hsl[3]) / 100;
-      const a = hsl[4] != null ? Math.max(0, Math.min(1, parseFloat(hsl[4]))) : 1;
-      const { r, g, b } = hslToRgb(h, S, L);
-      return `#${toHex(r)}${toHex(g)}${toHex(b)}${a < 1 ? toHex(a * 255) : ''}`;
-    }
-    
-    // plain "r,g,b" numbers
-    const csv = s.match(/^\s*(\d{1,3})\s*,\s*(\d{1,3})\s*,\s*(\d{1,3})(?:\s*,\s*([\d.]+))?\s*$/);
-    if (csv) {
-      const r = Number(csv[1]);
-      const g = Number(csv[2]);
-      const b = Number(csv[3]);
-      const a = csv[4] != null ? Number(csv[4]) : 1;
-      return `#${toHex(r)}${toHex(g)}${toHex(b)}${a < 1 ? toHex(a * 255) : ''}`;
-    }
+    // rgb() / hsl() / oklch() / color() などの色関数、色名、"r, g, b" 形式
+    const parsed = parseCssColor(s);
+    if (parsed) return colorToHex(parsed);
     
     // 文字列はそのまま返す（プラグイン側で型判定）
     return s;
@@ -181,6 +313,8 @@ export const extractFromProperty = (props: any, key?: string): any => {
     }
     case 'number':
       return p.number ?? '';
+    case 'checkbox':
+      return p.checkbox ? 'true' : 'false';
     case 'select':
       return p.select?.name ?? '';
     case 'multi_select':
@@ -244,6 +378,32 @@ export const readValueFromPage = (pageObj: any): any => {
   return v;
 };
 
+/**
+ * データベースIDを比較用に正規化（ハイフン除去・小文字化）
+ */
+export const normalizeDatabaseId = (id: string): string => id.replace(/-/g, '').toLowerCase();
+
+// ページID → ページの取得結果（同じ実行の全ペアで共有し、同じページを何度も取得しない）
+export type RelatedPageCache = Map<string, Promise<any>>;
+
+/**
+ * データベースのクエリで取得済みのページをキャッシュに追加する
+ * 他のペアのデータベースへのrelationは、そのペアのクエリ結果で解決できる（ページ単位の取得が不要になる）
+ */
+export const cacheQueriedPages = (cache: RelatedPageCache, pages: any[]): void => {
+  for (const page of pages) {
+    if (page?.id && !cache.has(page.id)) cache.set(page.id, Promise.resolve(page));
+  }
+};
+
+export interface TransformOptions {
+  // データベースID（normalizeDatabaseId済み）→ コレクション名
+  // 別のデータベースのページへのrelationを Collection:Group/Name 形式の参照に変換するために使用
+  collectionsByDatabase?: Map<string, string>;
+  // relation先のページのキャッシュ（省略時はこの変換内のみ）
+  pageCache?: RelatedPageCache;
+}
+
 /**
  * NotionレスポンスをNotionVariable配列に変換
  */
@@ -253,7 +413,8 @@ export async function transformNotionResponse(
   proxyUrl: string,
   proxyToken: string | undefined,
   fetchNotionPage: (apiKey: string, pageId: string, proxyUrl: string, proxyToken?: string) => Promise<any>,
-  mappings?: FieldMapping[]
+  mappings?: FieldMapping[],
+  options: TransformOptions = {}
 ): Promise<NotionVariable[]> {
   // マッピングからNotionフィールド名を取得（デフォルト値付き）
   const nameKey = getNotionFieldName(mappings, 'name', 'Name');
@@ -264,8 +425,51 @@ export async function transformNotionResponse(
   const descKey = getNotionFieldName(mappings, 'description', 'Description');
   const unitKey = getNotionFieldName(mappings, 'unit', ''); // unit はマッピング未設定時は無効にするためデフォルトを空文字にしている（空文字は falsy なので、後続の if (unitKey) チェックで unit フィールドを一切参照しない）
 
-  // relationページのキャッシュ
-  const pageCache = new Map<string, any>();
+  const modeValueMappings = getModeValueMappings(mappings);
+
+  // タイポグラフィの列（Type が TYPOGRAPHY の行で使用）
+  const typographyKeys: Record<keyof TypographyTokenValue, string> = {
+    fontFamily: getNotionFieldName(mappings, 'fontFamily', 'Font Family'),
+    fontSize: getNotionFieldName(mappings, 'fontSize', 'Font Size'),
+    fontWeight: getNotionFieldName(mappings, 'fontWeight', 'Font Weight'),
+    lineHeight: getNotionFieldName(mappings, 'lineHeight', 'Line Height'),
+    letterSpacing: getNotionFieldName(mappings, 'letterSpacing', 'Letter Spacing')
+  };
+
+  // シャドウの列（Type が SHADOW の行で使用。列がない場合はValue列を box-shadow 形式として読み取る）
+  const shadowKeys: Record<'color' | 'offsetX' | 'offsetY' | 'blur' | 'spread', string> = {
+    color: getNotionFieldName(mappings, 'shadowColor', 'Shadow Color'),
+    offsetX: getNotionFieldName(mappings, 'shadowOffsetX', 'Offset X'),
+    offsetY: getNotionFieldName(mappings, 'shadowOffsetY', 'Offset Y'),
+    blur: getNotionFieldName(mappings, 'shadowBlur', 'Blur'),
+    spread: getNotionFieldName(mappings, 'shadowSpread', 'Spread')
+  };
+
+  // スコープ・コードシンタックスの列（列がない行では変更しない）
+  const scopesKey = getNotionFieldName(mappings, 'scopes', 'Scopes');
+  const codeSyntaxKeys: Record<CodeSyntaxPlatformName, string> = {
+    WEB: getNotionFieldName(mappings, 'codeSyntaxWeb', 'Code Syntax Web'),
+    ANDROID: getNotionFieldName(mappings, 'codeSyntaxAndroid', 'Code Syntax Android'),
+    iOS: getNotionFieldName(mappings, 'codeSyntaxIOS', 'Code Syntax iOS')
+  };
+
+  // 公開から除外・非推奨のフラグの列（列がない行では変更しない）
+  const hiddenKey = getNotionFieldName(mappings, 'hiddenFromPublishing', 'Hidden');
+  const deprecatedKey = getNotionFieldName(mappings, 'deprecated', 'Deprecated');
+
+  // relationページのキャッシュ（取得中のページも重複して取得しないよう Promise を保持）
+  const pageCache: RelatedPageCache = options.pageCache ?? new Map();
+
+  // relationページを取得（キャッシュ付き。失敗した場合は次の変換で再取得できるようキャッシュから除く）
+  const getRelatedPage = (pageId: string): Promise<any> => {
+    let related = pageCache.get(pageId);
+    if (!related) {
+      related = fetchNotionPage(apiKey, pageId, proxyUrl, proxyToken);
+      pageCache.set(pageId, related);
+      related.catch(() => pageCache.delete(pageId));
+    }
+    return related;
+  };
   
   // 事前に各ページの最終的なVariable名を推定
   const pageIdToVarName = new Map<string, string>();
@@ -279,6 +483,144 @@ export async function transformNotionResponse(
     }
   }
 
+  // 名前で解決できないrelation先のページを並列に先読みする（同時リクエスト数はリクエスト層で制限）
+  // ロールアップの参照は代替の値を読むため、同一クエリ内のページでも取得する
+  if (Array.isArray(raw)) {
+    const relationFields = [
+      valueFallbackKey,
+      ...modeValueMappings.map(m => m.notionField),
+      ...Object.values(typographyKeys),
+      ...Object.values(shadowKeys)
+    ];
+    const relatedIds = new Set<string>();
+    for (const p of raw) {
+      const props0 = p?.properties || {};
+      const rollupAlias = /^\{[^}]+\}$/.test(String(extractFromProperty(props0, valuePrimaryKey) || ''));
+      for (const field of relationFields) {
+        const prop = props0[field];
+        const relId = prop?.type === 'relation' && Array.isArray(prop.relation) && prop.relation[0]?.id;
+        if (!relId || pageCache.has(relId)) continue;
+        if (!pageIdToVarName.has(relId) || (field === valueFallbackKey && rollupAlias)) relatedIds.add(relId);
+      }
+    }
+    if (relatedIds.size > 0) {
+      logger.log(`[notionTransform] relation先のページを取得: ${relatedIds.size} 件`);
+      // 失敗は各行の解決時に記録する
+      await Promise.all([...relatedIds].map(id => getRelatedPage(id).catch(() => undefined)));
+    }
+  }
+
+  // relation先のページから参照名を作成
+  // 同一クエリにないページで、親データベースがペアとして登録されている場合はコレクション名で修飾する
+  const relatedTargetName = (related: any): string => {
+    const relatedProps = related?.properties || {};
+    const relatedName = sanitizeName(extractFromProperty(relatedProps, nameKey) || related?.name || '');
+    if (!relatedName) return '';
+    const relatedGroup = sanitizePath(extractFromProperty(relatedProps, groupKey) || related?.group || '');
+    const target = relatedGroup ? `${relatedGroup}/${relatedName}` : relatedName;
+    const databaseId = related?.parent?.database_id;
+    const collectionName = databaseId && options.collectionsByDatabase?.get(normalizeDatabaseId(databaseId));
+    return collectionName ? `${collectionName}:${target}` : target;
+  };
+
+  // relation列を {Group/Name} 形式の参照として読み取る（解決できない場合は空文字）
+  const readRelationAlias = async (prop: any): Promise<string> => {
+    const relId = Array.isArray(prop.relation) && prop.relation[0]?.id;
+    if (!relId) return '';
+    let target = pageIdToVarName.get(relId) || '';
+    if (!target) {
+      try {
+        target = relatedTargetName(await getRelatedPage(relId));
+      } catch (e) {
+        logger.error('[notionTransform] relationの解決に失敗:', e);
+      }
+    }
+    return target ? `{${target}}` : '';
+  };
+
+  // モード列の値を読み取る（relationは参照、{alias}はそのまま、それ以外は色の正規化）
+  const readModeValue = async (props: any, field: string): Promise<NotionVariableValue> => {
+    const prop = props[field];
+    if (prop?.type === 'relation') {
+      return readRelationAlias(prop);
+    }
+    const v = extractFromProperty(props, field);
+    if (v === '' || v == null) return '';
+    if (typeof v === 'string' && /^\{[^}]+\}$/.test(v.trim())) return v.trim();
+    return normalizeColor(v);
+  };
+
+  // 複合トークンの列を読み取る（relationは参照、それ以外はそのまま。空の列は含めない）
+  const readCompositeFields = async <K extends string>(
+    props: any,
+    keys: Record<K, string>
+  ): Promise<Partial<Record<K, string | number>>> => {
+    const fields: Partial<Record<K, string | number>> = {};
+    for (const [key, field] of Object.entries(keys) as [K, string][]) {
+      const prop = props[field];
+      const v = prop?.type === 'relation' ? await readRelationAlias(prop) : extractFromProperty(props, field);
+      if (typeof v === 'number' || (typeof v === 'string' && v.trim())) {
+        fields[key] = typeof v === 'string' ? v.trim() : v;
+      }
+    }
+    return fields;
+  };
+
+  // タイポグラフィの列を読み取る（フォントとサイズがない場合はnull）
+  const readTypography = async (props: any): Promise<TypographyTokenValue | null> => {
+    const fields = await readCompositeFields(props, typographyKeys);
+    if (fields.fontFamily === undefined || fields.fontSize === undefined) return null;
+    return { ...fields, fontFamily: String(fields.fontFamily), fontSize: fields.fontSize };
+  };
+
+  // シャドウの列、またはValue列の box-shadow を読み取る（色・オフセットがない場合はnull）
+  const readShadow = async (props: any): Promise<ShadowLayerValue[] | null> => {
+    const fields = await readCompositeFields(props, shadowKeys);
+    if (Object.keys(fields).length === 0) {
+      const css = extractFromProperty(props, valueFallbackKey);
+      return typeof css === 'string' ? parseBoxShadow(css) : null;
+    }
+    const { color, offsetX, offsetY } = fields;
+    if (color === undefined || offsetX === undefined || offsetY === undefined) return null;
+    const normalized = isAliasReference(String(color)) ? String(color) : normalizeColor(color);
+    if (!normalized.startsWith('{') && !normalized.startsWith('#')) return null;
+    return [{ ...fields, color: normalized, offsetX, offsetY }];
+  };
+
+  // コードシンタックスの列を読み取る（列がある場合は空欄も含める。空欄は削除として扱う）
+  const readCodeSyntax = (props: any): Partial<Record<CodeSyntaxPlatformName, string>> => {
+    const codeSyntax: Partial<Record<CodeSyntaxPlatformName, string>> = {};
+    for (const [platform, field] of Object.entries(codeSyntaxKeys) as [CodeSyntaxPlatformName, string][]) {
+      if (!props[field]) continue;
+      codeSyntax[platform] = String(extractFromProperty(props, field) ?? '').trim();
+    }
+    return codeSyntax;
+  };
+
+  // チェックボックスなどのフラグ列を読み取る（列がない場合はundefined）
+  const readFlag = (props: any, field: string): boolean | undefined => {
+    if (!props[field]) return undefined;
+    return /^(true|yes|1|✓|✔)$/i.test(String(extractFromProperty(props, field)).trim());
+  };
+
+  // 複合トークンの行を読み取る
+  const readComposite = async (type: string, props: any): Promise<CompositeToken | null> => {
+    if (type === CompositeTokenType.TYPOGRAPHY) {
+      const value = await readTypography(props);
+      return value && { type, value };
+    }
+    if (type === CompositeTokenType.SHADOW) {
+      const value = await readShadow(props);
+      return value && { type, value };
+    }
+    if (type === CompositeTokenType.GRADIENT) {
+      const css = extractFromProperty(props, valuePrimaryKey) || extractFromProperty(props, valueFallbackKey);
+      const value = typeof css === 'string' ? parseGradient(css) : null;
+      return value && { type, value };
+    }
+    return null;
+  };
+
   const variables: NotionVariable[] = [];
   
   if (Array.isArray(raw)) {
@@ -286,6 +628,44 @@ export async function transformNotionResponse(
       const props = page?.properties || {};
       const rawName = extractFromProperty(props, nameKey) || page?.name || 'Untitled';
       const name = sanitizeName(rawName);
+      const group = sanitizePath(extractFromProperty(props, groupKey) || page?.group || '');
+      
+      // descriptionとunitの結合処理
+      let description = extractFromProperty(props, descKey) || page?.description || '';
+      if (unitKey) {
+        const unit = extractFromProperty(props, unitKey) || '';
+        if (unit) {
+          // unitがある場合、descriptionに結合
+          description = description 
+            ? `${description} [${unit}]` 
+            : `[${unit}]`;
+        }
+      }
+      
+      // 複合トークン（タイポグラフィ・シャドウ・グラデーション）の行はスタイルとしてインポート
+      // Type未指定でもValue列が linear-gradient / radial-gradient の場合はグラデーションとして扱う
+      const rawType = String(extractFromProperty(props, typeKey) || '').toUpperCase();
+      const rawValue = extractFromProperty(props, valuePrimaryKey) || extractFromProperty(props, valueFallbackKey);
+      const compositeType = !rawType && isGradientValue(rawValue)
+        ? CompositeTokenType.GRADIENT
+        : rawType;
+      if (([CompositeTokenType.TYPOGRAPHY, CompositeTokenType.SHADOW, CompositeTokenType.GRADIENT] as string[]).includes(compositeType)) {
+        const composite = await readComposite(compositeType, props);
+        if (!composite) {
+          logger.warn(`[notionTransform] ${compositeType} の行の値を読み取れないためスキップしました:`, name);
+          continue;
+        }
+        variables.push({
+          id: page?.id || crypto.randomUUID(),
+          name,
+          value: '',
+          type: '' as VariableType,
+          group,
+          description,
+          composite
+        });
+        continue;
+      }
       let value: any = extractFromProperty(props, valuePrimaryKey);
       if (!value) value = extractFromProperty(props, valueFallbackKey);
 
@@ -304,17 +684,9 @@ export async function transformNotionResponse(
         
         try {
           if (firstRelId) {
-            let related: any = pageCache.get(firstRelId);
-            if (!related) {
-              related = await fetchNotionPage(apiKey, firstRelId, proxyUrl, proxyToken);
-              pageCache.set(firstRelId, related);
-            }
-            const relatedProps = related?.properties || {};
-            const relatedName = sanitizeName(extractFromProperty(relatedProps, nameKey) || related?.name || '');
-            const relatedGroup = sanitizePath(extractFromProperty(relatedProps, groupKey) || related?.group || '');
-            if (relatedName) {
-              aliasTarget = relatedGroup ? `${relatedGroup}/${relatedName}` : relatedName;
-            }
+            const related = await getRelatedPage(firstRelId);
+            // 同一クエリ内のページは修飾しない
+            aliasTarget = pageIdToVarName.get(firstRelId) || relatedTargetName(related) || aliasTarget;
             const direct = readValueFromPage(related);
             fallbackHex = normalizeColor(direct);
           }
@@ -333,27 +705,14 @@ export async function transformNotionResponse(
               // まず同一クエリ内のページから名前解決
               let aliasTarget = pageIdToVarName.get(firstRelId) || '';
               if (!aliasTarget) {
-                let related: any = pageCache.get(firstRelId);
-                if (!related) {
-                  related = await fetchNotionPage(apiKey, firstRelId, proxyUrl, proxyToken);
-                  pageCache.set(firstRelId, related);
-                }
-                const relatedProps = related?.properties || {};
-                const relatedName = sanitizeName(extractFromProperty(relatedProps, nameKey) || related?.name || '');
-                const relatedGroup = sanitizePath(extractFromProperty(relatedProps, groupKey) || related?.group || '');
-                aliasTarget = relatedGroup ? `${relatedGroup}/${relatedName}` : relatedName;
+                aliasTarget = relatedTargetName(await getRelatedPage(firstRelId));
               }
               if (aliasTarget) {
                 value = `{${aliasTarget}}`;
                 isAlias = true;
               } else {
                 // フォールバックで直接値
-                let relatedPage = pageCache.get(firstRelId);
-                if (!relatedPage) {
-                  relatedPage = await fetchNotionPage(apiKey, firstRelId, proxyUrl, proxyToken);
-                  pageCache.set(firstRelId, relatedPage);
-                }
-                value = readValueFromPage(relatedPage);
+                value = readValueFromPage(await getRelatedPage(firstRelId));
               }
             } catch (e) {
               logger.error('[notionTransform] relation解決に失敗:', e);
@@ -362,27 +721,28 @@ export async function transformNotionResponse(
         }
       }
 
-      if (!isAlias) {
+      // Type が STRING の場合は色名（red など）を色に変換しない
+      if (!isAlias && rawType !== VariableType.STRING) {
         value = normalizeColor(value);
       }
-      
-      // Aliasの場合はType指定を無視（Figma側で参照先の型を継承）
-      const type = isAlias 
-        ? '' 
-        : String(extractFromProperty(props, typeKey) || '').toUpperCase();
-      const group = sanitizePath(extractFromProperty(props, groupKey) || page?.group || '');
-      
-      // descriptionとunitの結合処理
-      let description = extractFromProperty(props, descKey) || page?.description || '';
-      if (unitKey) {
-        const unit = extractFromProperty(props, unitKey) || '';
-        if (unit) {
-          // unitがある場合、descriptionに結合
-          description = description 
-            ? `${description} [${unit}]` 
-            : `[${unit}]`;
+
+      // モード別の値（Light / Dark などのNotion列）
+      const valuesByMode: Record<string, NotionVariableValue> = {};
+      for (const { modeName, notionField } of modeValueMappings) {
+        const modeValue = await readModeValue(props, notionField);
+        if (modeValue !== '') {
+          valuesByMode[modeName] = modeValue;
         }
       }
+      const modeNames = Object.keys(valuesByMode);
+      // デフォルトの値列が未設定の場合は先頭モードの値を代表値とする
+      if (!value && modeNames.length > 0) {
+        value = valuesByMode[modeNames[0]];
+        isAlias = typeof value === 'string' && value.startsWith('{');
+      }
+      
+      // Aliasの場合はType指定を無視（Figma側で参照先の型を継承）
+      const type = isAlias ? '' : rawType;
       
       logger.log('[notionTransform] resolved token', { name, group, type, isAlias, value, description });
       
@@ -394,6 +754,25 @@ export async function transformNotionResponse(
         group,
         description
       };
+      if (modeNames.length > 0) {
+        item.valuesByMode = valuesByMode;
+      }
+      const scopes = parseScopes(String(extractFromProperty(props, scopesKey) ?? ''));
+      if (scopes.length > 0) {
+        item.scopes = scopes;
+      }
+      const codeSyntax = readCodeSyntax(props);
+      if (Object.keys(codeSyntax).length > 0) {
+        item.codeSyntax = codeSyntax;
+      }
+      const hiddenFromPublishing = readFlag(props, hiddenKey);
+      if (hiddenFromPublishing !== undefined) {
+        item.hiddenFromPublishing = hiddenFromPublishing;
+      }
+      const deprecated = readFlag(props, deprecatedKey);
+      if (deprecated !== undefined) {
+        item.deprecated = deprecated;
+      }
       variables.push(item);
     }
   }
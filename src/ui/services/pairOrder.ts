@@ -0,0 +1,78 @@
+/**
+ * 同期ペアのインポート順序を決定するユーティリティ
+ * 別のコレクションを参照（{Collection:Group/Name}）するペアは、参照先のペアの後にインポートする
+ */
+
+import { CollectionDbPair, NotionVariable, NotionVariableValue } from '@/shared/types';
+
+export interface LoadedPair {
+  pair: CollectionDbPair;
+  variables: NotionVariable[];
+}
+
+// {Collection:Group/Name} 形式の参照からコレクション名を取り出す（修飾なし・参照でなければnull）
+const referencedCollection = (value: NotionVariableValue | undefined): string | null => {
+  if (typeof value !== 'string' || !value.startsWith('{')) return null;
+  const target = value.split('||', 1)[0].trim().replace(/^\{|\}$/g, '');
+  const separator = target.indexOf(':');
+  return separator > 0 ? target.slice(0, separator).trim() : null;
+};
+
+// 複合トークンの値に含まれる文字列（参照の候補）を収集
+const collectCompositeStrings = (value: unknown): string[] => {
+  if (typeof value === 'string') return [value];
+  if (Array.isArray(value)) return value.flatMap(collectCompositeStrings);
+  if (typeof value === 'object' && value !== null) return Object.values(value).flatMap(collectCompositeStrings);
+  return [];
+};
+
+/**
+ * ペアが参照している他のコレクション名を収集
+ */
+export const collectReferencedCollections = (variables: NotionVariable[]): Set<string> => {
+  const names = new Set<string>();
+  for (const variable of variables) {
+    const compositeValues = variable.composite ? collectCompositeStrings(variable.composite.value) : [];
+    for (const value of [variable.value, ...Object.values(variable.valuesByMode ?? {}), ...compositeValues]) {
+      const name = referencedCollection(value);
+      if (name) names.add(name);
+    }
+  }
+  return names;
+};
+
+/**
+ * 参照先のコレクションが先になるようペアを並べ替える
+ * - 参照関係のないペアは元の順序を保つ
+ * - 循環している場合は元の順序のまま処理し、cyclic にコレクション名を返す
+ */
+export function orderPairsByReferences<T extends LoadedPair>(entries: T[]): { ordered: T[]; cyclic: string[] } {
+  const byCollection = new Map(entries.map(e => [e.pair.collectionName, e] as [string, T]));
+  const dependencies = new Map(entries.map(e => [
+    e,
+    [...collectReferencedCollections(e.variables)]
+      .filter(name => name !== e.pair.collectionName)
+      .map(name => byCollection.get(name))
+      .filter((dep): dep is T => dep !== undefined)
+  ] as [T, T[]]));
+
+  const state = new Map<T, 'visiting' | 'done'>();
+  const ordered: T[] = [];
+  const cyclic = new Set<string>();
+
+  const visit = (entry: T) => {
+    const current = state.get(entry);
+    if (current === 'done') return;
+    if (current === 'visiting') {
+      cyclic.add(entry.pair.collectionName);
+      return;
+    }
+    state.set(entry, 'visiting');
+    dependencies.get(entry)?.forEach(visit);
+    state.set(entry, 'done');
+    ordered.push(entry);
+  };
+
+  entries.forEach(visit);
+  return { ordered, cyclic: [...cyclic] };
+}
@@ -0,0 +1,99 @@
+/**
+ * 同期ペアごとのインポート設定
+ */
+
+import { CollectionDbPair, DEFAULT_UNIT_CONVERSION, FieldMapping, SavedFormData } from '@/shared/types';
+
+// ペアのインポート設定（未設定の項目を補完したもの）
+export type PairImportOptions = Required<
+  Pick<CollectionDbPair, 'overwriteExisting' | 'deleteRemovedVariables' | 'strictAliasResolution' | 'mappings' | 'unitConversion'>
+>;
+
+export const DEFAULT_FIELD_MAPPINGS: FieldMapping[] = [
+  { notionField: 'Name', variableProperty: 'name' },
+  { notionField: 'Value', variableProperty: 'value' },
+  { notionField: 'Type', variableProperty: 'type' },
+  { notionField: 'Group', variableProperty: 'group' },
+  { notionField: 'Description', variableProperty: 'description' }
+];
+
+export const DEFAULT_PAIR_OPTIONS: PairImportOptions = {
+  overwriteExisting: true,
+  deleteRemovedVariables: false,
+  strictAliasResolution: false,
+  mappings: DEFAULT_FIELD_MAPPINGS,
+  unitConversion: DEFAULT_UNIT_CONVERSION
+};
+
+// 有効なvariablePropertyの値
+const VALID_VARIABLE_PROPERTIES: FieldMapping['variableProperty'][] = [
+  'name', 'value', 'type', 'group', 'description', 'unit',
+  'fontFamily', 'fontSize', 'fontWeight', 'lineHeight', 'letterSpacing',
+  'shadowColor', 'shadowOffsetX', 'shadowOffsetY', 'shadowBlur', 'shadowSpread',
+  'scopes', 'codeSyntaxWeb', 'codeSyntaxAndroid', 'codeSyntaxIOS',
+  'hiddenFromPublishing', 'deprecated'
+];
+
+/**
+ * フィールドマッピングを正規化・検証する
+ *
+ * 古いバージョンで保存されたデータや破損したデータから
+ * 無効なマッピングをフィルタリングする
+ *
+ * @param mappings - 正規化対象のマッピング配列
+ * @returns 有効なマッピングのみを含む配列
+ */
+export const normalizeFieldMappings = (
+  mappings: FieldMapping[]
+): FieldMapping[] => {
+  return mappings.filter(m =>
+    m.notionField &&
+    VALID_VARIABLE_PROPERTIES.includes(m.variableProperty)
+  );
+};
+
+/**
+ * ペアのインポート設定を取得（未設定の項目はデフォルト値）
+ */
+export const getPairOptions = (pair: CollectionDbPair): PairImportOptions => ({
+  overwriteExisting: pair.overwriteExisting ?? DEFAULT_PAIR_OPTIONS.overwriteExisting,
+  deleteRemovedVariables: pair.deleteRemovedVariables ?? DEFAULT_PAIR_OPTIONS.deleteRemovedVariables,
+  strictAliasResolution: pair.strictAliasResolution ?? DEFAULT_PAIR_OPTIONS.strictAliasResolution,
+  mappings: pair.mappings && pair.mappings.length > 0 ? pair.mappings : DEFAULT_PAIR_OPTIONS.mappings,
+  unitConversion: { ...DEFAULT_PAIR_OPTIONS.unitConversion, ...pair.unitConversion }
+});
+
+/**
+ * 保存済みのペアにインポート設定を補完する
+ *
+ * ペア単位の設定を持たない古いデータでは、全体設定（overwrite_existing /
+ * delete_removed_variables / field_mappings）を各ペアの設定として引き継ぐ
+ *
+ * @param pairs - 保存済みのペア配列
+ * @param saved - 保存データ（移行前の全体設定を含む）
+ * @returns 全ての設定項目を持つペア配列
+ */
+export const migratePairSettings = (
+  pairs: CollectionDbPair[],
+  saved: SavedFormData
+): CollectionDbPair[] => {
+  const legacyMappings = saved.field_mappings ? normalizeFieldMappings(saved.field_mappings) : [];
+  const legacy: Partial<PairImportOptions> = {
+    overwriteExisting: saved.overwrite_existing,
+    deleteRemovedVariables: saved.delete_removed_variables,
+    ...(legacyMappings.length > 0 ? { mappings: legacyMappings } : {})
+  };
+
+  return pairs.map(pair => {
+    const mappings = pair.mappings ? normalizeFieldMappings(pair.mappings) : [];
+    return {
+      ...pair,
+      ...getPairOptions({
+        ...pair,
+        overwriteExisting: pair.overwriteExisting ?? legacy.overwriteExisting,
+        deleteRemovedVariables: pair.deleteRemovedVariables ?? legacy.deleteRemovedVariables,
+        mappings: mappings.length > 0 ? mappings : legacy.mappings
+      })
+    };
+  });
+};
@@ -0,0 +1,78 @@
+/**
+ * プラグイン（メインスレッド）とのメッセージ送受信ユーティリティ
+ * リクエストには requestId を付け、同じ requestId の応答のみを受け取る
+ */
+import { PluginResponse, PluginToUIMessage, UIToPluginMessage } from '@/shared/types';
+import { generateUUID } from '@/shared/uuid';
+
+// 応答がタイムアウトした場合の結果
+export type TimeoutResponse = { type: 'TIMEOUT'; requestId?: string; data: { message?: string } };
+
+// リクエストの実行中に届く進捗通知
+export type ProgressMessage = Extract<PluginToUIMessage, { type: 'PROGRESS' | 'LOADING' }>;
+
+const isProgressMessage = (msg: PluginToUIMessage): msg is ProgressMessage =>
+  msg.type === 'PROGRESS' || msg.type === 'LOADING';
+
+// プラグインへメッセージを送信（応答を待たない）
+export const postToPlugin = (message: UIToPluginMessage): void => {
+  parent.postMessage({ pluginMessage: message }, '*');
+};
+
+/**
+ * プラグインからのメッセージを購読する（リクエストへの応答以外の通知用）
+ * @returns 購読を解除する関数
+ */
+export const onPluginMessage = <T extends PluginToUIMessage['type']>(
+  types: T[],
+  handler: (message: Extract<PluginToUIMessage, { type: T }>) => void
+): (() => void) => {
+  const listener = (event: MessageEvent) => {
+    const msg = event.data?.pluginMessage as PluginToUIMessage | undefined;
+    if (msg && (types as string[]).includes(msg.type)) {
+      handler(msg as Extract<PluginToUIMessage, { type: T }>);
+    }
+  };
+  window.addEventListener('message', listener);
+  return () => window.removeEventListener('message', listener);
+};
+
+/**
+ * プラグインへリクエストを送信し、同じ requestId の応答（またはERROR）を待つ
+ * @param onProgress 同じリクエストの進捗通知（PROGRESS / LOADING）を受け取る
+ */
+export const sendRequest = <M extends UIToPluginMessage>(
+  message: M,
+  timeoutMs: number,
+  onProgress?: (message: ProgressMessage) => void
+): Promise<PluginResponse<M['type']> | TimeoutResponse> => {
+  const requestId = generateUUID();
+
+  return new Promise((resolve) => {
+    // クリーンアップ（応答・タイムアウトのどちらか一方のみで解決する）
+    const cleanup = () => {
+      window.removeEventListener('message', listener);
+      clearTimeout(timeoutId);
+    };
+
+    const listener = (event: MessageEvent) => {
+      const msg = event.data?.pluginMessage as PluginToUIMessage | undefined;
+      if (!msg || msg.requestId !== requestId) return;
+
+      if (isProgressMessage(msg)) {
+        onProgress?.(msg);
+        return;
+      }
+      cleanup();
+      resolve(msg as PluginResponse<M['type']>);
+    };
+    window.addEventListener('message', listener);
+
+    const timeoutId = window.setTimeout(() => {
+      cleanup();
+      resolve({ type: 'TIMEOUT', data: {} });
+    }, timeoutMs);
+
+    postToPlugin({ ...message, requestId });
+  });
+};
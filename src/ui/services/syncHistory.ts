@@ -0,0 +1,58 @@
+/**
+ * 同期履歴の表示用ユーティリティ
+ */
+
+import { SyncHistoryEntry, SyncHistoryKind } from '@/shared/types';
+
+export const SYNC_KIND_LABELS: Record<SyncHistoryKind, string> = {
+  import: 'Notion → Figma',
+  export: 'JSONエクスポート',
+  push: 'Figma → Notion',
+  revert: '元に戻す'
+};
+
+// 変数に対して行われた操作
+export type SyncHistoryTouch = 'created' | 'updated' | 'deleted' | 'errors';
+
+export const SYNC_TOUCH_LABELS: Record<SyncHistoryTouch, string> = {
+  created: '作成',
+  updated: '更新',
+  deleted: '削除',
+  errors: 'エラー'
+};
+
+// 履歴の1件で、指定した変数に行われた操作を返す（触れていない場合はnull）
+const findTouch = (entry: SyncHistoryEntry, name: string): SyncHistoryTouch | null => {
+  if (entry.created.includes(name)) return 'created';
+  if (entry.updated.includes(name)) return 'updated';
+  if (entry.deleted.includes(name)) return 'deleted';
+  // エラーは "名前: 理由" 形式
+  if (entry.errors.some(e => e.startsWith(`${name}: `))) return 'errors';
+  return null;
+};
+
+/**
+ * 指定した変数（group/name 形式のフルネーム）に最後に触れた同期を探す
+ * @param entries 新しい順の同期履歴
+ */
+export const findLastRunForVariable = (
+  entries: SyncHistoryEntry[],
+  name: string
+): { entry: SyncHistoryEntry; touch: SyncHistoryTouch } | null => {
+  const target = name.trim();
+  if (!target) return null;
+  for (const entry of entries) {
+    const touch = findTouch(entry, target);
+    if (touch) return { entry, touch };
+  }
+  return null;
+};
+
+// 件数のサマリー（例: 作成 2 / 更新 5 / エラー 1）
+export const summarizeSyncEntry = (entry: SyncHistoryEntry): string => {
+  if (entry.kind === 'export') return `${entry.tokenCount ?? 0} トークン`;
+  const parts = (['created', 'updated', 'deleted', 'errors'] as SyncHistoryTouch[])
+    .filter(touch => entry[touch].length > 0)
+    .map(touch => `${SYNC_TOUCH_LABELS[touch]} ${entry[touch].length}`);
+  return parts.length > 0 ? parts.join(' / ') : '変更なし';
+};